@@ -70,6 +70,8 @@ export default class RoomClient {
 		e2eKey,
 		consumerReplicas,
 		usePipeTransports,
+		lobby,
+		token,
 		stats,
 	}) {
 		logger.debug(
@@ -214,14 +216,29 @@ export default class RoomClient {
 				.catch(error => logger.warn('externalVideo.play() failed:%o', error));
 		}
 
-		// Protoo URL.
-		// @type {String}
-		this._protooUrl = getProtooUrl({
+		// Protoo URL query parameters.
+		// @type {Object}
+		this._protooUrlParams = {
 			roomId,
 			peerId,
 			consumerReplicas,
 			usePipeTransports,
-		});
+			lobby,
+			token,
+		};
+
+		// Protoo URL.
+		// @type {String}
+		this._protooUrl = getProtooUrl(this._protooUrlParams);
+
+		// Token given by the server in the 'join' response to resume the session
+		// in a new protoo connection if the current one is lost.
+		// @type {String}
+		this._resumptionToken = null;
+
+		// Whether we are resuming the session in a new protoo connection.
+		// @type {Boolean}
+		this._resuming = false;
 
 		// protoo-client Peer instance.
 		// @type {protooClient.Peer}
@@ -322,7 +339,14 @@ export default class RoomClient {
 
 		store.dispatch(stateActions.setRoomState('connecting'));
 
-		this._protoo.on('open', () => this._joinRoom());
+		this._protoo.on('open', () => {
+			// If resuming, wait for the server to tell whether the session was
+			// resumed ('sessionResumed') or a new one was created
+			// ('mediasoupVersion').
+			if (this._resuming) return;
+
+			this._joinRoom();
+		});
 
 		this._protoo.on('failed', () => {
 			store.dispatch(
@@ -334,6 +358,21 @@ export default class RoomClient {
 		});
 
 		this._protoo.on('disconnected', () => {
+			// If joined, keep the mediasoup Transports and resume the session in a
+			// new protoo connection with the resumption token.
+			if (this._resumptionToken) {
+				store.dispatch(
+					requestActions.notify({
+						type: 'error',
+						text: 'WebSocket disconnected, resuming the session...',
+					})
+				);
+
+				this._resumeSession();
+
+				return;
+			}
+
 			store.dispatch(
 				requestActions.notify({
 					type: 'error',
@@ -664,6 +703,45 @@ export default class RoomClient {
 
 					store.dispatch(stateActions.setMediasoupVersion(version));
 
+					// The server sends it to new sessions only, so if resuming it means
+					// that the session could not be resumed (it expired). Join again.
+					if (this._resuming) {
+						logger.warn('session could not be resumed, joining again');
+
+						this._resuming = false;
+						this._resumptionToken = null;
+
+						// Close mediasoup Transports.
+						if (this._sendTransport) {
+							this._sendTransport.close();
+							this._sendTransport = null;
+						}
+
+						if (this._recvTransport) {
+							this._recvTransport.close();
+							this._recvTransport = null;
+						}
+
+						this._joinRoom();
+					}
+
+					break;
+				}
+
+				case 'sessionResumed': {
+					// NOTE: The server sends notifications missed meanwhile and
+					// 'newConsumer' requests for pending Consumers after this.
+					this._resuming = false;
+
+					store.dispatch(stateActions.setRoomState('connected'));
+
+					store.dispatch(
+						requestActions.notify({
+							text: 'Session resumed',
+							timeout: 3000,
+						})
+					);
+
 					break;
 				}
 
@@ -887,6 +965,198 @@ export default class RoomClient {
 					break;
 				}
 
+				case 'peerMuted': {
+					const { peerId, moderatorPeerId, producerIds, closed } =
+						notification.data;
+					const { me, peers } = store.getState();
+					const moderatorName = this._getPeerDisplayName(moderatorPeerId);
+
+					if (peerId === me.id) {
+						for (const key of [
+							'_micProducer',
+							'_webcamProducer',
+							'_shareProducer',
+						]) {
+							const producer = this[key];
+
+							if (!producer || !producerIds.includes(producer.id)) continue;
+
+							if (closed) {
+								producer.close();
+
+								store.dispatch(stateActions.removeProducer(producer.id));
+
+								this[key] = null;
+							} else {
+								producer.pause();
+
+								store.dispatch(stateActions.setProducerPaused(producer.id));
+							}
+						}
+
+						store.dispatch(
+							requestActions.notify({
+								text: `${moderatorName} has ${closed ? 'stopped' : 'muted'} your media`,
+							})
+						);
+					} else if (peers[peerId]) {
+						store.dispatch(
+							requestActions.notify({
+								text: `${moderatorName} has ${closed ? 'stopped' : 'muted'} the media of ${peers[peerId].displayName}`,
+							})
+						);
+					}
+
+					break;
+				}
+
+				case 'peerKicked': {
+					const { peerId, moderatorPeerId, reason } = notification.data;
+					const { me, peers } = store.getState();
+					const moderatorName = this._getPeerDisplayName(moderatorPeerId);
+
+					if (peerId === me.id) {
+						store.dispatch(
+							requestActions.notify({
+								type: 'error',
+								text: `${moderatorName} has removed you from the room${reason ? `: ${reason}` : ''}`,
+							})
+						);
+
+						this.close();
+					} else if (peers[peerId]) {
+						store.dispatch(
+							requestActions.notify({
+								text: `${moderatorName} has removed ${peers[peerId].displayName} from the room`,
+							})
+						);
+					}
+
+					break;
+				}
+
+				case 'roomRestarting': {
+					store.dispatch(
+						requestActions.notify({
+							type: 'error',
+							text: 'The room is restarting, rejoining...',
+						})
+					);
+
+					// NOTE: The server closes the connection right after this
+					// notification. Wait a bit (with some randomness to not rejoin at
+					// the same time than others) and rejoin.
+					setTimeout(() => window.RUN(), 1000 + Math.random() * 2000);
+
+					break;
+				}
+
+				case 'recordingStateChanged': {
+					const { recording, moderatorPeerId } = notification.data;
+					let text;
+
+					if (moderatorPeerId) {
+						const moderatorName = this._getPeerDisplayName(moderatorPeerId);
+
+						text = `${moderatorName} has ${recording ? 'started' : 'stopped'} recording the room`;
+					} else {
+						text = recording
+							? 'The room is being recorded'
+							: 'The room is no longer being recorded';
+					}
+
+					store.dispatch(requestActions.notify({ text }));
+
+					break;
+				}
+
+				case 'adminMessage': {
+					const { text } = notification.data;
+
+					store.dispatch(
+						requestActions.notify({
+							text,
+							timeout: 10000,
+						})
+					);
+
+					break;
+				}
+
+				case 'serverShuttingDown': {
+					const { deadline } = notification.data;
+					const minutes = Math.max(
+						0,
+						Math.round((deadline - Date.now()) / 60000)
+					);
+
+					store.dispatch(
+						requestActions.notify({
+							type: 'error',
+							text: `The server is going to be shut down in ${minutes} minutes at most`,
+							timeout: 10000,
+						})
+					);
+
+					break;
+				}
+
+				case 'lobbyPeerWaiting': {
+					const { peerId, displayName } = notification.data;
+
+					store.dispatch(
+						requestActions.notify({
+							text: `${displayName} is waiting in the lobby (peerId: ${peerId})`,
+						})
+					);
+
+					break;
+				}
+
+				case 'lobbyPeerLeft': {
+					// Nothing to do.
+
+					break;
+				}
+
+				case 'lobbyAdmitted': {
+					const { peers } = notification.data;
+
+					this._onJoined({ peers });
+
+					break;
+				}
+
+				case 'lobbyDenied': {
+					const { moderatorPeerId, reason } = notification.data;
+
+					store.dispatch(
+						requestActions.notify({
+							type: 'error',
+							text: moderatorPeerId
+								? `A moderator did not let you in${reason ? `: ${reason}` : ''}`
+								: 'Nobody let you in, try again later',
+						})
+					);
+
+					this.close();
+
+					break;
+				}
+
+				case 'roomLockChanged': {
+					const { locked, moderatorPeerId } = notification.data;
+					const moderatorName = this._getPeerDisplayName(moderatorPeerId);
+
+					store.dispatch(
+						requestActions.notify({
+							text: `${moderatorName} has ${locked ? 'locked' : 'unlocked'} the room`,
+						})
+					);
+
+					break;
+				}
+
 				default: {
 					logger.error(
 						'unknown protoo notification.method "%s"',
@@ -2030,6 +2300,40 @@ export default class RoomClient {
 		);
 	}
 
+	async admitPeer(peerId) {
+		logger.debug('admitPeer() [peerId:"%s"]', peerId);
+
+		try {
+			await this._protoo.request('admitPeer', { peerId });
+		} catch (error) {
+			logger.error('admitPeer() | failed:%o', error);
+
+			store.dispatch(
+				requestActions.notify({
+					type: 'error',
+					text: `Could not admit peer: ${error}`,
+				})
+			);
+		}
+	}
+
+	async denyPeer(peerId, reason) {
+		logger.debug('denyPeer() [peerId:"%s"]', peerId);
+
+		try {
+			await this._protoo.request('denyPeer', { peerId, reason });
+		} catch (error) {
+			logger.error('denyPeer() | failed:%o', error);
+
+			store.dispatch(
+				requestActions.notify({
+					type: 'error',
+					text: `Could not deny peer: ${error}`,
+				})
+			);
+		}
+	}
+
 	async getSendTransportRemoteStats() {
 		logger.debug('getSendTransportRemoteStats()');
 
@@ -2442,79 +2746,32 @@ export default class RoomClient {
 
 			// Join now into the room.
 			// NOTE: Don't send our RTP capabilities if we don't want to consume.
-			const { peers } = await this._protoo.request('join', {
-				displayName: this._displayName,
-				device: this._device,
-				rtpCapabilities: this._consume
-					? this._mediasoupDevice.rtpCapabilities
-					: undefined,
-				sctpCapabilities:
-					this._useDataChannel && this._consume
-						? this._mediasoupDevice.sctpCapabilities
+			const { peers, waitingInLobby, resumptionToken } =
+				await this._protoo.request('join', {
+					displayName: this._displayName,
+					device: this._device,
+					rtpCapabilities: this._consume
+						? this._mediasoupDevice.rtpCapabilities
 						: undefined,
-			});
-
-			store.dispatch(stateActions.setRoomState('connected'));
-
-			// Clean all the existing notifcations.
-			store.dispatch(stateActions.removeAllNotifications());
-
-			store.dispatch(
-				requestActions.notify({
-					text: 'You are in the room!',
-					timeout: 3000,
-				})
-			);
-
-			for (const serializedPeer of peers) {
-				const { peerId, displayName, device } = serializedPeer;
-				const peer = {
-					id: peerId,
-					displayName,
-					device,
-				};
+					sctpCapabilities:
+						this._useDataChannel && this._consume
+							? this._mediasoupDevice.sctpCapabilities
+							: undefined,
+				});
 
-				store.dispatch(
-					stateActions.addPeer({ ...peer, consumers: [], dataConsumers: [] })
-				);
-			}
+			this._resumptionToken = resumptionToken;
 
-			// Enable mic/webcam.
-			if (this._produce) {
-				// Set our media capabilities.
+			if (waitingInLobby) {
 				store.dispatch(
-					stateActions.setMediaCapabilities({
-						canSendMic: this._mediasoupDevice.canProduce('audio'),
-						canSendWebcam: this._mediasoupDevice.canProduce('video'),
+					requestActions.notify({
+						text: 'Waiting for a moderator to let you in...',
 					})
 				);
 
-				if (this._useMic) {
-					this.enableMic();
-				}
-
-				const devicesCookie = cookiesManager.getDevices();
-
-				if (
-					this._useWebcam ||
-					(this._useWebcam === undefined &&
-						(!devicesCookie || devicesCookie.webcamEnabled)) ||
-					this._externalVideo
-				) {
-					this.enableWebcam();
-				}
-
-				if (this._useDataChannel) {
-					this.enableChatDataProducer();
-					this.enableBotDataProducer();
-				}
+				return;
 			}
 
-			if (this._stats) {
-				const { me } = store.getState();
-
-				store.dispatch(stateActions.setRoomStatsPeerId(me.id));
-			}
+			this._onJoined({ peers });
 		} catch (error) {
 			logger.error('_joinRoom() failed:%o', error);
 
@@ -2529,6 +2786,23 @@ export default class RoomClient {
 		}
 	}
 
+	_resumeSession() {
+		logger.debug('_resumeSession()');
+
+		// Close the current protoo Peer (which would retry with the same URL)
+		// without closing the room.
+		this._protoo.removeAllListeners();
+		this._protoo.close();
+
+		this._resuming = true;
+		this._protooUrl = getProtooUrl({
+			...this._protooUrlParams,
+			resumptionToken: this._resumptionToken,
+		});
+
+		this.join();
+	}
+
 	async _updateWebcams() {
 		logger.debug('_updateWebcams()');
 
@@ -2562,6 +2836,80 @@ export default class RoomClient {
 		store.dispatch(stateActions.setCanChangeWebcam(this._webcams.size > 1));
 	}
 
+	_onJoined({ peers }) {
+		logger.debug('_onJoined()');
+
+		store.dispatch(stateActions.setRoomState('connected'));
+
+		// Clean all the existing notifcations.
+		store.dispatch(stateActions.removeAllNotifications());
+
+		store.dispatch(
+			requestActions.notify({
+				text: 'You are in the room!',
+				timeout: 3000,
+			})
+		);
+
+		for (const serializedPeer of peers) {
+			const { peerId, displayName, device } = serializedPeer;
+			const peer = {
+				id: peerId,
+				displayName,
+				device,
+			};
+
+			store.dispatch(
+				stateActions.addPeer({ ...peer, consumers: [], dataConsumers: [] })
+			);
+		}
+
+		// Enable mic/webcam.
+		if (this._produce) {
+			// Set our media capabilities.
+			store.dispatch(
+				stateActions.setMediaCapabilities({
+					canSendMic: this._mediasoupDevice.canProduce('audio'),
+					canSendWebcam: this._mediasoupDevice.canProduce('video'),
+				})
+			);
+
+			if (this._useMic) {
+				this.enableMic();
+			}
+
+			const devicesCookie = cookiesManager.getDevices();
+
+			if (
+				this._useWebcam ||
+				(this._useWebcam === undefined &&
+					(!devicesCookie || devicesCookie.webcamEnabled)) ||
+				this._externalVideo
+			) {
+				this.enableWebcam();
+			}
+
+			if (this._useDataChannel) {
+				this.enableChatDataProducer();
+				this.enableBotDataProducer();
+			}
+		}
+
+		if (this._stats) {
+			const { me } = store.getState();
+
+			store.dispatch(stateActions.setRoomStatsPeerId(me.id));
+		}
+	}
+
+	_getPeerDisplayName(peerId) {
+		const { me, peers } = store.getState();
+
+		if (peerId === me.id) return 'You';
+
+		return peers[peerId]?.displayName ?? 'A moderator';
+	}
+
 	_getWebcamType(device) {
 		if (/(back|rear)/i.test(device.label)) {
 			logger.debug('_getWebcamType() | it seems to be a back camera');
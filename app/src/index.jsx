@@ -59,7 +59,8 @@ async function run() {
 	}
 
 	const urlParser = new UrlParse(window.location.href, true);
-	const peerId = randomString({ length: 8 }).toLowerCase();
+	const peerId =
+		urlParser.query.peerId || randomString({ length: 8 }).toLowerCase();
 	let roomId = urlParser.query.roomId;
 	let displayName =
 		urlParser.query.displayName || (cookiesManager.getUser() || {}).displayName;
@@ -102,6 +103,8 @@ async function run() {
 	const e2eKey = urlParser.query.e2eKey;
 	const consumerReplicas = urlParser.query.consumerReplicas;
 	const usePipeTransports = urlParser.query.usePipeTransports === 'true';
+	const lobby = urlParser.query.lobby === 'true';
+	const token = urlParser.query.token;
 
 	// Enable face detection on demand.
 	if (faceDetection)
@@ -160,7 +163,8 @@ async function run() {
 			case 'throttleSecret':
 			case 'e2eKey':
 			case 'consumerReplicas':
-			case 'usePipeTransports': {
+			case 'usePipeTransports':
+			case 'lobby': {
 				break;
 			}
 
@@ -226,6 +230,8 @@ async function run() {
 		e2eKey,
 		consumerReplicas,
 		usePipeTransports,
+		lobby,
+		token,
 		stats,
 	});
 
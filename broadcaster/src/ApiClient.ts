@@ -1,7 +1,9 @@
+import * as timersPromises from 'node:timers/promises';
 import * as undici from 'undici';
 import * as undiciTypes from 'undici';
 
 import { Logger } from './Logger';
+import { EnhancedEventEmitter } from './enhancedEvents';
 import {
 	RequestName,
 	RequestApiMethod,
@@ -9,26 +11,72 @@ import {
 	RequestData,
 	RequestResponseData,
 	TypedApiRequest,
+	NotificationName,
+	NotificationData,
 } from './signaling/apiMessages';
 import { BroadcasterApiClientError } from './errors';
 import * as utils from './utils';
+import type { RoomId, PeerId } from './types';
 
 const logger = new Logger('ApiClient');
 
+// Time to wait for the response headers and for each chunk of the body.
+const REQUEST_TIMEOUT_MS = 10000;
+// Idempotent requests are retried these times (with exponential backoff) if
+// they fail due to network errors or server errors.
+const IDEMPOTENT_REQUEST_MAX_RETRIES = 3;
+const IDEMPOTENT_REQUEST_RETRY_BASE_DELAY_MS = 500;
+// The server sends a heartbeat every 15 seconds over the event stream, so it's
+// considered dead if nothing is received within this time.
+const EVENT_STREAM_TIMEOUT_MS = 45000;
+// The event stream is reopened (with exponential backoff) if it fails.
+const EVENT_STREAM_RETRY_BASE_DELAY_MS = 1000;
+const EVENT_STREAM_RETRY_MAX_DELAY_MS = 30000;
+
 export type ApiClientCreateOptions = {
 	baseUrl: string;
+	token?: string;
+	/**
+	 * Whether the TLS certificate of the server must be verified. Default true.
+	 */
+	verifyTls?: boolean;
+};
+
+export type ApiClientEvents = {
+	[Name in NotificationName]: NotificationData<Name> extends undefined
+		? []
+		: [NotificationData<Name>];
+} & {
+	/**
+	 * Emitted when the event stream is opened (also when reopened). Since
+	 * notifications sent while it was not open are lost, the state of the Room
+	 * should be fetched again.
+	 */
+	'event-stream-open': [];
+	/**
+	 * Emitted when the event stream fails. It's reopened unless the error is
+	 * not retriable (such as a 404 because the BroadcasterPeer is gone).
+	 */
+	'event-stream-error': [Error];
 };
 
 type ApiClientConstructorOptions = {
 	baseUrl: string;
+	token?: string;
 	httpsAgent?: undiciTypes.Agent;
 };
 
-export class ApiClient {
+export class ApiClient extends EnhancedEventEmitter<ApiClientEvents> {
 	readonly #baseUrl: string;
+	readonly #token?: string;
 	readonly #httpsAgent?: undiciTypes.Agent;
+	#eventStreamAbortController?: AbortController;
 
-	static create({ baseUrl }: ApiClientCreateOptions): ApiClient {
+	static create({
+		baseUrl,
+		token,
+		verifyTls = true,
+	}: ApiClientCreateOptions): ApiClient {
 		logger.debug('create()');
 
 		let httpsAgent: undiciTypes.Agent | undefined;
@@ -36,23 +84,31 @@ export class ApiClient {
 		if (utils.isHttpsUrl(baseUrl)) {
 			httpsAgent = new undici.Agent({
 				connect: {
-					rejectUnauthorized: false,
+					rejectUnauthorized: verifyTls,
 				},
 			});
 		}
 
 		const apiClient = new ApiClient({
 			baseUrl,
+			token,
 			httpsAgent,
 		});
 
 		return apiClient;
 	}
 
-	private constructor({ baseUrl, httpsAgent }: ApiClientConstructorOptions) {
+	private constructor({
+		baseUrl,
+		token,
+		httpsAgent,
+	}: ApiClientConstructorOptions) {
+		super();
+
 		logger.debug('constructor()');
 
 		this.#baseUrl = baseUrl;
+		this.#token = token;
 		this.#httpsAgent = httpsAgent;
 	}
 
@@ -82,7 +138,7 @@ export class ApiClient {
 				path
 			);
 
-			this.requestInternal({
+			this.requestWithRetries({
 				name,
 				method,
 				path,
@@ -91,7 +147,7 @@ export class ApiClient {
 			} as TypedApiRequest<RequestName>).catch(error => {
 				if (
 					error instanceof BroadcasterApiClientError &&
-					name === 'disconnect'
+					(name === 'disconnect' || name === 'closePlainTransport')
 				) {
 					logger.debug(
 						`request() | request failed [name:%o, method:%o, path:%o]: %s`,
@@ -127,6 +183,79 @@ export class ApiClient {
 		});
 	}
 
+	/**
+	 * Opens the Server-Sent Events stream of the given BroadcasterPeer and emits
+	 * each received notification as an event with the same name. An already
+	 * open event stream is closed first.
+	 */
+	openEventStream({
+		roomId,
+		peerId,
+	}: {
+		roomId: RoomId;
+		peerId: PeerId;
+	}): void {
+		logger.debug('openEventStream() [roomId:%o, peerId:%o]', roomId, peerId);
+
+		this.closeEventStream();
+
+		const abortController = new AbortController();
+
+		this.#eventStreamAbortController = abortController;
+
+		void this.runEventStream({
+			path: `/rooms/${roomId}/broadcasters/${peerId}/events`,
+			signal: abortController.signal,
+		});
+	}
+
+	closeEventStream(): void {
+		if (!this.#eventStreamAbortController) {
+			return;
+		}
+
+		logger.debug('closeEventStream()');
+
+		this.#eventStreamAbortController.abort();
+		this.#eventStreamAbortController = undefined;
+	}
+
+	/**
+	 * Sends the request and, if idempotent (GET and DELETE), retries it with
+	 * exponential backoff if it fails due to a network error or a server error.
+	 */
+	private async requestWithRetries(
+		request: TypedApiRequest<RequestName>
+	): Promise<void> {
+		const maxRetries =
+			request.method === 'GET' || request.method === 'DELETE'
+				? IDEMPOTENT_REQUEST_MAX_RETRIES
+				: 0;
+
+		for (let retry = 0; ; ++retry) {
+			try {
+				await this.requestInternal(request);
+
+				return;
+			} catch (error) {
+				if (retry >= maxRetries || !this.isRetriableError(error)) {
+					throw error;
+				}
+
+				const delay = IDEMPOTENT_REQUEST_RETRY_BASE_DELAY_MS * 2 ** retry;
+
+				logger.debug(
+					'requestWithRetries() | request failed, retrying in %o ms [name:%o]: %s',
+					delay,
+					request.name,
+					(error as Error).message
+				);
+
+				await timersPromises.setTimeout(delay);
+			}
+		}
+	}
+
 	private async requestInternal(
 		request: TypedApiRequest<RequestName>
 	): Promise<void> {
@@ -142,10 +271,13 @@ export class ApiClient {
 				headers: {
 					Origin: this.#baseUrl,
 					'User-Agent': 'mediasoup-demo-broadcaster',
+					Authorization: this.#token ? `Bearer ${this.#token}` : undefined,
 					'Content-Type': data ? 'application/json' : undefined,
 				},
 				body: data ? JSON.stringify(data) : undefined,
 				dispatcher: this.#httpsAgent,
+				headersTimeout: REQUEST_TIMEOUT_MS,
+				bodyTimeout: REQUEST_TIMEOUT_MS,
 			});
 		} catch (error) {
 			throw new BroadcasterApiClientError((error as Error).message);
@@ -189,6 +321,184 @@ export class ApiClient {
 		}
 	}
 
+	/**
+	 * Reads the event stream and reopens it (with exponential backoff) if it
+	 * fails until closed or a non retriable error happens.
+	 */
+	private async runEventStream({
+		path,
+		signal,
+	}: {
+		path: string;
+		signal: AbortSignal;
+	}): Promise<void> {
+		let retry = 0;
+
+		while (!signal.aborted) {
+			let error: Error;
+
+			try {
+				await this.readEventStream({
+					path,
+					signal,
+					onOpen: () => {
+						retry = 0;
+					},
+				});
+
+				error = new BroadcasterApiClientError('event stream ended by server');
+			} catch (error2) {
+				if (signal.aborted) {
+					return;
+				}
+
+				error = error2 as Error;
+			}
+
+			this.safeEmit('event-stream-error', error);
+
+			if (!this.isRetriableError(error)) {
+				logger.warn(`runEventStream() | event stream failed: ${error.message}`);
+
+				return;
+			}
+
+			const delay = Math.min(
+				EVENT_STREAM_RETRY_BASE_DELAY_MS * 2 ** retry,
+				EVENT_STREAM_RETRY_MAX_DELAY_MS
+			);
+
+			++retry;
+
+			logger.debug(
+				'runEventStream() | event stream failed, reopening it in %o ms: %s',
+				delay,
+				error.message
+			);
+
+			try {
+				await timersPromises.setTimeout(delay, undefined, { signal });
+			} catch {
+				// Event stream closed.
+			}
+		}
+	}
+
+	private async readEventStream({
+		path,
+		signal,
+		onOpen,
+	}: {
+		path: string;
+		signal: AbortSignal;
+		onOpen: () => void;
+	}): Promise<void> {
+		let response: undici.Dispatcher.ResponseData;
+
+		try {
+			response = await undici.request(`${this.#baseUrl}${path}`, {
+				method: 'GET',
+				headers: {
+					Origin: this.#baseUrl,
+					'User-Agent': 'mediasoup-demo-broadcaster',
+					Authorization: this.#token ? `Bearer ${this.#token}` : undefined,
+					Accept: 'text/event-stream',
+				},
+				dispatcher: this.#httpsAgent,
+				headersTimeout: REQUEST_TIMEOUT_MS,
+				bodyTimeout: EVENT_STREAM_TIMEOUT_MS,
+				signal,
+			});
+		} catch (error) {
+			throw new BroadcasterApiClientError((error as Error).message);
+		}
+
+		if (!this.isOkStatusCode(response.statusCode)) {
+			let errorText: string | undefined = undefined;
+
+			if (this.isContentTypeText(response.headers['content-type'])) {
+				errorText = await response.body.text();
+			} else {
+				// Always consume the body anyway.
+				await response.body.dump();
+			}
+
+			throw new BroadcasterApiClientError(
+				errorText ?? 'unknown error',
+				response.statusCode
+			);
+		}
+
+		logger.debug('readEventStream() | event stream open');
+
+		onOpen();
+
+		this.safeEmit('event-stream-open');
+
+		let buffer = '';
+
+		response.body.setEncoding('utf8');
+
+		try {
+			for await (const chunk of response.body) {
+				buffer += chunk as string;
+
+				// Events are separated by an empty line.
+				for (
+					let idx = buffer.indexOf('\n\n');
+					idx !== -1;
+					idx = buffer.indexOf('\n\n')
+				) {
+					this.handleEventStreamEvent(buffer.slice(0, idx));
+
+					buffer = buffer.slice(idx + 2);
+				}
+			}
+		} catch (error) {
+			throw new BroadcasterApiClientError((error as Error).message);
+		}
+	}
+
+	private handleEventStreamEvent(event: string): void {
+		let name: string | undefined;
+		const dataLines: string[] = [];
+
+		// NOTE: Other fields and comments (heartbeats) are ignored.
+		for (const line of event.split('\n')) {
+			if (line.startsWith('event:')) {
+				name = line.slice('event:'.length).trim();
+			} else if (line.startsWith('data:')) {
+				dataLines.push(line.slice('data:'.length).trimStart());
+			}
+		}
+
+		if (!name || dataLines.length === 0) {
+			return;
+		}
+
+		let data: unknown;
+
+		try {
+			data = JSON.parse(dataLines.join('\n'));
+		} catch (error) {
+			logger.warn(
+				`handleEventStreamEvent() | invalid data in %o notification: ${error}`,
+				name
+			);
+
+			return;
+		}
+
+		logger.debug('<·· notification [name:%o]', name);
+
+		// NOTE: Notifications unknown to us (sent by a newer server) are emitted
+		// anyway.
+		this.safeEmit(
+			name as NotificationName,
+			...((data === null ? [] : [data]) as ApiClientEvents[NotificationName])
+		);
+	}
+
 	private serializePath(path: RequestApiPath<RequestName>): string {
 		let serializedPath: string = '';
 
@@ -205,6 +515,20 @@ export class ApiClient {
 		return serializedPath;
 	}
 
+	/**
+	 * Whether the error is due to the network (no status code) or the server
+	 * (5XX or 429 status code) so the request may succeed if retried.
+	 */
+	private isRetriableError(error: unknown): boolean {
+		if (!(error instanceof BroadcasterApiClientError)) {
+			return false;
+		}
+
+		const { statusCode } = error;
+
+		return statusCode === undefined || statusCode >= 500 || statusCode === 429;
+	}
+
 	private isOkStatusCode(statusCode: number): boolean {
 		return statusCode >= 200 && statusCode < 300;
 	}
@@ -1,23 +1,129 @@
-import * as util from 'node:util';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import * as timersPromises from 'node:timers/promises';
 import type * as mediasoupTypes from 'mediasoup-client/types';
 
 import { Logger } from './Logger';
+import { EnhancedEventEmitter } from './enhancedEvents';
 import { ApiClient } from './ApiClient';
-import { MediaClient } from './MediaClient';
+import type {
+	RequestResponseData,
+	NotificationName,
+} from './signaling/apiMessages';
+import { MediaClient, MediaClientSendOptions } from './MediaClient';
 import { FFmpeg } from './mediaClients/FFmpeg';
 import { GStreamer } from './mediaClients/GStreamer';
-import { BroadcasterInvalidStateError } from './errors';
+import { Builtin } from './mediaClients/Builtin';
+import {
+	createSrtpParameters,
+	getLocalIpTowards,
+} from './mediaClients/mediaClientUtils';
+import { SctpAssociation } from './sctp/SctpAssociation';
+import { SCTP_PPIDS } from './sctp/sctpPacket';
+import { BroadcasterError, BroadcasterInvalidStateError } from './errors';
 import * as utils from './utils';
-import type { RoomId, PeerId, PeerDevice, MediaClientType } from './types';
+import type {
+	RoomId,
+	PeerId,
+	PeerDevice,
+	MediaClientType,
+	Source,
+	PeerProducersInfo,
+	PeerDataProducersInfo,
+	PlainTransportRemoteData,
+	SrtpCryptoSuite,
+	SrtpParameters,
+	MediasoupStat,
+	TestPatternOptions,
+} from './types';
 
 const logger = new Logger('Broadcaster');
 
+const DEFAULT_CONSUME_POLL_INTERVAL = 2000;
+const DEFAULT_HEALTH_CHECK_INTERVAL = 5000;
+const REJOIN_BASE_DELAY = 1000;
+const REJOIN_MAX_DELAY = 30000;
+// SCTP stream of the chat DataProducer.
+const CHAT_STREAM_ID = 0;
+
 export type BroadcasterCreateOptions = {
 	baseUrl: string;
 	roomId: RoomId;
 	peerId: PeerId;
 	displayName: string;
 	device: PeerDevice;
+	/**
+	 * Access token (required if the server is configured to require them).
+	 */
+	token?: string;
+	/**
+	 * Whether the TLS certificate of the server must be verified. Default true.
+	 */
+	verifyTls?: boolean;
+	/**
+	 * Interval (in ms) to check that the BroadcasterPeer still exists in the
+	 * server. If not, the Broadcaster rejoins the Room. Default 5000, 0 disables
+	 * it.
+	 */
+	healthCheckInterval?: number;
+	/**
+	 * Encrypt the RTP and RTCP of PlainTransports with SRTP. Default false.
+	 */
+	enableSrtp?: boolean;
+	/**
+	 * SRTP crypto suite. Default 'AES_CM_128_HMAC_SHA1_80' (FFmpeg only supports
+	 * the AES_CM_128_HMAC_SHA1 ones).
+	 */
+	srtpCryptoSuite?: SrtpCryptoSuite;
+};
+
+export type BroadcasterEvents = {
+	/**
+	 * The BroadcasterPeer is gone (or the server is unreachable). MediaClients
+	 * are closed and the Broadcaster starts rejoining the Room.
+	 */
+	disconnected: [Error];
+	/**
+	 * A new attempt to rejoin the Room (starting at 1).
+	 */
+	rejoining: [number];
+	/**
+	 * The Broadcaster rejoined the Room. Ongoing productions and consumptions
+	 * are restarted with new MediaClients.
+	 */
+	rejoined: [];
+	/**
+	 * A chat message of another Peer (see consumeChat()).
+	 */
+	'chat-message': [{ peerId: PeerId; text: string }];
+};
+
+/**
+ * A remote Producer being consumed into a MediaClient, each one in its own
+ * PlainTransport.
+ */
+type BroadcasterConsumption = {
+	peerId: PeerId;
+	producerId: string;
+	transportId: string;
+	consumerId: string;
+};
+
+/**
+ * The chat DataProducer of the Broadcaster, in its own SCTP enabled
+ * PlainTransport.
+ */
+type BroadcasterChatSender = {
+	transportId: string;
+	sctpAssociation: SctpAssociation;
+};
+
+/**
+ * A chat DataProducer of another Peer being consumed in a SCTP stream.
+ */
+type BroadcasterChatConsumption = {
+	peerId: PeerId;
+	streamId: number;
 };
 
 type BroadcasterConstructorOptions = {
@@ -28,18 +134,28 @@ type BroadcasterConstructorOptions = {
 	device: PeerDevice;
 	apiClient: ApiClient;
 	routerRtpCapabilities: mediasoupTypes.RtpCapabilities;
+	srtpCryptoSuite?: SrtpCryptoSuite;
 };
 
-export class Broadcaster {
+export class Broadcaster extends EnhancedEventEmitter<BroadcasterEvents> {
 	readonly #baseUrl: string;
 	readonly #roomId: RoomId;
 	readonly #peerId: PeerId;
 	readonly #displayName: string;
 	readonly #device: PeerDevice;
 	readonly #apiClient: ApiClient;
-	readonly #routerRtpCapabilities: mediasoupTypes.RtpCapabilities;
+	#routerRtpCapabilities: mediasoupTypes.RtpCapabilities;
+	// Only if SRTP is enabled.
+	readonly #srtpCryptoSuite?: SrtpCryptoSuite;
 	readonly #mediaClients: Set<MediaClient> = new Set();
+	readonly #sctpAssociations: Set<SctpAssociation> = new Set();
+	#chatSender?: BroadcasterChatSender;
+	#chatSenderPromise?: Promise<BroadcasterChatSender>;
+	readonly #closeAbortController: AbortController = new AbortController();
 	#closePromise?: Promise<void>;
+	#rejoinPromise?: Promise<void>;
+	// Number of times the BroadcasterPeer has been lost.
+	#rejoinCount: number = 0;
 
 	static async create({
 		baseUrl,
@@ -47,11 +163,18 @@ export class Broadcaster {
 		peerId,
 		displayName,
 		device,
+		token,
+		verifyTls,
+		healthCheckInterval = DEFAULT_HEALTH_CHECK_INTERVAL,
+		enableSrtp = false,
+		srtpCryptoSuite = 'AES_CM_128_HMAC_SHA1_80',
 	}: BroadcasterCreateOptions): Promise<Broadcaster> {
 		logger.debug('create()');
 
 		const apiClient = ApiClient.create({
 			baseUrl,
+			token,
+			verifyTls,
 		});
 
 		logger.info(
@@ -63,35 +186,14 @@ export class Broadcaster {
 			device
 		);
 
-		const { routerRtpCapabilities } = await apiClient.request({
-			name: 'getRouterRtpCapabilities',
-			method: 'GET',
-			path: ['rooms', { roomId }],
-		});
-
-		logger.info('create() | got mediasoup Router RTP capabilities');
-
-		await apiClient.request({
-			name: 'createBroadcasterPeer',
-			method: 'POST',
-			path: ['rooms', { roomId }, 'broadcasters'],
-			data: {
-				peerId: peerId,
-				displayName: displayName,
-				device: device,
-			},
-		});
-
-		logger.info('create() | Broadcaster created in the Room');
-
-		await apiClient.request({
-			name: 'join',
-			method: 'POST',
-			path: ['rooms', { roomId }, 'broadcasters', { peerId }, 'join'],
+		const routerRtpCapabilities = await joinRoom({
+			apiClient,
+			roomId,
+			peerId,
+			displayName,
+			device,
 		});
 
-		logger.info('create() | Broadcaster joined the Room');
-
 		const broadcaster = new Broadcaster({
 			baseUrl,
 			roomId,
@@ -100,8 +202,15 @@ export class Broadcaster {
 			device,
 			apiClient,
 			routerRtpCapabilities,
+			srtpCryptoSuite: enableSrtp ? srtpCryptoSuite : undefined,
 		});
 
+		apiClient.openEventStream({ roomId, peerId });
+
+		if (healthCheckInterval > 0) {
+			void broadcaster.runHealthChecks(healthCheckInterval);
+		}
+
 		return broadcaster;
 	}
 
@@ -113,7 +222,10 @@ export class Broadcaster {
 		device,
 		apiClient,
 		routerRtpCapabilities,
+		srtpCryptoSuite,
 	}: BroadcasterConstructorOptions) {
+		super();
+
 		logger.debug('constructor()');
 
 		this.#baseUrl = baseUrl;
@@ -123,6 +235,15 @@ export class Broadcaster {
 		this.#device = device;
 		this.#apiClient = apiClient;
 		this.#routerRtpCapabilities = routerRtpCapabilities;
+		this.#srtpCryptoSuite = srtpCryptoSuite;
+	}
+
+	/**
+	 * ApiClient used to talk to the server. It emits the notifications of the
+	 * Room (see ApiClientEvents) as they happen.
+	 */
+	get apiClient(): ApiClient {
+		return this.#apiClient;
 	}
 
 	async close(): Promise<void> {
@@ -132,20 +253,28 @@ export class Broadcaster {
 			return this.#closePromise;
 		}
 
+		this.#closeAbortController.abort();
+
+		this.#apiClient.closeEventStream();
+
 		const promises: Promise<void>[] = [];
 
+		// NOTE: Wait for an ongoing rejoin (it stops once closed) so it does not
+		// create the BroadcasterPeer again once disconnected.
 		promises.push(
-			this.#apiClient
-				.request({
-					name: 'disconnect',
-					method: 'DELETE',
-					path: [
-						'rooms',
-						{ roomId: this.#roomId },
-						'broadcasters',
-						{ peerId: this.#peerId },
-					],
-				})
+			(this.#rejoinPromise ?? Promise.resolve())
+				.then(async () =>
+					this.#apiClient.request({
+						name: 'disconnect',
+						method: 'DELETE',
+						path: [
+							'rooms',
+							{ roomId: this.#roomId },
+							'broadcasters',
+							{ peerId: this.#peerId },
+						],
+					})
+				)
 				.then(() => {
 					logger.info('close() | Broadcaster disconnected from the Room');
 				})
@@ -160,78 +289,317 @@ export class Broadcaster {
 			promises.push(mediaClient.close());
 		}
 
+		for (const sctpAssociation of this.#sctpAssociations) {
+			sctpAssociation.close();
+		}
+
 		this.#closePromise = Promise.all(promises).then(() => undefined);
 
 		return this.#closePromise;
 	}
 
+	/**
+	 * Produces the audio and video of the given media file. It resolves once
+	 * the whole media file has been sent (never if `loop` is set) or the
+	 * Broadcaster is closed. If the Broadcaster rejoins the Room meanwhile, the
+	 * media file is sent again from the beginning.
+	 */
 	async produceMediaFile({
 		mediaClientType,
 		mediaFile,
+		loop = false,
 	}: {
 		mediaClientType: MediaClientType;
 		mediaFile: string;
+		/**
+		 * Send the media file again and again. Not supported by all MediaClients.
+		 */
+		loop?: boolean;
 	}): Promise<void> {
 		logger.debug(
-			'produceMediaFile() [mediaClientType:%o, mediaFile:%o]',
+			'produceMediaFile() [mediaClientType:%o, mediaFile:%o, loop:%o]',
 			mediaClientType,
-			mediaFile
+			mediaFile,
+			loop
 		);
 
 		this.assertNotClosed();
 
-		const mediaClient = await this.createMediaClient({ mediaClientType });
+		await this.runWithMediaClient({
+			caller: 'produceMediaFile',
+			mediaClientType,
+			run: async mediaClient => {
+				const sendOptions = await this.produce({ mediaClient });
 
-		const audioPlainTransportRemoteData = await this.#apiClient.request({
-			name: 'createPlainTransport',
-			method: 'POST',
+				await mediaClient.sendMediaFile({
+					...sendOptions,
+					mediaFile,
+					loop,
+				});
+			},
+		});
+	}
+
+	/**
+	 * Produces a synthetic test pattern (video) and tone (audio), optionally
+	 * with the current time burned into the video to measure end-to-end latency.
+	 * It resolves once the Broadcaster is closed.
+	 */
+	async produceTestPattern({
+		mediaClientType,
+		width = 1280,
+		height = 720,
+		frameRate = 30,
+		videoBitrate = 1000,
+		toneFrequency = 440,
+		timestampOverlay = false,
+	}: {
+		mediaClientType: MediaClientType;
+	} & Partial<TestPatternOptions>): Promise<void> {
+		logger.debug(
+			'produceTestPattern() [mediaClientType:%o, width:%o, height:%o, frameRate:%o, videoBitrate:%o, toneFrequency:%o, timestampOverlay:%o]',
+			mediaClientType,
+			width,
+			height,
+			frameRate,
+			videoBitrate,
+			toneFrequency,
+			timestampOverlay
+		);
+
+		this.assertNotClosed();
+
+		await this.runWithMediaClient({
+			caller: 'produceTestPattern',
+			mediaClientType,
+			run: async mediaClient => {
+				const sendOptions = await this.produce({ mediaClient });
+
+				await mediaClient.sendTestPattern({
+					...sendOptions,
+					width,
+					height,
+					frameRate,
+					videoBitrate,
+					toneFrequency,
+					timestampOverlay,
+				});
+			},
+		});
+	}
+
+	/**
+	 * Gets the Producers of other Peers in the Room (Peers without Producers are
+	 * not included).
+	 */
+	async getPeerProducersInfos(): Promise<PeerProducersInfo[]> {
+		logger.debug('getPeerProducersInfos()');
+
+		this.assertNotClosed();
+
+		const { peerProducersInfos } = await this.#apiClient.request({
+			name: 'getPeerProducersInfos',
+			method: 'GET',
 			path: [
 				'rooms',
 				{ roomId: this.#roomId },
 				'broadcasters',
 				{ peerId: this.#peerId },
-				'transports',
+				'peerProducersInfos',
 			],
-			data: {
-				comedia: true,
-				rtcpMux: false,
-				appData: {
-					direction: 'producer',
-				},
-			},
 		});
 
-		logger.info('produceMediaFile() | audio PlainTransport created');
+		return peerProducersInfos;
+	}
 
-		const videoPlainTransportRemoteData = await this.#apiClient.request({
-			name: 'createPlainTransport',
-			method: 'POST',
+	/**
+	 * Gets the chat DataProducers of other Peers in the Room (Peers without
+	 * them are not included).
+	 */
+	async getPeerDataProducersInfos(): Promise<PeerDataProducersInfo[]> {
+		logger.debug('getPeerDataProducersInfos()');
+
+		this.assertNotClosed();
+
+		const { peerDataProducersInfos } = await this.#apiClient.request({
+			name: 'getPeerDataProducersInfos',
+			method: 'GET',
+			path: [
+				'rooms',
+				{ roomId: this.#roomId },
+				'broadcasters',
+				{ peerId: this.#peerId },
+				'peerDataProducersInfos',
+			],
+		});
+
+		return peerDataProducersInfos;
+	}
+
+	/**
+	 * Sends a message to the chat of the Room. The chat DataProducer is created
+	 * the first time (and again if the Broadcaster rejoins the Room).
+	 */
+	async sendChatMessage(text: string): Promise<void> {
+		logger.debug('sendChatMessage()');
+
+		this.assertNotClosed();
+
+		const { sctpAssociation } = await this.getChatSender();
+
+		sctpAssociation.send(CHAT_STREAM_ID, text);
+	}
+
+	/**
+	 * Consumes the chat DataProducers of other Peers in the Room and emits
+	 * 'chat-message' for each received message. It follows the Room as Peers
+	 * come and go until the Broadcaster is closed.
+	 */
+	async consumeChat({
+		pollInterval = DEFAULT_CONSUME_POLL_INTERVAL,
+	}: {
+		/**
+		 * Interval (in ms) to check chat DataProducers in the Room. Default 2000.
+		 * They are also checked as soon as the server notifies about Peers
+		 * joining or leaving.
+		 */
+		pollInterval?: number;
+	} = {}): Promise<void> {
+		logger.debug('consumeChat()');
+
+		this.assertNotClosed();
+
+		await this.runRejoinable({
+			caller: 'consumeChat',
+			run: async () => this.runChatConsumption({ pollInterval }),
+		});
+	}
+
+	/**
+	 * Consumes the Producers of other Peers in the Room and writes each of them
+	 * into a media file. It follows the Room as Producers come and go until the
+	 * Broadcaster or the MediaClient is closed. If the Broadcaster rejoins the
+	 * Room meanwhile, Producers are consumed again into new media files.
+	 */
+	async consume({
+		mediaClientType,
+		peerIds,
+		sources,
+		outputDirectory = '.',
+		pollInterval = DEFAULT_CONSUME_POLL_INTERVAL,
+		tcpServer,
+	}: {
+		mediaClientType: MediaClientType;
+		/**
+		 * Only consume Producers of these Peers. All Peers if not given.
+		 */
+		peerIds?: PeerId[];
+		/**
+		 * Only consume Producers with these sources. All sources if not given.
+		 */
+		sources?: Source[];
+		/**
+		 * Directory in which media files are written. Default current directory.
+		 */
+		outputDirectory?: string;
+		/**
+		 * Interval (in ms) to check Producers in the Room. Default 2000. They are
+		 * also checked as soon as the server notifies about new or closed ones.
+		 */
+		pollInterval?: number;
+		/**
+		 * If given, each consumed Producer is served over TCP (in the given host
+		 * and consecutive ports starting at the given one) rather than written
+		 * into a file. Only supported by FFmpeg and GStreamer.
+		 */
+		tcpServer?: { host: string; port: number };
+	}): Promise<void> {
+		logger.debug(
+			'consume() [mediaClientType:%o, peerIds:%o, sources:%o]',
+			mediaClientType,
+			peerIds,
+			sources
+		);
+
+		this.assertNotClosed();
+
+		await fs.promises.mkdir(outputDirectory, { recursive: true });
+
+		await this.runWithMediaClient({
+			caller: 'consume',
+			mediaClientType,
+			run: async mediaClient =>
+				this.runConsumption({
+					mediaClient,
+					peerIds,
+					sources,
+					outputDirectory,
+					pollInterval,
+					tcpServer,
+				}),
+		});
+	}
+
+	/**
+	 * Gets the BroadcasterPeer in the server, including the ids of its
+	 * PlainTransports, Producers and Consumers.
+	 */
+	async getBroadcasterPeerInfo(): Promise<
+		RequestResponseData<'getBroadcasterPeer'>
+	> {
+		logger.debug('getBroadcasterPeerInfo()');
+
+		this.assertNotClosed();
+
+		return this.#apiClient.request({
+			name: 'getBroadcasterPeer',
+			method: 'GET',
+			path: [
+				'rooms',
+				{ roomId: this.#roomId },
+				'broadcasters',
+				{ peerId: this.#peerId },
+			],
+		});
+	}
+
+	/**
+	 * Gets the stats of the given PlainTransport of the Broadcaster in the
+	 * server.
+	 */
+	async getTransportStats(transportId: string): Promise<MediasoupStat[]> {
+		logger.debug('getTransportStats() [transportId:%o]', transportId);
+
+		this.assertNotClosed();
+
+		const { stats } = await this.#apiClient.request({
+			name: 'getTransportStats',
+			method: 'GET',
 			path: [
 				'rooms',
 				{ roomId: this.#roomId },
 				'broadcasters',
 				{ peerId: this.#peerId },
 				'transports',
+				{ transportId },
+				'stats',
 			],
-			data: {
-				comedia: true,
-				rtcpMux: false,
-				appData: {
-					direction: 'producer',
-				},
-			},
 		});
 
-		logger.info('produceMediaFile() | video PlainTransport created');
+		return stats;
+	}
+
+	/**
+	 * Pauses the given Producer of the Broadcaster. Consumers of other Peers get
+	 * paused too.
+	 */
+	async pauseProducer(producerId: string): Promise<void> {
+		logger.debug('pauseProducer() [producerId:%o]', producerId);
 
-		const audioSsrc: number = 1111;
-		const audioPt: number = 101;
-		const videoSsrc: number = 2222;
-		const videoPt: number = 102;
-		const cname: string = utils.generateRandomString(6);
+		this.assertNotClosed();
 
 		await this.#apiClient.request({
-			name: 'produce',
+			name: 'pauseProducer',
 			method: 'POST',
 			path: [
 				'rooms',
@@ -239,35 +607,22 @@ export class Broadcaster {
 				'broadcasters',
 				{ peerId: this.#peerId },
 				'producers',
+				{ producerId },
+				'pause',
 			],
-			data: {
-				transportId: audioPlainTransportRemoteData.transportId,
-				kind: 'audio',
-				rtpParameters: {
-					codecs: [
-						{
-							mimeType: 'audio/opus',
-							payloadType: audioPt,
-							clockRate: 48000,
-							channels: 2,
-							parameters: { 'sprop-stereo': 1 },
-						},
-					],
-					encodings: [{ ssrc: audioSsrc }],
-					rtcp: {
-						cname,
-					},
-				},
-				appData: {
-					source: 'audio',
-				},
-			},
 		});
+	}
 
-		logger.info('produceMediaFile() | audio Producer created');
+	/**
+	 * Resumes the given Producer of the Broadcaster.
+	 */
+	async resumeProducer(producerId: string): Promise<void> {
+		logger.debug('resumeProducer() [producerId:%o]', producerId);
+
+		this.assertNotClosed();
 
 		await this.#apiClient.request({
-			name: 'produce',
+			name: 'resumeProducer',
 			method: 'POST',
 			path: [
 				'rooms',
@@ -275,127 +630,1103 @@ export class Broadcaster {
 				'broadcasters',
 				{ peerId: this.#peerId },
 				'producers',
+				{ producerId },
+				'resume',
 			],
-			data: {
-				transportId: videoPlainTransportRemoteData.transportId,
-				kind: 'video',
-				rtpParameters: {
-					codecs: [
-						{
-							mimeType: 'video/vp8',
-							payloadType: videoPt,
-							clockRate: 90000,
-							rtcpFeedback: [
-								{ type: 'nack' },
-								{ type: 'nack', parameter: 'pli' },
-								{ type: 'ccm', parameter: 'fir' },
-							],
-						},
-					],
-					encodings: [{ ssrc: videoSsrc }],
-				},
-				appData: {
-					source: 'video',
-				},
-			},
 		});
+	}
 
-		logger.info('produceMediaFile() | video Producer created');
-
-		this.#mediaClients.add(mediaClient);
+	/**
+	 * Closes the given Producer of the Broadcaster (and the Consumers of other
+	 * Peers).
+	 */
+	async closeProducer(producerId: string): Promise<void> {
+		logger.debug('closeProducer() [producerId:%o]', producerId);
 
-		this.handleMediaClient(mediaClient);
+		this.assertNotClosed();
 
-		console.log(
-			'TODO: This method must receive a onSendingRtpParameters callback that the MediaClient has generated via ORTC and real RtpCapabilities and so on, and this method MUST NOT receive PRs and SSRCs'
-		);
-		await mediaClient.sendMediaFile({
-			mediaFile,
-			audioPlainTransportRemoteData,
-			videoPlainTransportRemoteData,
-			audioSsrc,
-			audioPt,
-			videoSsrc,
-			videoPt,
+		await this.#apiClient.request({
+			name: 'closeProducer',
+			method: 'DELETE',
+			path: [
+				'rooms',
+				{ roomId: this.#roomId },
+				'broadcasters',
+				{ peerId: this.#peerId },
+				'producers',
+				{ producerId },
+			],
 		});
 	}
 
-	async consume({
-		mediaClientType,
-	}: {
-		mediaClientType: MediaClientType;
-	}): Promise<void> {
-		logger.debug(
-			'consume() [mediaClientType:%o, mediaFile:%o]',
-			mediaClientType
-		);
+	/**
+	 * Gets the stats of the given Producer of the Broadcaster.
+	 */
+	async getProducerStats(producerId: string): Promise<MediasoupStat[]> {
+		logger.debug('getProducerStats() [producerId:%o]', producerId);
 
 		this.assertNotClosed();
 
-		const mediaClient = await this.createMediaClient({ mediaClientType });
+		const { stats } = await this.#apiClient.request({
+			name: 'getProducerStats',
+			method: 'GET',
+			path: [
+				'rooms',
+				{ roomId: this.#roomId },
+				'broadcasters',
+				{ peerId: this.#peerId },
+				'producers',
+				{ producerId },
+				'stats',
+			],
+		});
+
+		return stats;
+	}
 
-		const audioPlainTransportRemoteData = await this.#apiClient.request({
-			name: 'createPlainTransport',
+	/**
+	 * Pauses the given Consumer of the Broadcaster.
+	 */
+	async pauseConsumer(consumerId: string): Promise<void> {
+		logger.debug('pauseConsumer() [consumerId:%o]', consumerId);
+
+		this.assertNotClosed();
+
+		await this.#apiClient.request({
+			name: 'pauseConsumer',
 			method: 'POST',
 			path: [
 				'rooms',
 				{ roomId: this.#roomId },
 				'broadcasters',
 				{ peerId: this.#peerId },
-				'transports',
+				'consumers',
+				{ consumerId },
+				'pause',
 			],
-			data: {
-				comedia: false,
-				rtcpMux: false,
-				appData: {
-					direction: 'consumer',
-				},
-			},
 		});
+	}
 
-		logger.info('consume() | audio PlainTransport created');
+	/**
+	 * Resumes the given Consumer of the Broadcaster.
+	 */
+	async resumeConsumer(consumerId: string): Promise<void> {
+		logger.debug('resumeConsumer() [consumerId:%o]', consumerId);
 
-		const videoPlainTransportRemoteData = await this.#apiClient.request({
-			name: 'createPlainTransport',
+		this.assertNotClosed();
+
+		await this.#apiClient.request({
+			name: 'resumeConsumer',
 			method: 'POST',
 			path: [
 				'rooms',
 				{ roomId: this.#roomId },
 				'broadcasters',
 				{ peerId: this.#peerId },
-				'transports',
+				'consumers',
+				{ consumerId },
+				'resume',
 			],
-			data: {
-				comedia: false,
-				rtcpMux: false,
-				appData: {
-					direction: 'consumer',
-				},
-			},
 		});
+	}
 
-		logger.info('consume() | video PlainTransport created');
+	/**
+	 * Closes the given Consumer of the Broadcaster.
+	 */
+	async closeConsumer(consumerId: string): Promise<void> {
+		logger.debug('closeConsumer() [consumerId:%o]', consumerId);
 
-		const { peerProducersInfos } = await this.#apiClient.request({
-			name: 'getPeerProducersInfos',
-			method: 'GET',
+		this.assertNotClosed();
+
+		await this.#apiClient.request({
+			name: 'closeConsumer',
+			method: 'DELETE',
 			path: [
 				'rooms',
 				{ roomId: this.#roomId },
 				'broadcasters',
 				{ peerId: this.#peerId },
-				'peerProducersInfos',
+				'consumers',
+				{ consumerId },
 			],
 		});
+	}
 
-		logger.info(
-			'consume() | got Peer Producers infos:',
-			util.inspect(peerProducersInfos, {
-				depth: null,
-				colors: true,
-				compact: false,
-			})
+	/**
+	 * Gets the stats of the given Consumer of the Broadcaster.
+	 */
+	async getConsumerStats(consumerId: string): Promise<MediasoupStat[]> {
+		logger.debug('getConsumerStats() [consumerId:%o]', consumerId);
+
+		this.assertNotClosed();
+
+		const { stats } = await this.#apiClient.request({
+			name: 'getConsumerStats',
+			method: 'GET',
+			path: [
+				'rooms',
+				{ roomId: this.#roomId },
+				'broadcasters',
+				{ peerId: this.#peerId },
+				'consumers',
+				{ consumerId },
+				'stats',
+			],
+		});
+
+		return stats;
+	}
+
+	/**
+	 * Consumes Producers in the Room (see consume()) into the given MediaClient
+	 * until it or the Broadcaster is closed.
+	 */
+	private async runConsumption({
+		mediaClient,
+		peerIds,
+		sources,
+		outputDirectory,
+		pollInterval,
+		tcpServer,
+	}: {
+		mediaClient: MediaClient;
+		peerIds?: PeerId[];
+		sources?: Source[];
+		outputDirectory: string;
+		pollInterval: number;
+		tcpServer?: { host: string; port: number };
+	}): Promise<void> {
+		// Map of BroadcasterConsumptions indexed by Producer id.
+		const consumptions: Map<string, BroadcasterConsumption> = new Map();
+		// Producers that cannot be consumed.
+		const ignoredProducerIds: Set<string> = new Set();
+		let nextTcpServerPort = tcpServer?.port;
+		const roomChangesWatcher = this.watchRoomChanges([
+			'newProducer',
+			'producerClosed',
+		]);
+
+		try {
+			while (!this.#closePromise && this.#mediaClients.has(mediaClient)) {
+				const peerProducersInfos = await this.getPeerProducersInfos();
+
+				const producers = peerProducersInfos
+					.filter(({ peerId }) => !peerIds || peerIds.includes(peerId))
+					.flatMap(({ peerId, producers: peerProducers }) =>
+						peerProducers
+							.filter(({ source }) => !sources || sources.includes(source))
+							.map(producer => ({ ...producer, peerId }))
+					);
+				const producerIds = new Set(
+					producers.map(({ producerId }) => producerId)
+				);
+
+				for (const [producerId, consumption] of consumptions) {
+					if (producerIds.has(producerId)) {
+						continue;
+					}
+
+					consumptions.delete(producerId);
+
+					logger.info(
+						'consume() | Producer %o of Peer %o closed',
+						producerId,
+						consumption.peerId
+					);
+
+					await this.stopConsumption({ mediaClient, consumption });
+				}
+
+				for (const { peerId, producerId, source } of producers) {
+					if (
+						consumptions.has(producerId) ||
+						ignoredProducerIds.has(producerId) ||
+						this.#closePromise ||
+						!this.#mediaClients.has(mediaClient)
+					) {
+						continue;
+					}
+
+					try {
+						const consumption = await this.consumeProducer({
+							mediaClient,
+							peerId,
+							producerId,
+							source,
+							outputDirectory,
+							tcpServer: tcpServer
+								? { host: tcpServer.host, port: nextTcpServerPort!++ }
+								: undefined,
+						});
+
+						consumptions.set(producerId, consumption);
+					} catch (error) {
+						if (this.#closePromise || !this.#mediaClients.has(mediaClient)) {
+							break;
+						}
+
+						logger.warn(
+							`consume() | cannot consume Producer ${producerId} of Peer ${peerId}, ignoring it: ${error}`
+						);
+
+						ignoredProducerIds.add(producerId);
+					}
+				}
+
+				await roomChangesWatcher.wait(pollInterval);
+			}
+		} finally {
+			roomChangesWatcher.stop();
+
+			for (const consumption of consumptions.values()) {
+				await this.stopConsumption({ mediaClient, consumption });
+			}
+		}
+	}
+
+	/**
+	 * Consumes chat DataProducers in the Room (see consumeChat()) until the
+	 * Broadcaster or the SctpAssociation is closed.
+	 */
+	private async runChatConsumption({
+		pollInterval,
+	}: {
+		pollInterval: number;
+	}): Promise<void> {
+		const { transportId, sctpAssociation } = await this.createSctpTransport({
+			direction: 'consumer',
+		});
+		// Map of BroadcasterChatConsumptions indexed by DataProducer id.
+		const chatConsumptions: Map<string, BroadcasterChatConsumption> = new Map();
+		// DataProducers that cannot be consumed.
+		const ignoredDataProducerIds: Set<string> = new Set();
+		const roomChangesWatcher = this.watchRoomChanges(['newPeer', 'peerClosed']);
+
+		sctpAssociation.on('message', ({ streamId, ppid, data }) => {
+			const chatConsumption = Array.from(chatConsumptions.values()).find(
+				consumption => consumption.streamId === streamId
+			);
+
+			if (
+				!chatConsumption ||
+				(ppid !== SCTP_PPIDS.string && ppid !== SCTP_PPIDS.stringEmpty)
+			) {
+				return;
+			}
+
+			this.safeEmit('chat-message', {
+				peerId: chatConsumption.peerId,
+				text: ppid === SCTP_PPIDS.string ? data.toString('utf8') : '',
+			});
+		});
+
+		try {
+			while (!this.#closePromise && !sctpAssociation.closed) {
+				const peerDataProducersInfos = await this.getPeerDataProducersInfos();
+
+				const dataProducers = peerDataProducersInfos.flatMap(
+					({ peerId, dataProducers: peerDataProducers }) =>
+						peerDataProducers
+							.filter(({ channel }) => channel === 'chat')
+							.map(dataProducer => ({ ...dataProducer, peerId }))
+				);
+				const dataProducerIds = new Set(
+					dataProducers.map(({ dataProducerId }) => dataProducerId)
+				);
+
+				// NOTE: The server closes the DataConsumer once its DataProducer is
+				// closed, and its SCTP stream may be reused by another one.
+				for (const dataProducerId of chatConsumptions.keys()) {
+					if (!dataProducerIds.has(dataProducerId)) {
+						chatConsumptions.delete(dataProducerId);
+					}
+				}
+
+				for (const { peerId, dataProducerId } of dataProducers) {
+					if (
+						chatConsumptions.has(dataProducerId) ||
+						ignoredDataProducerIds.has(dataProducerId) ||
+						this.#closePromise ||
+						sctpAssociation.closed
+					) {
+						continue;
+					}
+
+					try {
+						const { sctpStreamParameters } = await this.#apiClient.request({
+							name: 'consumeData',
+							method: 'POST',
+							path: [
+								'rooms',
+								{ roomId: this.#roomId },
+								'broadcasters',
+								{ peerId: this.#peerId },
+								'dataConsumers',
+							],
+							data: { transportId, dataProducerId },
+						});
+
+						chatConsumptions.set(dataProducerId, {
+							peerId,
+							streamId: sctpStreamParameters.streamId!,
+						});
+
+						logger.info(
+							'runChatConsumption() | consuming chat of Peer %o',
+							peerId
+						);
+					} catch (error) {
+						if (this.#closePromise || sctpAssociation.closed) {
+							break;
+						}
+
+						logger.warn(
+							`runChatConsumption() | cannot consume chat DataProducer ${dataProducerId} of Peer ${peerId}, ignoring it: ${error}`
+						);
+
+						ignoredDataProducerIds.add(dataProducerId);
+					}
+				}
+
+				await roomChangesWatcher.wait(pollInterval);
+			}
+		} finally {
+			roomChangesWatcher.stop();
+
+			sctpAssociation.close();
+
+			await this.closePlainTransport(transportId);
+		}
+	}
+
+	/**
+	 * Watches the given notifications of the Room. wait() resolves once any of
+	 * them is received (also if received since the previous wait()), after the
+	 * given timeout or once the Broadcaster is closed.
+	 */
+	private watchRoomChanges(notificationNames: NotificationName[]): {
+		wait: (timeout: number) => Promise<void>;
+		stop: () => void;
+	} {
+		let changed = false;
+		let changeAbortController = new AbortController();
+
+		const onRoomChange = (): void => {
+			changed = true;
+			changeAbortController.abort();
+		};
+
+		for (const notificationName of notificationNames) {
+			this.#apiClient.on(notificationName, onRoomChange);
+		}
+
+		return {
+			wait: async (timeout: number) => {
+				if (!changed) {
+					try {
+						await timersPromises.setTimeout(timeout, undefined, {
+							signal: AbortSignal.any([
+								this.#closeAbortController.signal,
+								changeAbortController.signal,
+							]),
+						});
+					} catch {
+						// Room changed or Broadcaster closed.
+					}
+				}
+
+				changed = false;
+				changeAbortController = new AbortController();
+			},
+			stop: () => {
+				for (const notificationName of notificationNames) {
+					this.#apiClient.off(notificationName, onRoomChange);
+				}
+			},
+		};
+	}
+
+	private async getChatSender(): Promise<BroadcasterChatSender> {
+		if (this.#chatSender && !this.#chatSender.sctpAssociation.closed) {
+			return this.#chatSender;
+		}
+
+		this.#chatSenderPromise ??= this.createChatSender().finally(() => {
+			this.#chatSenderPromise = undefined;
+		});
+
+		this.#chatSender = await this.#chatSenderPromise;
+
+		return this.#chatSender;
+	}
+
+	private async createChatSender(): Promise<BroadcasterChatSender> {
+		const { transportId, sctpAssociation } = await this.createSctpTransport({
+			direction: 'producer',
+		});
+
+		try {
+			await this.#apiClient.request({
+				name: 'produceData',
+				method: 'POST',
+				path: [
+					'rooms',
+					{ roomId: this.#roomId },
+					'broadcasters',
+					{ peerId: this.#peerId },
+					'dataProducers',
+				],
+				data: {
+					transportId,
+					sctpStreamParameters: { streamId: CHAT_STREAM_ID, ordered: true },
+					label: 'chat',
+					appData: { channel: 'chat' },
+				},
+			});
+		} catch (error) {
+			sctpAssociation.close();
+
+			await this.closePlainTransport(transportId);
+
+			throw error;
+		}
+
+		logger.info('createChatSender() | chat DataProducer created');
+
+		return { transportId, sctpAssociation };
+	}
+
+	/**
+	 * Creates a SCTP enabled PlainTransport and connects a SctpAssociation to
+	 * it.
+	 */
+	private async createSctpTransport({
+		direction,
+	}: {
+		direction: 'producer' | 'consumer';
+	}): Promise<{ transportId: string; sctpAssociation: SctpAssociation }> {
+		const { transportId, ip, port, sctpParameters }: PlainTransportRemoteData =
+			await this.#apiClient.request({
+				name: 'createPlainTransport',
+				method: 'POST',
+				path: [
+					'rooms',
+					{ roomId: this.#roomId },
+					'broadcasters',
+					{ peerId: this.#peerId },
+					'transports',
+				],
+				data: {
+					// NOTE: The PlainTransport learns our address from the first SCTP
+					// packet.
+					comedia: true,
+					rtcpMux: true,
+					enableSctp: true,
+					appData: { direction },
+				},
+			});
+
+		let sctpAssociation: SctpAssociation;
+
+		try {
+			if (!sctpParameters) {
+				throw new BroadcasterError('no SCTP parameters in PlainTransport');
+			}
+
+			sctpAssociation = await SctpAssociation.create({
+				ip,
+				port,
+				sctpParameters,
+			});
+		} catch (error) {
+			await this.closePlainTransport(transportId);
+
+			throw error;
+		}
+
+		this.#sctpAssociations.add(sctpAssociation);
+
+		sctpAssociation.on('closed', () => {
+			this.#sctpAssociations.delete(sctpAssociation);
+		});
+
+		// NOTE: The SctpAssociation may have been created while rejoining.
+		if (this.#closePromise || this.#rejoinPromise) {
+			sctpAssociation.close();
+		}
+
+		logger.info(
+			'createSctpTransport() | SCTP %s PlainTransport created',
+			direction
 		);
+
+		return { transportId, sctpAssociation };
+	}
+
+	private async consumeProducer({
+		mediaClient,
+		peerId,
+		producerId,
+		source,
+		outputDirectory,
+		tcpServer,
+	}: {
+		mediaClient: MediaClient;
+		peerId: PeerId;
+		producerId: string;
+		source: Source;
+		outputDirectory: string;
+		tcpServer?: { host: string; port: number };
+	}): Promise<BroadcasterConsumption> {
+		logger.debug(
+			'consumeProducer() [peerId:%o, producerId:%o, source:%o]',
+			peerId,
+			producerId,
+			source
+		);
+
+		const plainTransportRemoteData = await this.#apiClient.request({
+			name: 'createPlainTransport',
+			method: 'POST',
+			path: [
+				'rooms',
+				{ roomId: this.#roomId },
+				'broadcasters',
+				{ peerId: this.#peerId },
+				'transports',
+			],
+			data: {
+				comedia: false,
+				rtcpMux: false,
+				enableSrtp: Boolean(this.#srtpCryptoSuite),
+				srtpCryptoSuite: this.#srtpCryptoSuite,
+				appData: {
+					direction: 'consumer',
+				},
+			},
+		});
+
+		const consumption: BroadcasterConsumption = {
+			peerId,
+			producerId,
+			transportId: plainTransportRemoteData.transportId,
+			consumerId: '',
+		};
+
+		try {
+			const { consumerId, kind, rtpParameters } = await this.#apiClient.request(
+				{
+					name: 'consume',
+					method: 'POST',
+					path: [
+						'rooms',
+						{ roomId: this.#roomId },
+						'broadcasters',
+						{ peerId: this.#peerId },
+						'consumers',
+					],
+					data: {
+						transportId: consumption.transportId,
+						producerId,
+						paused: true,
+						rtpCapabilities: mediaClient.rtpCapabilities,
+					},
+				}
+			);
+
+			consumption.consumerId = consumerId;
+
+			const localIp = await getLocalIpTowards(
+				plainTransportRemoteData.ip,
+				plainTransportRemoteData.port
+			);
+
+			const { ip, port, rtcpPort, output } = await mediaClient.consume({
+				consumerId,
+				kind,
+				rtpParameters,
+				srtpParameters: plainTransportRemoteData.srtpParameters,
+				ip: localIp,
+				outputPath: path.join(
+					outputDirectory,
+					`${utils.toFileName(peerId)}-${source}-${producerId}`
+				),
+				tcpServer,
+			});
+
+			await this.#apiClient.request({
+				name: 'connectPlainTransport',
+				method: 'POST',
+				path: [
+					'rooms',
+					{ roomId: this.#roomId },
+					'broadcasters',
+					{ peerId: this.#peerId },
+					'transports',
+					{ transportId: consumption.transportId },
+					'connect',
+				],
+				data: {
+					ip,
+					port,
+					rtcpPort,
+					// NOTE: MediaClients do not send SRTCP to consumer PlainTransports,
+					// but mediasoup requires the SRTP parameters of the remote anyway.
+					srtpParameters: this.#srtpCryptoSuite
+						? createSrtpParameters(this.#srtpCryptoSuite)
+						: undefined,
+				},
+			});
+
+			await this.#apiClient.request({
+				name: 'resumeConsumer',
+				method: 'POST',
+				path: [
+					'rooms',
+					{ roomId: this.#roomId },
+					'broadcasters',
+					{ peerId: this.#peerId },
+					'consumers',
+					{ consumerId },
+					'resume',
+				],
+			});
+
+			logger.info(
+				'consumeProducer() | consuming %s Producer %o of Peer %o into %o',
+				source,
+				producerId,
+				peerId,
+				output
+			);
+		} catch (error) {
+			await this.stopConsumption({ mediaClient, consumption });
+
+			throw error;
+		}
+
+		return consumption;
+	}
+
+	private async stopConsumption({
+		mediaClient,
+		consumption,
+	}: {
+		mediaClient: MediaClient;
+		consumption: BroadcasterConsumption;
+	}): Promise<void> {
+		logger.debug(
+			'stopConsumption() [producerId:%o, consumerId:%o]',
+			consumption.producerId,
+			consumption.consumerId
+		);
+
+		if (consumption.consumerId) {
+			await mediaClient.stopConsuming(consumption.consumerId);
+		}
+
+		// NOTE: This also closes the Consumer in the server (if not yet).
+		await this.closePlainTransport(consumption.transportId);
+	}
+
+	/**
+	 * Closes the given PlainTransport in the server (and everything in it).
+	 * Errors are ignored.
+	 */
+	private async closePlainTransport(transportId: string): Promise<void> {
+		try {
+			await this.#apiClient.request({
+				name: 'closePlainTransport',
+				method: 'DELETE',
+				path: [
+					'rooms',
+					{ roomId: this.#roomId },
+					'broadcasters',
+					{ peerId: this.#peerId },
+					'transports',
+					{ transportId },
+				],
+			});
+		} catch (error) {
+			logger.debug(
+				`closePlainTransport() | failed to close PlainTransport: ${error}`
+			);
+		}
+	}
+
+	/**
+	 * Creates an audio and a video Producer (each one in its own PlainTransport)
+	 * to be fed by the given MediaClient.
+	 */
+	private async produce({
+		mediaClient,
+	}: {
+		mediaClient: MediaClient;
+	}): Promise<MediaClientSendOptions> {
+		// NOTE: These may throw if the MediaClient cannot send any codec supported
+		// by the Router.
+		const audioRtpParameters = mediaClient.getSendingRtpParameters('audio');
+		const videoRtpParameters = mediaClient.getSendingRtpParameters('video');
+
+		const audioPlainTransportRemoteData = await this.#apiClient.request({
+			name: 'createPlainTransport',
+			method: 'POST',
+			path: [
+				'rooms',
+				{ roomId: this.#roomId },
+				'broadcasters',
+				{ peerId: this.#peerId },
+				'transports',
+			],
+			data: {
+				comedia: true,
+				rtcpMux: false,
+				enableSrtp: Boolean(this.#srtpCryptoSuite),
+				srtpCryptoSuite: this.#srtpCryptoSuite,
+				appData: {
+					direction: 'producer',
+				},
+			},
+		});
+
+		logger.info('produce() | audio PlainTransport created');
+
+		const videoPlainTransportRemoteData = await this.#apiClient.request({
+			name: 'createPlainTransport',
+			method: 'POST',
+			path: [
+				'rooms',
+				{ roomId: this.#roomId },
+				'broadcasters',
+				{ peerId: this.#peerId },
+				'transports',
+			],
+			data: {
+				comedia: true,
+				rtcpMux: false,
+				enableSrtp: Boolean(this.#srtpCryptoSuite),
+				srtpCryptoSuite: this.#srtpCryptoSuite,
+				appData: {
+					direction: 'producer',
+				},
+			},
+		});
+
+		logger.info('produce() | video PlainTransport created');
+
+		const audioSrtpParameters = await this.connectSrtp(
+			audioPlainTransportRemoteData.transportId
+		);
+		const videoSrtpParameters = await this.connectSrtp(
+			videoPlainTransportRemoteData.transportId
+		);
+
+		await this.#apiClient.request({
+			name: 'produce',
+			method: 'POST',
+			path: [
+				'rooms',
+				{ roomId: this.#roomId },
+				'broadcasters',
+				{ peerId: this.#peerId },
+				'producers',
+			],
+			data: {
+				transportId: audioPlainTransportRemoteData.transportId,
+				kind: 'audio',
+				rtpParameters: audioRtpParameters,
+				appData: {
+					source: 'audio',
+				},
+			},
+		});
+
+		logger.info('produce() | audio Producer created');
+
+		await this.#apiClient.request({
+			name: 'produce',
+			method: 'POST',
+			path: [
+				'rooms',
+				{ roomId: this.#roomId },
+				'broadcasters',
+				{ peerId: this.#peerId },
+				'producers',
+			],
+			data: {
+				transportId: videoPlainTransportRemoteData.transportId,
+				kind: 'video',
+				rtpParameters: videoRtpParameters,
+				appData: {
+					source: 'video',
+				},
+			},
+		});
+
+		logger.info('produce() | video Producer created');
+
+		return {
+			audioPlainTransportRemoteData,
+			videoPlainTransportRemoteData,
+			audioRtpParameters,
+			videoRtpParameters,
+			audioSrtpParameters,
+			videoSrtpParameters,
+		};
+	}
+
+	/**
+	 * If SRTP is enabled, gives the given (comedia) PlainTransport the SRTP
+	 * parameters, with a new random key, with which the MediaClient must encrypt
+	 * what it sends.
+	 */
+	private async connectSrtp(
+		transportId: string
+	): Promise<SrtpParameters | undefined> {
+		if (!this.#srtpCryptoSuite) {
+			return undefined;
+		}
+
+		const srtpParameters = createSrtpParameters(this.#srtpCryptoSuite);
+
+		await this.#apiClient.request({
+			name: 'connectPlainTransport',
+			method: 'POST',
+			path: [
+				'rooms',
+				{ roomId: this.#roomId },
+				'broadcasters',
+				{ peerId: this.#peerId },
+				'transports',
+				{ transportId },
+				'connect',
+			],
+			data: { srtpParameters },
+		});
+
+		return srtpParameters;
+	}
+
+	/**
+	 * Runs the given task with a new MediaClient. If the Broadcaster rejoins the
+	 * Room meanwhile (which closes the MediaClient), it runs the task again with
+	 * another MediaClient once rejoined.
+	 */
+	private async runWithMediaClient({
+		caller,
+		mediaClientType,
+		run,
+	}: {
+		caller: string;
+		mediaClientType: MediaClientType;
+		run: (mediaClient: MediaClient) => Promise<void>;
+	}): Promise<void> {
+		await this.runRejoinable({
+			caller,
+			run: async () => {
+				const mediaClient = await this.createMediaClient({ mediaClientType });
+
+				this.#mediaClients.add(mediaClient);
+
+				this.handleMediaClient(mediaClient);
+
+				await run(mediaClient);
+			},
+		});
+	}
+
+	/**
+	 * Runs the given task. If the Broadcaster rejoins the Room meanwhile (which
+	 * closes MediaClients and SctpAssociations, so the task ends), it runs the
+	 * task again once rejoined.
+	 */
+	private async runRejoinable({
+		caller,
+		run,
+	}: {
+		caller: string;
+		run: () => Promise<void>;
+	}): Promise<void> {
+		while (true) {
+			const rejoinCount = this.#rejoinCount;
+
+			try {
+				await run();
+			} catch (error) {
+				// NOTE: Failures due to the BroadcasterPeer being lost are expected,
+				// the task is run again once rejoined.
+				if (this.#closePromise || !(await this.wasDisconnected(rejoinCount))) {
+					throw error;
+				}
+
+				logger.debug(
+					`${caller}() | failed while disconnected: ${(error as Error).message}`
+				);
+			}
+
+			if (this.#rejoinPromise) {
+				await this.#rejoinPromise;
+			}
+
+			if (this.#closePromise || this.#rejoinCount === rejoinCount) {
+				return;
+			}
+
+			logger.info(`${caller}() | running again after rejoining the Room`);
+		}
+	}
+
+	/**
+	 * Periodically checks that the BroadcasterPeer still exists in the server
+	 * until the Broadcaster is closed.
+	 */
+	private async runHealthChecks(interval: number): Promise<void> {
+		while (!this.#closePromise) {
+			try {
+				await timersPromises.setTimeout(interval, undefined, {
+					signal: this.#closeAbortController.signal,
+				});
+			} catch {
+				// Broadcaster closed.
+				return;
+			}
+
+			if (this.#rejoinPromise) {
+				await this.#rejoinPromise;
+			} else {
+				await this.checkHealth();
+			}
+		}
+	}
+
+	/**
+	 * Checks that the BroadcasterPeer still exists in the server and is joined.
+	 * If not, it starts rejoining the Room.
+	 *
+	 * @returns Whether the BroadcasterPeer is healthy.
+	 */
+	private async checkHealth(): Promise<boolean> {
+		if (this.#rejoinPromise) {
+			return false;
+		}
+
+		try {
+			const { joined } = await this.#apiClient.request({
+				name: 'getBroadcasterPeer',
+				method: 'GET',
+				path: [
+					'rooms',
+					{ roomId: this.#roomId },
+					'broadcasters',
+					{ peerId: this.#peerId },
+				],
+			});
+
+			if (!joined) {
+				throw new BroadcasterInvalidStateError('BroadcasterPeer not joined');
+			}
+
+			return true;
+		} catch (error) {
+			if (this.#closePromise) {
+				return false;
+			}
+
+			logger.warn(
+				`checkHealth() | BroadcasterPeer health check failed: ${(error as Error).message}`
+			);
+
+			void this.rejoin(error as Error);
+
+			return false;
+		}
+	}
+
+	/**
+	 * Whether the BroadcasterPeer has been lost since the given rejoin count (or
+	 * it is lost now).
+	 */
+	private async wasDisconnected(rejoinCount: number): Promise<boolean> {
+		if (this.#rejoinPromise || this.#rejoinCount !== rejoinCount) {
+			return true;
+		}
+
+		return !(await this.checkHealth());
+	}
+
+	/**
+	 * Closes all MediaClients and tries to join the Room again (with exponential
+	 * backoff) until it succeeds or the Broadcaster is closed. It never rejects.
+	 */
+	private async rejoin(error: Error): Promise<void> {
+		if (this.#rejoinPromise) {
+			return this.#rejoinPromise;
+		}
+
+		++this.#rejoinCount;
+
+		this.#rejoinPromise = this.runRejoin(error).finally(() => {
+			this.#rejoinPromise = undefined;
+		});
+
+		return this.#rejoinPromise;
+	}
+
+	private async runRejoin(error: Error): Promise<void> {
+		logger.warn(`rejoin() | BroadcasterPeer lost: ${error.message}`);
+
+		this.safeEmit('disconnected', error);
+
+		for (const sctpAssociation of Array.from(this.#sctpAssociations)) {
+			sctpAssociation.close();
+		}
+
+		await Promise.all(
+			Array.from(this.#mediaClients).map(async mediaClient =>
+				mediaClient.close()
+			)
+		);
+
+		for (let attempt = 1; !this.#closePromise; ++attempt) {
+			logger.info('rejoin() | rejoining the Room [attempt:%o]', attempt);
+
+			this.safeEmit('rejoining', attempt);
+
+			try {
+				this.#routerRtpCapabilities = await joinRoom({
+					apiClient: this.#apiClient,
+					roomId: this.#roomId,
+					peerId: this.#peerId,
+					displayName: this.#displayName,
+					device: this.#device,
+				});
+
+				logger.info('rejoin() | Broadcaster rejoined the Room');
+
+				this.#apiClient.openEventStream({
+					roomId: this.#roomId,
+					peerId: this.#peerId,
+				});
+
+				this.safeEmit('rejoined');
+
+				return;
+			} catch (error2) {
+				logger.warn(
+					`rejoin() | failed to rejoin the Room: ${(error2 as Error).message}`
+				);
+			}
+
+			try {
+				await timersPromises.setTimeout(
+					Math.min(REJOIN_BASE_DELAY * 2 ** (attempt - 1), REJOIN_MAX_DELAY),
+					undefined,
+					{ signal: this.#closeAbortController.signal }
+				);
+			} catch {
+				// Broadcaster closed.
+			}
+		}
 	}
 
 	private async createMediaClient({
@@ -416,6 +1747,12 @@ export class Broadcaster {
 				});
 			}
 
+			case 'builtin': {
+				return Builtin.create({
+					routerRtpCapabilities: this.#routerRtpCapabilities,
+				});
+			}
+
 			default: {
 				utils.assertUnreachable('mediaClientType', mediaClientType);
 			}
@@ -430,7 +1767,58 @@ export class Broadcaster {
 
 	private assertNotClosed(): void {
 		if (this.#closePromise) {
-			throw new BroadcasterInvalidStateError('FFmpeg closed');
+			throw new BroadcasterInvalidStateError('Broadcaster closed');
 		}
 	}
 }
+
+/**
+ * Creates the BroadcasterPeer in the Room (closing any other Peer with same
+ * peerId in the server) and joins it.
+ *
+ * @returns The RTP capabilities of the mediasoup Router of the Room.
+ */
+async function joinRoom({
+	apiClient,
+	roomId,
+	peerId,
+	displayName,
+	device,
+}: {
+	apiClient: ApiClient;
+	roomId: RoomId;
+	peerId: PeerId;
+	displayName: string;
+	device: PeerDevice;
+}): Promise<mediasoupTypes.RtpCapabilities> {
+	const { routerRtpCapabilities } = await apiClient.request({
+		name: 'getRouterRtpCapabilities',
+		method: 'GET',
+		path: ['rooms', { roomId }],
+	});
+
+	logger.info('joinRoom() | got mediasoup Router RTP capabilities');
+
+	await apiClient.request({
+		name: 'createBroadcasterPeer',
+		method: 'POST',
+		path: ['rooms', { roomId }, 'broadcasters'],
+		data: {
+			peerId: peerId,
+			displayName: displayName,
+			device: device,
+		},
+	});
+
+	logger.info('joinRoom() | Broadcaster created in the Room');
+
+	await apiClient.request({
+		name: 'join',
+		method: 'POST',
+		path: ['rooms', { roomId }, 'broadcasters', { peerId }, 'join'],
+	});
+
+	logger.info('joinRoom() | Broadcaster joined the Room');
+
+	return routerRtpCapabilities;
+}
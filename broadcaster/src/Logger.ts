@@ -2,6 +2,16 @@ import debug from 'debug';
 
 const APP_NAME = 'mediasoup-demo-broadcaster';
 
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error' | 'none';
+
+export const LOG_LEVELS: LogLevel[] = [
+	'debug',
+	'info',
+	'warn',
+	'error',
+	'none',
+];
+
 export class Logger {
 	readonly #debug: debug.Debugger;
 	readonly #info: debug.Debugger;
@@ -56,3 +66,41 @@ export class Logger {
 		return this.#error;
 	}
 }
+
+/**
+ * Enables logs of the given level and above. It overrides the DEBUG
+ * environment variable.
+ */
+export function setLogLevel(level: LogLevel): void {
+	switch (level) {
+		case 'debug': {
+			debug.enable(`${APP_NAME}*`);
+
+			break;
+		}
+
+		case 'info': {
+			debug.enable(`${APP_NAME}:INFO*,${APP_NAME}:WARN*,${APP_NAME}:ERROR*`);
+
+			break;
+		}
+
+		case 'warn': {
+			debug.enable(`${APP_NAME}:WARN*,${APP_NAME}:ERROR*`);
+
+			break;
+		}
+
+		case 'error': {
+			debug.enable(`${APP_NAME}:ERROR*`);
+
+			break;
+		}
+
+		case 'none': {
+			debug.disable();
+
+			break;
+		}
+	}
+}
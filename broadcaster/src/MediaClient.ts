@@ -1,16 +1,80 @@
 import type * as mediasoupTypes from 'mediasoup-client/types';
 
 import { EnhancedEventEmitter } from './enhancedEvents';
-import { PlainTransportRemoteData } from './types';
+import {
+	PlainTransportRemoteData,
+	SrtpParameters,
+	TestPatternOptions,
+} from './types';
 
-export type MediaClientProduceMediaFileOptions = {
-	mediaFile: string;
+/**
+ * Where and how a MediaClient sends audio and video.
+ */
+export type MediaClientSendOptions = {
 	audioPlainTransportRemoteData: PlainTransportRemoteData;
 	videoPlainTransportRemoteData: PlainTransportRemoteData;
-	audioSsrc: number;
-	audioPt: number;
-	videoSsrc: number;
-	videoPt: number;
+	/**
+	 * RtpParameters of the audio and video Producers as given by
+	 * getSendingRtpParameters().
+	 */
+	audioRtpParameters: mediasoupTypes.RtpParameters;
+	videoRtpParameters: mediasoupTypes.RtpParameters;
+	/**
+	 * SRTP parameters with which audio and video must be encrypted. Only if the
+	 * PlainTransports have SRTP enabled.
+	 */
+	audioSrtpParameters?: SrtpParameters;
+	videoSrtpParameters?: SrtpParameters;
+};
+
+export type MediaClientProduceMediaFileOptions = MediaClientSendOptions & {
+	mediaFile: string;
+	/**
+	 * Send the media file again and again.
+	 */
+	loop: boolean;
+};
+
+export type MediaClientProduceTestPatternOptions = MediaClientSendOptions &
+	TestPatternOptions;
+
+export type MediaClientConsumeOptions = {
+	consumerId: string;
+	kind: mediasoupTypes.MediaKind;
+	rtpParameters: mediasoupTypes.RtpParameters;
+	/**
+	 * SRTP parameters with which the consumer PlainTransport encrypts RTP and
+	 * RTCP. Only if it has SRTP enabled.
+	 */
+	srtpParameters?: SrtpParameters;
+	/**
+	 * Local IP in which RTP must be received. It must be reachable by the
+	 * server.
+	 */
+	ip: string;
+	/**
+	 * Path of the output file without extension.
+	 */
+	outputPath: string;
+	/**
+	 * If given, media is served over TCP in the given host and port rather than
+	 * written into a file. Not supported by all MediaClients.
+	 */
+	tcpServer?: { host: string; port: number };
+};
+
+export type MediaClientConsumeResult = {
+	/**
+	 * Local IP and ports in which RTP and RTCP are received (to be given to the
+	 * consumer PlainTransport).
+	 */
+	ip: string;
+	port: number;
+	rtcpPort?: number;
+	/**
+	 * Path of the media file being written or URL in which media is served.
+	 */
+	output: string;
 };
 
 export type MediaClientEvents = {
@@ -29,9 +93,31 @@ export abstract class MediaClient extends EnhancedEventEmitter<MediaClientEvents
 
 	abstract close(): Promise<void>;
 
+	/**
+	 * RtpParameters to send media of the given kind to the Router, using the
+	 * preferred codec supported by both the MediaClient and the Router.
+	 *
+	 * @throws BroadcasterNotImplementedError if the MediaClient cannot send media
+	 * of the given kind to the Router.
+	 */
+	abstract getSendingRtpParameters(
+		kind: mediasoupTypes.MediaKind
+	): mediasoupTypes.RtpParameters;
+
 	abstract sendMediaFile(
 		options: MediaClientProduceMediaFileOptions
 	): Promise<void>;
 
-	abstract consume(): Promise<void>;
+	/**
+	 * Sends a synthetic test pattern and tone until the MediaClient is closed.
+	 */
+	abstract sendTestPattern(
+		options: MediaClientProduceTestPatternOptions
+	): Promise<void>;
+
+	abstract consume(
+		options: MediaClientConsumeOptions
+	): Promise<MediaClientConsumeResult>;
+
+	abstract stopConsuming(consumerId: string): Promise<void>;
 }
@@ -1,15 +1,164 @@
 #!/usr/bin/env -S npx tsx
 
 import process from 'node:process';
+import * as readline from 'node:readline';
+import * as util from 'node:util';
 
-import { Logger } from './Logger';
+import { Logger, LogLevel, LOG_LEVELS, setLogLevel } from './Logger';
 import { Broadcaster } from './Broadcaster';
-import { BroadcasterError } from './errors';
+import {
+	BroadcasterError,
+	BroadcasterInvalidStateError,
+	BroadcasterNotImplementedError,
+	BroadcasterApiClientError,
+	BroadcasterSpawnError,
+} from './errors';
 import * as utils from './utils';
-import { RoomId, PeerId, PeerDevice } from './types';
+import type {
+	RoomId,
+	PeerId,
+	PeerDevice,
+	MediaClientType,
+	Source,
+	PeerProducersInfo,
+	SrtpCryptoSuite,
+	TestPatternOptions,
+} from './types';
 
 const logger = new Logger();
 
+const USAGE = `Usage: mediasoup-demo-broadcaster <command> [options]
+
+Commands:
+  produce --file <path> [--loop] [--client ffmpeg|gstreamer]
+      Produce the audio and video of a media file.
+  produce --test-pattern [--width <px>] [--height <px>] [--frame-rate <fps>]
+          [--video-bitrate <kbps>] [--tone <hz>] [--timestamp-overlay]
+          [--client ffmpeg|gstreamer]
+      Produce a synthetic test pattern and tone until interrupted.
+  consume [--peer <peerId>...] [--source <source>...] [--out <dir>]
+          [--client ffmpeg|gstreamer|builtin] [--tcp-server <host:port>]
+      Consume Producers of other Peers into media files (or TCP servers,
+      GStreamer only) until interrupted.
+  info [--json]
+      List Peers in the Room and their Producers.
+  chat [--send-only]
+      Send lines read from stdin to the chat of the Room and print chat
+      messages of other Peers until interrupted (or until stdin ends if
+      --send-only is given).
+
+Options:
+  --base-url <url>         Server base URL (default: https://local.dev:4443)
+  --room-id <roomId>       Room id (default: dev)
+  --peer-id <peerId>       Peer id (default: random)
+  --display-name <name>    Display name (default: Broadcaster)
+  --token <token>          Access token
+  --insecure               Do not verify the TLS certificate of the server
+  --srtp                   Encrypt RTP with SRTP
+  --srtp-crypto-suite <suite>
+                           SRTP crypto suite (default: AES_CM_128_HMAC_SHA1_80)
+  --log-level <level>      debug|info|warn|error|none (default: DEBUG env)
+  -h, --help               Show this help
+
+Exit codes:
+  0 success, 1 unexpected error, 2 invalid usage, 3 BroadcasterError,
+  4 BroadcasterInvalidStateError, 5 BroadcasterNotImplementedError,
+  6 BroadcasterApiClientError, 7 BroadcasterSpawnError`;
+
+/**
+ * Process exit codes, scriptable in CI.
+ */
+const EXIT_CODES = {
+	success: 0,
+	unexpectedError: 1,
+	usageError: 2,
+	broadcasterError: 3,
+	invalidStateError: 4,
+	notImplementedError: 5,
+	apiClientError: 6,
+	spawnError: 7,
+} as const;
+
+const COMMON_OPTIONS = {
+	'base-url': { type: 'string', default: 'https://local.dev:4443' },
+	'room-id': { type: 'string', default: 'dev' },
+	'peer-id': { type: 'string' },
+	'display-name': { type: 'string', default: 'Broadcaster' },
+	token: { type: 'string' },
+	insecure: { type: 'boolean', default: false },
+	srtp: { type: 'boolean', default: false },
+	'srtp-crypto-suite': { type: 'string', default: 'AES_CM_128_HMAC_SHA1_80' },
+	'log-level': { type: 'string' },
+	help: { type: 'boolean', short: 'h', default: false },
+} as const;
+
+const PRODUCE_MEDIA_CLIENT_TYPES: MediaClientType[] = ['ffmpeg', 'gstreamer'];
+const CONSUME_MEDIA_CLIENT_TYPES: MediaClientType[] = [
+	'ffmpeg',
+	'gstreamer',
+	'builtin',
+];
+const SOURCES: Source[] = ['audio', 'video', 'screensharing'];
+const SRTP_CRYPTO_SUITES: SrtpCryptoSuite[] = [
+	'AES_CM_128_HMAC_SHA1_80',
+	'AES_CM_128_HMAC_SHA1_32',
+	'AEAD_AES_128_GCM',
+	'AEAD_AES_256_GCM',
+];
+
+type CliCommand =
+	| {
+			name: 'produce';
+			mediaClientType: MediaClientType;
+			file: string;
+			loop: boolean;
+	  }
+	| ({
+			name: 'produceTestPattern';
+			mediaClientType: MediaClientType;
+	  } & TestPatternOptions)
+	| {
+			name: 'consume';
+			mediaClientType: MediaClientType;
+			peerIds?: PeerId[];
+			sources?: Source[];
+			outputDirectory: string;
+			tcpServer?: { host: string; port: number };
+	  }
+	| {
+			name: 'info';
+			json: boolean;
+	  }
+	| {
+			name: 'chat';
+			sendOnly: boolean;
+	  };
+
+type Cli = {
+	help: boolean;
+	baseUrl: string;
+	roomId: RoomId;
+	peerId: PeerId;
+	displayName: string;
+	token?: string;
+	verifyTls: boolean;
+	enableSrtp: boolean;
+	srtpCryptoSuite: SrtpCryptoSuite;
+	logLevel?: LogLevel;
+	command?: CliCommand;
+};
+
+/**
+ * Error in the given command line arguments.
+ */
+class CliUsageError extends Error {
+	constructor(message: string) {
+		super(message);
+
+		this.name = 'CliUsageError';
+	}
+}
+
 let broadcaster: Broadcaster | undefined;
 let processTerminationStarted: boolean = false;
 let delayedProcessTerminationStarted: boolean = false;
@@ -20,34 +169,140 @@ void run();
 async function run(): Promise<void> {
 	logger.debug('run()');
 
-	// const baseUrl: string = 'https://local.aliax.net:4443';
-	const baseUrl: string = 'https://local.dev:4443';
-	const roomId: RoomId = 'dev';
-	const peerId: PeerId = utils.generateRandomString(8);
-	const displayName: string = 'Broadcaster';
-	const device: PeerDevice = {
-		flag: 'gstreamer',
-		name: `GStreamer-${utils.generateRandomString(4)}`,
-	};
+	let cli: Cli;
+
+	try {
+		cli = parseCli(process.argv.slice(2));
+	} catch (error) {
+		process.stderr.write(`${(error as Error).message}\n\n${USAGE}\n`);
+
+		process.exit(EXIT_CODES.usageError);
+	}
+
+	if (cli.help) {
+		process.stdout.write(`${USAGE}\n`);
+
+		process.exit(EXIT_CODES.success);
+	} else if (!cli.command) {
+		process.stderr.write(`${USAGE}\n`);
+
+		process.exit(EXIT_CODES.usageError);
+	}
+
+	if (cli.logLevel) {
+		setLogLevel(cli.logLevel);
+	}
+
+	const { command } = cli;
 
 	try {
 		broadcaster = await Broadcaster.create({
-			baseUrl,
-			roomId,
-			peerId,
-			displayName,
-			device,
+			baseUrl: cli.baseUrl,
+			roomId: cli.roomId,
+			peerId: cli.peerId,
+			displayName: cli.displayName,
+			device: getDevice(
+				'mediaClientType' in command ? command.mediaClientType : undefined
+			),
+			token: cli.token,
+			verifyTls: cli.verifyTls,
+			// NOTE: No need to keep the BroadcasterPeer alive to just get info.
+			healthCheckInterval: command.name === 'info' ? 0 : undefined,
+			enableSrtp: cli.enableSrtp,
+			srtpCryptoSuite: cli.srtpCryptoSuite,
+		});
+
+		broadcaster.on('disconnected', error => {
+			logger.warn(`Broadcaster disconnected: ${error.message}`);
+		});
+
+		broadcaster.on('rejoining', attempt => {
+			logger.info(`Broadcaster rejoining the Room [attempt:${attempt}]`);
+		});
+
+		broadcaster.on('rejoined', () => {
+			logger.info('Broadcaster rejoined the Room');
+		});
+
+		broadcaster.apiClient.on('newPeer', ({ peer }) => {
+			logger.info(
+				`Peer joined the Room [peerId:${peer.peerId}, displayName:${peer.displayName}]`
+			);
 		});
 
-		// TODO: Testing.
-		// await broadcaster.produceMediaFile({
-		// 	mediaClientType: 'ffmpeg',
-		// 	// mediaClientType: 'gstreamer',
-		// 	mediaFile:
-		// 		'/Users/ibc/src/mediasoup-demo/app/public/videos/video-audio-stereo.mp4',
-		// });
+		broadcaster.apiClient.on('peerClosed', ({ peerId }) => {
+			logger.info(`Peer left the Room [peerId:${peerId}]`);
+		});
+
+		broadcaster.apiClient.on('adminMessage', ({ text }) => {
+			logger.info(`Message from admin: ${text}`);
+		});
+
+		broadcaster.apiClient.on('serverShuttingDown', ({ deadline }) => {
+			logger.warn(
+				`Server shutting down [deadline:${new Date(deadline).toISOString()}]`
+			);
+		});
+
+		switch (command.name) {
+			case 'produce': {
+				await broadcaster.produceMediaFile({
+					mediaClientType: command.mediaClientType,
+					mediaFile: command.file,
+					loop: command.loop,
+				});
+
+				break;
+			}
+
+			case 'produceTestPattern': {
+				await broadcaster.produceTestPattern({
+					mediaClientType: command.mediaClientType,
+					width: command.width,
+					height: command.height,
+					frameRate: command.frameRate,
+					videoBitrate: command.videoBitrate,
+					toneFrequency: command.toneFrequency,
+					timestampOverlay: command.timestampOverlay,
+				});
+
+				break;
+			}
 
-		await broadcaster.consume({ mediaClientType: 'ffmpeg' });
+			case 'consume': {
+				await broadcaster.consume({
+					mediaClientType: command.mediaClientType,
+					peerIds: command.peerIds,
+					sources: command.sources,
+					outputDirectory: command.outputDirectory,
+					tcpServer: command.tcpServer,
+				});
+
+				break;
+			}
+
+			case 'info': {
+				const peerProducersInfos = await broadcaster.getPeerProducersInfos();
+
+				process.stdout.write(
+					command.json
+						? `${JSON.stringify(peerProducersInfos, undefined, 2)}\n`
+						: formatPeerProducersInfos(peerProducersInfos)
+				);
+
+				break;
+			}
+
+			case 'chat': {
+				await runChat(broadcaster, { sendOnly: command.sendOnly });
+
+				break;
+			}
+
+			default: {
+				utils.assertUnreachable('command', command);
+			}
+		}
 
 		await exitGracefully();
 	} catch (error) {
@@ -59,7 +314,340 @@ async function run(): Promise<void> {
 			logger.error('run() | failed:', error);
 		}
 
-		void exitWithError();
+		void exitWithError(getExitCode(error));
+	}
+}
+
+function parseCli(args: string[]): Cli {
+	const [commandName, ...commandArgs] = args;
+
+	if (!commandName || commandName === '-h' || commandName === '--help') {
+		return {
+			...getCommonCliOptions(
+				util.parseArgs({ args: commandArgs, options: COMMON_OPTIONS }).values
+			),
+			help: Boolean(commandName),
+		};
+	}
+
+	switch (commandName) {
+		case 'produce': {
+			const { values } = util.parseArgs({
+				args: commandArgs,
+				options: {
+					...COMMON_OPTIONS,
+					file: { type: 'string' },
+					loop: { type: 'boolean', default: false },
+					'test-pattern': { type: 'boolean', default: false },
+					width: { type: 'string', default: '1280' },
+					height: { type: 'string', default: '720' },
+					'frame-rate': { type: 'string', default: '30' },
+					'video-bitrate': { type: 'string', default: '1000' },
+					tone: { type: 'string', default: '440' },
+					'timestamp-overlay': { type: 'boolean', default: false },
+					client: { type: 'string', default: 'ffmpeg' },
+				},
+			});
+
+			if (values['test-pattern']) {
+				if (values.file) {
+					throw new CliUsageError(
+						'produce: --file and --test-pattern are exclusive'
+					);
+				}
+
+				return {
+					...getCommonCliOptions(values),
+					command: {
+						name: 'produceTestPattern',
+						mediaClientType: parseChoice(
+							'--client',
+							values.client,
+							PRODUCE_MEDIA_CLIENT_TYPES
+						),
+						width: parsePositiveInteger('--width', values.width),
+						height: parsePositiveInteger('--height', values.height),
+						frameRate: parsePositiveInteger(
+							'--frame-rate',
+							values['frame-rate']
+						),
+						videoBitrate: parsePositiveInteger(
+							'--video-bitrate',
+							values['video-bitrate']
+						),
+						toneFrequency: parsePositiveInteger('--tone', values.tone),
+						timestampOverlay: values['timestamp-overlay'],
+					},
+				};
+			}
+
+			if (!values.file && !values.help) {
+				throw new CliUsageError('produce: missing --file or --test-pattern');
+			}
+
+			return {
+				...getCommonCliOptions(values),
+				command: {
+					name: 'produce',
+					mediaClientType: parseChoice(
+						'--client',
+						values.client,
+						PRODUCE_MEDIA_CLIENT_TYPES
+					),
+					file: values.file ?? '',
+					loop: values.loop,
+				},
+			};
+		}
+
+		case 'consume': {
+			const { values } = util.parseArgs({
+				args: commandArgs,
+				options: {
+					...COMMON_OPTIONS,
+					peer: { type: 'string', multiple: true },
+					source: { type: 'string', multiple: true },
+					out: { type: 'string', default: '.' },
+					client: { type: 'string', default: 'ffmpeg' },
+					'tcp-server': { type: 'string' },
+				},
+			});
+
+			return {
+				...getCommonCliOptions(values),
+				command: {
+					name: 'consume',
+					mediaClientType: parseChoice(
+						'--client',
+						values.client,
+						CONSUME_MEDIA_CLIENT_TYPES
+					),
+					peerIds: values.peer,
+					sources: values.source?.map(source =>
+						parseChoice('--source', source, SOURCES)
+					),
+					outputDirectory: values.out,
+					tcpServer: values['tcp-server']
+						? parseHostPort('--tcp-server', values['tcp-server'])
+						: undefined,
+				},
+			};
+		}
+
+		case 'info': {
+			const { values } = util.parseArgs({
+				args: commandArgs,
+				options: {
+					...COMMON_OPTIONS,
+					json: { type: 'boolean', default: false },
+				},
+			});
+
+			return {
+				...getCommonCliOptions(values),
+				command: { name: 'info', json: values.json },
+			};
+		}
+
+		case 'chat': {
+			const { values } = util.parseArgs({
+				args: commandArgs,
+				options: {
+					...COMMON_OPTIONS,
+					'send-only': { type: 'boolean', default: false },
+				},
+			});
+
+			return {
+				...getCommonCliOptions(values),
+				command: { name: 'chat', sendOnly: values['send-only'] },
+			};
+		}
+
+		default: {
+			throw new CliUsageError(`unknown command: ${commandName}`);
+		}
+	}
+}
+
+/**
+ * Sends stdin lines as chat messages and prints the chat messages of other
+ * Peers.
+ */
+async function runChat(
+	chatBroadcaster: Broadcaster,
+	{ sendOnly }: { sendOnly: boolean }
+): Promise<void> {
+	const sendLines = async (): Promise<void> => {
+		const rl = readline.createInterface({
+			input: process.stdin,
+			terminal: false,
+		});
+
+		for await (const line of rl) {
+			if (!line) {
+				continue;
+			}
+
+			await chatBroadcaster.sendChatMessage(line);
+		}
+	};
+
+	if (sendOnly) {
+		await sendLines();
+
+		return;
+	}
+
+	chatBroadcaster.on('chat-message', ({ peerId, text }) => {
+		process.stdout.write(`${peerId}: ${text}\n`);
+	});
+
+	// NOTE: Keep printing chat messages after stdin ends until interrupted.
+	await Promise.all([chatBroadcaster.consumeChat(), sendLines()]);
+}
+
+function getCommonCliOptions(values: {
+	'base-url': string;
+	'room-id': string;
+	'peer-id'?: string;
+	'display-name': string;
+	token?: string;
+	insecure: boolean;
+	srtp: boolean;
+	'srtp-crypto-suite': string;
+	'log-level'?: string;
+	help: boolean;
+}): Cli {
+	return {
+		help: values.help,
+		baseUrl: values['base-url'],
+		roomId: values['room-id'],
+		peerId: values['peer-id'] ?? utils.generateRandomString(8),
+		displayName: values['display-name'],
+		token: values.token,
+		verifyTls: !values.insecure,
+		enableSrtp: values.srtp,
+		srtpCryptoSuite: parseChoice(
+			'--srtp-crypto-suite',
+			values['srtp-crypto-suite'],
+			SRTP_CRYPTO_SUITES
+		),
+		logLevel: values['log-level']
+			? parseChoice('--log-level', values['log-level'], LOG_LEVELS)
+			: undefined,
+	};
+}
+
+function parseChoice<T extends string>(
+	option: string,
+	value: string,
+	choices: T[]
+): T {
+	if (!choices.includes(value as T)) {
+		throw new CliUsageError(
+			`invalid ${option} ${value} (valid values: ${choices.join(', ')})`
+		);
+	}
+
+	return value as T;
+}
+
+function parsePositiveInteger(option: string, value: string): number {
+	const number = Number(value);
+
+	if (!Number.isInteger(number) || number <= 0) {
+		throw new CliUsageError(
+			`invalid ${option} ${value} (expected a positive integer)`
+		);
+	}
+
+	return number;
+}
+
+function parseHostPort(
+	option: string,
+	value: string
+): { host: string; port: number } {
+	let url: URL;
+
+	try {
+		url = new URL(`tcp://${value}`);
+	} catch {
+		throw new CliUsageError(`invalid ${option} ${value} (expected host:port)`);
+	}
+
+	if (!url.hostname || !url.port) {
+		throw new CliUsageError(`invalid ${option} ${value} (expected host:port)`);
+	}
+
+	return { host: url.hostname, port: Number(url.port) };
+}
+
+function getDevice(mediaClientType?: MediaClientType): PeerDevice {
+	const random = utils.generateRandomString(4);
+
+	switch (mediaClientType) {
+		case 'ffmpeg': {
+			return { flag: 'ffmpeg', name: `FFmpeg-${random}` };
+		}
+
+		case 'gstreamer': {
+			return { flag: 'gstreamer', name: `GStreamer-${random}` };
+		}
+
+		case 'builtin': {
+			return { flag: 'unknown', name: `Builtin-${random}` };
+		}
+
+		case undefined: {
+			return { flag: 'unknown', name: `Broadcaster-${random}` };
+		}
+
+		default: {
+			utils.assertUnreachable('mediaClientType', mediaClientType);
+		}
+	}
+}
+
+function formatPeerProducersInfos(
+	peerProducersInfos: PeerProducersInfo[]
+): string {
+	if (peerProducersInfos.length === 0) {
+		return 'no Peers with Producers in the Room\n';
+	}
+
+	const lines: string[] = [];
+
+	for (const { peerId, producers } of peerProducersInfos) {
+		lines.push(`peer ${peerId}`);
+
+		for (const { producerId, kind, source, consumableCodecs } of producers) {
+			const mimeTypes = consumableCodecs.map(({ mimeType }) => mimeType);
+
+			lines.push(
+				`  producer ${producerId} [kind:${kind}, source:${source}, codecs:${mimeTypes.join(',')}]`
+			);
+		}
+	}
+
+	return `${lines.join('\n')}\n`;
+}
+
+function getExitCode(error: unknown): number {
+	// NOTE: Subclasses must be checked before BroadcasterError.
+	if (error instanceof BroadcasterInvalidStateError) {
+		return EXIT_CODES.invalidStateError;
+	} else if (error instanceof BroadcasterNotImplementedError) {
+		return EXIT_CODES.notImplementedError;
+	} else if (error instanceof BroadcasterApiClientError) {
+		return EXIT_CODES.apiClientError;
+	} else if (error instanceof BroadcasterSpawnError) {
+		return EXIT_CODES.spawnError;
+	} else if (error instanceof BroadcasterError) {
+		return EXIT_CODES.broadcasterError;
+	} else {
+		return EXIT_CODES.unexpectedError;
 	}
 }
 
@@ -75,7 +663,9 @@ async function exitGracefully(): Promise<void> {
 	await terminateProcess();
 }
 
-async function exitWithError(): Promise<void> {
+async function exitWithError(
+	exitCode: number = EXIT_CODES.unexpectedError
+): Promise<void> {
 	if (processTerminationStarted) {
 		return;
 	}
@@ -88,7 +678,7 @@ async function exitWithError(): Promise<void> {
 		await terminateProcess();
 	} catch (error) {}
 
-	process.exit(1);
+	process.exit(exitCode);
 }
 
 async function terminateProcess(): Promise<void> {
@@ -0,0 +1,325 @@
+import * as util from 'node:util';
+import * as dgram from 'node:dgram';
+import * as net from 'node:net';
+import * as ortc from 'mediasoup-client/ortc';
+import type * as mediasoupTypes from 'mediasoup-client/types';
+
+import { Logger } from '../Logger';
+import { EnhancedEventEmitter } from '../enhancedEvents';
+import {
+	MediaClient,
+	MediaClientEvents,
+	MediaClientProduceMediaFileOptions,
+	MediaClientProduceTestPatternOptions,
+	MediaClientConsumeOptions,
+	MediaClientConsumeResult,
+} from '../MediaClient';
+import { RtpTrackWriter } from '../rtp/RtpTrackWriter';
+import { bindUdpSocket } from './mediaClientUtils';
+import {
+	BroadcasterError,
+	BroadcasterInvalidStateError,
+	BroadcasterNotImplementedError,
+} from '../errors';
+
+const logger = new Logger('Builtin');
+
+export type BuiltinCreateOptions = {
+	routerRtpCapabilities: mediasoupTypes.RtpCapabilities;
+};
+
+type BuiltinConstructorOptions = {
+	rtpCapabilities: mediasoupTypes.RtpCapabilities;
+};
+
+type BuiltinConsumption = {
+	rtpSocket: dgram.Socket;
+	rtcpSocket: dgram.Socket;
+	rtpTrackWriter: RtpTrackWriter;
+};
+
+/**
+ * MediaClient that receives RTP in process and writes it into media files
+ * (Ogg for Opus, WebM for VP8 and VP9 and raw H264) so it does not need
+ * FFmpeg or GStreamer.
+ *
+ * @remarks
+ * - It cannot send media.
+ * - It sends no RTCP so there is no retransmission of lost packets nor key
+ *   frame requests. Video files start on the first received key frame.
+ * - It does not support SRTP.
+ */
+export class Builtin
+	extends EnhancedEventEmitter<MediaClientEvents>
+	implements MediaClient
+{
+	readonly #rtpCapabilities: mediasoupTypes.RtpCapabilities;
+	// Map of BuiltinConsumptions indexed by consumer id.
+	readonly #consumptions: Map<string, BuiltinConsumption> = new Map();
+	#closed: boolean = false;
+
+	static create({ routerRtpCapabilities }: BuiltinCreateOptions): Builtin {
+		logger.debug('create()');
+
+		const nativeRtpCapabilities: mediasoupTypes.RtpCapabilities = {
+			codecs: [
+				{
+					kind: 'audio',
+					mimeType: 'audio/opus',
+					preferredPayloadType: 100,
+					clockRate: 48000,
+					channels: 2,
+					rtcpFeedback: [],
+				},
+				{
+					kind: 'video',
+					mimeType: 'video/VP8',
+					preferredPayloadType: 101,
+					clockRate: 90000,
+					rtcpFeedback: [],
+				},
+				{
+					kind: 'video',
+					mimeType: 'video/VP9',
+					preferredPayloadType: 102,
+					clockRate: 90000,
+					rtcpFeedback: [],
+				},
+				{
+					kind: 'video',
+					mimeType: 'video/H264',
+					preferredPayloadType: 103,
+					clockRate: 90000,
+					parameters: {
+						'packetization-mode': 1,
+						'profile-level-id': '42e01f',
+						'level-asymmetry-allowed': 1,
+					},
+					rtcpFeedback: [],
+				},
+			],
+			headerExtensions: [],
+		};
+
+		// This may throw.
+		ortc.validateAndNormalizeRtpCapabilities(nativeRtpCapabilities);
+
+		const extendedRtpCapabilities: mediasoupTypes.ExtendedRtpCapabilities =
+			ortc.getExtendedRtpCapabilities(
+				nativeRtpCapabilities,
+				routerRtpCapabilities,
+				/* preferLocalCodecsOrder */ false
+			);
+
+		const rtpCapabilities = ortc.getRecvRtpCapabilities(
+			extendedRtpCapabilities
+		);
+
+		// This may throw.
+		ortc.validateAndNormalizeRtpCapabilities(rtpCapabilities);
+
+		logger.debug(
+			'create() | RtpCapabilities generated:',
+			util.inspect(rtpCapabilities, {
+				depth: null,
+				colors: true,
+				compact: false,
+			})
+		);
+
+		return new Builtin({ rtpCapabilities });
+	}
+
+	private constructor({ rtpCapabilities }: BuiltinConstructorOptions) {
+		super();
+
+		logger.debug('constructor()');
+
+		this.#rtpCapabilities = rtpCapabilities;
+	}
+
+	get rtpCapabilities(): mediasoupTypes.RtpCapabilities {
+		return this.#rtpCapabilities;
+	}
+
+	async close(): Promise<void> {
+		logger.debug('close()');
+
+		if (this.#closed) {
+			return;
+		}
+
+		this.#closed = true;
+
+		await Promise.all(
+			Array.from(this.#consumptions.keys()).map(consumerId =>
+				this.stopConsuming(consumerId)
+			)
+		);
+
+		this.emit('closed');
+	}
+
+	getSendingRtpParameters(
+		kind: mediasoupTypes.MediaKind
+	): mediasoupTypes.RtpParameters {
+		throw new BroadcasterNotImplementedError(
+			`cannot send ${kind} with ${this.constructor.name}`
+		);
+	}
+
+	// eslint-disable-next-line @typescript-eslint/require-await
+	async sendMediaFile({
+		mediaFile,
+	}: MediaClientProduceMediaFileOptions): Promise<void> {
+		logger.debug('sendMediaFile() [mediaFile:%o]', mediaFile);
+
+		this.assertNotClosed();
+
+		throw new BroadcasterNotImplementedError(
+			`sendMediaFile() not implemented in ${this.constructor.name}`
+		);
+	}
+
+	// eslint-disable-next-line @typescript-eslint/require-await
+	async sendTestPattern({
+		width,
+		height,
+	}: MediaClientProduceTestPatternOptions): Promise<void> {
+		logger.debug('sendTestPattern() [width:%o, height:%o]', width, height);
+
+		this.assertNotClosed();
+
+		throw new BroadcasterNotImplementedError(
+			`sendTestPattern() not implemented in ${this.constructor.name}`
+		);
+	}
+
+	async consume({
+		consumerId,
+		kind,
+		rtpParameters,
+		srtpParameters,
+		ip,
+		outputPath,
+		tcpServer,
+	}: MediaClientConsumeOptions): Promise<MediaClientConsumeResult> {
+		logger.debug('consume() [consumerId:%o, kind:%o]', consumerId, kind);
+
+		this.assertNotClosed();
+
+		if (tcpServer) {
+			throw new BroadcasterNotImplementedError(
+				`consume() with TCP server not implemented in ${this.constructor.name}`
+			);
+		}
+
+		if (srtpParameters) {
+			throw new BroadcasterNotImplementedError(
+				`consume() with SRTP not implemented in ${this.constructor.name}`
+			);
+		}
+
+		if (this.#consumptions.has(consumerId)) {
+			throw new BroadcasterInvalidStateError(
+				`already consuming consumer with id ${consumerId}`
+			);
+		}
+
+		// NOTE: The first codec is the media codec and the rest (if any) are RTX
+		// or FEC codecs.
+		const codec = rtpParameters.codecs[0];
+
+		if (!codec) {
+			throw new BroadcasterError('no codec in consumer RtpParameters');
+		}
+
+		// This may throw.
+		const rtpTrackWriter = RtpTrackWriter.create({
+			codec,
+			basePath: outputPath,
+		});
+
+		const socketType = net.isIPv6(ip) ? 'udp6' : 'udp4';
+		const rtpSocket = dgram.createSocket(socketType);
+		const rtcpSocket = dgram.createSocket(socketType);
+
+		try {
+			await Promise.all([
+				bindUdpSocket(rtpSocket, ip, 0),
+				bindUdpSocket(rtcpSocket, ip, 0),
+			]);
+		} catch (error) {
+			rtpSocket.close();
+			rtcpSocket.close();
+
+			await rtpTrackWriter.close();
+
+			throw new BroadcasterError(
+				`failed to bind UDP sockets: ${(error as Error).message}`
+			);
+		}
+
+		for (const socket of [rtpSocket, rtcpSocket]) {
+			socket.on('error', error => {
+				logger.warn(
+					`consume() | UDP socket error [consumerId:${consumerId}]: ${error.message}`
+				);
+			});
+		}
+
+		rtpSocket.on('message', buffer => rtpTrackWriter.receiveRtp(buffer));
+
+		// NOTE: Received RTCP (Sender Reports) is not needed.
+		rtcpSocket.on('message', () => {});
+
+		this.#consumptions.set(consumerId, {
+			rtpSocket,
+			rtcpSocket,
+			rtpTrackWriter,
+		});
+
+		logger.debug(
+			'consume() | writing consumer %o into %o',
+			consumerId,
+			rtpTrackWriter.file
+		);
+
+		return {
+			ip,
+			port: rtpSocket.address().port,
+			rtcpPort: rtcpSocket.address().port,
+			output: rtpTrackWriter.file,
+		};
+	}
+
+	async stopConsuming(consumerId: string): Promise<void> {
+		logger.debug('stopConsuming() [consumerId:%o]', consumerId);
+
+		const consumption = this.#consumptions.get(consumerId);
+
+		if (!consumption) {
+			return;
+		}
+
+		this.#consumptions.delete(consumerId);
+
+		consumption.rtpSocket.close();
+		consumption.rtcpSocket.close();
+
+		try {
+			await consumption.rtpTrackWriter.close();
+		} catch (error) {
+			logger.error(
+				`stopConsuming() | failed to close media file ${consumption.rtpTrackWriter.file}:`,
+				error
+			);
+		}
+	}
+
+	private assertNotClosed(): void {
+		if (this.#closed) {
+			throw new BroadcasterInvalidStateError('Builtin closed');
+		}
+	}
+}
@@ -1,6 +1,7 @@
 import * as util from 'node:util';
 import * as childProcess from 'node:child_process';
 import * as streamTypes from 'node:stream';
+import * as timersPromises from 'node:timers/promises';
 import * as ortc from 'mediasoup-client/ortc';
 import type * as mediasoupTypes from 'mediasoup-client/types';
 
@@ -9,31 +10,98 @@ import { EnhancedEventEmitter } from '../enhancedEvents';
 import {
 	MediaClient,
 	MediaClientEvents,
+	MediaClientSendOptions,
 	MediaClientProduceMediaFileOptions,
+	MediaClientProduceTestPatternOptions,
+	MediaClientConsumeOptions,
+	MediaClientConsumeResult,
 } from '../MediaClient';
-import { BroadcasterInvalidStateError, BroadcasterSpawnError } from '../errors';
+import {
+	BroadcasterError,
+	BroadcasterInvalidStateError,
+	BroadcasterNotImplementedError,
+	BroadcasterSpawnError,
+} from '../errors';
 import * as utils from '../utils';
+import type {
+	PlainTransportRemoteData,
+	SrtpCryptoSuite,
+	SrtpParameters,
+} from '../types';
+import {
+	CodecName,
+	createConsumerSdp,
+	createNativeRtpCapabilities,
+	createSendingRtpParameters,
+	getCodecName,
+	getFreeUdpPortPair,
+	getMediaFileExtension,
+	parseH264ProfileLevelId,
+	runProbeCommand,
+} from './mediaClientUtils';
 
 const logger = new Logger('FFmpeg');
 const spawnLogger = new Logger('FFmpeg:spawn');
 
+// Time given to FFmpeg to bind its sockets before RTP is sent to it.
+const CONSUME_STARTUP_DELAY_MS = 1000;
+// Time given to FFmpeg to finalize the media file once asked to stop.
+const CONSUME_STOP_TIMEOUT_MS = 5000;
+// Video bitrate (kbps) when sending media files.
+const DEFAULT_VIDEO_BITRATE = 1000;
+
+// FFmpeg encoders of each codec, in order of preference.
+const ENCODERS: Record<CodecName, string[]> = {
+	opus: ['libopus'],
+	vp8: ['libvpx'],
+	vp9: ['libvpx-vp9'],
+	h264: ['libx264'],
+	av1: ['libsvtav1', 'libaom-av1'],
+};
+
+// FFmpeg decoders of each codec. NOTE: Consumed media is not transcoded, but
+// FFmpeg needs a decoder to probe the stream (i.e. video resolution).
+const DECODERS: Record<CodecName, string[]> = {
+	opus: ['opus', 'libopus'],
+	vp8: ['vp8', 'libvpx'],
+	vp9: ['vp9', 'libvpx-vp9'],
+	h264: ['h264'],
+	av1: ['libdav1d', 'libaom-av1', 'av1'],
+};
+
+// SRTP crypto suites supported by FFmpeg.
+const SRTP_CRYPTO_SUITES: SrtpCryptoSuite[] = [
+	'AES_CM_128_HMAC_SHA1_80',
+	'AES_CM_128_HMAC_SHA1_32',
+];
+
 export type FFmpegCreateOptions = {
 	routerRtpCapabilities: mediasoupTypes.RtpCapabilities;
 };
 
+type FFmpegConsumption = {
+	subprocess: childProcess.ChildProcessByStdio<
+		streamTypes.Writable,
+		streamTypes.Readable,
+		streamTypes.Readable
+	>;
+	subprocessClosed: Promise<void>;
+};
+
 type FFmpegConstructorOptions = {
-	routerRtpCapabilities: mediasoupTypes.RtpCapabilities;
 	rtpCapabilities: mediasoupTypes.RtpCapabilities;
-	extendedRtpCapabilities: mediasoupTypes.ExtendedRtpCapabilities;
+	sendingExtendedRtpCapabilities: mediasoupTypes.ExtendedRtpCapabilities;
+	encoders: Map<CodecName, string>;
 };
 
 export class FFmpeg
 	extends EnhancedEventEmitter<MediaClientEvents>
 	implements MediaClient
 {
-	readonly #routerRtpCapabilities: mediasoupTypes.RtpCapabilities;
 	readonly #rtpCapabilities: mediasoupTypes.RtpCapabilities;
-	readonly #extendedRtpCapabilities: mediasoupTypes.ExtendedRtpCapabilities;
+	readonly #sendingExtendedRtpCapabilities: mediasoupTypes.ExtendedRtpCapabilities;
+	// Map of FFmpeg encoder names indexed by codec.
+	readonly #encoders: Map<CodecName, string>;
 	readonly #subprocessAbortControllers: Map<
 		childProcess.ChildProcessByStdio<
 			null,
@@ -42,6 +110,8 @@ export class FFmpeg
 		>,
 		AbortController
 	> = new Map();
+	// Map of FFmpegConsumptions indexed by consumer id.
+	readonly #consumptions: Map<string, FFmpegConsumption> = new Map();
 	#closed: boolean = false;
 
 	static async create({
@@ -49,63 +119,70 @@ export class FFmpeg
 	}: FFmpegCreateOptions): Promise<FFmpeg> {
 		logger.debug('create()');
 
-		// TODO: This must be properly created based on real RTP capabilities of the
-		// FFmpeg in the system. Wow...
-		const nativeRtpCapabilities: mediasoupTypes.RtpCapabilities = {
-			codecs: [
-				{
-					kind: 'audio',
-					mimeType: 'audio/opus',
-					preferredPayloadType: 90,
-					clockRate: 48000,
-					channels: 2,
-					rtcpFeedback: [],
-				},
-				{
-					kind: 'video',
-					mimeType: 'video/VP8',
-					preferredPayloadType: 91,
-					clockRate: 90000,
-					rtcpFeedback: [
-						{ type: 'nack' },
-						{ type: 'nack', parameter: 'pli' },
-						{ type: 'ccm', parameter: 'fir' },
-					],
-				},
-			],
-			headerExtensions: [],
-		};
+		const [availableEncoders, availableDecoders] = await Promise.all([
+			probeCodecs('encoders'),
+			probeCodecs('decoders'),
+		]);
+
+		const encoders: Map<CodecName, string> = new Map();
+		const decodableCodecNames: Set<CodecName> = new Set();
+
+		for (const codecName of Object.keys(ENCODERS) as CodecName[]) {
+			const encoder = ENCODERS[codecName].find(name =>
+				availableEncoders.has(name)
+			);
+
+			if (encoder) {
+				encoders.set(codecName, encoder);
+			}
+
+			if (DECODERS[codecName].some(name => availableDecoders.has(name))) {
+				decodableCodecNames.add(codecName);
+			}
+		}
 
 		logger.debug(
-			'create() | native RtpCapabilities generated:',
-			util.inspect(nativeRtpCapabilities, {
-				depth: null,
-				colors: true,
-				compact: false,
-			})
+			'create() | codecs probed [encoders:%o, decodable codecs:%o]',
+			Object.fromEntries(encoders),
+			Array.from(decodableCodecNames)
+		);
+
+		const nativeSendingRtpCapabilities = createNativeRtpCapabilities(
+			new Set(encoders.keys())
 		);
+		const nativeRecvRtpCapabilities =
+			createNativeRtpCapabilities(decodableCodecNames);
 
 		// This may throw.
-		ortc.validateAndNormalizeRtpCapabilities(nativeRtpCapabilities);
+		ortc.validateAndNormalizeRtpCapabilities(nativeSendingRtpCapabilities);
+		// This may throw.
+		ortc.validateAndNormalizeRtpCapabilities(nativeRecvRtpCapabilities);
 
-		const extendedRtpCapabilities: mediasoupTypes.ExtendedRtpCapabilities =
+		const sendingExtendedRtpCapabilities: mediasoupTypes.ExtendedRtpCapabilities =
 			ortc.getExtendedRtpCapabilities(
-				nativeRtpCapabilities,
+				nativeSendingRtpCapabilities,
 				routerRtpCapabilities,
-				/* preferLocalCodecsOrder */ false
+				/* preferLocalCodecsOrder */ true
 			);
 
 		logger.debug(
-			'create() | ExtendedRtpCapabilities generated:',
-			util.inspect(extendedRtpCapabilities, {
+			'create() | sending ExtendedRtpCapabilities generated:',
+			util.inspect(sendingExtendedRtpCapabilities, {
 				depth: null,
 				colors: true,
 				compact: false,
 			})
 		);
 
+		const recvExtendedRtpCapabilities: mediasoupTypes.ExtendedRtpCapabilities =
+			ortc.getExtendedRtpCapabilities(
+				nativeRecvRtpCapabilities,
+				routerRtpCapabilities,
+				/* preferLocalCodecsOrder */ false
+			);
+
 		const rtpCapabilities = ortc.getRecvRtpCapabilities(
-			extendedRtpCapabilities
+			recvExtendedRtpCapabilities
 		);
 
 		// This may throw.
@@ -121,26 +198,26 @@ export class FFmpeg
 		);
 
 		const ffmpeg = new FFmpeg({
-			routerRtpCapabilities,
 			rtpCapabilities,
-			extendedRtpCapabilities,
+			sendingExtendedRtpCapabilities,
+			encoders,
 		});
 
 		return ffmpeg;
 	}
 
 	private constructor({
-		routerRtpCapabilities,
 		rtpCapabilities,
-		extendedRtpCapabilities,
+		sendingExtendedRtpCapabilities,
+		encoders,
 	}: FFmpegConstructorOptions) {
 		super();
 
 		logger.debug('constructor()');
 
-		this.#routerRtpCapabilities = routerRtpCapabilities;
 		this.#rtpCapabilities = rtpCapabilities;
-		this.#extendedRtpCapabilities = extendedRtpCapabilities;
+		this.#sendingExtendedRtpCapabilities = sendingExtendedRtpCapabilities;
+		this.#encoders = encoders;
 	}
 
 	get rtpCapabilities(): mediasoupTypes.RtpCapabilities {
@@ -169,41 +246,290 @@ export class FFmpeg
 			);
 		}
 
+		for (const consumerId of this.#consumptions.keys()) {
+			promises.push(this.stopConsuming(consumerId));
+		}
+
 		await Promise.all(promises);
 
 		this.emit('closed');
 	}
 
+	getSendingRtpParameters(
+		kind: mediasoupTypes.MediaKind
+	): mediasoupTypes.RtpParameters {
+		return createSendingRtpParameters(
+			kind,
+			this.#sendingExtendedRtpCapabilities
+		);
+	}
+
 	async sendMediaFile({
 		mediaFile,
-		audioPlainTransportRemoteData,
-		videoPlainTransportRemoteData,
-		audioSsrc,
-		audioPt,
-		videoSsrc,
-		videoPt,
+		loop,
+		...sendOptions
 	}: MediaClientProduceMediaFileOptions): Promise<void> {
-		logger.debug('sendMediaFile() [mediaFile:%o]', mediaFile);
+		logger.debug('sendMediaFile() [mediaFile:%o, loop:%o]', mediaFile, loop);
 
 		this.assertNotClosed();
 
+		const args = [
+			...utils.splitAndFlattenArgs([
+				'-re',
+				'-v info',
+				loop ? '-stream_loop -1' : [],
+				`-i ${mediaFile}`,
+				'-map 0:a:0',
+				'-map 0:v:0',
+			]),
+			...this.getSendingArgs({
+				...sendOptions,
+				videoBitrate: DEFAULT_VIDEO_BITRATE,
+			}),
+		];
+
+		await this.runSender({ caller: 'sendMediaFile', args });
+	}
+
+	async sendTestPattern({
+		width,
+		height,
+		frameRate,
+		videoBitrate,
+		toneFrequency,
+		timestampOverlay,
+		...sendOptions
+	}: MediaClientProduceTestPatternOptions): Promise<void> {
+		logger.debug(
+			'sendTestPattern() [width:%o, height:%o, frameRate:%o, videoBitrate:%o, toneFrequency:%o, timestampOverlay:%o]',
+			width,
+			height,
+			frameRate,
+			videoBitrate,
+			toneFrequency,
+			timestampOverlay
+		);
+
+		this.assertNotClosed();
+
+		const args = [
+			...utils.splitAndFlattenArgs([
+				'-v info',
+				`-re -f lavfi -i testsrc2=size=${width}x${height}:rate=${frameRate}`,
+				`-re -f lavfi -i sine=frequency=${toneFrequency}:sample_rate=48000`,
+				'-map 1:a:0',
+				'-map 0:v:0',
+				// NOTE: %3N (milliseconds) requires FFmpeg >= 6.1.
+				timestampOverlay
+					? "-vf drawtext=text='%{localtime\\:%T.%3N}':fontsize=48:fontcolor=white:box=1:boxcolor=black@0.6:boxborderw=10:x=20:y=20"
+					: [],
+			]),
+			...this.getSendingArgs({ ...sendOptions, videoBitrate }),
+		];
+
+		await this.runSender({ caller: 'sendTestPattern', args });
+	}
+
+	async consume({
+		consumerId,
+		kind,
+		rtpParameters,
+		srtpParameters,
+		ip,
+		outputPath,
+		tcpServer,
+	}: MediaClientConsumeOptions): Promise<MediaClientConsumeResult> {
+		logger.debug('consume() [consumerId:%o, kind:%o]', consumerId, kind);
+
+		this.assertNotClosed();
+
+		if (srtpParameters) {
+			assertSrtpCryptoSuiteSupported(srtpParameters.cryptoSuite);
+		}
+
+		if (this.#consumptions.has(consumerId)) {
+			throw new BroadcasterInvalidStateError(
+				`already consuming consumer with id ${consumerId}`
+			);
+		}
+
+		// NOTE: The first codec is the media codec and the rest (if any) are RTX
+		// or FEC codecs.
+		const codec = rtpParameters.codecs[0];
+
+		if (!codec) {
+			throw new BroadcasterError('no codec in consumer RtpParameters');
+		}
+
+		// NOTE: FFmpeg receives RTCP in the port next to the RTP one.
+		const { port, rtcpPort } = await getFreeUdpPortPair(ip);
+		const output = tcpServer
+			? `tcp://${tcpServer.host}:${tcpServer.port}`
+			: `${outputPath}.${getMediaFileExtension(codec.mimeType)}`;
+		const sdp = createConsumerSdp({ ip, port, kind, codec, srtpParameters });
+
 		const cmd = 'ffmpeg';
-		const args = utils.splitAndFlattenArgs([
-			'-re',
-			'-v info',
-			'-stream_loop -1',
-			`-i ${mediaFile}`,
-			'-map 0:a:0',
-			'-acodec libopus -ab 128k -ac 2 -ar 48000',
-			'-map 0:v:0',
-			'-pix_fmt yuv420p -c:v libvpx -b:v 1000k -deadline realtime -cpu-used 4',
+		const args = [
+			...utils.splitAndFlattenArgs([
+				'-v info',
+				'-protocol_whitelist pipe,udp,rtp',
+				'-f sdp',
+				'-i pipe:0',
+				'-map 0',
+				'-c copy',
+				'-y',
+			]),
+			// NOTE: When serving over TCP, FFmpeg waits for a client to connect
+			// (just one) and sends it a Matroska stream.
+			...(tcpServer ? ['-f', 'matroska', `${output}?listen=1`] : [output]),
+		];
+
+		logger.debug(`consume() | spawing subprocess: ${cmd} ${args.join(' ')}`);
+
+		const subprocess = childProcess.spawn(cmd, args, {
+			stdio: ['pipe', 'overlapped', 'overlapped'],
+		});
+
+		subprocess.stdout.setEncoding('utf8');
+		subprocess.stderr.setEncoding('utf8');
+
+		subprocess.stdout.on('data', (data: string) => {
+			if (!data) {
+				return;
+			}
+
+			spawnLogger.debug(utils.trimFinalNewline(data));
+		});
+
+		// NOTE: ffmpeg sends all its output to stderr so let's not use
+		// spawnLogger.error() here.
+		subprocess.stderr.on('data', (data: string) => {
+			if (!data) {
+				return;
+			}
+
+			spawnLogger.debug(utils.trimFinalNewline(data));
+		});
+
+		try {
+			await new Promise<void>((resolve, reject) => {
+				subprocess.once('spawn', resolve);
+				subprocess.once('error', reject);
+			});
+		} catch (error) {
+			logger.error('consume() | failed:', error);
+
+			throw new BroadcasterSpawnError(String((error as Error).message));
+		}
+
+		const subprocessClosed: Promise<void> = new Promise(resolve => {
+			subprocess.on('close', (code, signal) => {
+				logger.debug(
+					`consume() | subprocess closed [consumerId:${consumerId}, code:${code}, signal:${signal}]`
+				);
+
+				if (this.#consumptions.get(consumerId)?.subprocess === subprocess) {
+					this.#consumptions.delete(consumerId);
+				}
+
+				resolve();
+			});
+		});
+
+		this.#consumptions.set(consumerId, { subprocess, subprocessClosed });
+
+		subprocess.stdin.on('error', () => {});
+		subprocess.stdin.end(sdp);
+
+		await timersPromises.setTimeout(CONSUME_STARTUP_DELAY_MS);
+
+		return { ip, port, rtcpPort, output };
+	}
+
+	async stopConsuming(consumerId: string): Promise<void> {
+		logger.debug('stopConsuming() [consumerId:%o]', consumerId);
+
+		const consumption = this.#consumptions.get(consumerId);
+
+		if (!consumption) {
+			return;
+		}
+
+		this.#consumptions.delete(consumerId);
+
+		const { subprocess, subprocessClosed } = consumption;
+
+		// NOTE: SIGINT makes FFmpeg finalize the media file.
+		subprocess.kill('SIGINT');
+
+		const killTimer = setTimeout(() => {
+			logger.warn(
+				`stopConsuming() | subprocess did not exit in time, killing it [consumerId:${consumerId}]`
+			);
+
+			subprocess.kill('SIGKILL');
+		}, CONSUME_STOP_TIMEOUT_MS);
+
+		await subprocessClosed;
+
+		clearTimeout(killTimer);
+	}
+
+	/**
+	 * FFmpeg arguments to encode the mapped audio and video streams and send
+	 * them over RTP (or SRTP).
+	 */
+	private getSendingArgs({
+		audioPlainTransportRemoteData,
+		videoPlainTransportRemoteData,
+		audioRtpParameters,
+		videoRtpParameters,
+		audioSrtpParameters,
+		videoSrtpParameters,
+		videoBitrate,
+	}: MediaClientSendOptions & { videoBitrate: number }): string[] {
+		const audioCodec = audioRtpParameters.codecs[0]!;
+		const audioSsrc = audioRtpParameters.encodings![0]!.ssrc!;
+		const videoCodec = videoRtpParameters.codecs[0]!;
+		const videoSsrc = videoRtpParameters.encodings![0]!.ssrc!;
+
+		return utils.splitAndFlattenArgs([
+			getEncoderArgs(this.getEncoder(audioCodec), audioCodec, videoBitrate),
+			getEncoderArgs(this.getEncoder(videoCodec), videoCodec, videoBitrate),
 			'-f tee',
-			`"[select=a:f=rtp:ssrc=${audioSsrc}:payload_type=${audioPt}]rtp://${audioPlainTransportRemoteData.ip}:${audioPlainTransportRemoteData.port}?rtcpport=${audioPlainTransportRemoteData.rtcpPort ?? ''}|[select=v:f=rtp:ssrc=${videoSsrc}:payload_type=${videoPt}]rtp://${videoPlainTransportRemoteData.ip}:${videoPlainTransportRemoteData.port}?rtcpport=${videoPlainTransportRemoteData.rtcpPort ?? ''}"`,
+			[
+				getTeeRtpOutput({
+					select: 'a',
+					codec: audioCodec,
+					ssrc: audioSsrc,
+					plainTransportRemoteData: audioPlainTransportRemoteData,
+					srtpParameters: audioSrtpParameters,
+				}),
+				getTeeRtpOutput({
+					select: 'v',
+					codec: videoCodec,
+					ssrc: videoSsrc,
+					plainTransportRemoteData: videoPlainTransportRemoteData,
+					srtpParameters: videoSrtpParameters,
+				}),
+			].join('|'),
 		]);
+	}
 
-		logger.debug(
-			`sendMediaFile() | spawing subprocess: ${cmd} ${args.join(' ')}`
-		);
+	/**
+	 * Spawns FFmpeg with the given arguments to send media. It resolves once
+	 * FFmpeg exits normally or the FFmpeg instance is closed.
+	 */
+	private async runSender({
+		caller,
+		args,
+	}: {
+		caller: string;
+		args: string[];
+	}): Promise<void> {
+		const cmd = 'ffmpeg';
+
+		logger.debug(`${caller}() | spawing subprocess: ${cmd} ${args.join(' ')}`);
 
 		const abortController = new AbortController();
 
@@ -264,16 +590,23 @@ export class FFmpeg
 				return;
 			}
 
-			logger.error('sendMediaFile() | failed:', error);
+			logger.error(`${caller}() | failed:`, error);
 
 			throw new BroadcasterSpawnError(String((error as Error).message));
 		}
 	}
 
-	async consume(): Promise<void> {
-		logger.debug('consume()');
+	private getEncoder(codec: mediasoupTypes.RtpCodecParameters): string {
+		const codecName = getCodecName(codec.mimeType);
+		const encoder = codecName ? this.#encoders.get(codecName) : undefined;
 
-		this.assertNotClosed();
+		if (!encoder) {
+			throw new BroadcasterNotImplementedError(
+				`no FFmpeg encoder for codec ${codec.mimeType}`
+			);
+		}
+
+		return encoder;
 	}
 
 	private assertNotClosed(): void {
@@ -282,3 +615,134 @@ export class FFmpeg
 		}
 	}
 }
+
+/**
+ * Gets the names of the encoders or decoders available in FFmpeg.
+ */
+async function probeCodecs(
+	type: 'encoders' | 'decoders'
+): Promise<Set<string>> {
+	const stdout = await runProbeCommand('ffmpeg', ['-hide_banner', `-${type}`]);
+	const names: Set<string> = new Set();
+	let listStarted = false;
+
+	// NOTE: The output starts with a legend of the capability flags followed by
+	// a "------" line, then a line per codec as in " V....D libvpx  libvpx VP8".
+	for (const line of stdout.split('\n')) {
+		if (!listStarted) {
+			listStarted = line.trim().startsWith('------');
+
+			continue;
+		}
+
+		const match = /^\s*[A-Z.]{6}\s+(\S+)/.exec(line);
+
+		if (match) {
+			names.add(match[1]!);
+		}
+	}
+
+	return names;
+}
+
+/**
+ * Output of the tee muxer to send the selected stream over RTP (or SRTP if
+ * SRTP parameters are given) to the given PlainTransport.
+ */
+function getTeeRtpOutput({
+	select,
+	codec,
+	ssrc,
+	plainTransportRemoteData,
+	srtpParameters,
+}: {
+	select: 'a' | 'v';
+	codec: mediasoupTypes.RtpCodecParameters;
+	ssrc: number;
+	plainTransportRemoteData: PlainTransportRemoteData;
+	srtpParameters?: SrtpParameters;
+}): string {
+	const { ip, port, rtcpPort } = plainTransportRemoteData;
+	const options = [
+		`select=${select}`,
+		'f=rtp',
+		`ssrc=${ssrc}`,
+		`payload_type=${codec.payloadType}`,
+	];
+
+	if (!srtpParameters) {
+		return `[${options.join(':')}]rtp://${ip}:${port}?rtcpport=${rtcpPort ?? ''}`;
+	}
+
+	assertSrtpCryptoSuiteSupported(srtpParameters.cryptoSuite);
+
+	// NOTE: These options are given by the tee muxer to the srtp protocol.
+	options.push(
+		`srtp_out_suite=${srtpParameters.cryptoSuite}`,
+		`srtp_out_params=${srtpParameters.keyBase64}`
+	);
+
+	return `[${options.join(':')}]srtp://${ip}:${port}?rtcpport=${rtcpPort ?? ''}`;
+}
+
+function assertSrtpCryptoSuiteSupported(cryptoSuite: SrtpCryptoSuite): void {
+	if (!SRTP_CRYPTO_SUITES.includes(cryptoSuite)) {
+		throw new BroadcasterNotImplementedError(
+			`SRTP crypto suite ${cryptoSuite} not supported by FFmpeg (valid values: ${SRTP_CRYPTO_SUITES.join(', ')})`
+		);
+	}
+}
+
+/**
+ * FFmpeg arguments to encode with the given encoder into the given codec
+ * (video with the given bitrate in kbps).
+ */
+function getEncoderArgs(
+	encoder: string,
+	codec: mediasoupTypes.RtpCodecParameters,
+	videoBitrate: number
+): string {
+	switch (encoder) {
+		case 'libopus': {
+			return '-c:a libopus -b:a 128k -ac 2 -ar 48000';
+		}
+
+		case 'libvpx': {
+			return `-pix_fmt yuv420p -c:v libvpx -b:v ${videoBitrate}k -deadline realtime -cpu-used 4`;
+		}
+
+		case 'libvpx-vp9': {
+			// NOTE: VP9 profile 2 is 10 bits.
+			const pixelFormat =
+				codec.parameters?.['profile-id'] === 2
+					? 'yuv420p10le -profile:v 2'
+					: 'yuv420p';
+
+			return `-pix_fmt ${pixelFormat} -c:v libvpx-vp9 -b:v ${videoBitrate}k -deadline realtime -cpu-used 8 -row-mt 1`;
+		}
+
+		case 'libx264': {
+			const { profile, level } = parseH264ProfileLevelId(codec);
+			// NOTE: libx264 has no constrained baseline profile but its baseline
+			// profile does not use any of the features that the former excludes.
+			const x264Profile =
+				profile === 'constrained-baseline' ? 'baseline' : profile;
+
+			return `-pix_fmt yuv420p -c:v libx264 -profile:v ${x264Profile} -level:v ${level} -preset veryfast -tune zerolatency -b:v ${videoBitrate}k`;
+		}
+
+		case 'libsvtav1': {
+			return `-pix_fmt yuv420p -c:v libsvtav1 -preset 10 -b:v ${videoBitrate}k`;
+		}
+
+		case 'libaom-av1': {
+			return `-pix_fmt yuv420p -c:v libaom-av1 -usage realtime -cpu-used 8 -b:v ${videoBitrate}k`;
+		}
+
+		default: {
+			throw new BroadcasterNotImplementedError(
+				`unsupported FFmpeg encoder ${encoder}`
+			);
+		}
+	}
+}
@@ -1,6 +1,7 @@
 import * as util from 'node:util';
 import * as childProcess from 'node:child_process';
 import * as streamTypes from 'node:stream';
+import * as timersPromises from 'node:timers/promises';
 import * as ortc from 'mediasoup-client/ortc';
 import type * as mediasoupTypes from 'mediasoup-client/types';
 
@@ -9,35 +10,102 @@ import { EnhancedEventEmitter } from '../enhancedEvents';
 import {
 	MediaClient,
 	MediaClientEvents,
+	MediaClientSendOptions,
 	MediaClientProduceMediaFileOptions,
+	MediaClientProduceTestPatternOptions,
+	MediaClientConsumeOptions,
+	MediaClientConsumeResult,
 } from '../MediaClient';
 import {
+	BroadcasterError,
 	BroadcasterInvalidStateError,
 	BroadcasterNotImplementedError,
 	BroadcasterSpawnError,
 } from '../errors';
 import * as utils from '../utils';
+import type {
+	PlainTransportRemoteData,
+	SrtpCryptoSuite,
+	SrtpParameters,
+} from '../types';
+import {
+	CodecName,
+	createNativeRtpCapabilities,
+	createSendingRtpParameters,
+	getCodecName,
+	getFreeUdpPortPair,
+	parseH264ProfileLevelId,
+	runProbeCommand,
+} from './mediaClientUtils';
 
 const logger = new Logger('GStreamer');
 const spawnLogger = new Logger('GStreamer:spawn');
 
+// Time given to GStreamer to bind its sockets before RTP is sent to it.
+const CONSUME_STARTUP_DELAY_MS = 1000;
+// Time given to GStreamer to finalize the media file once asked to stop.
+const CONSUME_STOP_TIMEOUT_MS = 5000;
+// Video bitrate (kbps) when sending media files.
+const DEFAULT_VIDEO_BITRATE = 1000;
+
+// GStreamer elements to encode and payload each codec (encoders in order of
+// preference).
+const SENDING_ELEMENTS: Record<
+	CodecName,
+	{ encoders: string[]; payloader: string }
+> = {
+	opus: { encoders: ['opusenc'], payloader: 'rtpopuspay' },
+	vp8: { encoders: ['vp8enc'], payloader: 'rtpvp8pay' },
+	vp9: { encoders: ['vp9enc'], payloader: 'rtpvp9pay' },
+	h264: { encoders: ['x264enc'], payloader: 'rtph264pay' },
+	av1: {
+		encoders: ['svtav1enc', 'av1enc', 'rav1enc'],
+		payloader: 'rtpav1pay',
+	},
+};
+
+// GStreamer elements needed to depayload and mux each codec (see
+// getConsumePipelineElements()).
+const RECEIVING_ELEMENTS: Record<CodecName, string[]> = {
+	opus: ['rtpopusdepay', 'opusparse', 'webmmux'],
+	vp8: ['rtpvp8depay', 'webmmux'],
+	vp9: ['rtpvp9depay', 'webmmux'],
+	h264: ['rtph264depay', 'h264parse', 'matroskamux'],
+	av1: ['rtpav1depay', 'av1parse', 'webmmux'],
+};
+
+// GStreamer elements needed to send and receive SRTP.
+const SRTP_ELEMENTS = ['srtpenc', 'srtpdec'];
+
 export type GStreamerCreateOptions = {
 	routerRtpCapabilities: mediasoupTypes.RtpCapabilities;
 };
 
+type GStreamerConsumption = {
+	subprocess: childProcess.ChildProcessByStdio<
+		null,
+		streamTypes.Readable,
+		streamTypes.Readable
+	>;
+	subprocessClosed: Promise<void>;
+};
+
 type GStreamerConstructorOptions = {
-	routerRtpCapabilities: mediasoupTypes.RtpCapabilities;
 	rtpCapabilities: mediasoupTypes.RtpCapabilities;
-	extendedRtpCapabilities: mediasoupTypes.ExtendedRtpCapabilities;
+	sendingExtendedRtpCapabilities: mediasoupTypes.ExtendedRtpCapabilities;
+	encoders: Map<CodecName, string>;
+	srtpSupported: boolean;
 };
 
 export class GStreamer
 	extends EnhancedEventEmitter<MediaClientEvents>
 	implements MediaClient
 {
-	readonly #routerRtpCapabilities: mediasoupTypes.RtpCapabilities;
 	readonly #rtpCapabilities: mediasoupTypes.RtpCapabilities;
-	readonly #extendedRtpCapabilities: mediasoupTypes.ExtendedRtpCapabilities;
+	readonly #sendingExtendedRtpCapabilities: mediasoupTypes.ExtendedRtpCapabilities;
+	// Map of GStreamer encoder element names indexed by codec.
+	readonly #encoders: Map<CodecName, string>;
+	readonly #srtpSupported: boolean;
 	readonly #subprocessAbortControllers: Map<
 		childProcess.ChildProcessByStdio<
 			null,
@@ -46,6 +114,8 @@ export class GStreamer
 		>,
 		AbortController
 	> = new Map();
+	// Map of GStreamerConsumptions indexed by consumer id.
+	readonly #consumptions: Map<string, GStreamerConsumption> = new Map();
 	#closed: boolean = false;
 
 	static async create({
@@ -53,32 +123,80 @@ export class GStreamer
 	}: GStreamerCreateOptions): Promise<GStreamer> {
 		logger.debug('create()');
 
-		// TODO: This must be properly created based on real RTP capabilities of the
-		// GStreamer in the system. Wow...
-		const rtpCapabilities: mediasoupTypes.RtpCapabilities = {
-			codecs: [],
-			headerExtensions: [],
-		};
+		const availableElements = await probeElements();
+		const encoders: Map<CodecName, string> = new Map();
+		const receivableCodecNames: Set<CodecName> = new Set();
+
+		for (const codecName of Object.keys(SENDING_ELEMENTS) as CodecName[]) {
+			const { encoders: encoderNames, payloader } = SENDING_ELEMENTS[codecName];
+			const encoder = encoderNames.find(name => availableElements.has(name));
+
+			if (encoder && availableElements.has(payloader)) {
+				encoders.set(codecName, encoder);
+			}
+
+			if (
+				RECEIVING_ELEMENTS[codecName].every(name => availableElements.has(name))
+			) {
+				receivableCodecNames.add(codecName);
+			}
+		}
+
+		const srtpSupported = SRTP_ELEMENTS.every(name =>
+			availableElements.has(name)
+		);
 
 		logger.debug(
-			'create() | local RtpCapabilities generated:',
-			util.inspect(rtpCapabilities, {
+			'create() | elements probed [encoders:%o, receivable codecs:%o, srtp:%o]',
+			Object.fromEntries(encoders),
+			Array.from(receivableCodecNames),
+			srtpSupported
+		);
+
+		const nativeSendingRtpCapabilities = createNativeRtpCapabilities(
+			new Set(encoders.keys())
+		);
+		const nativeRecvRtpCapabilities =
+			createNativeRtpCapabilities(receivableCodecNames);
+
+		// This may throw.
+		ortc.validateAndNormalizeRtpCapabilities(nativeSendingRtpCapabilities);
+		// This may throw.
+		ortc.validateAndNormalizeRtpCapabilities(nativeRecvRtpCapabilities);
+
+		const sendingExtendedRtpCapabilities: mediasoupTypes.ExtendedRtpCapabilities =
+			ortc.getExtendedRtpCapabilities(
+				nativeSendingRtpCapabilities,
+				routerRtpCapabilities,
+				/* preferLocalCodecsOrder */ true
+			);
+
+		logger.debug(
+			'create() | sending ExtendedRtpCapabilities generated:',
+			util.inspect(sendingExtendedRtpCapabilities, {
 				depth: null,
 				colors: true,
 				compact: false,
 			})
 		);
 
-		const extendedRtpCapabilities: mediasoupTypes.ExtendedRtpCapabilities =
+		const recvExtendedRtpCapabilities: mediasoupTypes.ExtendedRtpCapabilities =
 			ortc.getExtendedRtpCapabilities(
-				rtpCapabilities,
+				nativeRecvRtpCapabilities,
 				routerRtpCapabilities,
-				/*preferLocalCodecsOrder*/ true
+				/* preferLocalCodecsOrder */ false
 			);
 
+		const rtpCapabilities = ortc.getRecvRtpCapabilities(
+			recvExtendedRtpCapabilities
+		);
+
+		// This may throw.
+		ortc.validateAndNormalizeRtpCapabilities(rtpCapabilities);
+
 		logger.debug(
-			'create() | local ExtendedRtpCapabilities generated:',
-			util.inspect(extendedRtpCapabilities, {
+			'create() | RtpCapabilities generated:',
+			util.inspect(rtpCapabilities, {
 				depth: null,
 				colors: true,
 				compact: false,
@@ -86,26 +204,29 @@ export class GStreamer
 		);
 
 		const gstreamer = new GStreamer({
-			routerRtpCapabilities,
 			rtpCapabilities,
-			extendedRtpCapabilities,
+			sendingExtendedRtpCapabilities,
+			encoders,
+			srtpSupported,
 		});
 
 		return gstreamer;
 	}
 
 	private constructor({
-		routerRtpCapabilities,
 		rtpCapabilities,
-		extendedRtpCapabilities,
+		sendingExtendedRtpCapabilities,
+		encoders,
+		srtpSupported,
 	}: GStreamerConstructorOptions) {
 		super();
 
 		logger.debug('constructor()');
 
-		this.#routerRtpCapabilities = routerRtpCapabilities;
 		this.#rtpCapabilities = rtpCapabilities;
-		this.#extendedRtpCapabilities = extendedRtpCapabilities;
+		this.#sendingExtendedRtpCapabilities = sendingExtendedRtpCapabilities;
+		this.#encoders = encoders;
+		this.#srtpSupported = srtpSupported;
 	}
 
 	get rtpCapabilities(): mediasoupTypes.RtpCapabilities {
@@ -134,6 +255,10 @@ export class GStreamer
 			);
 		}
 
+		for (const consumerId of this.#consumptions.keys()) {
+			promises.push(this.stopConsuming(consumerId));
+		}
+
 		await Promise.all(promises);
 
 		this.emit('closed');
@@ -145,49 +270,356 @@ export class GStreamer
 		);
 	}
 
+	getSendingRtpParameters(
+		kind: mediasoupTypes.MediaKind
+	): mediasoupTypes.RtpParameters {
+		return createSendingRtpParameters(
+			kind,
+			this.#sendingExtendedRtpCapabilities
+		);
+	}
+
 	async sendMediaFile({
 		mediaFile,
-		audioPlainTransportRemoteData,
-		videoPlainTransportRemoteData,
-		audioSsrc,
-		audioPt,
-		videoSsrc,
-		videoPt,
+		loop,
+		...sendOptions
 	}: MediaClientProduceMediaFileOptions): Promise<void> {
-		logger.debug('sendMediaFile() [mediaFile:%o]', mediaFile);
+		logger.debug('sendMediaFile() [mediaFile:%o, loop:%o]', mediaFile, loop);
 
 		this.assertNotClosed();
 
-		const cmd = 'gst-launch-1.0';
-		const args = utils.splitAndFlattenArgs([
-			'rtpbin name=rtpbin',
-			`filesrc location=${mediaFile}`,
-			'! qtdemux name=demux',
-			'demux.video_0',
-			'! queue',
-			'! decodebin',
-			'! videoconvert',
-			'! vp8enc target-bitrate=1000000 deadline=1 cpu-used=4',
-			`! rtpvp8pay pt=${videoPt} ssrc=${videoSsrc} picture-id-mode=2`,
-			'! rtpbin.send_rtp_sink_0',
-			`rtpbin.send_rtp_src_0 ! udpsink host=${videoPlainTransportRemoteData.ip} port=${videoPlainTransportRemoteData.port}`,
-			`rtpbin.send_rtcp_src_0 ! udpsink host=${videoPlainTransportRemoteData.ip} port=${videoPlainTransportRemoteData.rtcpPort ?? ''} sync=false async=false`,
-			'demux.audio_0',
-			'! queue',
-			'! decodebin',
-			'! audioresample',
-			'! audioconvert',
-			'! opusenc',
-			`! rtpopuspay pt=${audioPt} ssrc=${audioSsrc}`,
-			'! rtpbin.send_rtp_sink_1',
-			`rtpbin.send_rtp_src_1 ! udpsink host=${audioPlainTransportRemoteData.ip} port=${audioPlainTransportRemoteData.port}`,
-			`rtpbin.send_rtcp_src_1 ! udpsink host=${audioPlainTransportRemoteData.ip} port=${audioPlainTransportRemoteData.rtcpPort ?? ''} sync=false async=false`,
-		]);
+		if (loop) {
+			throw new BroadcasterNotImplementedError(
+				`sendMediaFile() with loop not implemented in ${this.constructor.name}`
+			);
+		}
+
+		const args = [
+			...utils.splitAndFlattenArgs([
+				`filesrc location=${mediaFile}`,
+				'! qtdemux name=demux',
+			]),
+			...this.getSendingArgs({
+				...sendOptions,
+				videoSource: utils.splitAndFlattenArgs([
+					'demux.video_0',
+					'! queue',
+					'! decodebin',
+					'! videoconvert',
+				]),
+				audioSource: utils.splitAndFlattenArgs([
+					'demux.audio_0',
+					'! queue',
+					'! decodebin',
+					'! audioresample',
+					'! audioconvert',
+				]),
+				videoBitrate: DEFAULT_VIDEO_BITRATE,
+			}),
+		];
+
+		await this.runSender({ caller: 'sendMediaFile', args });
+	}
 
+	async sendTestPattern({
+		width,
+		height,
+		frameRate,
+		videoBitrate,
+		toneFrequency,
+		timestampOverlay,
+		...sendOptions
+	}: MediaClientProduceTestPatternOptions): Promise<void> {
 		logger.debug(
-			`sendMediaFile() | spawing subprocess: ${cmd} ${args.join(' ')}`
+			'sendTestPattern() [width:%o, height:%o, frameRate:%o, videoBitrate:%o, toneFrequency:%o, timestampOverlay:%o]',
+			width,
+			height,
+			frameRate,
+			videoBitrate,
+			toneFrequency,
+			timestampOverlay
 		);
 
+		this.assertNotClosed();
+
+		const args = this.getSendingArgs({
+			...sendOptions,
+			videoSource: [
+				...utils.splitAndFlattenArgs([
+					'videotestsrc is-live=true pattern=smpte',
+					`! video/x-raw,width=${width},height=${height},framerate=${frameRate}/1`,
+				]),
+				// NOTE: gst-launch escapes spaces within each argument so the font
+				// description can be given as a single one.
+				...(timestampOverlay
+					? [
+							'!',
+							'clockoverlay',
+							'time-format=%H:%M:%S.%f',
+							'halignment=left',
+							'valignment=top',
+							'shaded-background=true',
+							'font-desc=Sans 36',
+						]
+					: []),
+				'!',
+				'videoconvert',
+			],
+			audioSource: utils.splitAndFlattenArgs([
+				`audiotestsrc is-live=true wave=sine freq=${toneFrequency}`,
+				'! audioresample',
+				'! audioconvert',
+			]),
+			videoBitrate,
+		});
+
+		await this.runSender({ caller: 'sendTestPattern', args });
+	}
+
+	async consume({
+		consumerId,
+		kind,
+		rtpParameters,
+		srtpParameters,
+		ip,
+		outputPath,
+		tcpServer,
+	}: MediaClientConsumeOptions): Promise<MediaClientConsumeResult> {
+		logger.debug('consume() [consumerId:%o, kind:%o]', consumerId, kind);
+
+		this.assertNotClosed();
+
+		if (srtpParameters) {
+			this.assertSrtpSupported();
+		}
+
+		if (this.#consumptions.has(consumerId)) {
+			throw new BroadcasterInvalidStateError(
+				`already consuming consumer with id ${consumerId}`
+			);
+		}
+
+		// NOTE: The first codec is the media codec and the rest (if any) are RTX
+		// or FEC codecs.
+		const codec = rtpParameters.codecs[0];
+
+		if (!codec) {
+			throw new BroadcasterError('no codec in consumer RtpParameters');
+		}
+
+		const { encodingName, depayloader, muxer, extension } =
+			getConsumePipelineElements(codec.mimeType);
+		const ssrc = rtpParameters.encodings?.[0]?.ssrc;
+		const rtpCaps = `media=${kind},clock-rate=${codec.clockRate},encoding-name=${encodingName},payload=${codec.payloadType}`;
+		const { port, rtcpPort } = await getFreeUdpPortPair(ip);
+		const output = tcpServer
+			? `tcp://${tcpServer.host}:${tcpServer.port}`
+			: `${outputPath}.${extension}`;
+
+		const cmd = 'gst-launch-1.0';
+		// NOTE: -e makes GStreamer send EOS on SIGINT so the muxer finalizes the
+		// media file.
+		const args = [
+			...utils.splitAndFlattenArgs([
+				'-e',
+				'rtpbin name=rtpbin',
+				...(srtpParameters
+					? [
+							'srtpdec name=srtpdec',
+							`udpsrc address=${ip} port=${port}`,
+							`caps=application/x-srtp,${rtpCaps},${getSrtpCaps(srtpParameters, ssrc)}`,
+							'! srtpdec.rtp_sink srtpdec.rtp_src',
+							'! rtpbin.recv_rtp_sink_0',
+							`udpsrc address=${ip} port=${rtcpPort}`,
+							`caps=application/x-srtcp,${getSrtpCaps(srtpParameters, ssrc)}`,
+							'! srtpdec.rtcp_sink srtpdec.rtcp_src',
+							'! rtpbin.recv_rtcp_sink_0',
+						]
+					: [
+							`udpsrc address=${ip} port=${port}`,
+							`caps=application/x-rtp,${rtpCaps}`,
+							'! rtpbin.recv_rtp_sink_0',
+							`udpsrc address=${ip} port=${rtcpPort}`,
+							'! rtpbin.recv_rtcp_sink_0',
+						]),
+				'rtpbin.',
+				`! ${depayloader}`,
+				`! ${muxer}${tcpServer ? ' streamable=true' : ''}`,
+			]),
+			...(tcpServer
+				? [
+						'!',
+						'tcpserversink',
+						`host=${tcpServer.host}`,
+						`port=${tcpServer.port}`,
+					]
+				: ['!', 'filesink', `location=${output}`]),
+		];
+
+		logger.debug(`consume() | spawing subprocess: ${cmd} ${args.join(' ')}`);
+
+		const subprocess = childProcess.spawn(cmd, args, {
+			stdio: ['ignore', 'overlapped', 'overlapped'],
+		});
+
+		subprocess.stdout.setEncoding('utf8');
+		subprocess.stderr.setEncoding('utf8');
+
+		subprocess.stdout.on('data', (data: string) => {
+			if (!data) {
+				return;
+			}
+
+			spawnLogger.debug(utils.trimFinalNewline(data));
+		});
+
+		subprocess.stderr.on('data', (data: string) => {
+			if (!data) {
+				return;
+			}
+
+			spawnLogger.warn(utils.trimFinalNewline(data));
+		});
+
+		try {
+			await new Promise<void>((resolve, reject) => {
+				subprocess.once('spawn', resolve);
+				subprocess.once('error', reject);
+			});
+		} catch (error) {
+			logger.error('consume() | failed:', error);
+
+			throw new BroadcasterSpawnError(String((error as Error).message));
+		}
+
+		const subprocessClosed: Promise<void> = new Promise(resolve => {
+			subprocess.on('close', (code, signal) => {
+				logger.debug(
+					`consume() | subprocess closed [consumerId:${consumerId}, code:${code}, signal:${signal}]`
+				);
+
+				if (this.#consumptions.get(consumerId)?.subprocess === subprocess) {
+					this.#consumptions.delete(consumerId);
+				}
+
+				resolve();
+			});
+		});
+
+		this.#consumptions.set(consumerId, { subprocess, subprocessClosed });
+
+		await timersPromises.setTimeout(CONSUME_STARTUP_DELAY_MS);
+
+		return { ip, port, rtcpPort, output };
+	}
+
+	async stopConsuming(consumerId: string): Promise<void> {
+		logger.debug('stopConsuming() [consumerId:%o]', consumerId);
+
+		const consumption = this.#consumptions.get(consumerId);
+
+		if (!consumption) {
+			return;
+		}
+
+		this.#consumptions.delete(consumerId);
+
+		const { subprocess, subprocessClosed } = consumption;
+
+		subprocess.kill('SIGINT');
+
+		const killTimer = setTimeout(() => {
+			logger.warn(
+				`stopConsuming() | subprocess did not exit in time, killing it [consumerId:${consumerId}]`
+			);
+
+			subprocess.kill('SIGKILL');
+		}, CONSUME_STOP_TIMEOUT_MS);
+
+		await subprocessClosed;
+
+		clearTimeout(killTimer);
+	}
+
+	/**
+	 * gst-launch arguments to encode the given raw video and audio sources and
+	 * send them over RTP (or SRTP).
+	 */
+	private getSendingArgs({
+		audioPlainTransportRemoteData,
+		videoPlainTransportRemoteData,
+		audioRtpParameters,
+		videoRtpParameters,
+		audioSrtpParameters,
+		videoSrtpParameters,
+		videoSource,
+		audioSource,
+		videoBitrate,
+	}: MediaClientSendOptions & {
+		videoSource: string[];
+		audioSource: string[];
+		videoBitrate: number;
+	}): string[] {
+		const audioCodec = audioRtpParameters.codecs[0]!;
+		const audioSsrc = audioRtpParameters.encodings![0]!.ssrc!;
+		const videoCodec = videoRtpParameters.codecs[0]!;
+		const videoSsrc = videoRtpParameters.encodings![0]!.ssrc!;
+
+		if (audioSrtpParameters ?? videoSrtpParameters) {
+			this.assertSrtpSupported();
+		}
+
+		return [
+			'rtpbin',
+			'name=rtpbin',
+			...videoSource,
+			...utils.splitAndFlattenArgs([
+				getEncoderElements(
+					this.getEncoder(videoCodec),
+					videoCodec,
+					videoSsrc,
+					videoBitrate
+				),
+				'! rtpbin.send_rtp_sink_0',
+				getUdpSinkElements({
+					sessionId: 0,
+					plainTransportRemoteData: videoPlainTransportRemoteData,
+					srtpParameters: videoSrtpParameters,
+				}),
+			]),
+			...audioSource,
+			...utils.splitAndFlattenArgs([
+				getEncoderElements(
+					this.getEncoder(audioCodec),
+					audioCodec,
+					audioSsrc,
+					videoBitrate
+				),
+				'! rtpbin.send_rtp_sink_1',
+				getUdpSinkElements({
+					sessionId: 1,
+					plainTransportRemoteData: audioPlainTransportRemoteData,
+					srtpParameters: audioSrtpParameters,
+				}),
+			]),
+		];
+	}
+
+	/**
+	 * Spawns GStreamer with the given arguments to send media. It resolves once
+	 * GStreamer exits normally or the GStreamer instance is closed.
+	 */
+	private async runSender({
+		caller,
+		args,
+	}: {
+		caller: string;
+		args: string[];
+	}): Promise<void> {
+		const cmd = 'gst-launch-1.0';
+
+		logger.debug(`${caller}() | spawing subprocess: ${cmd} ${args.join(' ')}`);
+
 		const abortController = new AbortController();
 
 		const subprocess = childProcess.spawn(cmd, args, {
@@ -245,20 +677,23 @@ export class GStreamer
 				return;
 			}
 
-			logger.error('sendMediaFile() | failed:', error);
+			logger.error(`${caller}() | failed:`, error);
 
 			throw new BroadcasterSpawnError(String((error as Error).message));
 		}
 	}
 
-	async consume(): Promise<void> {
-		logger.debug('consume()');
+	private getEncoder(codec: mediasoupTypes.RtpCodecParameters): string {
+		const codecName = getCodecName(codec.mimeType);
+		const encoder = codecName ? this.#encoders.get(codecName) : undefined;
 
-		this.assertNotClosed();
+		if (!encoder) {
+			throw new BroadcasterNotImplementedError(
+				`no GStreamer encoder for codec ${codec.mimeType}`
+			);
+		}
 
-		throw new BroadcasterNotImplementedError(
-			`consume() not implemented in ${this.constructor.name}`
-		);
+		return encoder;
 	}
 
 	private assertNotClosed(): void {
@@ -266,4 +701,286 @@ export class GStreamer
 			throw new BroadcasterInvalidStateError('GStreamer closed');
 		}
 	}
+
+	private assertSrtpSupported(): void {
+		if (!this.#srtpSupported) {
+			throw new BroadcasterNotImplementedError(
+				`no GStreamer SRTP elements (${SRTP_ELEMENTS.join(', ')})`
+			);
+		}
+	}
+}
+
+/**
+ * Gets the names of the elements available in GStreamer.
+ */
+async function probeElements(): Promise<Set<string>> {
+	const stdout = await runProbeCommand('gst-inspect-1.0', []);
+	const names: Set<string> = new Set();
+
+	// NOTE: Each element is listed as in "vpx:  vp8enc: On2 VP8 Encoder".
+	for (const line of stdout.split('\n')) {
+		const match = /^[\w-]+:\s+([\w-]+):\s/.exec(line);
+
+		if (match) {
+			names.add(match[1]!);
+		}
+	}
+
+	return names;
+}
+
+/**
+ * GStreamer pipeline elements to encode with the given encoder into the given
+ * codec (video with the given bitrate in kbps) and payload it.
+ */
+function getEncoderElements(
+	encoder: string,
+	codec: mediasoupTypes.RtpCodecParameters,
+	ssrc: number,
+	videoBitrate: number
+): string[] {
+	const codecName = getCodecName(codec.mimeType)!;
+	const payloader = `! ${SENDING_ELEMENTS[codecName].payloader} pt=${codec.payloadType} ssrc=${ssrc}`;
+
+	switch (encoder) {
+		case 'opusenc': {
+			return ['! opusenc', payloader];
+		}
+
+		case 'vp8enc': {
+			return [
+				`! vp8enc target-bitrate=${videoBitrate * 1000} deadline=1 cpu-used=4`,
+				`${payloader} picture-id-mode=2`,
+			];
+		}
+
+		case 'vp9enc': {
+			// NOTE: vp9enc chooses the VP9 profile based on the input format and
+			// profile 2 is 10 bits.
+			const format =
+				codec.parameters?.['profile-id'] === 2 ? 'I420_10LE' : 'I420';
+
+			return [
+				`! video/x-raw,format=${format}`,
+				`! vp9enc target-bitrate=${videoBitrate * 1000} deadline=1 cpu-used=8 row-mt=true`,
+				`${payloader} picture-id-mode=2`,
+			];
+		}
+
+		case 'x264enc': {
+			const { profile } = parseH264ProfileLevelId(codec);
+
+			return [
+				`! x264enc bitrate=${videoBitrate} tune=zerolatency speed-preset=veryfast`,
+				`! video/x-h264,profile=${profile}`,
+				`${payloader} config-interval=-1`,
+			];
+		}
+
+		case 'svtav1enc': {
+			return [
+				`! svtav1enc target-bitrate=${videoBitrate} preset=10`,
+				payloader,
+			];
+		}
+
+		case 'av1enc': {
+			return [
+				`! av1enc usage-profile=realtime cpu-used=8 target-bitrate=${videoBitrate}`,
+				payloader,
+			];
+		}
+
+		case 'rav1enc': {
+			return [
+				`! rav1enc low-latency=true speed-preset=10 bitrate=${videoBitrate * 1000}`,
+				payloader,
+			];
+		}
+
+		default: {
+			throw new BroadcasterNotImplementedError(
+				`unsupported GStreamer encoder ${encoder}`
+			);
+		}
+	}
+}
+
+/**
+ * GStreamer elements to send the RTP and RTCP of the given rtpbin session to
+ * the given PlainTransport, encrypted with SRTP if SRTP parameters are given.
+ */
+function getUdpSinkElements({
+	sessionId,
+	plainTransportRemoteData,
+	srtpParameters,
+}: {
+	sessionId: number;
+	plainTransportRemoteData: PlainTransportRemoteData;
+	srtpParameters?: SrtpParameters;
+}): string[] {
+	const { ip, port, rtcpPort } = plainTransportRemoteData;
+	const rtpSink = `udpsink host=${ip} port=${port}`;
+	const rtcpSink = `udpsink host=${ip} port=${rtcpPort ?? ''} sync=false async=false`;
+
+	if (!srtpParameters) {
+		return [
+			`rtpbin.send_rtp_src_${sessionId} ! ${rtpSink}`,
+			`rtpbin.send_rtcp_src_${sessionId} ! ${rtcpSink}`,
+		];
+	}
+
+	const { rtpCipher, rtpAuth, rtcpCipher, rtcpAuth } = getSrtpPolicy(
+		srtpParameters.cryptoSuite
+	);
+	const key = Buffer.from(srtpParameters.keyBase64, 'base64').toString('hex');
+	const name = `srtpenc${sessionId}`;
+
+	return [
+		`srtpenc name=${name} key=${key} rtp-cipher=${rtpCipher} rtp-auth=${rtpAuth} rtcp-cipher=${rtcpCipher} rtcp-auth=${rtcpAuth}`,
+		`rtpbin.send_rtp_src_${sessionId} ! ${name}.rtp_sink_0`,
+		`${name}.rtp_src_0 ! ${rtpSink}`,
+		`rtpbin.send_rtcp_src_${sessionId} ! ${name}.rtcp_sink_0`,
+		`${name}.rtcp_src_0 ! ${rtcpSink}`,
+	];
+}
+
+/**
+ * Caps fields that give srtpdec the key and policy of the given SSRC.
+ */
+function getSrtpCaps(srtpParameters: SrtpParameters, ssrc?: number): string {
+	const { rtpCipher, rtpAuth, rtcpCipher, rtcpAuth } = getSrtpPolicy(
+		srtpParameters.cryptoSuite
+	);
+	const key = Buffer.from(srtpParameters.keyBase64, 'base64').toString('hex');
+
+	return [
+		ssrc !== undefined ? `ssrc=(uint)${ssrc}` : [],
+		`srtp-key=(buffer)${key}`,
+		`srtp-cipher=(string)${rtpCipher}`,
+		`srtp-auth=(string)${rtpAuth}`,
+		`srtcp-cipher=(string)${rtcpCipher}`,
+		`srtcp-auth=(string)${rtcpAuth}`,
+	]
+		.flat()
+		.join(',');
+}
+
+/**
+ * Ciphers and authentications of srtpenc and srtpdec for the given crypto
+ * suite.
+ */
+function getSrtpPolicy(cryptoSuite: SrtpCryptoSuite): {
+	rtpCipher: string;
+	rtpAuth: string;
+	rtcpCipher: string;
+	rtcpAuth: string;
+} {
+	switch (cryptoSuite) {
+		case 'AES_CM_128_HMAC_SHA1_80': {
+			return {
+				rtpCipher: 'aes-128-icm',
+				rtpAuth: 'hmac-sha1-80',
+				rtcpCipher: 'aes-128-icm',
+				rtcpAuth: 'hmac-sha1-80',
+			};
+		}
+
+		case 'AES_CM_128_HMAC_SHA1_32': {
+			// NOTE: SRTCP uses 80 bits authentication tags with this suite
+			// (RFC 4568).
+			return {
+				rtpCipher: 'aes-128-icm',
+				rtpAuth: 'hmac-sha1-32',
+				rtcpCipher: 'aes-128-icm',
+				rtcpAuth: 'hmac-sha1-80',
+			};
+		}
+
+		case 'AEAD_AES_128_GCM': {
+			return {
+				rtpCipher: 'aes-128-gcm',
+				rtpAuth: 'null',
+				rtcpCipher: 'aes-128-gcm',
+				rtcpAuth: 'null',
+			};
+		}
+
+		case 'AEAD_AES_256_GCM': {
+			return {
+				rtpCipher: 'aes-256-gcm',
+				rtpAuth: 'null',
+				rtcpCipher: 'aes-256-gcm',
+				rtcpAuth: 'null',
+			};
+		}
+
+		default: {
+			utils.assertUnreachable('cryptoSuite', cryptoSuite);
+		}
+	}
+}
+
+/**
+ * GStreamer elements to depayload and mux the given codec.
+ */
+function getConsumePipelineElements(mimeType: string): {
+	encodingName: string;
+	depayloader: string;
+	muxer: string;
+	extension: string;
+} {
+	switch (mimeType.toLowerCase()) {
+		case 'audio/opus': {
+			return {
+				encodingName: 'OPUS',
+				depayloader: 'rtpopusdepay ! opusparse',
+				muxer: 'webmmux',
+				extension: 'webm',
+			};
+		}
+
+		case 'video/vp8': {
+			return {
+				encodingName: 'VP8',
+				depayloader: 'rtpvp8depay',
+				muxer: 'webmmux',
+				extension: 'webm',
+			};
+		}
+
+		case 'video/vp9': {
+			return {
+				encodingName: 'VP9',
+				depayloader: 'rtpvp9depay',
+				muxer: 'webmmux',
+				extension: 'webm',
+			};
+		}
+
+		case 'video/h264': {
+			return {
+				encodingName: 'H264',
+				depayloader: 'rtph264depay ! h264parse',
+				muxer: 'matroskamux',
+				extension: 'mkv',
+			};
+		}
+
+		case 'video/av1': {
+			return {
+				encodingName: 'AV1',
+				depayloader: 'rtpav1depay ! av1parse',
+				muxer: 'webmmux',
+				extension: 'webm',
+			};
+		}
+
+		default: {
+			throw new BroadcasterNotImplementedError(
+				`codec ${mimeType} not supported by GStreamer consumer`
+			);
+		}
+	}
 }
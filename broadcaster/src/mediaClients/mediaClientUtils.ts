@@ -1 +1,462 @@
-import { PeerProducersInfo } from '../types';
+import * as dgram from 'node:dgram';
+import * as net from 'node:net';
+import * as util from 'node:util';
+import * as childProcess from 'node:child_process';
+import * as crypto from 'node:crypto';
+import * as ortc from 'mediasoup-client/ortc';
+import type * as mediasoupTypes from 'mediasoup-client/types';
+
+import {
+	BroadcasterNotImplementedError,
+	BroadcasterSpawnError,
+} from '../errors';
+import * as utils from '../utils';
+import type { SrtpCryptoSuite, SrtpParameters } from '../types';
+
+const MAX_PORT_PAIR_ATTEMPTS = 20;
+const PROBE_COMMAND_TIMEOUT_MS = 10000;
+
+const execFile = util.promisify(childProcess.execFile);
+
+// Length (in bytes) of the SRTP master key plus master salt of each crypto
+// suite.
+const SRTP_KEY_LENGTHS: Record<SrtpCryptoSuite, number> = {
+	AEAD_AES_256_GCM: 44,
+	AEAD_AES_128_GCM: 28,
+	AES_CM_128_HMAC_SHA1_80: 30,
+	AES_CM_128_HMAC_SHA1_32: 30,
+};
+
+/**
+ * Codecs that MediaClients may support.
+ */
+export type CodecName = 'opus' | 'vp8' | 'vp9' | 'h264' | 'av1';
+
+/**
+ * RTP codec capabilities of each codec, ordered by preference when sending
+ * (the most widely supported by browsers first).
+ */
+const CODEC_CAPABILITIES: Record<
+	CodecName,
+	Omit<mediasoupTypes.RtpCodecCapability, 'preferredPayloadType'>[]
+> = {
+	opus: [
+		{
+			kind: 'audio',
+			mimeType: 'audio/opus',
+			clockRate: 48000,
+			channels: 2,
+			parameters: { 'sprop-stereo': 1 },
+			rtcpFeedback: [],
+		},
+	],
+	vp8: [
+		{
+			kind: 'video',
+			mimeType: 'video/VP8',
+			clockRate: 90000,
+			rtcpFeedback: [
+				{ type: 'nack' },
+				{ type: 'nack', parameter: 'pli' },
+				{ type: 'ccm', parameter: 'fir' },
+			],
+		},
+	],
+	h264: [
+		{
+			kind: 'video',
+			mimeType: 'video/H264',
+			clockRate: 90000,
+			parameters: {
+				'packetization-mode': 1,
+				'profile-level-id': '42e01f',
+				'level-asymmetry-allowed': 1,
+			},
+			rtcpFeedback: [
+				{ type: 'nack' },
+				{ type: 'nack', parameter: 'pli' },
+				{ type: 'ccm', parameter: 'fir' },
+			],
+		},
+		{
+			kind: 'video',
+			mimeType: 'video/H264',
+			clockRate: 90000,
+			parameters: {
+				'packetization-mode': 1,
+				'profile-level-id': '4d0032',
+				'level-asymmetry-allowed': 1,
+			},
+			rtcpFeedback: [
+				{ type: 'nack' },
+				{ type: 'nack', parameter: 'pli' },
+				{ type: 'ccm', parameter: 'fir' },
+			],
+		},
+		{
+			kind: 'video',
+			mimeType: 'video/H264',
+			clockRate: 90000,
+			parameters: {
+				'packetization-mode': 1,
+				'profile-level-id': '640032',
+				'level-asymmetry-allowed': 1,
+			},
+			rtcpFeedback: [
+				{ type: 'nack' },
+				{ type: 'nack', parameter: 'pli' },
+				{ type: 'ccm', parameter: 'fir' },
+			],
+		},
+	],
+	vp9: [
+		{
+			kind: 'video',
+			mimeType: 'video/VP9',
+			clockRate: 90000,
+			parameters: { 'profile-id': 0 },
+			rtcpFeedback: [
+				{ type: 'nack' },
+				{ type: 'nack', parameter: 'pli' },
+				{ type: 'ccm', parameter: 'fir' },
+			],
+		},
+		{
+			kind: 'video',
+			mimeType: 'video/VP9',
+			clockRate: 90000,
+			parameters: { 'profile-id': 2 },
+			rtcpFeedback: [
+				{ type: 'nack' },
+				{ type: 'nack', parameter: 'pli' },
+				{ type: 'ccm', parameter: 'fir' },
+			],
+		},
+	],
+	av1: [
+		{
+			kind: 'video',
+			mimeType: 'video/AV1',
+			clockRate: 90000,
+			rtcpFeedback: [
+				{ type: 'nack' },
+				{ type: 'nack', parameter: 'pli' },
+				{ type: 'ccm', parameter: 'fir' },
+			],
+		},
+	],
+};
+
+/**
+ * Creates native RtpCapabilities with the given codecs (ordered by
+ * preference, see CODEC_CAPABILITIES).
+ */
+export function createNativeRtpCapabilities(
+	codecNames: Set<CodecName>
+): mediasoupTypes.RtpCapabilities {
+	const codecs: mediasoupTypes.RtpCodecCapability[] = [];
+	let preferredPayloadType = 100;
+
+	for (const [codecName, codecCapabilities] of Object.entries(
+		CODEC_CAPABILITIES
+	)) {
+		if (!codecNames.has(codecName as CodecName)) {
+			continue;
+		}
+
+		for (const codecCapability of codecCapabilities) {
+			codecs.push({
+				...utils.clone(codecCapability),
+				preferredPayloadType: preferredPayloadType++,
+			});
+		}
+	}
+
+	return { codecs, headerExtensions: [] };
+}
+
+/**
+ * Creates RtpParameters to send media of the given kind with the preferred
+ * codec in the given ExtendedRtpCapabilities (that must be created with
+ * preferLocalCodecsOrder).
+ */
+export function createSendingRtpParameters(
+	kind: mediasoupTypes.MediaKind,
+	extendedRtpCapabilities: mediasoupTypes.ExtendedRtpCapabilities
+): mediasoupTypes.RtpParameters {
+	const rtpParameters = ortc.getSendingRtpParameters(
+		kind,
+		extendedRtpCapabilities
+	);
+	const codec = rtpParameters.codecs[0];
+
+	if (!codec) {
+		throw new BroadcasterNotImplementedError(
+			`no ${kind} codec can be sent to the Router`
+		);
+	}
+
+	rtpParameters.codecs = [codec];
+	rtpParameters.encodings = [{ ssrc: crypto.randomInt(1, 0xffffffff) }];
+	rtpParameters.rtcp = { cname: utils.generateRandomString(6) };
+
+	return rtpParameters;
+}
+
+export function getCodecName(mimeType: string): CodecName | undefined {
+	switch (mimeType.toLowerCase()) {
+		case 'audio/opus': {
+			return 'opus';
+		}
+
+		case 'video/vp8': {
+			return 'vp8';
+		}
+
+		case 'video/vp9': {
+			return 'vp9';
+		}
+
+		case 'video/h264': {
+			return 'h264';
+		}
+
+		case 'video/av1': {
+			return 'av1';
+		}
+
+		default: {
+			return undefined;
+		}
+	}
+}
+
+/**
+ * Parses the profile-level-id (RFC 6184) of the given H264 codec.
+ */
+export function parseH264ProfileLevelId(
+	codec: mediasoupTypes.RtpCodecParameters
+): {
+	profile: 'constrained-baseline' | 'baseline' | 'main' | 'high';
+	level: string;
+} {
+	const profileLevelId =
+		typeof codec.parameters?.['profile-level-id'] === 'string'
+			? codec.parameters['profile-level-id']
+			: '42e01f';
+	const profileIdc = parseInt(profileLevelId.slice(0, 2), 16);
+	const profileIop = parseInt(profileLevelId.slice(2, 4), 16);
+	const levelIdc = parseInt(profileLevelId.slice(4, 6), 16);
+	const level = `${Math.floor(levelIdc / 10)}.${levelIdc % 10}`;
+
+	switch (profileIdc) {
+		case 0x4d: {
+			return { profile: 'main', level };
+		}
+
+		case 0x64: {
+			return { profile: 'high', level };
+		}
+
+		default: {
+			return {
+				profile: profileIop & 0x40 ? 'constrained-baseline' : 'baseline',
+				level,
+			};
+		}
+	}
+}
+
+/**
+ * Runs the given command to probe the capabilities of a binary.
+ *
+ * @returns Its stdout.
+ */
+export async function runProbeCommand(
+	cmd: string,
+	args: string[]
+): Promise<string> {
+	try {
+		const { stdout } = await execFile(cmd, args, {
+			timeout: PROBE_COMMAND_TIMEOUT_MS,
+			maxBuffer: 10 * 1024 * 1024,
+		});
+
+		return stdout;
+	} catch (error) {
+		throw new BroadcasterSpawnError(
+			`failed to run ${cmd} ${args.join(' ')}: ${(error as Error).message}`
+		);
+	}
+}
+
+/**
+ * Creates a SDP describing a single RTP stream to be received in the given IP
+ * and port, with RTCP in the next port. If SRTP parameters are given, the
+ * stream is SRTP encrypted with them.
+ */
+export function createConsumerSdp({
+	ip,
+	port,
+	kind,
+	codec,
+	srtpParameters,
+}: {
+	ip: string;
+	port: number;
+	kind: mediasoupTypes.MediaKind;
+	codec: mediasoupTypes.RtpCodecParameters;
+	srtpParameters?: SrtpParameters;
+}): string {
+	const { payloadType, mimeType, clockRate, channels, parameters } = codec;
+	const encodingName = mimeType.split('/')[1]!;
+	const ipVersion = net.isIPv6(ip) ? 'IP6' : 'IP4';
+	const lines = [
+		'v=0',
+		`o=- 0 0 IN ${ipVersion} ${ip}`,
+		's=mediasoup-demo-broadcaster',
+		`c=IN ${ipVersion} ${ip}`,
+		't=0 0',
+		`m=${kind} ${port} ${srtpParameters ? 'RTP/SAVP' : 'RTP/AVP'} ${payloadType}`,
+		`a=rtpmap:${payloadType} ${encodingName}/${clockRate}${channels && channels > 1 ? `/${channels}` : ''}`,
+	];
+
+	const fmtp = Object.entries(parameters ?? {})
+		.map(([key, value]) => `${key}=${value}`)
+		.join(';');
+
+	if (fmtp) {
+		lines.push(`a=fmtp:${payloadType} ${fmtp}`);
+	}
+
+	if (srtpParameters) {
+		lines.push(
+			`a=crypto:1 ${srtpParameters.cryptoSuite} inline:${srtpParameters.keyBase64}`
+		);
+	}
+
+	lines.push('a=recvonly');
+
+	return `${lines.join('\r\n')}\r\n`;
+}
+
+/**
+ * Creates SRTP parameters with a new random key for the given crypto suite.
+ */
+export function createSrtpParameters(
+	cryptoSuite: SrtpCryptoSuite
+): SrtpParameters {
+	return {
+		cryptoSuite,
+		keyBase64: crypto
+			.randomBytes(SRTP_KEY_LENGTHS[cryptoSuite])
+			.toString('base64'),
+	};
+}
+
+/**
+ * Gets two consecutive UDP ports currently available in the given IP, for RTP
+ * and RTCP.
+ */
+export async function getFreeUdpPortPair(
+	ip: string
+): Promise<{ port: number; rtcpPort: number }> {
+	const socketType = net.isIPv6(ip) ? 'udp6' : 'udp4';
+
+	for (let attempt = 0; attempt < MAX_PORT_PAIR_ATTEMPTS; ++attempt) {
+		const rtpSocket = dgram.createSocket(socketType);
+		const rtcpSocket = dgram.createSocket(socketType);
+
+		try {
+			await bindUdpSocket(rtpSocket, ip, 0);
+
+			const { port } = rtpSocket.address();
+
+			if (port < 65535) {
+				await bindUdpSocket(rtcpSocket, ip, port + 1);
+
+				return { port, rtcpPort: port + 1 };
+			}
+		} catch {
+			// Port in use, try again.
+		} finally {
+			await closeSocket(rtpSocket);
+			await closeSocket(rtcpSocket);
+		}
+	}
+
+	throw new Error(`could not find two consecutive free UDP ports in ${ip}`);
+}
+
+/**
+ * Gets the local IP used to send UDP packets to the given remote IP and port.
+ */
+export async function getLocalIpTowards(
+	ip: string,
+	port: number
+): Promise<string> {
+	const socket = dgram.createSocket(net.isIPv6(ip) ? 'udp6' : 'udp4');
+
+	try {
+		await new Promise<void>((resolve, reject) => {
+			socket.once('error', reject);
+			socket.connect(port, ip, resolve);
+		});
+
+		return socket.address().address;
+	} finally {
+		await closeSocket(socket);
+	}
+}
+
+/**
+ * Extension of the media file in which the given codec is written without
+ * transcoding.
+ */
+export function getMediaFileExtension(mimeType: string): string {
+	switch (mimeType.toLowerCase()) {
+		case 'audio/opus': {
+			return 'ogg';
+		}
+
+		case 'video/vp8':
+		case 'video/vp9':
+		case 'video/av1': {
+			return 'webm';
+		}
+
+		default: {
+			return 'mkv';
+		}
+	}
+}
+
+/**
+ * Binds the given UDP socket. Port 0 means any available port.
+ */
+export async function bindUdpSocket(
+	socket: dgram.Socket,
+	ip: string,
+	port: number
+): Promise<void> {
+	await new Promise<void>((resolve, reject) => {
+		socket.once('error', reject);
+
+		socket.bind(port, ip, () => {
+			socket.off('error', reject);
+
+			resolve();
+		});
+	});
+}
+
+async function closeSocket(socket: dgram.Socket): Promise<void> {
+	await new Promise<void>(resolve => {
+		try {
+			socket.close(() => resolve());
+		} catch {
+			// Not bound or already closed.
+			resolve();
+		}
+	});
+}
@@ -0,0 +1,41 @@
+import { MediaWriter, MediaFrame } from './MediaWriter';
+
+export type AnnexBWriterCreateOptions = {
+	file: string;
+};
+
+type AnnexBWriterConstructorOptions = {
+	file: string;
+};
+
+/**
+ * Writes H264 access units (in Annex B format) into a raw H264 elementary
+ * stream file. Access units before the first key frame are discarded.
+ *
+ * @remarks
+ * - Raw H264 files have no timestamps so players assume a constant frame
+ *   rate.
+ */
+export class AnnexBWriter extends MediaWriter {
+	#started: boolean = false;
+
+	static create({ file }: AnnexBWriterCreateOptions): AnnexBWriter {
+		return new AnnexBWriter({ file });
+	}
+
+	private constructor({ file }: AnnexBWriterConstructorOptions) {
+		super(file);
+	}
+
+	write({ data, keyFrame }: MediaFrame): void {
+		if (!this.#started && !keyFrame) {
+			return;
+		}
+
+		this.#started = true;
+
+		this.writeData(data);
+	}
+
+	protected finalize(): void {}
+}
@@ -0,0 +1,128 @@
+import { MediaWriter, MediaFrame } from './MediaWriter';
+import { getVideoFrameSize } from './codecUtils';
+import { BroadcasterNotImplementedError } from '../errors';
+
+const IVF_HEADER_SIZE = 32;
+
+export type IvfWriterCreateOptions = {
+	file: string;
+	mimeType: string;
+	clockRate: number;
+};
+
+type IvfWriterConstructorOptions = {
+	file: string;
+	mimeType: string;
+	fourcc: string;
+	clockRate: number;
+};
+
+/**
+ * Writes VP8, VP9 or AV1 frames into an IVF file. Frames before the first key
+ * frame are discarded.
+ */
+export class IvfWriter extends MediaWriter {
+	readonly #mimeType: string;
+	#numFrames: number = 0;
+	#sizeKnown: boolean = false;
+
+	static create({
+		file,
+		mimeType,
+		clockRate,
+	}: IvfWriterCreateOptions): IvfWriter {
+		let fourcc: string;
+
+		switch (mimeType.toLowerCase()) {
+			case 'video/vp8': {
+				fourcc = 'VP80';
+
+				break;
+			}
+
+			case 'video/vp9': {
+				fourcc = 'VP90';
+
+				break;
+			}
+
+			case 'video/av1': {
+				fourcc = 'AV01';
+
+				break;
+			}
+
+			default: {
+				throw new BroadcasterNotImplementedError(
+					`codec ${mimeType} not supported in IVF`
+				);
+			}
+		}
+
+		return new IvfWriter({ file, mimeType, fourcc, clockRate });
+	}
+
+	private constructor({
+		file,
+		mimeType,
+		fourcc,
+		clockRate,
+	}: IvfWriterConstructorOptions) {
+		super(file);
+
+		this.#mimeType = mimeType;
+
+		const header = Buffer.alloc(IVF_HEADER_SIZE);
+
+		header.write('DKIF', 0, 'ascii');
+		// Version.
+		header.writeUInt16LE(0, 4);
+		header.writeUInt16LE(IVF_HEADER_SIZE, 6);
+		header.write(fourcc, 8, 'ascii');
+		// Width and height (offsets 12 and 14) are patched later.
+		// Time base (timestamps are in clock rate units).
+		header.writeUInt32LE(clockRate, 16);
+		header.writeUInt32LE(1, 20);
+		// Number of frames (offset 24) is patched later.
+
+		this.writeData(header);
+	}
+
+	write({ data, timestamp, keyFrame }: MediaFrame): void {
+		if (this.closed || (this.#numFrames === 0 && !keyFrame)) {
+			return;
+		}
+
+		if (keyFrame && !this.#sizeKnown) {
+			const size = getVideoFrameSize(this.#mimeType, data);
+
+			if (size) {
+				const sizeData = Buffer.alloc(4);
+
+				sizeData.writeUInt16LE(size.width, 0);
+				sizeData.writeUInt16LE(size.height, 2);
+
+				this.patch(12, sizeData);
+
+				this.#sizeKnown = true;
+			}
+		}
+
+		const frameHeader = Buffer.alloc(12);
+
+		frameHeader.writeUInt32LE(data.length, 0);
+		frameHeader.writeBigUInt64LE(BigInt(timestamp), 4);
+
+		this.writeData(Buffer.concat([frameHeader, data]));
+
+		this.#numFrames++;
+	}
+
+	protected finalize(): void {
+		const numFramesData = Buffer.alloc(4);
+
+		numFramesData.writeUInt32LE(this.#numFrames, 0);
+
+		this.patch(24, numFramesData);
+	}
+}
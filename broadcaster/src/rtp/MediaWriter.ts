@@ -0,0 +1,107 @@
+import * as fs from 'node:fs';
+import * as streamPromises from 'node:stream/promises';
+
+/**
+ * A frame given to a MediaWriter.
+ */
+export type MediaFrame = {
+	data: Buffer;
+	/**
+	 * Time since the first written frame in clock rate units of the codec.
+	 */
+	timestamp: number;
+	keyFrame: boolean;
+};
+
+/**
+ * Writes encoded frames into a media file.
+ */
+export abstract class MediaWriter {
+	readonly #file: string;
+	readonly #stream: fs.WriteStream;
+	#position: number = 0;
+	readonly #patches: { position: number; data: Buffer }[] = [];
+	#closePromise?: Promise<void>;
+
+	protected constructor(file: string) {
+		this.#file = file;
+		this.#stream = fs.createWriteStream(file);
+
+		// NOTE: Errors are reported in close().
+		this.#stream.on('error', () => {});
+	}
+
+	get file(): string {
+		return this.#file;
+	}
+
+	get closed(): boolean {
+		return this.#closePromise !== undefined;
+	}
+
+	/**
+	 * Finishes the file and closes it.
+	 */
+	async close(): Promise<void> {
+		if (this.#closePromise) {
+			return this.#closePromise;
+		}
+
+		this.finalize();
+
+		this.#closePromise = this.closeFile();
+
+		return this.#closePromise;
+	}
+
+	abstract write(frame: MediaFrame): void;
+
+	/**
+	 * Called right before closing the file to write pending data.
+	 */
+	protected abstract finalize(): void;
+
+	/**
+	 * Current size of the file.
+	 */
+	protected get position(): number {
+		return this.#position;
+	}
+
+	protected writeData(data: Buffer): void {
+		if (this.closed) {
+			return;
+		}
+
+		this.#stream.write(data);
+		this.#position += data.length;
+	}
+
+	/**
+	 * Overwrites already written data once the file is complete (to update
+	 * headers that depend on the whole content).
+	 */
+	protected patch(position: number, data: Buffer): void {
+		this.#patches.push({ position, data });
+	}
+
+	private async closeFile(): Promise<void> {
+		this.#stream.end();
+
+		await streamPromises.finished(this.#stream);
+
+		if (this.#patches.length === 0) {
+			return;
+		}
+
+		const fileHandle = await fs.promises.open(this.#file, 'r+');
+
+		try {
+			for (const { position, data } of this.#patches) {
+				await fileHandle.write(data, 0, data.length, position);
+			}
+		} finally {
+			await fileHandle.close();
+		}
+	}
+}
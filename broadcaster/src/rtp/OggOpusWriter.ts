@@ -0,0 +1,166 @@
+import * as crypto from 'node:crypto';
+
+import { MediaWriter, MediaFrame } from './MediaWriter';
+import { createOpusHead, getOpusPacketSamples } from './codecUtils';
+
+const OGG_HEADER_TYPE_BOS = 0x02;
+const OGG_HEADER_TYPE_EOS = 0x04;
+const OGG_CRC_TABLE = createOggCrcTable();
+
+export type OggOpusWriterCreateOptions = {
+	file: string;
+	channels?: number;
+};
+
+type OggOpusWriterConstructorOptions = {
+	file: string;
+	channels: number;
+};
+
+/**
+ * Writes Opus packets into an Ogg file (RFC 7845). Each Opus packet goes into
+ * its own Ogg page.
+ *
+ * @remarks
+ * - Frame timestamps must be in 48 kHz units.
+ */
+export class OggOpusWriter extends MediaWriter {
+	readonly #serialNumber: number = crypto.randomBytes(4).readUInt32LE();
+	#pageSequenceNumber: number = 0;
+	// The last packet is held so it can be written in the EOS page.
+	#pendingPacket?: { data: Buffer; granulePosition: number };
+
+	static create({
+		file,
+		channels = 2,
+	}: OggOpusWriterCreateOptions): OggOpusWriter {
+		return new OggOpusWriter({ file, channels });
+	}
+
+	private constructor({ file, channels }: OggOpusWriterConstructorOptions) {
+		super(file);
+
+		this.writePage({
+			packet: createOpusHead(channels),
+			granulePosition: 0,
+			headerType: OGG_HEADER_TYPE_BOS,
+		});
+
+		this.writePage({ packet: createOpusTags(), granulePosition: 0 });
+	}
+
+	write({ data, timestamp }: MediaFrame): void {
+		if (this.closed) {
+			return;
+		}
+
+		if (this.#pendingPacket) {
+			this.writePage({
+				packet: this.#pendingPacket.data,
+				granulePosition: this.#pendingPacket.granulePosition,
+			});
+		}
+
+		this.#pendingPacket = {
+			data,
+			granulePosition: timestamp + getOpusPacketSamples(data),
+		};
+	}
+
+	protected finalize(): void {
+		this.writePage({
+			packet: this.#pendingPacket?.data,
+			granulePosition: this.#pendingPacket?.granulePosition ?? 0,
+			headerType: OGG_HEADER_TYPE_EOS,
+		});
+
+		this.#pendingPacket = undefined;
+	}
+
+	/**
+	 * RFC 3533 section 6.
+	 */
+	private writePage({
+		packet,
+		granulePosition,
+		headerType = 0,
+	}: {
+		packet?: Buffer;
+		granulePosition: number;
+		headerType?: number;
+	}): void {
+		const numSegments = packet ? Math.floor(packet.length / 255) + 1 : 0;
+
+		if (numSegments > 255) {
+			return;
+		}
+
+		const header = Buffer.alloc(27 + numSegments);
+
+		header.write('OggS', 0, 'ascii');
+		// Version.
+		header[4] = 0;
+		header[5] = headerType;
+		header.writeBigUInt64LE(BigInt(granulePosition), 6);
+		header.writeUInt32LE(this.#serialNumber, 14);
+		header.writeUInt32LE(this.#pageSequenceNumber++, 18);
+		header[26] = numSegments;
+
+		// Lacing values.
+		for (let i = 0; i < numSegments; ++i) {
+			header[27 + i] = i < numSegments - 1 ? 255 : packet!.length % 255;
+		}
+
+		const page = packet ? Buffer.concat([header, packet]) : header;
+
+		page.writeUInt32LE(getOggCrc(page), 22);
+
+		this.writeData(page);
+	}
+}
+
+/**
+ * Comment header of Opus streams (RFC 7845 section 5.2) with no user comments.
+ */
+function createOpusTags(): Buffer {
+	const vendor = Buffer.from('mediasoup-demo', 'ascii');
+	const opusTags = Buffer.alloc(8 + 4 + vendor.length + 4);
+
+	opusTags.write('OpusTags', 0, 'ascii');
+	opusTags.writeUInt32LE(vendor.length, 8);
+	vendor.copy(opusTags, 12);
+	// User comment list length (offset 12 + vendor length) is zero.
+
+	return opusTags;
+}
+
+function createOggCrcTable(): Uint32Array {
+	const table = new Uint32Array(256);
+
+	for (let i = 0; i < 256; ++i) {
+		let remainder = i << 24;
+
+		for (let j = 0; j < 8; ++j) {
+			remainder =
+				remainder & 0x80000000 ? (remainder << 1) ^ 0x04c11db7 : remainder << 1;
+		}
+
+		table[i] = remainder >>> 0;
+	}
+
+	return table;
+}
+
+/**
+ * CRC32 of Ogg pages (polynomial 0x04c11db7, no reflection, zero initial
+ * value).
+ */
+function getOggCrc(page: Buffer): number {
+	let crc = 0;
+
+	for (const byte of page) {
+		crc = ((crc << 8) ^ OGG_CRC_TABLE[((crc >>> 24) ^ byte) & 0xff]!) >>> 0;
+	}
+
+	return crc;
+}
@@ -0,0 +1,119 @@
+import { RtpPacket, getSequenceNumberDiff } from './rtpPacket';
+
+const DEFAULT_MAX_PACKETS = 100;
+// A jump in sequence numbers bigger than this means that the sender was
+// restarted so the buffer starts over.
+const MAX_SEQUENCE_NUMBER_JUMP = 3000;
+
+export type RtpReorderBufferCreateOptions = {
+	/**
+	 * Max number of out of order packets to hold while waiting for a missing
+	 * one. Once reached, the missing packet is given up. Default 100.
+	 */
+	maxPackets?: number;
+};
+
+type RtpReorderBufferConstructorOptions = {
+	maxPackets: number;
+};
+
+/**
+ * Reorders RTP packets by sequence number. Duplicated and too late packets
+ * are discarded.
+ */
+export class RtpReorderBuffer {
+	readonly #maxPackets: number;
+	// Map of RtpPackets indexed by sequence number.
+	readonly #packets: Map<number, RtpPacket> = new Map();
+	#nextSequenceNumber?: number;
+
+	static create({
+		maxPackets = DEFAULT_MAX_PACKETS,
+	}: RtpReorderBufferCreateOptions = {}): RtpReorderBuffer {
+		return new RtpReorderBuffer({ maxPackets });
+	}
+
+	private constructor({ maxPackets }: RtpReorderBufferConstructorOptions) {
+		this.#maxPackets = maxPackets;
+	}
+
+	/**
+	 * Inserts the given packet and returns the packets that can be released in
+	 * order (maybe none).
+	 */
+	push(packet: RtpPacket): RtpPacket[] {
+		const releasedPackets: RtpPacket[] = [];
+
+		if (this.#nextSequenceNumber === undefined) {
+			this.#nextSequenceNumber = packet.sequenceNumber;
+		}
+
+		const diff = getSequenceNumberDiff(
+			packet.sequenceNumber,
+			this.#nextSequenceNumber
+		);
+
+		if (Math.abs(diff) > MAX_SEQUENCE_NUMBER_JUMP) {
+			releasedPackets.push(...this.flush());
+
+			this.#nextSequenceNumber = packet.sequenceNumber;
+		} else if (diff < 0 || this.#packets.has(packet.sequenceNumber)) {
+			return releasedPackets;
+		}
+
+		this.#packets.set(packet.sequenceNumber, packet);
+
+		this.releaseInOrder(releasedPackets);
+
+		// Give up missing packets if there are too many packets waiting.
+		while (this.#packets.size > this.#maxPackets) {
+			this.#nextSequenceNumber = this.getOldestSequenceNumber();
+
+			this.releaseInOrder(releasedPackets);
+		}
+
+		return releasedPackets;
+	}
+
+	/**
+	 * Releases all held packets in order, ignoring missing ones.
+	 */
+	flush(): RtpPacket[] {
+		const releasedPackets: RtpPacket[] = [];
+
+		while (this.#packets.size > 0) {
+			this.#nextSequenceNumber = this.getOldestSequenceNumber();
+
+			this.releaseInOrder(releasedPackets);
+		}
+
+		return releasedPackets;
+	}
+
+	private releaseInOrder(releasedPackets: RtpPacket[]): void {
+		let packet: RtpPacket | undefined;
+
+		while ((packet = this.#packets.get(this.#nextSequenceNumber!))) {
+			this.#packets.delete(packet.sequenceNumber);
+
+			releasedPackets.push(packet);
+
+			this.#nextSequenceNumber = (packet.sequenceNumber + 1) & 0xffff;
+		}
+	}
+
+	private getOldestSequenceNumber(): number {
+		let oldestSequenceNumber: number | undefined;
+
+		for (const sequenceNumber of this.#packets.keys()) {
+			if (
+				oldestSequenceNumber === undefined ||
+				getSequenceNumberDiff(sequenceNumber, oldestSequenceNumber) < 0
+			) {
+				oldestSequenceNumber = sequenceNumber;
+			}
+		}
+
+		return oldestSequenceNumber!;
+	}
+}
@@ -0,0 +1,222 @@
+import type * as mediasoupTypes from 'mediasoup-client/types';
+
+import { RtpPacket, isRtcp, parseRtpPacket } from './rtpPacket';
+import { RtpReorderBuffer } from './RtpReorderBuffer';
+import { Depacketizer, createDepacketizer } from './depacketizers';
+import { MediaWriter } from './MediaWriter';
+import { OggOpusWriter } from './OggOpusWriter';
+import { IvfWriter } from './IvfWriter';
+import { WebmWriter } from './WebmWriter';
+import { AnnexBWriter } from './AnnexBWriter';
+import { BroadcasterNotImplementedError } from '../errors';
+
+export type RtpTrackWriterFormat = 'ogg' | 'webm' | 'ivf' | 'h264';
+
+export type RtpTrackWriterCreateOptions = {
+	/**
+	 * Codec of the RTP stream. Packets with other payload type (such as RTX)
+	 * are ignored.
+	 */
+	codec: mediasoupTypes.RtpCodecParameters;
+	/**
+	 * Path of the output file without extension.
+	 */
+	basePath: string;
+	/**
+	 * Container format. Default 'ogg' for Opus, 'webm' for VP8 and VP9 and
+	 * 'h264' for H264.
+	 */
+	format?: RtpTrackWriterFormat;
+};
+
+type RtpTrackWriterConstructorOptions = {
+	payloadType: number;
+	depacketizer: Depacketizer;
+	mediaWriter: MediaWriter;
+};
+
+/**
+ * Writes a single RTP stream into a media file. RTP packets can come from a
+ * UDP socket (for a PlainTransport) or from the 'rtp' event of a Consumer in a
+ * DirectTransport.
+ */
+export class RtpTrackWriter {
+	readonly #payloadType: number;
+	readonly #reorderBuffer: RtpReorderBuffer = RtpReorderBuffer.create();
+	readonly #depacketizer: Depacketizer;
+	readonly #mediaWriter: MediaWriter;
+	// RTP timestamps unwrapped to more than 32 bits.
+	#firstTimestamp?: number;
+	#lastRtpTimestamp: number = 0;
+	#lastTimestamp: number = 0;
+
+	static create({
+		codec,
+		basePath,
+		format,
+	}: RtpTrackWriterCreateOptions): RtpTrackWriter {
+		const mimeType = codec.mimeType.toLowerCase();
+
+		format ??= getDefaultFormat(mimeType);
+
+		const file = `${basePath}.${format}`;
+		let mediaWriter: MediaWriter;
+
+		switch (format) {
+			case 'ogg': {
+				if (mimeType !== 'audio/opus') {
+					throw new BroadcasterNotImplementedError(
+						`codec ${codec.mimeType} not supported in Ogg`
+					);
+				}
+
+				mediaWriter = OggOpusWriter.create({ file, channels: codec.channels });
+
+				break;
+			}
+
+			case 'webm': {
+				mediaWriter = WebmWriter.create({
+					file,
+					mimeType,
+					clockRate: codec.clockRate,
+					channels: codec.channels,
+				});
+
+				break;
+			}
+
+			case 'ivf': {
+				mediaWriter = IvfWriter.create({
+					file,
+					mimeType,
+					clockRate: codec.clockRate,
+				});
+
+				break;
+			}
+
+			case 'h264': {
+				if (mimeType !== 'video/h264') {
+					throw new BroadcasterNotImplementedError(
+						`codec ${codec.mimeType} not supported in raw H264`
+					);
+				}
+
+				mediaWriter = AnnexBWriter.create({ file });
+
+				break;
+			}
+		}
+
+		return new RtpTrackWriter({
+			payloadType: codec.payloadType,
+			depacketizer: createDepacketizer(mimeType),
+			mediaWriter,
+		});
+	}
+
+	private constructor({
+		payloadType,
+		depacketizer,
+		mediaWriter,
+	}: RtpTrackWriterConstructorOptions) {
+		this.#payloadType = payloadType;
+		this.#depacketizer = depacketizer;
+		this.#mediaWriter = mediaWriter;
+	}
+
+	get file(): string {
+		return this.#mediaWriter.file;
+	}
+
+	/**
+	 * Processes a received RTP packet. RTCP packets are ignored.
+	 */
+	receiveRtp(buffer: Buffer): void {
+		if (this.#mediaWriter.closed || isRtcp(buffer)) {
+			return;
+		}
+
+		const packet = parseRtpPacket(buffer);
+
+		if (!packet || packet.payloadType !== this.#payloadType) {
+			return;
+		}
+
+		for (const orderedPacket of this.#reorderBuffer.push(packet)) {
+			this.processRtpPacket(orderedPacket);
+		}
+	}
+
+	/**
+	 * Writes pending packets and closes the file.
+	 */
+	async close(): Promise<void> {
+		if (!this.#mediaWriter.closed) {
+			for (const packet of this.#reorderBuffer.flush()) {
+				this.processRtpPacket(packet);
+			}
+		}
+
+		return this.#mediaWriter.close();
+	}
+
+	private processRtpPacket(packet: RtpPacket): void {
+		const frame = this.#depacketizer.push(packet);
+
+		if (!frame) {
+			return;
+		}
+
+		const timestamp = this.unwrapTimestamp(frame.timestamp);
+
+		this.#firstTimestamp ??= timestamp;
+
+		this.#mediaWriter.write({
+			data: frame.data,
+			timestamp: Math.max(0, timestamp - this.#firstTimestamp),
+			keyFrame: frame.keyFrame,
+		});
+	}
+
+	private unwrapTimestamp(rtpTimestamp: number): number {
+		if (this.#firstTimestamp === undefined) {
+			this.#lastRtpTimestamp = rtpTimestamp;
+			this.#lastTimestamp = rtpTimestamp;
+
+			return rtpTimestamp;
+		}
+
+		// Signed 32 bit difference.
+		const diff = (rtpTimestamp - this.#lastRtpTimestamp) | 0;
+
+		this.#lastRtpTimestamp = rtpTimestamp;
+		this.#lastTimestamp += diff;
+
+		return this.#lastTimestamp;
+	}
+}
+
+function getDefaultFormat(mimeType: string): RtpTrackWriterFormat {
+	switch (mimeType) {
+		case 'audio/opus': {
+			return 'ogg';
+		}
+
+		case 'video/vp8':
+		case 'video/vp9': {
+			return 'webm';
+		}
+
+		case 'video/h264': {
+			return 'h264';
+		}
+
+		default: {
+			throw new BroadcasterNotImplementedError(
+				`no media file format for codec ${mimeType}`
+			);
+		}
+	}
+}
@@ -0,0 +1,355 @@
+import { MediaWriter, MediaFrame } from './MediaWriter';
+import { createOpusHead, getVideoFrameSize } from './codecUtils';
+import { BroadcasterNotImplementedError } from '../errors';
+
+// EBML element ids (https://www.matroska.org/technical/elements.html).
+const EBML = 0x1a45dfa3;
+const EBML_VERSION = 0x4286;
+const EBML_READ_VERSION = 0x42f7;
+const EBML_MAX_ID_LENGTH = 0x42f2;
+const EBML_MAX_SIZE_LENGTH = 0x42f3;
+const DOC_TYPE = 0x4282;
+const DOC_TYPE_VERSION = 0x4287;
+const DOC_TYPE_READ_VERSION = 0x4285;
+const SEGMENT = 0x18538067;
+const INFO = 0x1549a966;
+const TIMESTAMP_SCALE = 0x2ad7b1;
+const MUXING_APP = 0x4d80;
+const WRITING_APP = 0x5741;
+const DURATION = 0x4489;
+const TRACKS = 0x1654ae6b;
+const TRACK_ENTRY = 0xae;
+const TRACK_NUMBER = 0xd7;
+const TRACK_UID = 0x73c5;
+const TRACK_TYPE = 0x83;
+const CODEC_ID = 0x86;
+const CODEC_PRIVATE = 0x63a2;
+const VIDEO = 0xe0;
+const PIXEL_WIDTH = 0xb0;
+const PIXEL_HEIGHT = 0xba;
+const AUDIO = 0xe1;
+const SAMPLING_FREQUENCY = 0xb5;
+const CHANNELS = 0x9f;
+const CLUSTER = 0x1f43b675;
+const TIMESTAMP = 0xe7;
+const SIMPLE_BLOCK = 0xa3;
+
+// Block timestamps are 16 bit signed integers relative to the cluster.
+const MAX_CLUSTER_DURATION_MS = 30000;
+// Audio only files have no key frames to split clusters on.
+const AUDIO_CLUSTER_DURATION_MS = 5000;
+
+export type WebmWriterCreateOptions = {
+	file: string;
+	mimeType: string;
+	clockRate: number;
+	channels?: number;
+};
+
+type WebmWriterConstructorOptions = {
+	file: string;
+	mimeType: string;
+	codecId: string;
+	clockRate: number;
+	channels: number;
+};
+
+/**
+ * Writes a single VP8, VP9 or Opus track into a WebM file. Video frames before
+ * the first key frame are discarded.
+ *
+ * @remarks
+ * - Clusters are kept in memory until complete so their size is known when
+ *   written. The Segment size and the duration are updated when closing.
+ */
+export class WebmWriter extends MediaWriter {
+	readonly #mimeType: string;
+	readonly #codecId: string;
+	readonly #clockRate: number;
+	readonly #channels: number;
+	readonly #video: boolean;
+	#headerWritten: boolean = false;
+	#segmentDataPosition: number = 0;
+	#durationPosition: number = 0;
+	#clusterTimestamp: number = 0;
+	#clusterBlocks: Buffer[] = [];
+	#lastTimestamp: number = 0;
+
+	static create({
+		file,
+		mimeType,
+		clockRate,
+		channels = 2,
+	}: WebmWriterCreateOptions): WebmWriter {
+		let codecId: string;
+
+		switch (mimeType.toLowerCase()) {
+			case 'video/vp8': {
+				codecId = 'V_VP8';
+
+				break;
+			}
+
+			case 'video/vp9': {
+				codecId = 'V_VP9';
+
+				break;
+			}
+
+			case 'audio/opus': {
+				codecId = 'A_OPUS';
+
+				break;
+			}
+
+			default: {
+				throw new BroadcasterNotImplementedError(
+					`codec ${mimeType} not supported in WebM`
+				);
+			}
+		}
+
+		return new WebmWriter({ file, mimeType, codecId, clockRate, channels });
+	}
+
+	private constructor({
+		file,
+		mimeType,
+		codecId,
+		clockRate,
+		channels,
+	}: WebmWriterConstructorOptions) {
+		super(file);
+
+		this.#mimeType = mimeType;
+		this.#codecId = codecId;
+		this.#clockRate = clockRate;
+		this.#channels = channels;
+		this.#video = mimeType.toLowerCase().startsWith('video/');
+	}
+
+	write({ data, timestamp, keyFrame }: MediaFrame): void {
+		if (this.closed) {
+			return;
+		}
+
+		if (!this.#headerWritten) {
+			if (this.#video && !keyFrame) {
+				return;
+			}
+
+			this.writeHeader(this.#video ? data : undefined);
+		}
+
+		const timestampMs = Math.round((timestamp * 1000) / this.#clockRate);
+
+		if (
+			this.#clusterBlocks.length === 0 ||
+			(this.#video && keyFrame) ||
+			(!this.#video &&
+				timestampMs - this.#clusterTimestamp >= AUDIO_CLUSTER_DURATION_MS) ||
+			timestampMs - this.#clusterTimestamp > MAX_CLUSTER_DURATION_MS ||
+			timestampMs < this.#clusterTimestamp
+		) {
+			this.writeCluster();
+
+			this.#clusterTimestamp = timestampMs;
+		}
+
+		const blockHeader = Buffer.alloc(4);
+
+		// Track number as EBML variable size integer.
+		blockHeader[0] = 0x81;
+		blockHeader.writeInt16BE(timestampMs - this.#clusterTimestamp, 1);
+		blockHeader[3] = keyFrame || !this.#video ? 0x80 : 0x00;
+
+		this.#clusterBlocks.push(
+			encodeElement(SIMPLE_BLOCK, Buffer.concat([blockHeader, data]))
+		);
+
+		this.#lastTimestamp = Math.max(this.#lastTimestamp, timestampMs);
+	}
+
+	protected finalize(): void {
+		if (!this.#headerWritten) {
+			this.writeHeader(undefined);
+		}
+
+		this.writeCluster();
+
+		const segmentSize = Buffer.alloc(8);
+
+		segmentSize.writeBigUInt64BE(
+			BigInt(this.position - this.#segmentDataPosition)
+		);
+		segmentSize[0] = 0x01;
+
+		this.patch(this.#segmentDataPosition - 8, segmentSize);
+
+		const duration = Buffer.alloc(8);
+
+		duration.writeDoubleBE(this.#lastTimestamp);
+
+		this.patch(this.#durationPosition, duration);
+	}
+
+	private writeHeader(keyFrame: Buffer | undefined): void {
+		this.#headerWritten = true;
+
+		const ebmlHeader = encodeElement(
+			EBML,
+			Buffer.concat([
+				encodeUint(EBML_VERSION, 1),
+				encodeUint(EBML_READ_VERSION, 1),
+				encodeUint(EBML_MAX_ID_LENGTH, 4),
+				encodeUint(EBML_MAX_SIZE_LENGTH, 8),
+				encodeString(DOC_TYPE, 'webm'),
+				encodeUint(DOC_TYPE_VERSION, 4),
+				encodeUint(DOC_TYPE_READ_VERSION, 2),
+			])
+		);
+
+		// Segment with unknown size (patched in finalize()).
+		const segmentHeader = Buffer.concat([
+			encodeId(SEGMENT),
+			Buffer.from([0x01, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff]),
+		]);
+
+		// NOTE: Duration must be the last child so its position is known.
+		const info = encodeElement(
+			INFO,
+			Buffer.concat([
+				encodeUint(TIMESTAMP_SCALE, 1000000),
+				encodeString(MUXING_APP, 'mediasoup-demo'),
+				encodeString(WRITING_APP, 'mediasoup-demo'),
+				encodeFloat(DURATION, 0),
+			])
+		);
+
+		const trackEntryChildren = [
+			encodeUint(TRACK_NUMBER, 1),
+			encodeUint(TRACK_UID, 1),
+			encodeUint(TRACK_TYPE, this.#video ? 1 : 2),
+			encodeString(CODEC_ID, this.#codecId),
+		];
+
+		if (this.#video) {
+			const size = keyFrame
+				? getVideoFrameSize(this.#mimeType, keyFrame)
+				: undefined;
+
+			if (size) {
+				trackEntryChildren.push(
+					encodeElement(
+						VIDEO,
+						Buffer.concat([
+							encodeUint(PIXEL_WIDTH, size.width),
+							encodeUint(PIXEL_HEIGHT, size.height),
+						])
+					)
+				);
+			}
+		} else {
+			trackEntryChildren.push(
+				encodeElement(CODEC_PRIVATE, createOpusHead(this.#channels)),
+				encodeElement(
+					AUDIO,
+					Buffer.concat([
+						encodeFloat(SAMPLING_FREQUENCY, this.#clockRate),
+						encodeUint(CHANNELS, this.#channels),
+					])
+				)
+			);
+		}
+
+		const tracks = encodeElement(
+			TRACKS,
+			encodeElement(TRACK_ENTRY, Buffer.concat(trackEntryChildren))
+		);
+
+		this.writeData(ebmlHeader);
+		this.writeData(segmentHeader);
+
+		this.#segmentDataPosition = this.position;
+		this.#durationPosition = this.position + info.length - 8;
+
+		this.writeData(info);
+		this.writeData(tracks);
+	}
+
+	private writeCluster(): void {
+		if (this.#clusterBlocks.length === 0) {
+			return;
+		}
+
+		this.writeData(
+			encodeElement(
+				CLUSTER,
+				Buffer.concat([
+					encodeUint(TIMESTAMP, this.#clusterTimestamp),
+					...this.#clusterBlocks,
+				])
+			)
+		);
+
+		this.#clusterBlocks = [];
+	}
+}
+
+function encodeId(id: number): Buffer {
+	const length = id > 0xffffff ? 4 : id > 0xffff ? 3 : id > 0xff ? 2 : 1;
+	const buffer = Buffer.alloc(length);
+
+	buffer.writeUIntBE(id, 0, length);
+
+	return buffer;
+}
+
+/**
+ * Encodes an element data size as EBML variable size integer.
+ */
+function encodeSize(size: number): Buffer {
+	let length = 1;
+
+	// All bits set is reserved for unknown size.
+	while (length < 8 && size >= 2 ** (7 * length) - 1) {
+		length++;
+	}
+
+	const buffer = Buffer.alloc(8);
+
+	// Length marker bit followed by the size.
+	buffer.writeBigUInt64BE(BigInt(size) | (1n << BigInt(7 * length)));
+
+	return buffer.subarray(8 - length);
+}
+
+function encodeElement(id: number, data: Buffer): Buffer {
+	return Buffer.concat([encodeId(id), encodeSize(data.length), data]);
+}
+
+function encodeUint(id: number, value: number): Buffer {
+	let length = 1;
+
+	while (length < 6 && value >= 2 ** (8 * length)) {
+		length++;
+	}
+
+	const data = Buffer.alloc(length);
+
+	data.writeUIntBE(value, 0, length);
+
+	return encodeElement(id, data);
+}
+
+function encodeFloat(id: number, value: number): Buffer {
+	const data = Buffer.alloc(8);
+
+	data.writeDoubleBE(value);
+
+	return encodeElement(id, data);
+}
+
+function encodeString(id: number, value: string): Buffer {
+	return encodeElement(id, Buffer.from(value, 'utf8'));
+}
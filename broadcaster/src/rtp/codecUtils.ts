@@ -0,0 +1,190 @@
+/**
+ * Number of samples (at 48 kHz) in the given Opus packet as per its TOC byte
+ * (RFC 6716 section 3.1).
+ */
+export function getOpusPacketSamples(packet: Buffer): number {
+	if (packet.length < 1) {
+		return 0;
+	}
+
+	const toc = packet[0]!;
+	const config = toc >> 3;
+	let frameSamples: number;
+	let numFrames: number;
+
+	if (config < 12) {
+		// SILK: 10, 20, 40 or 60 ms.
+		frameSamples = [480, 960, 1920, 2880][config & 0x03]!;
+	} else if (config < 16) {
+		// Hybrid: 10 or 20 ms.
+		frameSamples = [480, 960][config & 0x01]!;
+	} else {
+		// CELT: 2.5, 5, 10 or 20 ms.
+		frameSamples = [120, 240, 480, 960][config & 0x03]!;
+	}
+
+	switch (toc & 0x03) {
+		case 0: {
+			numFrames = 1;
+
+			break;
+		}
+
+		case 1:
+		case 2: {
+			numFrames = 2;
+
+			break;
+		}
+
+		default: {
+			numFrames = packet.length > 1 ? packet[1]! & 0x3f : 0;
+		}
+	}
+
+	return frameSamples * numFrames;
+}
+
+/**
+ * Identification header of Opus streams (RFC 7845 section 5.1), used in Ogg
+ * and as CodecPrivate in WebM.
+ */
+export function createOpusHead(channels: number): Buffer {
+	const opusHead = Buffer.alloc(19);
+
+	opusHead.write('OpusHead', 0, 'ascii');
+	// Version.
+	opusHead[8] = 1;
+	opusHead[9] = channels;
+	// Pre-skip.
+	opusHead.writeUInt16LE(0, 10);
+	// Input sample rate.
+	opusHead.writeUInt32LE(48000, 12);
+	// Output gain.
+	opusHead.writeInt16LE(0, 16);
+	// Channel mapping family.
+	opusHead[18] = 0;
+
+	return opusHead;
+}
+
+/**
+ * Reads the picture size from a VP8 or VP9 key frame.
+ *
+ * @returns The size or undefined if not a key frame or the codec is not
+ *   supported.
+ */
+export function getVideoFrameSize(
+	mimeType: string,
+	keyFrame: Buffer
+): { width: number; height: number } | undefined {
+	switch (mimeType.toLowerCase()) {
+		case 'video/vp8': {
+			return getVp8FrameSize(keyFrame);
+		}
+
+		case 'video/vp9': {
+			return getVp9FrameSize(keyFrame);
+		}
+
+		default: {
+			return undefined;
+		}
+	}
+}
+
+/**
+ * RFC 6386 section 9.1.
+ */
+function getVp8FrameSize(
+	frame: Buffer
+): { width: number; height: number } | undefined {
+	if (
+		frame.length < 10 ||
+		(frame[0]! & 0x01) !== 0 ||
+		frame[3] !== 0x9d ||
+		frame[4] !== 0x01 ||
+		frame[5] !== 0x2a
+	) {
+		return undefined;
+	}
+
+	return {
+		width: frame.readUInt16LE(6) & 0x3fff,
+		height: frame.readUInt16LE(8) & 0x3fff,
+	};
+}
+
+/**
+ * VP9 bitstream specification section 6.2 (uncompressed header).
+ */
+function getVp9FrameSize(
+	frame: Buffer
+): { width: number; height: number } | undefined {
+	let bitOffset = 0;
+
+	const readBits = (numBits: number): number => {
+		let value = 0;
+
+		for (let i = 0; i < numBits; ++i) {
+			const byte = frame[bitOffset >> 3] ?? 0;
+
+			value = (value << 1) | ((byte >> (7 - (bitOffset & 0x07))) & 0x01);
+			bitOffset++;
+		}
+
+		return value;
+	};
+
+	if (frame.length < 10 || readBits(2) !== 2) {
+		return undefined;
+	}
+
+	const profileLowBit = readBits(1);
+	const profile = (readBits(1) << 1) | profileLowBit;
+
+	if (profile === 3) {
+		readBits(1);
+	}
+
+	const showExistingFrame = readBits(1);
+
+	if (showExistingFrame) {
+		return undefined;
+	}
+
+	const frameType = readBits(1);
+
+	// show_frame and error_resilient_mode.
+	readBits(2);
+
+	if (frameType !== 0 || readBits(24) !== 0x498342) {
+		return undefined;
+	}
+
+	if (profile >= 2) {
+		// ten_or_twelve_bit.
+		readBits(1);
+	}
+
+	const colorSpace = readBits(3);
+
+	// Not CS_RGB.
+	if (colorSpace !== 7) {
+		// color_range.
+		readBits(1);
+
+		if (profile === 1 || profile === 3) {
+			// subsampling_x, subsampling_y and reserved_zero.
+			readBits(3);
+		}
+	} else if (profile === 1 || profile === 3) {
+		// reserved_zero.
+		readBits(1);
+	}
+
+	return {
+		width: readBits(16) + 1,
+		height: readBits(16) + 1,
+	};
+}
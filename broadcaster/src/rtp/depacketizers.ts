@@ -0,0 +1,481 @@
+import type { RtpPacket } from './rtpPacket';
+import { BroadcasterNotImplementedError } from '../errors';
+
+/**
+ * A complete encoded frame (an Opus packet, a VP8/VP9 frame or a H264 access
+ * unit in Annex B format).
+ */
+export type DepacketizedFrame = {
+	data: Buffer;
+	/**
+	 * RTP timestamp of the frame.
+	 */
+	timestamp: number;
+	keyFrame: boolean;
+};
+
+const H264_START_CODE = Buffer.from([0x00, 0x00, 0x00, 0x01]);
+const H264_NAL_TYPE_IDR = 5;
+const H264_NAL_TYPE_STAP_A = 24;
+const H264_NAL_TYPE_FU_A = 28;
+
+/**
+ * Assembles frames from RTP packets. Packets must be given in order. Frames
+ * affected by packet loss are discarded.
+ */
+export abstract class Depacketizer {
+	#lastSequenceNumber?: number;
+
+	/**
+	 * @returns The frame completed by the given packet, if any.
+	 */
+	push(packet: RtpPacket): DepacketizedFrame | undefined {
+		const lost =
+			this.#lastSequenceNumber !== undefined &&
+			packet.sequenceNumber !== ((this.#lastSequenceNumber + 1) & 0xffff);
+
+		this.#lastSequenceNumber = packet.sequenceNumber;
+
+		return this.depacketize(packet, lost);
+	}
+
+	/**
+	 * @param lost - Whether there are missing packets right before this one.
+	 */
+	protected abstract depacketize(
+		packet: RtpPacket,
+		lost: boolean
+	): DepacketizedFrame | undefined;
+}
+
+export function createDepacketizer(mimeType: string): Depacketizer {
+	switch (mimeType.toLowerCase()) {
+		case 'audio/opus': {
+			return new OpusDepacketizer();
+		}
+
+		case 'video/vp8': {
+			return new Vp8Depacketizer();
+		}
+
+		case 'video/vp9': {
+			return new Vp9Depacketizer();
+		}
+
+		case 'video/h264': {
+			return new H264Depacketizer();
+		}
+
+		default: {
+			throw new BroadcasterNotImplementedError(
+				`no depacketizer for codec ${mimeType}`
+			);
+		}
+	}
+}
+
+/**
+ * RFC 7587. Each RTP packet carries a whole Opus packet.
+ */
+export class OpusDepacketizer extends Depacketizer {
+	protected depacketize(packet: RtpPacket): DepacketizedFrame | undefined {
+		if (packet.payload.length === 0) {
+			return undefined;
+		}
+
+		return {
+			data: packet.payload,
+			timestamp: packet.timestamp,
+			keyFrame: true,
+		};
+	}
+}
+
+/**
+ * RFC 7741.
+ */
+export class Vp8Depacketizer extends Depacketizer {
+	#chunks: Buffer[] = [];
+	#assembling: boolean = false;
+	#timestamp: number = 0;
+	#keyFrame: boolean = false;
+
+	protected depacketize(
+		packet: RtpPacket,
+		lost: boolean
+	): DepacketizedFrame | undefined {
+		const { payload } = packet;
+
+		if (lost) {
+			this.reset();
+		}
+
+		if (payload.length < 1) {
+			return undefined;
+		}
+
+		const descriptor = payload[0]!;
+		let offset = 1;
+
+		// X: Extended control bits present.
+		if (descriptor & 0x80) {
+			if (payload.length <= offset) {
+				return undefined;
+			}
+
+			const extension = payload[offset]!;
+
+			offset++;
+
+			// I: PictureID present (7 or 15 bits).
+			if (extension & 0x80) {
+				if (payload.length <= offset) {
+					return undefined;
+				}
+
+				offset += payload[offset]! & 0x80 ? 2 : 1;
+			}
+
+			// L: TL0PICIDX present.
+			if (extension & 0x40) {
+				offset++;
+			}
+
+			// T or K: TID/KEYIDX present.
+			if (extension & 0x30) {
+				offset++;
+			}
+		}
+
+		if (payload.length <= offset) {
+			return undefined;
+		}
+
+		// S bit set and partition index 0 means start of frame.
+		const startOfFrame = (descriptor & 0x10) !== 0 && (descriptor & 0x07) === 0;
+
+		if (startOfFrame) {
+			this.#chunks = [];
+			this.#assembling = true;
+			this.#timestamp = packet.timestamp;
+			// P bit (inverse key frame flag) in the VP8 payload header.
+			this.#keyFrame = (payload[offset]! & 0x01) === 0;
+		} else if (!this.#assembling || packet.timestamp !== this.#timestamp) {
+			this.reset();
+
+			return undefined;
+		}
+
+		this.#chunks.push(payload.subarray(offset));
+
+		if (!packet.marker) {
+			return undefined;
+		}
+
+		const frame: DepacketizedFrame = {
+			data: Buffer.concat(this.#chunks),
+			timestamp: this.#timestamp,
+			keyFrame: this.#keyFrame,
+		};
+
+		this.reset();
+
+		return frame;
+	}
+
+	private reset(): void {
+		this.#chunks = [];
+		this.#assembling = false;
+	}
+}
+
+/**
+ * RFC 9628. Frames of all spatial layers in a picture are joined into a VP9
+ * superframe.
+ */
+export class Vp9Depacketizer extends Depacketizer {
+	#layerFrames: Buffer[] = [];
+	#chunks: Buffer[] = [];
+	#assemblingPicture: boolean = false;
+	#assemblingFrame: boolean = false;
+	#timestamp: number = 0;
+	#keyFrame: boolean = false;
+
+	protected depacketize(
+		packet: RtpPacket,
+		lost: boolean
+	): DepacketizedFrame | undefined {
+		const { payload } = packet;
+
+		if (lost) {
+			this.reset();
+		}
+
+		if (payload.length < 1) {
+			return undefined;
+		}
+
+		const descriptor = payload[0]!;
+		const pictureIdPresent = (descriptor & 0x80) !== 0;
+		const interPicturePredicted = (descriptor & 0x40) !== 0;
+		const layerIndicesPresent = (descriptor & 0x20) !== 0;
+		const flexibleMode = (descriptor & 0x10) !== 0;
+		const startOfFrame = (descriptor & 0x08) !== 0;
+		const endOfFrame = (descriptor & 0x04) !== 0;
+		const scalabilityStructurePresent = (descriptor & 0x02) !== 0;
+		let spatialId = 0;
+		let offset = 1;
+
+		if (pictureIdPresent) {
+			if (payload.length <= offset) {
+				return undefined;
+			}
+
+			offset += payload[offset]! & 0x80 ? 2 : 1;
+		}
+
+		if (layerIndicesPresent) {
+			if (payload.length <= offset) {
+				return undefined;
+			}
+
+			spatialId = (payload[offset]! >> 1) & 0x07;
+			// TL0PICIDX is just present in non flexible mode.
+			offset += flexibleMode ? 1 : 2;
+		}
+
+		// Reference indices (P_DIFF), up to 3.
+		if (flexibleMode && interPicturePredicted) {
+			let more = true;
+
+			while (more && offset < payload.length) {
+				more = (payload[offset]! & 0x01) !== 0;
+				offset++;
+			}
+		}
+
+		if (scalabilityStructurePresent) {
+			if (payload.length <= offset) {
+				return undefined;
+			}
+
+			const ss = payload[offset]!;
+			const numSpatialLayers = (ss >> 5) + 1;
+
+			offset++;
+
+			// Y: Resolution of each spatial layer present.
+			if (ss & 0x10) {
+				offset += 4 * numSpatialLayers;
+			}
+
+			// G: Picture group description present.
+			if (ss & 0x08) {
+				if (payload.length <= offset) {
+					return undefined;
+				}
+
+				const numPictures = payload[offset]!;
+
+				offset++;
+
+				for (let i = 0; i < numPictures && offset < payload.length; ++i) {
+					const numReferences = (payload[offset]! >> 2) & 0x03;
+
+					offset += 1 + numReferences;
+				}
+			}
+		}
+
+		if (payload.length <= offset) {
+			return undefined;
+		}
+
+		if (startOfFrame) {
+			if (!this.#assemblingPicture || packet.timestamp !== this.#timestamp) {
+				this.#layerFrames = [];
+				this.#assemblingPicture = true;
+				this.#timestamp = packet.timestamp;
+				this.#keyFrame = !interPicturePredicted && spatialId === 0;
+			}
+
+			this.#chunks = [];
+			this.#assemblingFrame = true;
+		} else if (!this.#assemblingFrame || packet.timestamp !== this.#timestamp) {
+			this.reset();
+
+			return undefined;
+		}
+
+		this.#chunks.push(payload.subarray(offset));
+
+		if (endOfFrame) {
+			this.#layerFrames.push(Buffer.concat(this.#chunks));
+			this.#chunks = [];
+			this.#assemblingFrame = false;
+		}
+
+		// Marker bit means end of picture.
+		if (!packet.marker || this.#layerFrames.length === 0) {
+			return undefined;
+		}
+
+		const frame: DepacketizedFrame = {
+			data:
+				this.#layerFrames.length === 1
+					? this.#layerFrames[0]!
+					: createVp9Superframe(this.#layerFrames),
+			timestamp: this.#timestamp,
+			keyFrame: this.#keyFrame,
+		};
+
+		this.reset();
+
+		return frame;
+	}
+
+	private reset(): void {
+		this.#layerFrames = [];
+		this.#chunks = [];
+		this.#assemblingPicture = false;
+		this.#assemblingFrame = false;
+	}
+}
+
+/**
+ * RFC 6184 (packetization mode 0 and 1). Access units are given in Annex B
+ * format.
+ */
+export class H264Depacketizer extends Depacketizer {
+	#chunks: Buffer[] = [];
+	#timestamp?: number;
+	#keyFrame: boolean = false;
+	#corrupted: boolean = false;
+	#inFragment: boolean = false;
+
+	protected depacketize(
+		packet: RtpPacket,
+		lost: boolean
+	): DepacketizedFrame | undefined {
+		const { payload } = packet;
+
+		// A new timestamp without having seen the marker bit of the previous
+		// access unit means that it's incomplete.
+		if (this.#timestamp !== undefined && packet.timestamp !== this.#timestamp) {
+			this.reset();
+		}
+
+		this.#timestamp = packet.timestamp;
+
+		if (lost) {
+			this.#corrupted = true;
+		}
+
+		if (payload.length < 1) {
+			return undefined;
+		}
+
+		const nalType = payload[0]! & 0x1f;
+
+		if (nalType >= 1 && nalType < H264_NAL_TYPE_STAP_A) {
+			this.addNal(payload);
+		} else if (nalType === H264_NAL_TYPE_STAP_A) {
+			let offset = 1;
+
+			while (offset + 2 <= payload.length) {
+				const nalSize = payload.readUInt16BE(offset);
+
+				offset += 2;
+
+				if (nalSize > 0 && offset + nalSize <= payload.length) {
+					this.addNal(payload.subarray(offset, offset + nalSize));
+				}
+
+				offset += nalSize;
+			}
+		} else if (nalType === H264_NAL_TYPE_FU_A && payload.length > 2) {
+			const fuIndicator = payload[0]!;
+			const fuHeader = payload[1]!;
+			const start = (fuHeader & 0x80) !== 0;
+			const end = (fuHeader & 0x40) !== 0;
+			const fragmentNalType = fuHeader & 0x1f;
+
+			if (start) {
+				this.addNal(Buffer.from([(fuIndicator & 0xe0) | fragmentNalType]));
+
+				this.#inFragment = true;
+			} else if (!this.#inFragment) {
+				this.#corrupted = true;
+			}
+
+			if (this.#inFragment) {
+				this.#chunks.push(payload.subarray(2));
+			}
+
+			if (end) {
+				this.#inFragment = false;
+			}
+		}
+
+		if (!packet.marker) {
+			return undefined;
+		}
+
+		const frame: DepacketizedFrame | undefined =
+			this.#corrupted || this.#chunks.length === 0
+				? undefined
+				: {
+						data: Buffer.concat(this.#chunks),
+						timestamp: packet.timestamp,
+						keyFrame: this.#keyFrame,
+					};
+
+		this.reset();
+
+		return frame;
+	}
+
+	private addNal(nal: Buffer): void {
+		if ((nal[0]! & 0x1f) === H264_NAL_TYPE_IDR) {
+			this.#keyFrame = true;
+		}
+
+		this.#chunks.push(H264_START_CODE, nal);
+	}
+
+	private reset(): void {
+		this.#chunks = [];
+		this.#timestamp = undefined;
+		this.#keyFrame = false;
+		this.#corrupted = false;
+		this.#inFragment = false;
+	}
+}
+
+function createVp9Superframe(frames: Buffer[]): Buffer {
+	const maxFrameSize = Math.max(...frames.map(frame => frame.length));
+	const bytesPerFrameSize =
+		maxFrameSize < 2 ** 8
+			? 1
+			: maxFrameSize < 2 ** 16
+				? 2
+				: maxFrameSize < 2 ** 24
+					? 3
+					: 4;
+	const marker = 0xc0 | ((bytesPerFrameSize - 1) << 3) | (frames.length - 1);
+	const index = Buffer.alloc(2 + bytesPerFrameSize * frames.length);
+
+	index[0] = marker;
+
+	frames.forEach((frame, idx) => {
+		index.writeUIntLE(
+			frame.length,
+			1 + idx * bytesPerFrameSize,
+			bytesPerFrameSize
+		);
+	});
+
+	index[index.length - 1] = marker;
+
+	return Buffer.concat([...frames, index]);
+}
@@ -0,0 +1,78 @@
+export type RtpPacket = {
+	payloadType: number;
+	marker: boolean;
+	sequenceNumber: number;
+	timestamp: number;
+	ssrc: number;
+	payload: Buffer;
+};
+
+/**
+ * Whether the given buffer is a RTCP packet (as per RFC 5761 when RTP and
+ * RTCP are multiplexed).
+ */
+export function isRtcp(buffer: Buffer): boolean {
+	if (buffer.length < 8 || buffer[0]! >> 6 !== 2) {
+		return false;
+	}
+
+	const packetType = buffer[1]!;
+
+	return packetType >= 192 && packetType <= 223;
+}
+
+/**
+ * Parses the given buffer as a RTP packet. Header extensions and CSRCs are
+ * skipped and padding is removed from the payload.
+ *
+ * @returns The RTP packet or undefined if the buffer is not a valid RTP
+ *   packet.
+ */
+export function parseRtpPacket(buffer: Buffer): RtpPacket | undefined {
+	if (buffer.length < 12 || buffer[0]! >> 6 !== 2) {
+		return undefined;
+	}
+
+	const firstByte = buffer[0]!;
+	const secondByte = buffer[1]!;
+	const hasPadding = (firstByte & 0x20) !== 0;
+	const hasExtension = (firstByte & 0x10) !== 0;
+	const csrcCount = firstByte & 0x0f;
+	let payloadOffset = 12 + csrcCount * 4;
+	let payloadEnd = buffer.length;
+
+	if (hasExtension) {
+		if (buffer.length < payloadOffset + 4) {
+			return undefined;
+		}
+
+		const extensionLength = buffer.readUInt16BE(payloadOffset + 2);
+
+		payloadOffset += 4 + extensionLength * 4;
+	}
+
+	if (hasPadding) {
+		payloadEnd -= buffer[buffer.length - 1]!;
+	}
+
+	if (payloadOffset > payloadEnd) {
+		return undefined;
+	}
+
+	return {
+		payloadType: secondByte & 0x7f,
+		marker: (secondByte & 0x80) !== 0,
+		sequenceNumber: buffer.readUInt16BE(2),
+		timestamp: buffer.readUInt32BE(4),
+		ssrc: buffer.readUInt32BE(8),
+		payload: buffer.subarray(payloadOffset, payloadEnd),
+	};
+}
+
+/**
+ * Signed distance from sequence number `b` to sequence number `a` taking
+ * wrap around into account.
+ */
+export function getSequenceNumberDiff(a: number, b: number): number {
+	return ((a - b + 0x8000) & 0xffff) - 0x8000;
+}
@@ -0,0 +1,797 @@
+import * as dgram from 'node:dgram';
+import * as net from 'node:net';
+import * as crypto from 'node:crypto';
+import type * as mediasoupTypes from 'mediasoup-client/types';
+
+import { Logger } from '../Logger';
+import { EnhancedEventEmitter } from '../enhancedEvents';
+import {
+	bindUdpSocket,
+	getLocalIpTowards,
+} from '../mediaClients/mediaClientUtils';
+import { BroadcasterError, BroadcasterInvalidStateError } from '../errors';
+import {
+	SCTP_CHUNK_TYPES,
+	SCTP_PPIDS,
+	SctpChunk,
+	SctpDataChunk,
+	SctpSackChunk,
+	parseSctpPacket,
+	serializeSctpPacket,
+	parseInitChunk,
+	serializeInitChunk,
+	parseDataChunk,
+	serializeDataChunk,
+	parseSackChunk,
+	serializeSackChunk,
+	getTsnDiff,
+	addToTsn,
+} from './sctpPacket';
+
+const logger = new Logger('SctpAssociation');
+
+// Interval (in ms) after which handshake chunks and unacknowledged DATA chunks
+// are retransmitted.
+const RETRANSMISSION_TIMEOUT = 1000;
+const MAX_RETRANSMISSIONS = 10;
+// Max user data in a DATA chunk so SCTP packets fit into a typical MTU.
+const MAX_DATA_CHUNK_USER_DATA_SIZE = 1100;
+const ADVERTISED_RECEIVER_WINDOW_CREDIT = 1024 * 1024;
+const NUM_STREAMS = 1024;
+// Max out of order DATA chunks held while waiting for a missing one.
+const MAX_PENDING_DATA_CHUNKS = 1000;
+
+export type SctpAssociationCreateOptions = {
+	/**
+	 * IP and port of the mediasoup PlainTransport.
+	 */
+	ip: string;
+	port: number;
+	/**
+	 * SCTP parameters of the mediasoup PlainTransport.
+	 */
+	sctpParameters: mediasoupTypes.SctpParameters;
+};
+
+export type SctpAssociationMessage = {
+	streamId: number;
+	ppid: number;
+	data: Buffer;
+};
+
+export type SctpAssociationEvents = {
+	/**
+	 * Emitted for each message (already reassembled) received in any stream.
+	 */
+	message: [SctpAssociationMessage];
+	/**
+	 * Emitted when the association is closed no matter how.
+	 */
+	closed: [];
+};
+
+type SctpAssociationConstructorOptions = {
+	socket: dgram.Socket;
+	ip: string;
+	port: number;
+	sctpParameters: mediasoupTypes.SctpParameters;
+};
+
+type SctpAssociationState = 'connecting' | 'connected' | 'closed';
+
+/**
+ * A chunk sent and waiting to be acknowledged (or the handshake to progress).
+ */
+type SctpOutstandingChunk = {
+	chunk: SctpChunk;
+	sentAt: number;
+	retransmissions: number;
+};
+
+/**
+ * Minimal SCTP (RFC 4960) association over UDP to exchange DataChannel
+ * messages with a mediasoup PlainTransport with SCTP enabled.
+ *
+ * @remarks
+ * - Streams are negotiated out of band (via DataProducers and DataConsumers in
+ *   the server) so there is no DCEP (RFC 8832).
+ * - It sends reliable and ordered messages only and implements neither
+ *   congestion control nor the optional SCTP extensions, which is enough for
+ *   chat like traffic.
+ */
+export class SctpAssociation extends EnhancedEventEmitter<SctpAssociationEvents> {
+	readonly #socket: dgram.Socket;
+	readonly #ip: string;
+	readonly #port: number;
+	readonly #sctpPort: number;
+	readonly #maxMessageSize: number;
+	readonly #localVerificationTag: number = crypto.randomInt(1, 0xffffffff);
+	readonly #initialTsn: number = crypto.randomInt(0, 0xffffffff);
+	#nextTsn: number = this.#initialTsn;
+	#remoteVerificationTag?: number;
+	// Last TSN received in order.
+	#remoteCumulativeTsn?: number;
+	// Map of DATA chunks received out of order indexed by TSN.
+	readonly #pendingDataChunks: Map<number, SctpDataChunk> = new Map();
+	// Fragments of the message being reassembled.
+	#fragments?: Buffer[];
+	// Map of next stream sequence numbers indexed by stream id.
+	readonly #streamSequenceNumbers: Map<number, number> = new Map();
+	// Map of sent and not yet acknowledged DATA chunks indexed by TSN.
+	readonly #outstandingChunks: Map<number, SctpOutstandingChunk> = new Map();
+	// INIT or COOKIE ECHO chunk being sent while connecting.
+	#handshakeChunk?: SctpOutstandingChunk;
+	// State Cookies sent in INIT ACK chunks.
+	readonly #stateCookies: Set<string> = new Set();
+	#connectCallbacks?: {
+		resolve: () => void;
+		reject: (error: Error) => void;
+	};
+	readonly #retransmissionInterval: NodeJS.Timeout;
+	#state: SctpAssociationState = 'connecting';
+
+	/**
+	 * Creates the association and waits until it is connected.
+	 */
+	static async create({
+		ip,
+		port,
+		sctpParameters,
+	}: SctpAssociationCreateOptions): Promise<SctpAssociation> {
+		logger.debug('create() [ip:%o, port:%o]', ip, port);
+
+		const localIp = await getLocalIpTowards(ip, port);
+		const socket = dgram.createSocket(net.isIPv6(ip) ? 'udp6' : 'udp4');
+
+		try {
+			await bindUdpSocket(socket, localIp, 0);
+		} catch (error) {
+			socket.close();
+
+			throw new BroadcasterError(
+				`failed to bind UDP socket: ${(error as Error).message}`
+			);
+		}
+
+		const sctpAssociation = new SctpAssociation({
+			socket,
+			ip,
+			port,
+			sctpParameters,
+		});
+
+		await sctpAssociation.connect();
+
+		return sctpAssociation;
+	}
+
+	private constructor({
+		socket,
+		ip,
+		port,
+		sctpParameters,
+	}: SctpAssociationConstructorOptions) {
+		super();
+
+		logger.debug('constructor()');
+
+		this.#socket = socket;
+		this.#ip = ip;
+		this.#port = port;
+		this.#sctpPort = sctpParameters.port;
+		this.#maxMessageSize = sctpParameters.maxMessageSize;
+
+		this.#socket.on('message', (buffer, remoteInfo) => {
+			if (remoteInfo.address !== this.#ip || remoteInfo.port !== this.#port) {
+				return;
+			}
+
+			this.receivePacket(buffer);
+		});
+
+		this.#socket.on('error', error => {
+			logger.warn(`UDP socket error: ${error.message}`);
+		});
+
+		this.#retransmissionInterval = setInterval(
+			() => this.retransmit(),
+			RETRANSMISSION_TIMEOUT / 4
+		);
+	}
+
+	get closed(): boolean {
+		return this.#state === 'closed';
+	}
+
+	/**
+	 * Aborts the association.
+	 */
+	close(): void {
+		logger.debug('close()');
+
+		if (this.#state === 'closed') {
+			return;
+		}
+
+		this.closeInternal({
+			abort: true,
+			error: new BroadcasterInvalidStateError('SctpAssociation closed'),
+		});
+	}
+
+	/**
+	 * Sends a message in the given stream. Strings are sent as WebRTC String
+	 * and Buffers as WebRTC Binary.
+	 */
+	send(streamId: number, message: string | Buffer): void {
+		if (this.#state !== 'connected') {
+			throw new BroadcasterInvalidStateError('SctpAssociation not connected');
+		}
+
+		let ppid: number;
+		let userData: Buffer;
+
+		// NOTE: Empty messages are sent as a single byte with a specific PPID.
+		if (typeof message === 'string') {
+			ppid = message ? SCTP_PPIDS.string : SCTP_PPIDS.stringEmpty;
+			userData = message ? Buffer.from(message, 'utf8') : Buffer.alloc(1);
+		} else {
+			ppid = message.length ? SCTP_PPIDS.binary : SCTP_PPIDS.binaryEmpty;
+			userData = message.length ? message : Buffer.alloc(1);
+		}
+
+		if (userData.length > this.#maxMessageSize) {
+			throw new BroadcasterError(
+				`message too big (${userData.length} bytes, max ${this.#maxMessageSize})`
+			);
+		}
+
+		const streamSequenceNumber = this.#streamSequenceNumbers.get(streamId) ?? 0;
+
+		this.#streamSequenceNumbers.set(
+			streamId,
+			(streamSequenceNumber + 1) & 0xffff
+		);
+
+		for (
+			let offset = 0;
+			offset < userData.length;
+			offset += MAX_DATA_CHUNK_USER_DATA_SIZE
+		) {
+			const chunk = serializeDataChunk({
+				tsn: this.#nextTsn,
+				streamId,
+				streamSequenceNumber,
+				ppid,
+				unordered: false,
+				beginning: offset === 0,
+				ending: offset + MAX_DATA_CHUNK_USER_DATA_SIZE >= userData.length,
+				userData: userData.subarray(
+					offset,
+					offset + MAX_DATA_CHUNK_USER_DATA_SIZE
+				),
+			});
+
+			this.#outstandingChunks.set(this.#nextTsn, {
+				chunk,
+				sentAt: Date.now(),
+				retransmissions: 0,
+			});
+
+			this.#nextTsn = addToTsn(this.#nextTsn, 1);
+
+			this.sendChunks([chunk]);
+		}
+	}
+
+	private async connect(): Promise<void> {
+		logger.debug('connect()');
+
+		const connectPromise: Promise<void> = new Promise((resolve, reject) => {
+			this.#connectCallbacks = { resolve, reject };
+		});
+
+		this.#handshakeChunk = {
+			chunk: {
+				type: SCTP_CHUNK_TYPES.init,
+				flags: 0,
+				value: this.createInitChunkValue(),
+			},
+			sentAt: Date.now(),
+			retransmissions: 0,
+		};
+
+		this.sendHandshakeChunk();
+
+		return connectPromise;
+	}
+
+	private receivePacket(buffer: Buffer): void {
+		const packet = parseSctpPacket(buffer);
+
+		if (!packet) {
+			logger.debug('receivePacket() | ignoring invalid SCTP packet');
+
+			return;
+		}
+
+		let dataReceived = false;
+
+		for (const chunk of packet.chunks) {
+			if (this.#state === 'closed') {
+				return;
+			}
+
+			// Verification tag rules (RFC 4960 section 8.5.1).
+			if (chunk.type === SCTP_CHUNK_TYPES.init) {
+				if (packet.verificationTag !== 0) {
+					return;
+				}
+			} else if (
+				(chunk.type === SCTP_CHUNK_TYPES.abort ||
+					chunk.type === SCTP_CHUNK_TYPES.shutdownComplete) &&
+				chunk.flags & 0x01
+			) {
+				if (packet.verificationTag !== this.#remoteVerificationTag) {
+					return;
+				}
+			} else if (packet.verificationTag !== this.#localVerificationTag) {
+				return;
+			}
+
+			switch (chunk.type) {
+				case SCTP_CHUNK_TYPES.init: {
+					this.receiveInit(chunk);
+
+					break;
+				}
+
+				case SCTP_CHUNK_TYPES.initAck: {
+					this.receiveInitAck(chunk);
+
+					break;
+				}
+
+				case SCTP_CHUNK_TYPES.cookieEcho: {
+					this.receiveCookieEcho(chunk);
+
+					break;
+				}
+
+				case SCTP_CHUNK_TYPES.cookieAck: {
+					if (this.#state === 'connecting') {
+						this.setConnected();
+					}
+
+					break;
+				}
+
+				case SCTP_CHUNK_TYPES.data: {
+					const dataChunk = parseDataChunk(chunk);
+
+					if (dataChunk && this.#remoteCumulativeTsn !== undefined) {
+						this.receiveDataChunk(dataChunk);
+
+						dataReceived = true;
+					}
+
+					break;
+				}
+
+				case SCTP_CHUNK_TYPES.sack: {
+					const sackChunk = parseSackChunk(chunk.value);
+
+					if (sackChunk) {
+						this.receiveSack(sackChunk);
+					}
+
+					break;
+				}
+
+				case SCTP_CHUNK_TYPES.heartbeat: {
+					this.sendChunks([
+						{
+							type: SCTP_CHUNK_TYPES.heartbeatAck,
+							flags: 0,
+							value: chunk.value,
+						},
+					]);
+
+					break;
+				}
+
+				case SCTP_CHUNK_TYPES.abort: {
+					logger.warn('receivePacket() | association aborted by the remote');
+
+					this.closeInternal({
+						abort: false,
+						error: new BroadcasterError('SctpAssociation aborted'),
+					});
+
+					return;
+				}
+
+				case SCTP_CHUNK_TYPES.shutdown: {
+					this.sendChunks([
+						{
+							type: SCTP_CHUNK_TYPES.shutdownAck,
+							flags: 0,
+							value: Buffer.alloc(0),
+						},
+					]);
+
+					break;
+				}
+
+				case SCTP_CHUNK_TYPES.shutdownAck: {
+					this.sendChunks([
+						{
+							type: SCTP_CHUNK_TYPES.shutdownComplete,
+							flags: 0,
+							value: Buffer.alloc(0),
+						},
+					]);
+
+					this.closeInternal({
+						abort: false,
+						error: new BroadcasterError('SctpAssociation shut down'),
+					});
+
+					return;
+				}
+
+				case SCTP_CHUNK_TYPES.shutdownComplete: {
+					this.closeInternal({
+						abort: false,
+						error: new BroadcasterError('SctpAssociation shut down'),
+					});
+
+					return;
+				}
+
+				case SCTP_CHUNK_TYPES.error: {
+					logger.debug('receivePacket() | ERROR chunk received');
+
+					break;
+				}
+
+				default: {
+					// NOTE: The highest bit of the type of unknown chunks tells whether
+					// the rest of the packet must be processed.
+					if (!(chunk.type & 0x80)) {
+						return;
+					}
+				}
+			}
+		}
+
+		if (dataReceived) {
+			this.sendSack();
+		}
+	}
+
+	/**
+	 * An INIT is received when the remote connects, even if we are also
+	 * connecting (which happens when mediasoup learns our address from our
+	 * INIT), in which case both handshakes go on and the first one completing
+	 * wins.
+	 */
+	private receiveInit(chunk: SctpChunk): void {
+		const init = parseInitChunk(chunk.value);
+
+		if (!init || init.initiateTag === 0) {
+			return;
+		}
+
+		if (this.#state === 'connected') {
+			logger.debug('receiveInit() | ignoring INIT once connected');
+
+			return;
+		}
+
+		this.#remoteVerificationTag ??= init.initiateTag;
+		this.#remoteCumulativeTsn ??= addToTsn(init.initialTsn, -1);
+
+		const stateCookie = crypto.randomBytes(16);
+
+		this.#stateCookies.add(stateCookie.toString('hex'));
+
+		this.sendChunks(
+			[
+				{
+					type: SCTP_CHUNK_TYPES.initAck,
+					flags: 0,
+					value: this.createInitChunkValue(stateCookie),
+				},
+			],
+			init.initiateTag
+		);
+	}
+
+	private receiveInitAck(chunk: SctpChunk): void {
+		if (
+			this.#state !== 'connecting' ||
+			this.#handshakeChunk?.chunk.type !== SCTP_CHUNK_TYPES.init
+		) {
+			return;
+		}
+
+		const initAck = parseInitChunk(chunk.value);
+
+		if (!initAck?.stateCookie || initAck.initiateTag === 0) {
+			return;
+		}
+
+		this.#remoteVerificationTag = initAck.initiateTag;
+		this.#remoteCumulativeTsn = addToTsn(initAck.initialTsn, -1);
+
+		this.#handshakeChunk = {
+			chunk: {
+				type: SCTP_CHUNK_TYPES.cookieEcho,
+				flags: 0,
+				value: Buffer.from(initAck.stateCookie),
+			},
+			sentAt: Date.now(),
+			retransmissions: 0,
+		};
+
+		this.sendHandshakeChunk();
+	}
+
+	private receiveCookieEcho(chunk: SctpChunk): void {
+		if (!this.#stateCookies.has(chunk.value.toString('hex'))) {
+			return;
+		}
+
+		this.sendChunks([
+			{
+				type: SCTP_CHUNK_TYPES.cookieAck,
+				flags: 0,
+				value: Buffer.alloc(0),
+			},
+		]);
+
+		if (this.#state === 'connecting') {
+			this.setConnected();
+		}
+	}
+
+	private receiveDataChunk(dataChunk: SctpDataChunk): void {
+		const { tsn } = dataChunk;
+
+		if (
+			getTsnDiff(tsn, this.#remoteCumulativeTsn!) <= 0 ||
+			this.#pendingDataChunks.has(tsn) ||
+			this.#pendingDataChunks.size >= MAX_PENDING_DATA_CHUNKS
+		) {
+			// Duplicated or no room for it (it will be retransmitted).
+			return;
+		}
+
+		this.#pendingDataChunks.set(tsn, dataChunk);
+
+		let nextTsn = addToTsn(this.#remoteCumulativeTsn!, 1);
+
+		while (this.#pendingDataChunks.has(nextTsn)) {
+			const orderedDataChunk = this.#pendingDataChunks.get(nextTsn)!;
+
+			this.#pendingDataChunks.delete(nextTsn);
+			this.#remoteCumulativeTsn = nextTsn;
+
+			this.processDataChunk(orderedDataChunk);
+
+			nextTsn = addToTsn(nextTsn, 1);
+		}
+	}
+
+	/**
+	 * Reassembles DATA chunks (in TSN order) into messages.
+	 *
+	 * @remarks
+	 * - Fragments of a message have consecutive TSNs so messages are delivered
+	 *   in TSN order, which also keeps the order within each stream.
+	 */
+	private processDataChunk({
+		streamId,
+		ppid,
+		beginning,
+		ending,
+		userData,
+	}: SctpDataChunk): void {
+		if (beginning) {
+			this.#fragments = [];
+		} else if (!this.#fragments) {
+			return;
+		}
+
+		this.#fragments.push(userData);
+
+		if (!ending) {
+			return;
+		}
+
+		const data = Buffer.concat(this.#fragments);
+
+		this.#fragments = undefined;
+
+		this.safeEmit('message', { streamId, ppid, data });
+	}
+
+	private receiveSack({ cumulativeTsnAck, gapAckBlocks }: SctpSackChunk): void {
+		for (const tsn of Array.from(this.#outstandingChunks.keys())) {
+			const offset = getTsnDiff(tsn, cumulativeTsnAck);
+
+			if (
+				offset <= 0 ||
+				gapAckBlocks.some(({ start, end }) => offset >= start && offset <= end)
+			) {
+				this.#outstandingChunks.delete(tsn);
+			}
+		}
+	}
+
+	private sendSack(): void {
+		const cumulativeTsnAck = this.#remoteCumulativeTsn!;
+		const offsets = Array.from(this.#pendingDataChunks.keys())
+			.map(tsn => getTsnDiff(tsn, cumulativeTsnAck))
+			.sort((a, b) => a - b);
+		const gapAckBlocks: SctpSackChunk['gapAckBlocks'] = [];
+
+		for (const offset of offsets) {
+			const lastGapAckBlock = gapAckBlocks[gapAckBlocks.length - 1];
+
+			if (lastGapAckBlock?.end === offset - 1) {
+				lastGapAckBlock.end = offset;
+			} else if (offset <= 0xffff) {
+				gapAckBlocks.push({ start: offset, end: offset });
+			}
+		}
+
+		this.sendChunks([
+			{
+				type: SCTP_CHUNK_TYPES.sack,
+				flags: 0,
+				value: serializeSackChunk({
+					cumulativeTsnAck,
+					advertisedReceiverWindowCredit: ADVERTISED_RECEIVER_WINDOW_CREDIT,
+					gapAckBlocks,
+				}),
+			},
+		]);
+	}
+
+	private retransmit(): void {
+		const now = Date.now();
+
+		if (this.#handshakeChunk) {
+			if (now - this.#handshakeChunk.sentAt < RETRANSMISSION_TIMEOUT) {
+				return;
+			}
+
+			if (++this.#handshakeChunk.retransmissions > MAX_RETRANSMISSIONS) {
+				this.closeInternal({
+					abort: false,
+					error: new BroadcasterError('SctpAssociation connection timeout'),
+				});
+
+				return;
+			}
+
+			this.#handshakeChunk.sentAt = now;
+
+			this.sendHandshakeChunk();
+
+			return;
+		}
+
+		for (const outstandingChunk of this.#outstandingChunks.values()) {
+			if (now - outstandingChunk.sentAt < RETRANSMISSION_TIMEOUT) {
+				continue;
+			}
+
+			if (++outstandingChunk.retransmissions > MAX_RETRANSMISSIONS) {
+				logger.warn('retransmit() | DATA chunks not acknowledged, aborting');
+
+				this.closeInternal({
+					abort: true,
+					error: new BroadcasterError('SctpAssociation timeout'),
+				});
+
+				return;
+			}
+
+			outstandingChunk.sentAt = now;
+
+			this.sendChunks([outstandingChunk.chunk]);
+		}
+	}
+
+	private setConnected(): void {
+		logger.debug('setConnected()');
+
+		this.#state = 'connected';
+		this.#handshakeChunk = undefined;
+
+		this.#connectCallbacks?.resolve();
+		this.#connectCallbacks = undefined;
+	}
+
+	private closeInternal({
+		abort,
+		error,
+	}: {
+		abort: boolean;
+		error: Error;
+	}): void {
+		logger.debug('closeInternal() [abort:%o]', abort);
+
+		const closeSocket = (): void => {
+			try {
+				this.#socket.close();
+			} catch {
+				// Already closed.
+			}
+		};
+
+		if (abort && this.#remoteVerificationTag !== undefined) {
+			this.sendChunks(
+				[{ type: SCTP_CHUNK_TYPES.abort, flags: 0, value: Buffer.alloc(0) }],
+				this.#remoteVerificationTag,
+				closeSocket
+			);
+		} else {
+			closeSocket();
+		}
+
+		this.#state = 'closed';
+
+		clearInterval(this.#retransmissionInterval);
+
+		this.#connectCallbacks?.reject(error);
+		this.#connectCallbacks = undefined;
+
+		this.safeEmit('closed');
+	}
+
+	private sendHandshakeChunk(): void {
+		const { chunk } = this.#handshakeChunk!;
+
+		// NOTE: INIT chunks are sent with verification tag 0.
+		this.sendChunks(
+			[chunk],
+			chunk.type === SCTP_CHUNK_TYPES.init ? 0 : this.#remoteVerificationTag!
+		);
+	}
+
+	private sendChunks(
+		chunks: SctpChunk[],
+		verificationTag: number = this.#remoteVerificationTag!,
+		callback?: () => void
+	): void {
+		const buffer = serializeSctpPacket({
+			sourcePort: this.#sctpPort,
+			destinationPort: this.#sctpPort,
+			verificationTag,
+			chunks,
+		});
+
+		this.#socket.send(buffer, this.#port, this.#ip, error => {
+			if (error) {
+				logger.debug(`sendChunks() | failed to send: ${error.message}`);
+			}
+
+			callback?.();
+		});
+	}
+
+	private createInitChunkValue(stateCookie?: Buffer): Buffer {
+		return serializeInitChunk({
+			initiateTag: this.#localVerificationTag,
+			advertisedReceiverWindowCredit: ADVERTISED_RECEIVER_WINDOW_CREDIT,
+			numOutboundStreams: NUM_STREAMS,
+			numInboundStreams: NUM_STREAMS,
+			initialTsn: this.#initialTsn,
+			stateCookie,
+		});
+	}
+}
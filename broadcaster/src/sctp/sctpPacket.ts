@@ -0,0 +1,360 @@
+/**
+ * SCTP chunk types (RFC 4960) used by SctpAssociation.
+ */
+export const SCTP_CHUNK_TYPES = {
+	data: 0,
+	init: 1,
+	initAck: 2,
+	sack: 3,
+	heartbeat: 4,
+	heartbeatAck: 5,
+	abort: 6,
+	shutdown: 7,
+	shutdownAck: 8,
+	error: 9,
+	cookieEcho: 10,
+	cookieAck: 11,
+	shutdownComplete: 14,
+} as const;
+
+/**
+ * SCTP Payload Protocol Identifiers used by WebRTC DataChannels (RFC 8831).
+ */
+export const SCTP_PPIDS = {
+	string: 51,
+	binary: 53,
+	stringEmpty: 56,
+	binaryEmpty: 57,
+} as const;
+
+// State Cookie parameter in INIT ACK chunks.
+const STATE_COOKIE_PARAMETER_TYPE = 7;
+
+export type SctpChunk = {
+	type: number;
+	flags: number;
+	value: Buffer;
+};
+
+export type SctpPacket = {
+	sourcePort: number;
+	destinationPort: number;
+	verificationTag: number;
+	chunks: SctpChunk[];
+};
+
+export type SctpInitChunk = {
+	initiateTag: number;
+	advertisedReceiverWindowCredit: number;
+	numOutboundStreams: number;
+	numInboundStreams: number;
+	initialTsn: number;
+	/**
+	 * Only in INIT ACK chunks.
+	 */
+	stateCookie?: Buffer;
+};
+
+export type SctpDataChunk = {
+	tsn: number;
+	streamId: number;
+	streamSequenceNumber: number;
+	ppid: number;
+	unordered: boolean;
+	beginning: boolean;
+	ending: boolean;
+	userData: Buffer;
+};
+
+export type SctpSackChunk = {
+	cumulativeTsnAck: number;
+	advertisedReceiverWindowCredit: number;
+	/**
+	 * Received TSNs after the cumulative TSN ack, as offsets from it.
+	 */
+	gapAckBlocks: { start: number; end: number }[];
+};
+
+/**
+ * Parses the given buffer as a SCTP packet.
+ *
+ * @returns The SCTP packet or undefined if the buffer is not a valid SCTP
+ *   packet (including a wrong checksum).
+ */
+export function parseSctpPacket(buffer: Buffer): SctpPacket | undefined {
+	if (buffer.length < 12) {
+		return undefined;
+	}
+
+	const checksum = buffer.readUInt32LE(8);
+	const copy = Buffer.from(buffer);
+
+	copy.writeUInt32LE(0, 8);
+
+	if (crc32c(copy) !== checksum) {
+		return undefined;
+	}
+
+	const chunks: SctpChunk[] = [];
+	let offset = 12;
+
+	while (offset + 4 <= buffer.length) {
+		const length = buffer.readUInt16BE(offset + 2);
+
+		if (length < 4 || offset + length > buffer.length) {
+			return undefined;
+		}
+
+		chunks.push({
+			type: buffer[offset]!,
+			flags: buffer[offset + 1]!,
+			value: buffer.subarray(offset + 4, offset + length),
+		});
+
+		offset += pad4(length);
+	}
+
+	return {
+		sourcePort: buffer.readUInt16BE(0),
+		destinationPort: buffer.readUInt16BE(2),
+		verificationTag: buffer.readUInt32BE(4),
+		chunks,
+	};
+}
+
+export function serializeSctpPacket({
+	sourcePort,
+	destinationPort,
+	verificationTag,
+	chunks,
+}: SctpPacket): Buffer {
+	const length = chunks.reduce(
+		(sum, chunk) => sum + pad4(4 + chunk.value.length),
+		12
+	);
+	const buffer = Buffer.alloc(length);
+
+	buffer.writeUInt16BE(sourcePort, 0);
+	buffer.writeUInt16BE(destinationPort, 2);
+	buffer.writeUInt32BE(verificationTag, 4);
+
+	let offset = 12;
+
+	for (const { type, flags, value } of chunks) {
+		buffer[offset] = type;
+		buffer[offset + 1] = flags;
+		buffer.writeUInt16BE(4 + value.length, offset + 2);
+		value.copy(buffer, offset + 4);
+
+		offset += pad4(4 + value.length);
+	}
+
+	buffer.writeUInt32LE(crc32c(buffer), 8);
+
+	return buffer;
+}
+
+/**
+ * Parses the value of an INIT or INIT ACK chunk. Optional parameters other
+ * than the State Cookie are ignored.
+ */
+export function parseInitChunk(value: Buffer): SctpInitChunk | undefined {
+	if (value.length < 16) {
+		return undefined;
+	}
+
+	let stateCookie: Buffer | undefined;
+	let offset = 16;
+
+	while (offset + 4 <= value.length) {
+		const type = value.readUInt16BE(offset);
+		const length = value.readUInt16BE(offset + 2);
+
+		if (length < 4 || offset + length > value.length) {
+			break;
+		}
+
+		if (type === STATE_COOKIE_PARAMETER_TYPE) {
+			stateCookie = value.subarray(offset + 4, offset + length);
+		}
+
+		offset += pad4(length);
+	}
+
+	return {
+		initiateTag: value.readUInt32BE(0),
+		advertisedReceiverWindowCredit: value.readUInt32BE(4),
+		numOutboundStreams: value.readUInt16BE(8),
+		numInboundStreams: value.readUInt16BE(10),
+		initialTsn: value.readUInt32BE(12),
+		stateCookie,
+	};
+}
+
+export function serializeInitChunk({
+	initiateTag,
+	advertisedReceiverWindowCredit,
+	numOutboundStreams,
+	numInboundStreams,
+	initialTsn,
+	stateCookie,
+}: SctpInitChunk): Buffer {
+	const value = Buffer.alloc(
+		16 + (stateCookie ? pad4(4 + stateCookie.length) : 0)
+	);
+
+	value.writeUInt32BE(initiateTag, 0);
+	value.writeUInt32BE(advertisedReceiverWindowCredit, 4);
+	value.writeUInt16BE(numOutboundStreams, 8);
+	value.writeUInt16BE(numInboundStreams, 10);
+	value.writeUInt32BE(initialTsn, 12);
+
+	if (stateCookie) {
+		value.writeUInt16BE(STATE_COOKIE_PARAMETER_TYPE, 16);
+		value.writeUInt16BE(4 + stateCookie.length, 18);
+		stateCookie.copy(value, 20);
+	}
+
+	return value;
+}
+
+export function parseDataChunk({
+	flags,
+	value,
+}: SctpChunk): SctpDataChunk | undefined {
+	if (value.length < 12) {
+		return undefined;
+	}
+
+	return {
+		tsn: value.readUInt32BE(0),
+		streamId: value.readUInt16BE(4),
+		streamSequenceNumber: value.readUInt16BE(6),
+		ppid: value.readUInt32BE(8),
+		unordered: (flags & 0x04) !== 0,
+		beginning: (flags & 0x02) !== 0,
+		ending: (flags & 0x01) !== 0,
+		userData: value.subarray(12),
+	};
+}
+
+export function serializeDataChunk({
+	tsn,
+	streamId,
+	streamSequenceNumber,
+	ppid,
+	unordered,
+	beginning,
+	ending,
+	userData,
+}: SctpDataChunk): SctpChunk {
+	const value = Buffer.alloc(12 + userData.length);
+
+	value.writeUInt32BE(tsn, 0);
+	value.writeUInt16BE(streamId, 4);
+	value.writeUInt16BE(streamSequenceNumber, 6);
+	value.writeUInt32BE(ppid, 8);
+	userData.copy(value, 12);
+
+	return {
+		type: SCTP_CHUNK_TYPES.data,
+		flags:
+			(unordered ? 0x04 : 0) | (beginning ? 0x02 : 0) | (ending ? 0x01 : 0),
+		value,
+	};
+}
+
+export function parseSackChunk(value: Buffer): SctpSackChunk | undefined {
+	if (value.length < 12) {
+		return undefined;
+	}
+
+	const numGapAckBlocks = value.readUInt16BE(8);
+	const gapAckBlocks: SctpSackChunk['gapAckBlocks'] = [];
+
+	for (let i = 0; i < numGapAckBlocks && 12 + i * 4 + 4 <= value.length; ++i) {
+		gapAckBlocks.push({
+			start: value.readUInt16BE(12 + i * 4),
+			end: value.readUInt16BE(12 + i * 4 + 2),
+		});
+	}
+
+	return {
+		cumulativeTsnAck: value.readUInt32BE(0),
+		advertisedReceiverWindowCredit: value.readUInt32BE(4),
+		gapAckBlocks,
+	};
+}
+
+export function serializeSackChunk({
+	cumulativeTsnAck,
+	advertisedReceiverWindowCredit,
+	gapAckBlocks,
+}: SctpSackChunk): Buffer {
+	const value = Buffer.alloc(12 + gapAckBlocks.length * 4);
+
+	value.writeUInt32BE(cumulativeTsnAck, 0);
+	value.writeUInt32BE(advertisedReceiverWindowCredit, 4);
+	value.writeUInt16BE(gapAckBlocks.length, 8);
+	// No duplicated TSNs are reported.
+	value.writeUInt16BE(0, 10);
+
+	gapAckBlocks.forEach(({ start, end }, idx) => {
+		value.writeUInt16BE(start, 12 + idx * 4);
+		value.writeUInt16BE(end, 12 + idx * 4 + 2);
+	});
+
+	return value;
+}
+
+/**
+ * Signed distance from TSN `b` to TSN `a` taking wrap around into account.
+ */
+export function getTsnDiff(a: number, b: number): number {
+	return (a - b) | 0;
+}
+
+/**
+ * Adds the given (maybe negative) number to the given TSN taking wrap around
+ * into account.
+ */
+export function addToTsn(tsn: number, value: number): number {
+	return (tsn + value) >>> 0;
+}
+
+let crc32cTable: Uint32Array | undefined;
+
+/**
+ * CRC32c (Castagnoli) as used by SCTP (RFC 3309).
+ */
+export function crc32c(buffer: Buffer): number {
+	crc32cTable ??= createCrc32cTable();
+
+	let crc = 0xffffffff;
+
+	for (const byte of buffer) {
+		crc = crc32cTable[(crc ^ byte) & 0xff]! ^ (crc >>> 8);
+	}
+
+	return (crc ^ 0xffffffff) >>> 0;
+}
+
+function createCrc32cTable(): Uint32Array {
+	const table = new Uint32Array(256);
+
+	for (let i = 0; i < 256; ++i) {
+		let crc = i;
+
+		for (let j = 0; j < 8; ++j) {
+			crc = crc & 1 ? (crc >>> 1) ^ 0x82f63b78 : crc >>> 1;
+		}
+
+		table[i] = crc >>> 0;
+	}
+
+	return table;
+}
+
+function pad4(length: number): number {
+	return (length + 3) & ~3;
+}
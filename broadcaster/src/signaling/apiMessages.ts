@@ -4,12 +4,19 @@ import type {
 	RoomId,
 	PeerId,
 	PeerDevice,
+	SerializedPeer,
+	Source,
 	ApiMethod,
 	ApiPath,
 	PeerProducersInfo,
+	PeerDataProducersInfo,
 	PlainTransportRemoteData,
 	PlainTransportAppData,
+	SrtpCryptoSuite,
+	SrtpParameters,
+	MediasoupStat,
 	PeerProducerAppData,
+	PeerDataProducerAppData,
 } from '../types';
 
 /**
@@ -50,6 +57,22 @@ type Request =
 			method: 'DELETE';
 			path: ['rooms', { roomId: RoomId }, 'broadcasters', { peerId: PeerId }];
 	  }
+	| {
+			name: 'getBroadcasterPeer';
+			method: 'GET';
+			path: ['rooms', { roomId: RoomId }, 'broadcasters', { peerId: PeerId }];
+			responseData: {
+				peerId: PeerId;
+				displayName: string;
+				device: PeerDevice;
+				joined: boolean;
+				transportIds: string[];
+				producerIds: string[];
+				consumerIds: string[];
+				dataProducerIds: string[];
+				dataConsumerIds: string[];
+			};
+	  }
 	| {
 			name: 'createPlainTransport';
 			method: 'POST';
@@ -63,6 +86,19 @@ type Request =
 			data: {
 				comedia?: boolean;
 				rtcpMux?: boolean;
+				/**
+				 * Enable SCTP (DataChannels) in the PlainTransport.
+				 */
+				enableSctp?: boolean;
+				/**
+				 * Encrypt RTP and RTCP with SRTP. The client must then give its own
+				 * SRTP parameters in connectPlainTransport.
+				 */
+				enableSrtp?: boolean;
+				/**
+				 * SRTP crypto suite. Default 'AES_CM_128_HMAC_SHA1_80'.
+				 */
+				srtpCryptoSuite?: SrtpCryptoSuite;
 				appData: PlainTransportAppData;
 			};
 			responseData: PlainTransportRemoteData;
@@ -80,11 +116,47 @@ type Request =
 				'connect',
 			];
 			data: {
-				ip: string;
-				port: number;
+				/**
+				 * Remote IP and ports. Not needed if the PlainTransport was created
+				 * with `comedia` option.
+				 */
+				ip?: string;
+				port?: number;
 				rtcpPort?: number;
+				/**
+				 * Crypto suite and key with which the client encrypts the RTP and
+				 * RTCP it sends. Required if the PlainTransport was created with SRTP
+				 * enabled.
+				 */
+				srtpParameters?: SrtpParameters;
 			};
 	  }
+	| {
+			name: 'closePlainTransport';
+			method: 'DELETE';
+			path: [
+				'rooms',
+				{ roomId: RoomId },
+				'broadcasters',
+				{ peerId: PeerId },
+				'transports',
+				{ transportId: string },
+			];
+	  }
+	| {
+			name: 'getTransportStats';
+			method: 'GET';
+			path: [
+				'rooms',
+				{ roomId: RoomId },
+				'broadcasters',
+				{ peerId: PeerId },
+				'transports',
+				{ transportId: string },
+				'stats',
+			];
+			responseData: { stats: MediasoupStat[] };
+	  }
 	| {
 			name: 'produce';
 			method: 'POST';
@@ -103,6 +175,58 @@ type Request =
 			};
 			responseData: { producerId: string };
 	  }
+	| {
+			name: 'pauseProducer';
+			method: 'POST';
+			path: [
+				'rooms',
+				{ roomId: RoomId },
+				'broadcasters',
+				{ peerId: PeerId },
+				'producers',
+				{ producerId: string },
+				'pause',
+			];
+	  }
+	| {
+			name: 'resumeProducer';
+			method: 'POST';
+			path: [
+				'rooms',
+				{ roomId: RoomId },
+				'broadcasters',
+				{ peerId: PeerId },
+				'producers',
+				{ producerId: string },
+				'resume',
+			];
+	  }
+	| {
+			name: 'closeProducer';
+			method: 'DELETE';
+			path: [
+				'rooms',
+				{ roomId: RoomId },
+				'broadcasters',
+				{ peerId: PeerId },
+				'producers',
+				{ producerId: string },
+			];
+	  }
+	| {
+			name: 'getProducerStats';
+			method: 'GET';
+			path: [
+				'rooms',
+				{ roomId: RoomId },
+				'broadcasters',
+				{ peerId: PeerId },
+				'producers',
+				{ producerId: string },
+				'stats',
+			];
+			responseData: { stats: MediasoupStat[] };
+	  }
 	| {
 			name: 'getPeerProducersInfos';
 			method: 'GET';
@@ -133,7 +257,65 @@ type Request =
 				paused?: boolean;
 				rtpCapabilities: mediasoupTypes.RtpCapabilities;
 			};
-			responseData: { consumerId: string };
+			responseData: {
+				consumerId: string;
+				kind: mediasoupTypes.MediaKind;
+				rtpParameters: mediasoupTypes.RtpParameters;
+			};
+	  }
+	| {
+			name: 'produceData';
+			method: 'POST';
+			path: [
+				'rooms',
+				{ roomId: RoomId },
+				'broadcasters',
+				{ peerId: PeerId },
+				'dataProducers',
+			];
+			data: {
+				transportId: string;
+				sctpStreamParameters: mediasoupTypes.SctpStreamParameters;
+				label?: string;
+				protocol?: string;
+				appData: PeerDataProducerAppData;
+			};
+			responseData: { dataProducerId: string };
+	  }
+	| {
+			name: 'getPeerDataProducersInfos';
+			method: 'GET';
+			path: [
+				'rooms',
+				{ roomId: RoomId },
+				'broadcasters',
+				{ peerId: PeerId },
+				'peerDataProducersInfos',
+			];
+			responseData: {
+				peerDataProducersInfos: PeerDataProducersInfo[];
+			};
+	  }
+	| {
+			name: 'consumeData';
+			method: 'POST';
+			path: [
+				'rooms',
+				{ roomId: RoomId },
+				'broadcasters',
+				{ peerId: PeerId },
+				'dataConsumers',
+			];
+			data: {
+				transportId: string;
+				dataProducerId: string;
+			};
+			responseData: {
+				dataConsumerId: string;
+				sctpStreamParameters: mediasoupTypes.SctpStreamParameters;
+				label: string;
+				protocol: string;
+			};
 	  }
 	| {
 			name: 'resumeConsumer';
@@ -147,6 +329,45 @@ type Request =
 				{ consumerId: string },
 				'resume',
 			];
+	  }
+	| {
+			name: 'pauseConsumer';
+			method: 'POST';
+			path: [
+				'rooms',
+				{ roomId: RoomId },
+				'broadcasters',
+				{ peerId: PeerId },
+				'consumers',
+				{ consumerId: string },
+				'pause',
+			];
+	  }
+	| {
+			name: 'closeConsumer';
+			method: 'DELETE';
+			path: [
+				'rooms',
+				{ roomId: RoomId },
+				'broadcasters',
+				{ peerId: PeerId },
+				'consumers',
+				{ consumerId: string },
+			];
+	  }
+	| {
+			name: 'getConsumerStats';
+			method: 'GET';
+			path: [
+				'rooms',
+				{ roomId: RoomId },
+				'broadcasters',
+				{ peerId: PeerId },
+				'consumers',
+				{ consumerId: string },
+				'stats',
+			];
+			responseData: { stats: MediasoupStat[] };
 	  };
 
 type RequestNameApiMethodMap<U extends { name: string; method: ApiMethod }> = {
@@ -190,3 +411,185 @@ export type TypedApiRequest<Name extends RequestName> = {
 			: (responseData: RequestResponseData<N>) => void;
 	};
 }[Name];
+
+/**
+ * Notifications sent from server to broadcaster over the Server-Sent Events
+ * stream of its BroadcasterPeer.
+ */
+type Notification =
+	| {
+			name: 'newPeer';
+			data: {
+				peer: SerializedPeer;
+			};
+	  }
+	| {
+			name: 'peerDisplayNameChanged';
+			data: {
+				peerId: PeerId;
+				displayName: string;
+				oldDisplayName: string;
+			};
+	  }
+	| {
+			name: 'peerClosed';
+			data: {
+				peerId: PeerId;
+			};
+	  }
+	| {
+			name: 'newProducer';
+			data: {
+				peerId: PeerId;
+				producerId: string;
+				kind: mediasoupTypes.MediaKind;
+				source: Source;
+			};
+	  }
+	| {
+			name: 'producerClosed';
+			data: {
+				peerId: PeerId;
+				producerId: string;
+			};
+	  }
+	| {
+			/**
+			 * Score of one of our Producers.
+			 */
+			name: 'producerScore';
+			data: {
+				producerId: string;
+				score: {
+					encodingIdx: number;
+					ssrc: number;
+					rid?: string;
+					score: number;
+				}[];
+			};
+	  }
+	| {
+			name: 'speakingPeers';
+			data: {
+				peerVolumes: {
+					peerId: PeerId;
+					volume: number;
+				}[];
+			};
+	  }
+	| {
+			name: 'activeSpeaker';
+			data: {
+				peerId?: PeerId;
+			};
+	  }
+	| {
+			name: 'consumerPaused';
+			data: {
+				consumerId: string;
+			};
+	  }
+	| {
+			name: 'consumerResumed';
+			data: {
+				consumerId: string;
+			};
+	  }
+	| {
+			name: 'consumerScore';
+			data: {
+				consumerId: string;
+				score: {
+					score: number;
+					producerScore: number;
+					producerScores: number[];
+				};
+			};
+	  }
+	| {
+			name: 'consumerLayersChanged';
+			data: {
+				consumerId: string;
+				layers?: {
+					spatialLayer: number;
+					temporalLayer?: number;
+				};
+			};
+	  }
+	| {
+			name: 'consumerClosed';
+			data: {
+				consumerId: string;
+			};
+	  }
+	| {
+			name: 'dataConsumerClosed';
+			data: {
+				dataConsumerId: string;
+			};
+	  }
+	| {
+			name: 'peerMuted';
+			data: {
+				peerId: PeerId;
+				moderatorPeerId: PeerId;
+				source?: Source;
+				producerIds: string[];
+				closed: boolean;
+			};
+	  }
+	| {
+			name: 'peerKicked';
+			data: {
+				peerId: PeerId;
+				// Unset if kicked by an admin.
+				moderatorPeerId?: PeerId;
+				reason?: string;
+			};
+	  }
+	| {
+			name: 'roomLockChanged';
+			data: {
+				locked: boolean;
+				moderatorPeerId: PeerId;
+			};
+	  }
+	| {
+			name: 'recordingStateChanged';
+			data: {
+				recording: boolean;
+				// Unset if changed by an admin or by the server.
+				moderatorPeerId?: PeerId;
+			};
+	  }
+	| {
+			/**
+			 * Sent right before closing the Room due to a mediasoup failure. The
+			 * broadcaster should join again.
+			 */
+			name: 'roomRestarting';
+	  }
+	| {
+			name: 'adminMessage';
+			data: {
+				text: string;
+			};
+	  }
+	| {
+			/**
+			 * `deadline` is given in milliseconds since Unix epoch.
+			 */
+			name: 'serverShuttingDown';
+			data: {
+				deadline: number;
+			};
+	  };
+
+type NotificationNameDataMap<U extends { name: string }> = {
+	[K in U as K['name']]: K extends { data: infer D } ? D : undefined;
+};
+
+export type NotificationName = Notification['name'];
+
+export type NotificationData<Name extends NotificationName> =
+	NotificationNameDataMap<Notification>[Name];
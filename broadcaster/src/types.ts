@@ -14,11 +14,23 @@ export type PeerDevice = {
 		| 'aiortc'
 		| 'ffmpeg'
 		| 'gstreamer'
+		| 'whip'
 		| 'unknown';
 	name: string;
 	version?: string;
 };
 
+export type PeerRole = 'moderator' | 'participant';
+
+export type SerializedPeer = {
+	peerId: PeerId;
+	displayName: string;
+	device: PeerDevice;
+	remoteAddress: string;
+	// Unset in BroadcasterPeer.
+	role?: PeerRole;
+};
+
 export type ApiMethod = 'GET' | 'POST' | 'DELETE';
 
 export type ApiPath = (
@@ -35,10 +47,50 @@ export type PlainTransportRemoteData = {
 	ip: string;
 	port: number;
 	rtcpPort?: number;
+	/**
+	 * Only if the PlainTransport was created with SCTP enabled.
+	 */
+	sctpParameters?: mediasoupTypes.SctpParameters;
+	/**
+	 * Only if the PlainTransport was created with SRTP enabled. Crypto suite
+	 * and key with which the PlainTransport encrypts the RTP and RTCP it sends.
+	 */
+	srtpParameters?: SrtpParameters;
+};
+
+/**
+ * SRTP crypto suites supported by mediasoup (mediasoup-client does not expose
+ * SRTP types).
+ */
+export type SrtpCryptoSuite =
+	| 'AEAD_AES_256_GCM'
+	| 'AEAD_AES_128_GCM'
+	| 'AES_CM_128_HMAC_SHA1_80'
+	| 'AES_CM_128_HMAC_SHA1_32';
+
+export type SrtpParameters = {
+	cryptoSuite: SrtpCryptoSuite;
+	/**
+	 * SRTP master key and salt encoded in Base64.
+	 */
+	keyBase64: string;
+};
+
+/**
+ * Stats of a PlainTransport, Producer or Consumer in the server.
+ * mediasoup-client does not expose the stats types of mediasoup so only the
+ * common fields are typed.
+ */
+export type MediasoupStat = {
+	type: string;
+	timestamp: number;
+	[key: string]: unknown;
 };
 
 export type Source = 'audio' | 'video' | 'screensharing';
 
+export type Channel = 'chat' | 'bot';
+
 export type PeerProducersInfo = {
 	peerId: PeerId;
 	producers: {
@@ -49,7 +101,41 @@ export type PeerProducersInfo = {
 	}[];
 };
 
-export type MediaClientType = 'ffmpeg' | 'gstreamer';
+export type PeerDataProducersInfo = {
+	peerId: PeerId;
+	dataProducers: {
+		dataProducerId: string;
+		label: string;
+		protocol: string;
+		channel: Channel;
+	}[];
+};
+
+export type MediaClientType = 'ffmpeg' | 'gstreamer' | 'builtin';
+
+export type TestPatternOptions = {
+	/**
+	 * Video width and height in pixels.
+	 */
+	width: number;
+	height: number;
+	/**
+	 * Video frames per second.
+	 */
+	frameRate: number;
+	/**
+	 * Video bitrate in kbps.
+	 */
+	videoBitrate: number;
+	/**
+	 * Audio tone frequency in Hz.
+	 */
+	toneFrequency: number;
+	/**
+	 * Burn the current wall clock time (with milliseconds) into the video.
+	 */
+	timestampOverlay: boolean;
+};
 
 export type PlainTransportAppData = {
 	direction: TransportDirection;
@@ -63,6 +149,14 @@ export type PeerProducerAppData = {
 	source: Source;
 };
 
+/**
+ * @remarks
+ * - This is the type of `addData` sent by the Peer or BroadcasterPeer.
+ */
+export type PeerDataProducerAppData = {
+	channel: Channel;
+};
+
 export type ConsumerAppData = {
 	peerId: PeerId;
 	source: Source;
@@ -59,3 +59,10 @@ export function splitAndFlattenArgs(array: (string | string[])[]): string[] {
 export function trimFinalNewline(str: string): string {
 	return str.replace(/(\r?\n)$/, '');
 }
+
+/**
+ * Makes the given value safe to be used in a file name.
+ */
+export function toFileName(value: string): string {
+	return value.replace(/[^\w-]/g, '_');
+}
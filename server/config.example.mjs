@@ -10,6 +10,24 @@
 
 import * as os from 'node:os';
 
+/**
+ * Returns the value of the given environment variable or throws if it's not
+ * set. Used for secrets that must never fall back to a well-known default.
+ *
+ * @param {string} name
+ * @param {string} reason
+ * @returns {string}
+ */
+function getRequiredEnv(name, reason) {
+	const value = process.env[name];
+
+	if (!value) {
+		throw new Error(`${name} environment variable must be set ${reason}`);
+	}
+
+	return value;
+}
+
 /**
  * @type {import('./src/types.ts').ServerConfig}
  */
@@ -19,6 +37,69 @@ export const config = {
 	 * not matching this domain will be rejected.
 	 */
 	domain: 'localhost',
+	/**
+	 * Optional. If set, WebSocket connections (`token` query parameter) and HTTP
+	 * API requests (`Authorization: Bearer` header) must present a JWT access
+	 * token signed with `secret` (HS256) or with the private key matching
+	 * `publicKey` (RS256 or ES256). The token payload must contain `roomId`,
+	 * `peerId`, `role` ('moderator' or 'participant') and `exp`.
+	 */
+	auth: process.env['AUTH_SECRET']
+		? {
+				secret: process.env['AUTH_SECRET'],
+			}
+		: undefined,
+	/**
+	 * Optional. If set, the admin HTTP API (routes under `/admin`) is enabled
+	 * and requests must present `secret` in an `Authorization: Bearer` header.
+	 */
+	admin: process.env['ADMIN_SECRET']
+		? {
+				secret: process.env['ADMIN_SECRET'],
+			}
+		: undefined,
+	/**
+	 * Optional. If set, Prometheus metrics are exposed in `/metrics`. If
+	 * `secret` is given, requests must present it in an `Authorization: Bearer`
+	 * header.
+	 */
+	metrics: {
+		secret: process.env['METRICS_SECRET'],
+	},
+	/**
+	 * Max time (in seconds) given to existing rooms to finish once the server
+	 * starts draining (on SIGTERM, `drain` terminal command or
+	 * `POST /admin/drain`). Once elapsed, the server is closed anyway.
+	 */
+	drainTimeout: 600,
+	/**
+	 * Optional. If set, rooms can be recorded into `directory` (requires
+	 * FFmpeg).
+	 */
+	recording: {
+		directory: process.env['RECORDING_DIRECTORY'] ?? './recordings',
+		ffmpegPath: process.env['FFMPEG_PATH'] ?? 'ffmpeg',
+	},
+	/**
+	 * Optional. If set, room lifecycle events are POSTed to each endpoint,
+	 * signed with its `secret`. Each endpoint may set `events` to just receive
+	 * some of them. E.g.:
+	 *   WEBHOOK_URL=http://localhost:8080/hooks WEBHOOK_SECRET=xxxx
+	 *
+	 * WEBHOOK_SECRET is required if WEBHOOK_URL is set.
+	 */
+	webhooks: process.env['WEBHOOK_URL']
+		? {
+				endpoints: [
+					{
+						url: process.env['WEBHOOK_URL'],
+						secret: getRequiredEnv('WEBHOOK_SECRET', 'if WEBHOOK_URL is set'),
+					},
+				],
+				maxQueueSize: 1000,
+				maxAttempts: 5,
+			}
+		: undefined,
 	/**
 	 * Signaling settings (Protoo WebSocket server and HTTP API server).
 	 */
@@ -39,6 +120,11 @@ export const config = {
 	mediasoup: {
 		// Number of mediasoup workers to launch.
 		numWorkers: Object.keys(os.cpus()).length,
+		/**
+		 * How to choose the mediasoup worker for a new room: 'round-robin',
+		 * 'least-rooms', 'least-consumers' or 'lowest-cpu'.
+		 */
+		workerPlacementStrategy: 'round-robin',
 		/**
 		 * mediasoup WorkerSettings.
 		 *
@@ -135,7 +221,7 @@ export const config = {
 					protocol: 'udp',
 					ip: process.env['MEDIASOUP_LISTEN_IP'] ?? '0.0.0.0',
 					announcedAddress: process.env['MEDIASOUP_ANNOUNCED_ADDRESS'],
-					port: 44444,
+					port: Number(process.env['MEDIASOUP_WEBRTC_SERVER_PORT'] ?? 44444),
 					sendBufferSize: undefined,
 					recvBufferSize: undefined,
 				},
@@ -143,7 +229,7 @@ export const config = {
 					protocol: 'tcp',
 					ip: process.env['MEDIASOUP_LISTEN_IP'] ?? '0.0.0.0',
 					announcedAddress: process.env['MEDIASOUP_ANNOUNCED_ADDRESS'],
-					port: 44444,
+					port: Number(process.env['MEDIASOUP_WEBRTC_SERVER_PORT'] ?? 44444),
 					sendBufferSize: undefined,
 					recvBufferSize: undefined,
 				},
@@ -186,5 +272,59 @@ export const config = {
 			},
 			maxSctpMessageSize: 262144,
 		},
+		/**
+		 * Optional. If set, rooms created with usePipeTransports add consumer
+		 * routers (in other workers) once all their consumer routers have
+		 * `maxConsumersPerRouter` consumers, up to `maxConsumerRouters`.
+		 */
+		consumerRouterPool: {
+			maxConsumersPerRouter: 500,
+			maxConsumerRouters: 4,
+		},
 	},
+	/**
+	 * Optional. Multi-host cascading. If set, every room is linked with the room
+	 * with same id in each node in `nodes` (other server processes, maybe in
+	 * other hosts) so peers in all of them see each other. All nodes must use
+	 * the same `secret` and list each other in `nodes` (with the base URL of
+	 * their HTTP API).
+	 *
+	 * Example for two processes in the same host (use different
+	 * HTTP_LISTEN_PORT and MEDIASOUP_WEBRTC_SERVER_PORT in each one):
+	 *   CASCADE_NODE_ID=node1 CASCADE_SECRET=xxxx CASCADE_NODES=node2=https://localhost:4444
+	 *   CASCADE_NODE_ID=node2 CASCADE_SECRET=xxxx CASCADE_NODES=node1=https://localhost:4443
+	 *
+	 * CASCADE_SECRET is required if CASCADE_NODE_ID is set.
+	 */
+	cascade: process.env['CASCADE_NODE_ID']
+		? {
+				nodeId: process.env['CASCADE_NODE_ID'],
+				secret: getRequiredEnv('CASCADE_SECRET', 'if CASCADE_NODE_ID is set'),
+				nodes: (process.env['CASCADE_NODES'] ?? '')
+					.split(',')
+					.filter(Boolean)
+					.map(entry => {
+						const idx = entry.indexOf('=');
+
+						return {
+							nodeId: entry.slice(0, idx),
+							url: entry.slice(idx + 1),
+						};
+					}),
+				/**
+				 * mediasoup PipeTransport listen info for media between nodes. Nodes
+				 * must be able to reach each other on this IP (or announced address).
+				 */
+				pipeTransportListenInfo: {
+					protocol: 'udp',
+					ip: process.env['MEDIASOUP_LISTEN_IP'] ?? '0.0.0.0',
+					announcedAddress:
+						process.env['MEDIASOUP_ANNOUNCED_ADDRESS'] ?? '127.0.0.1',
+					portRange: {
+						min: Number(process.env['MEDIASOUP_MIN_PORT'] ?? 40000),
+						max: Number(process.env['MEDIASOUP_MAX_PORT'] ?? 40999),
+					},
+				},
+			}
+		: undefined,
 };
@@ -1,3 +1,4 @@
+import * as crypto from 'node:crypto';
 import express from 'express';
 import type * as expressTypes from 'express';
 import * as bodyParser from 'body-parser';
@@ -7,17 +8,27 @@ import { EnhancedEventEmitter } from './enhancedEvents';
 import type { Room } from './Room';
 import type { BroadcasterPeer } from './BroadcasterPeer';
 import { ServerError, ForbiddenError, PeerNotFound } from './errors';
-import type { RoomId } from './types';
+import { verifyAccessToken, getBearerToken } from './accessTokens';
+import type { CascadeRequestName } from './signaling/cascadeMessages';
+import type { ServerConfig, RoomId, AccessTokenPayload } from './types';
 
 const logger = new Logger('ApiServer');
 
 export type ApiServerCreateOptions = {
 	httpOriginHeader: string;
+	authConfig?: ServerConfig['auth'];
+	adminConfig?: ServerConfig['admin'];
+	metricsConfig?: ServerConfig['metrics'];
+	cascadeConfig?: ServerConfig['cascade'];
 };
 
 type ApiServerConstructorOptions = {
 	expressApp: expressTypes.Express;
 	httpOriginHeader: string;
+	authConfig?: ServerConfig['auth'];
+	adminConfig?: ServerConfig['admin'];
+	metricsConfig?: ServerConfig['metrics'];
+	cascadeConfig?: ServerConfig['cascade'];
 };
 
 export type ApiServerEvents = {
@@ -29,23 +40,71 @@ export type ApiServerEvents = {
 		callback: (room: Room) => void,
 		errback: (error: Error) => void,
 	];
+	/**
+	 * Emitted to get a Room (or create it if it does not exist) when a remote
+	 * node links with us (cascading).
+	 */
+	'get-or-create-room': [
+		{ roomId: RoomId },
+		callback: (room: Room) => void,
+		errback: (error: Error) => void,
+	];
+	/**
+	 * Emitted to get all Rooms (admin API).
+	 */
+	'get-rooms': [callback: (rooms: Room[]) => void];
+	/**
+	 * Emitted to start draining the Server (admin API).
+	 */
+	drain: [{ timeout?: number }, callback: (deadline: Date) => void];
+	/**
+	 * Emitted to get Prometheus metrics.
+	 */
+	'get-metrics': [
+		resolve: ({
+			contentType,
+			metrics,
+		}: {
+			contentType: string;
+			metrics: string;
+		}) => void,
+		reject: (error: Error) => void,
+	];
 };
 
 interface ApiServerExpressRequest extends expressTypes.Request {
 	room?: Room;
 	peer?: BroadcasterPeer;
+	accessToken?: AccessTokenPayload;
 }
 
 export class ApiServer extends EnhancedEventEmitter<ApiServerEvents> {
 	readonly #expressApp: expressTypes.Express;
 	readonly #httpOriginHeader: string;
+	readonly #authConfig?: ServerConfig['auth'];
+	readonly #adminConfig?: ServerConfig['admin'];
+	readonly #metricsConfig?: ServerConfig['metrics'];
+	readonly #cascadeConfig?: ServerConfig['cascade'];
 
-	static create({ httpOriginHeader }: ApiServerCreateOptions): ApiServer {
+	static create({
+		httpOriginHeader,
+		authConfig,
+		adminConfig,
+		metricsConfig,
+		cascadeConfig,
+	}: ApiServerCreateOptions): ApiServer {
 		logger.debug('create()');
 
 		const expressApp = ApiServer.createExpressApp();
 
-		const apiServer = new ApiServer({ expressApp, httpOriginHeader });
+		const apiServer = new ApiServer({
+			expressApp,
+			httpOriginHeader,
+			authConfig,
+			adminConfig,
+			metricsConfig,
+			cascadeConfig,
+		});
 
 		return apiServer;
 	}
@@ -61,6 +120,10 @@ export class ApiServer extends EnhancedEventEmitter<ApiServerEvents> {
 	private constructor({
 		expressApp,
 		httpOriginHeader,
+		authConfig,
+		adminConfig,
+		metricsConfig,
+		cascadeConfig,
 	}: ApiServerConstructorOptions) {
 		super();
 
@@ -68,6 +131,10 @@ export class ApiServer extends EnhancedEventEmitter<ApiServerEvents> {
 
 		this.#expressApp = expressApp;
 		this.#httpOriginHeader = httpOriginHeader;
+		this.#authConfig = authConfig;
+		this.#adminConfig = adminConfig;
+		this.#metricsConfig = metricsConfig;
+		this.#cascadeConfig = cascadeConfig;
 
 		this.handleExpressApp();
 	}
@@ -76,9 +143,114 @@ export class ApiServer extends EnhancedEventEmitter<ApiServerEvents> {
 		return this.#expressApp;
 	}
 
+	/**
+	 * Whether the access token in the request (if any) allows acting as the
+	 * given `peerId`. Always true if access tokens are not required.
+	 */
+	private isPeerAllowed(req: ApiServerExpressRequest, peerId: string): boolean {
+		if (!this.#authConfig) {
+			return true;
+		}
+
+		return req.accessToken?.peerId === peerId;
+	}
+
+	/**
+	 * Whether the request presents the admin secret.
+	 */
+	private isAdminRequestAllowed(req: expressTypes.Request): boolean {
+		if (!this.#adminConfig) {
+			return false;
+		}
+
+		return isSameSecret(
+			getBearerToken(req.headers.authorization),
+			this.#adminConfig.secret
+		);
+	}
+
+	/**
+	 * Whether the request comes from a known remote node with the right
+	 * cascade secret.
+	 */
+	private isCascadeRequestAllowed(req: expressTypes.Request): boolean {
+		if (!this.#cascadeConfig) {
+			return false;
+		}
+
+		const { nodeId } = (req.body ?? {}) as { nodeId?: string };
+
+		return (
+			isSameSecret(
+				getBearerToken(req.headers.authorization),
+				this.#cascadeConfig.secret
+			) && this.#cascadeConfig.nodes.some(node => node.nodeId === nodeId)
+		);
+	}
+
 	private handleExpressApp(): void {
 		this.#expressApp.set('trust proxy', true);
 
+		/**
+		 * Requests from remote nodes (cascading). They don't come from browsers so
+		 * they are authenticated with the cascade secret instead of Origin and
+		 * access token. That's why they are handled before the Origin middleware.
+		 */
+		this.#expressApp.use('/cascade', this.createCascadeRouter());
+
+		/**
+		 * Admin requests. They come from ops tools rather than from browsers so
+		 * they are authenticated with the admin secret instead of Origin.
+		 */
+		this.#expressApp.use('/admin', this.createAdminRouter());
+
+		/**
+		 * WHIP (WebRTC-HTTP Ingestion Protocol) requests. They come from encoders
+		 * rather than from browsers so they don't send Origin. That's why they are
+		 * handled before the Origin middleware.
+		 *
+		 * @remarks
+		 * - The `roomId` param middleware below also applies here, so the access
+		 *   token (if required) is validated and `req.room` is set.
+		 */
+		this.#expressApp.use('/rooms/:roomId/whip', this.createWhipRouter());
+
+		/**
+		 * Prometheus metrics. Scrapers don't send Origin so this is handled
+		 * before the Origin middleware.
+		 */
+		if (this.#metricsConfig) {
+			const metricsSecret = this.#metricsConfig.secret;
+
+			this.#expressApp.get(
+				'/metrics',
+				async (req: ApiServerExpressRequest, res, next) => {
+					try {
+						if (
+							metricsSecret &&
+							!isSameSecret(
+								getBearerToken(req.headers.authorization),
+								metricsSecret
+							)
+						) {
+							throw new ForbiddenError('metrics request not allowed');
+						}
+
+						const { contentType, metrics } = await new Promise<{
+							contentType: string;
+							metrics: string;
+						}>((resolve, reject) => {
+							this.emit('get-metrics', resolve, reject);
+						});
+
+						res.status(200).set('Content-Type', contentType).send(metrics);
+					} catch (error) {
+						next(error);
+					}
+				}
+			);
+		}
+
 		/**
 		 * Middleware to validate Origin and so on. Yes, we require Origin in ALL
 		 * HTTP API requestss. Period.
@@ -111,11 +283,26 @@ export class ApiServer extends EnhancedEventEmitter<ApiServerEvents> {
 		});
 
 		/**
-		 * For every API request, obtain a Room with the given `roomId`.
+		 * For every API request, validate the access token (if required) and
+		 * obtain a Room with the given `roomId`.
 		 */
 		this.#expressApp.param(
 			'roomId',
 			(req: ApiServerExpressRequest, res, next, roomId) => {
+				if (this.#authConfig) {
+					try {
+						req.accessToken = verifyAccessToken({
+							authConfig: this.#authConfig,
+							token: getBearerToken(req.headers.authorization),
+							roomId,
+						});
+					} catch (error) {
+						next(error);
+
+						return;
+					}
+				}
+
 				this.emit(
 					'get-room',
 					{ roomId },
@@ -138,6 +325,12 @@ export class ApiServer extends EnhancedEventEmitter<ApiServerEvents> {
 		this.#expressApp.param(
 			'peerId',
 			(req: ApiServerExpressRequest, res, next, peerId) => {
+				if (!this.isPeerAllowed(req, peerId)) {
+					next(new ForbiddenError('access token not valid for this Peer'));
+
+					return;
+				}
+
 				const peer = req.room?.getBroadcasterPeer(peerId);
 
 				if (!peer) {
@@ -185,6 +378,10 @@ export class ApiServer extends EnhancedEventEmitter<ApiServerEvents> {
 					const { roomId } = req.params;
 					const { peerId, displayName, device } = req.body;
 
+					if (!this.isPeerAllowed(req, peerId)) {
+						throw new ForbiddenError('access token not valid for this Peer');
+					}
+
 					await req.room!.processApiRequest({
 						name: 'createBroadcasterPeer',
 						method: 'POST',
@@ -196,6 +393,7 @@ export class ApiServer extends EnhancedEventEmitter<ApiServerEvents> {
 						},
 						internalData: {
 							remoteAddress: req.ip ?? req.ips[0]!,
+							role: req.accessToken?.role,
 						},
 					});
 
@@ -242,6 +440,50 @@ export class ApiServer extends EnhancedEventEmitter<ApiServerEvents> {
 			}
 		);
 
+		/**
+		 * GET API that returns the BroadcasterPeer. Broadcasters use it as health
+		 * check to detect that they are no longer in the Room (404).
+		 */
+		this.#expressApp.get(
+			'/rooms/:roomId/broadcasters/:peerId',
+			async (req: ApiServerExpressRequest, res, next) => {
+				const { roomId, peerId } = req.params;
+
+				try {
+					const responseData = await req.peer!.processApiRequest({
+						name: 'getBroadcasterPeer',
+						method: 'GET',
+						path: [
+							'rooms',
+							{ roomId: roomId! },
+							'broadcasters',
+							{ peerId: peerId! },
+						],
+					});
+
+					res.status(200).json(responseData);
+				} catch (error) {
+					next(error);
+				}
+			}
+		);
+
+		/**
+		 * GET API that streams notifications about the Room to the BroadcasterPeer
+		 * as Server-Sent Events. Those are the same notifications Peers receive
+		 * over Protoo.
+		 */
+		this.#expressApp.get(
+			'/rooms/:roomId/broadcasters/:peerId/events',
+			(req: ApiServerExpressRequest, res, next) => {
+				try {
+					req.peer!.addEventStream(res);
+				} catch (error) {
+					next(error);
+				}
+			}
+		);
+
 		/**
 		 * DELETE API to disconnect a BroadcasterPeer.
 		 */
@@ -277,7 +519,17 @@ export class ApiServer extends EnhancedEventEmitter<ApiServerEvents> {
 			'/rooms/:roomId/broadcasters/:peerId/transports',
 			async (req: ApiServerExpressRequest, res, next) => {
 				const { roomId, peerId } = req.params;
-				const { direction, comedia, rtcpMux } = req.body;
+				const {
+					comedia,
+					rtcpMux,
+					enableSctp,
+					enableSrtp,
+					srtpCryptoSuite,
+					appData,
+				} = req.body;
+				// NOTE: Old clients send `direction` at top level rather than in
+				// `appData`.
+				const direction = appData?.direction ?? req.body.direction;
 
 				try {
 					const responseData = await req.peer!.processApiRequest({
@@ -293,6 +545,9 @@ export class ApiServer extends EnhancedEventEmitter<ApiServerEvents> {
 						data: {
 							comedia,
 							rtcpMux,
+							enableSctp,
+							enableSrtp,
+							srtpCryptoSuite,
 							appData: {
 								direction,
 							},
@@ -313,13 +568,14 @@ export class ApiServer extends EnhancedEventEmitter<ApiServerEvents> {
 
 		/**
 		 * POST API to connect a PlainTransport belonging to a BroadcasterPeer. Not
-		 * needed if it was created with `comedia` option.
+		 * needed if it was created with `comedia` option, unless SRTP is enabled
+		 * (then the client gives just its `srtpParameters`).
 		 */
 		this.#expressApp.post(
 			'/rooms/:roomId/broadcasters/:peerId/transports/:transportId/connect',
 			async (req: ApiServerExpressRequest, res, next) => {
 				const { roomId, peerId, transportId } = req.params;
-				const { ip, port, rtcpPort } = req.body;
+				const { ip, port, rtcpPort, srtpParameters } = req.body;
 
 				try {
 					await req.peer!.processApiRequest({
@@ -338,6 +594,7 @@ export class ApiServer extends EnhancedEventEmitter<ApiServerEvents> {
 							ip,
 							port,
 							rtcpPort,
+							srtpParameters,
 						},
 					});
 
@@ -351,6 +608,67 @@ export class ApiServer extends EnhancedEventEmitter<ApiServerEvents> {
 			}
 		);
 
+		/**
+		 * DELETE API to close a PlainTransport belonging to a BroadcasterPeer. Its
+		 * Producers and Consumers are also closed.
+		 */
+		this.#expressApp.delete(
+			'/rooms/:roomId/broadcasters/:peerId/transports/:transportId',
+			async (req: ApiServerExpressRequest, res, next) => {
+				const { roomId, peerId, transportId } = req.params;
+
+				try {
+					await req.peer!.processApiRequest({
+						name: 'closePlainTransport',
+						method: 'DELETE',
+						path: [
+							'rooms',
+							{ roomId: roomId! },
+							'broadcasters',
+							{ peerId: peerId! },
+							'transports',
+							{ transportId: transportId! },
+						],
+					});
+
+					res.sendStatus(204);
+				} catch (error) {
+					next(error);
+				}
+			}
+		);
+
+		/**
+		 * GET API to obtain the stats of a PlainTransport belonging to a
+		 * BroadcasterPeer.
+		 */
+		this.#expressApp.get(
+			'/rooms/:roomId/broadcasters/:peerId/transports/:transportId/stats',
+			async (req: ApiServerExpressRequest, res, next) => {
+				const { roomId, peerId, transportId } = req.params;
+
+				try {
+					const responseData = await req.peer!.processApiRequest({
+						name: 'getTransportStats',
+						method: 'GET',
+						path: [
+							'rooms',
+							{ roomId: roomId! },
+							'broadcasters',
+							{ peerId: peerId! },
+							'transports',
+							{ transportId: transportId! },
+							'stats',
+						],
+					});
+
+					res.status(200).json(responseData);
+				} catch (error) {
+					next(error);
+				}
+			}
+		);
+
 		/**
 		 * POST API to create a mediasoup Producer associated to a BroadcasterPeer.
 		 * The exact Transport in which the Producer must be created is signaled in
@@ -394,6 +712,133 @@ export class ApiServer extends EnhancedEventEmitter<ApiServerEvents> {
 			}
 		);
 
+		/**
+		 * POST API to pause a mediasoup Producer associated to a BroadcasterPeer.
+		 */
+		this.#expressApp.post(
+			'/rooms/:roomId/broadcasters/:peerId/producers/:producerId/pause',
+			async (req: ApiServerExpressRequest, res, next) => {
+				const { roomId, peerId, producerId } = req.params;
+
+				try {
+					await req.peer!.processApiRequest({
+						name: 'pauseProducer',
+						method: 'POST',
+						path: [
+							'rooms',
+							{ roomId: roomId! },
+							'broadcasters',
+							{ peerId: peerId! },
+							'producers',
+							{ producerId: producerId! },
+							'pause',
+						],
+					});
+
+					res
+						.status(200)
+						.set('Content-Type', 'text/plain; charset=utf-8')
+						.send('Producer paused');
+				} catch (error) {
+					next(error);
+				}
+			}
+		);
+
+		/**
+		 * POST API to resume a mediasoup Producer associated to a BroadcasterPeer.
+		 */
+		this.#expressApp.post(
+			'/rooms/:roomId/broadcasters/:peerId/producers/:producerId/resume',
+			async (req: ApiServerExpressRequest, res, next) => {
+				const { roomId, peerId, producerId } = req.params;
+
+				try {
+					await req.peer!.processApiRequest({
+						name: 'resumeProducer',
+						method: 'POST',
+						path: [
+							'rooms',
+							{ roomId: roomId! },
+							'broadcasters',
+							{ peerId: peerId! },
+							'producers',
+							{ producerId: producerId! },
+							'resume',
+						],
+					});
+
+					res
+						.status(200)
+						.set('Content-Type', 'text/plain; charset=utf-8')
+						.send('Producer resumed');
+				} catch (error) {
+					next(error);
+				}
+			}
+		);
+
+		/**
+		 * DELETE API to close a mediasoup Producer associated to a BroadcasterPeer.
+		 * Its Consumers are also closed.
+		 */
+		this.#expressApp.delete(
+			'/rooms/:roomId/broadcasters/:peerId/producers/:producerId',
+			async (req: ApiServerExpressRequest, res, next) => {
+				const { roomId, peerId, producerId } = req.params;
+
+				try {
+					await req.peer!.processApiRequest({
+						name: 'closeProducer',
+						method: 'DELETE',
+						path: [
+							'rooms',
+							{ roomId: roomId! },
+							'broadcasters',
+							{ peerId: peerId! },
+							'producers',
+							{ producerId: producerId! },
+						],
+					});
+
+					res.sendStatus(204);
+				} catch (error) {
+					next(error);
+				}
+			}
+		);
+
+		/**
+		 * GET API to obtain the stats of a mediasoup Producer associated to a
+		 * BroadcasterPeer.
+		 */
+		this.#expressApp.get(
+			'/rooms/:roomId/broadcasters/:peerId/producers/:producerId/stats',
+			async (req: ApiServerExpressRequest, res, next) => {
+				const { roomId, peerId, producerId } = req.params;
+
+				try {
+					const responseData = await req.peer!.processApiRequest({
+						name: 'getProducerStats',
+						method: 'GET',
+						path: [
+							'rooms',
+							{ roomId: roomId! },
+							'broadcasters',
+							{ peerId: peerId! },
+							'producers',
+							{ producerId: producerId! },
+							'stats',
+						],
+					});
+
+					res.status(200).json(responseData);
+				} catch (error) {
+					next(error);
+				}
+			}
+		);
+
 		/**
 		 * GET API to obtain info about current Producers.
 		 */
@@ -502,17 +947,223 @@ export class ApiServer extends EnhancedEventEmitter<ApiServerEvents> {
 		);
 
 		/**
-		 * Error handler and middleware to log error responses.
+		 * POST API to pause a mediasoup Consumer associated to a BroadcasterPeer.
 		 */
-		this.#expressApp.use(
-			(
-				// eslint-disable-next-line @typescript-eslint/no-explicit-any
-				error: any,
-				req: ApiServerExpressRequest,
-				res: expressTypes.Response,
-				next: expressTypes.NextFunction
-			) => {
-				if (error) {
+		this.#expressApp.post(
+			'/rooms/:roomId/broadcasters/:peerId/consumers/:consumerId/pause',
+			async (req: ApiServerExpressRequest, res, next) => {
+				const { roomId, peerId, consumerId } = req.params;
+
+				try {
+					await req.peer!.processApiRequest({
+						name: 'pauseConsumer',
+						method: 'POST',
+						path: [
+							'rooms',
+							{ roomId: roomId! },
+							'broadcasters',
+							{ peerId: peerId! },
+							'consumers',
+							{ consumerId: consumerId! },
+							'pause',
+						],
+					});
+
+					res
+						.status(200)
+						.set('Content-Type', 'text/plain; charset=utf-8')
+						.send('Consumer paused');
+				} catch (error) {
+					next(error);
+				}
+			}
+		);
+
+		/**
+		 * DELETE API to close a mediasoup Consumer associated to a BroadcasterPeer.
+		 */
+		this.#expressApp.delete(
+			'/rooms/:roomId/broadcasters/:peerId/consumers/:consumerId',
+			async (req: ApiServerExpressRequest, res, next) => {
+				const { roomId, peerId, consumerId } = req.params;
+
+				try {
+					await req.peer!.processApiRequest({
+						name: 'closeConsumer',
+						method: 'DELETE',
+						path: [
+							'rooms',
+							{ roomId: roomId! },
+							'broadcasters',
+							{ peerId: peerId! },
+							'consumers',
+							{ consumerId: consumerId! },
+						],
+					});
+
+					res.sendStatus(204);
+				} catch (error) {
+					next(error);
+				}
+			}
+		);
+
+		/**
+		 * GET API to obtain the stats of a mediasoup Consumer associated to a
+		 * BroadcasterPeer.
+		 */
+		this.#expressApp.get(
+			'/rooms/:roomId/broadcasters/:peerId/consumers/:consumerId/stats',
+			async (req: ApiServerExpressRequest, res, next) => {
+				const { roomId, peerId, consumerId } = req.params;
+
+				try {
+					const responseData = await req.peer!.processApiRequest({
+						name: 'getConsumerStats',
+						method: 'GET',
+						path: [
+							'rooms',
+							{ roomId: roomId! },
+							'broadcasters',
+							{ peerId: peerId! },
+							'consumers',
+							{ consumerId: consumerId! },
+							'stats',
+						],
+					});
+
+					res.status(200).json(responseData);
+				} catch (error) {
+					next(error);
+				}
+			}
+		);
+
+		/**
+		 * POST API to create a mediasoup DataProducer associated to a
+		 * BroadcasterPeer. The Transport (that must have SCTP enabled) and the SCTP
+		 * stream parameters are signaled in the body. Only the chat channel is
+		 * supported.
+		 */
+		this.#expressApp.post(
+			'/rooms/:roomId/broadcasters/:peerId/dataProducers',
+			async (req: ApiServerExpressRequest, res, next) => {
+				const { roomId, peerId } = req.params;
+				const { transportId, sctpStreamParameters, label, protocol, appData } =
+					req.body;
+
+				try {
+					const responseData = await req.peer!.processApiRequest({
+						name: 'produceData',
+						method: 'POST',
+						path: [
+							'rooms',
+							{ roomId: roomId! },
+							'broadcasters',
+							{ peerId: peerId! },
+							'dataProducers',
+						],
+						data: {
+							transportId,
+							sctpStreamParameters,
+							label,
+							protocol,
+							appData,
+						},
+					});
+
+					res
+						.status(201)
+						.location(
+							`/rooms/${roomId}/broadcasters/${peerId}/dataProducers/${responseData.dataProducerId}`
+						)
+						.json(responseData);
+				} catch (error) {
+					next(error);
+				}
+			}
+		);
+
+		/**
+		 * GET API to obtain info about current chat DataProducers of other Peers.
+		 */
+		this.#expressApp.get(
+			'/rooms/:roomId/broadcasters/:peerId/peerDataProducersInfos',
+			async (req: ApiServerExpressRequest, res, next) => {
+				const { roomId, peerId } = req.params;
+
+				try {
+					const responseData = await req.peer!.processApiRequest({
+						name: 'getPeerDataProducersInfos',
+						method: 'GET',
+						path: [
+							'rooms',
+							{ roomId: roomId! },
+							'broadcasters',
+							{ peerId: peerId! },
+							'peerDataProducersInfos',
+						],
+					});
+
+					res.status(200).json(responseData);
+				} catch (error) {
+					next(error);
+				}
+			}
+		);
+
+		/**
+		 * POST API to create a mediasoup DataConsumer associated to a
+		 * BroadcasterPeer. Body parameters must include the Transport (that must
+		 * have SCTP enabled) and the desired dataProducerId to consume.
+		 */
+		this.#expressApp.post(
+			'/rooms/:roomId/broadcasters/:peerId/dataConsumers',
+			async (req: ApiServerExpressRequest, res, next) => {
+				const { roomId, peerId } = req.params;
+				const { transportId, dataProducerId } = req.body;
+
+				try {
+					const responseData = await req.peer!.processApiRequest({
+						name: 'consumeData',
+						method: 'POST',
+						path: [
+							'rooms',
+							{ roomId: roomId! },
+							'broadcasters',
+							{ peerId: peerId! },
+							'dataConsumers',
+						],
+						data: {
+							transportId,
+							dataProducerId,
+						},
+					});
+
+					res
+						.status(201)
+						.location(
+							`/rooms/${roomId}/broadcasters/${peerId}/dataConsumers/${responseData.dataConsumerId}`
+						)
+						.json(responseData);
+				} catch (error) {
+					next(error);
+				}
+			}
+		);
+
+		/**
+		 * Error handler and middleware to log error responses.
+		 */
+		this.#expressApp.use(
+			(
+				// eslint-disable-next-line @typescript-eslint/no-explicit-any
+				error: any,
+				req: ApiServerExpressRequest,
+				res: expressTypes.Response,
+				next: expressTypes.NextFunction
+			) => {
+				if (error) {
 					let status: number;
 					let logErrorStack: boolean = false;
 
@@ -548,4 +1199,501 @@ export class ApiServer extends EnhancedEventEmitter<ApiServerEvents> {
 			}
 		);
 	}
+
+	private createAdminRouter(): expressTypes.Router {
+		const adminRouter = express.Router();
+
+		adminRouter.use((req, res, next) => {
+			if (!this.isAdminRequestAllowed(req)) {
+				next(new ForbiddenError('admin request not allowed'));
+
+				return;
+			}
+
+			next();
+		});
+
+		adminRouter.use(bodyParser.json());
+
+		/**
+		 * POST API to start draining the Server. Optional `timeout` (in seconds)
+		 * overrides the one in the configuration.
+		 */
+		adminRouter.post('/drain', (req, res, next) => {
+			const { timeout } = (req.body ?? {}) as { timeout?: number };
+
+			if (
+				timeout !== undefined &&
+				(typeof timeout !== 'number' || !(timeout > 0))
+			) {
+				next(new TypeError('invalid timeout'));
+
+				return;
+			}
+
+			this.emit('drain', { timeout }, deadline => {
+				res.status(202).json({ deadline });
+			});
+		});
+
+		/**
+		 * For every admin API request, obtain a Room with the given `roomId`.
+		 */
+		adminRouter.param(
+			'roomId',
+			(req: ApiServerExpressRequest, res, next, roomId) => {
+				this.emit(
+					'get-room',
+					{ roomId },
+					room => {
+						req.room = room;
+
+						next();
+					},
+					error => {
+						next(error);
+					}
+				);
+			}
+		);
+
+		/**
+		 * Admin API GET resource that returns all Rooms.
+		 */
+		adminRouter.get(
+			'/rooms',
+			async (req: ApiServerExpressRequest, res, next) => {
+				try {
+					const rooms = await new Promise<Room[]>(resolve => {
+						this.emit('get-rooms', resolve);
+					});
+
+					const responseData = await Promise.all(
+						rooms.map(async room =>
+							room.processApiRequest({
+								name: 'adminGetRoom',
+								method: 'GET',
+								path: ['admin', 'rooms', { roomId: room.id }],
+							})
+						)
+					);
+
+					res.status(200).json(responseData);
+				} catch (error) {
+					next(error);
+				}
+			}
+		);
+
+		/**
+		 * Admin API GET resource that returns a Room.
+		 */
+		adminRouter.get(
+			'/rooms/:roomId',
+			async (req: ApiServerExpressRequest, res, next) => {
+				const { roomId } = req.params;
+
+				try {
+					const responseData = await req.room!.processApiRequest({
+						name: 'adminGetRoom',
+						method: 'GET',
+						path: ['admin', 'rooms', { roomId: roomId! }],
+					});
+
+					res.status(200).json(responseData);
+				} catch (error) {
+					next(error);
+				}
+			}
+		);
+
+		/**
+		 * Admin API DELETE to close a Room.
+		 */
+		adminRouter.delete(
+			'/rooms/:roomId',
+			async (req: ApiServerExpressRequest, res, next) => {
+				const { roomId } = req.params;
+
+				try {
+					await req.room!.processApiRequest({
+						name: 'adminCloseRoom',
+						method: 'DELETE',
+						path: ['admin', 'rooms', { roomId: roomId! }],
+					});
+
+					res
+						.status(200)
+						.set('Content-Type', 'text/plain; charset=utf-8')
+						.send('Room closed');
+				} catch (error) {
+					next(error);
+				}
+			}
+		);
+
+		/**
+		 * Admin API DELETE to kick a Peer. Optional `reason` query parameter is
+		 * sent to Peers.
+		 */
+		adminRouter.delete(
+			'/rooms/:roomId/peers/:peerId',
+			async (req: ApiServerExpressRequest, res, next) => {
+				const { roomId, peerId } = req.params;
+				const reason =
+					typeof req.query['reason'] === 'string'
+						? req.query['reason']
+						: undefined;
+
+				try {
+					await req.room!.processApiRequest({
+						name: 'adminKickPeer',
+						method: 'DELETE',
+						path: [
+							'admin',
+							'rooms',
+							{ roomId: roomId! },
+							'peers',
+							{ peerId: peerId! },
+						],
+						data: {
+							peerId: peerId!,
+							reason,
+						},
+					});
+
+					res
+						.status(200)
+						.set('Content-Type', 'text/plain; charset=utf-8')
+						.send('Peer kicked');
+				} catch (error) {
+					next(error);
+				}
+			}
+		);
+
+		/**
+		 * Admin API POST to send a message to all Peers in a Room.
+		 */
+		adminRouter.post(
+			'/rooms/:roomId/notify',
+			async (req: ApiServerExpressRequest, res, next) => {
+				const { roomId } = req.params;
+				const { text } = req.body;
+
+				try {
+					await req.room!.processApiRequest({
+						name: 'adminNotifyRoom',
+						method: 'POST',
+						path: ['admin', 'rooms', { roomId: roomId! }, 'notify'],
+						data: {
+							text,
+						},
+					});
+
+					res
+						.status(200)
+						.set('Content-Type', 'text/plain; charset=utf-8')
+						.send('Message sent');
+				} catch (error) {
+					next(error);
+				}
+			}
+		);
+
+		/**
+		 * Admin API POST to start recording a Room.
+		 */
+		adminRouter.post(
+			'/rooms/:roomId/recording',
+			async (req: ApiServerExpressRequest, res, next) => {
+				const { roomId } = req.params;
+
+				try {
+					const responseData = await req.room!.processApiRequest({
+						name: 'adminStartRecording',
+						method: 'POST',
+						path: ['admin', 'rooms', { roomId: roomId! }, 'recording'],
+					});
+
+					res.status(200).json(responseData);
+				} catch (error) {
+					next(error);
+				}
+			}
+		);
+
+		/**
+		 * Admin API DELETE to stop recording a Room.
+		 */
+		adminRouter.delete(
+			'/rooms/:roomId/recording',
+			async (req: ApiServerExpressRequest, res, next) => {
+				const { roomId } = req.params;
+
+				try {
+					await req.room!.processApiRequest({
+						name: 'adminStopRecording',
+						method: 'DELETE',
+						path: ['admin', 'rooms', { roomId: roomId! }, 'recording'],
+					});
+
+					res
+						.status(200)
+						.set('Content-Type', 'text/plain; charset=utf-8')
+						.send('Recording stopped');
+				} catch (error) {
+					next(error);
+				}
+			}
+		);
+
+		return adminRouter;
+	}
+
+	private createWhipRouter(): expressTypes.Router {
+		const whipRouter = express.Router({ mergeParams: true });
+
+		whipRouter.use(
+			bodyParser.text({
+				type: ['application/sdp', 'application/trickle-ice-sdpfrag'],
+			})
+		);
+
+		/**
+		 * For every WHIP request on a WHIP resource, obtain the BroadcasterPeer
+		 * with the given `peerId`.
+		 */
+		whipRouter.param(
+			'peerId',
+			(req: ApiServerExpressRequest, res, next, peerId) => {
+				if (!this.isPeerAllowed(req, peerId)) {
+					next(new ForbiddenError('access token not valid for this Peer'));
+
+					return;
+				}
+
+				const peer = req.room?.getBroadcasterPeer(peerId);
+
+				if (!peer) {
+					next(new PeerNotFound(`WHIP resource '${peerId}' doesn't exist`));
+
+					return;
+				}
+
+				req.peer = peer;
+
+				next();
+			}
+		);
+
+		/**
+		 * WHIP POST API with a SDP offer. It creates a BroadcasterPeer with a
+		 * WebRtcTransport and a Producer for each media section, and responds
+		 * with the SDP answer and the URL of the WHIP resource. The `peerId` is
+		 * taken from the access token (if required), from the `peerId` query
+		 * parameter or randomly generated, and the display name from the
+		 * `displayName` query parameter.
+		 */
+		whipRouter.post('/', async (req: ApiServerExpressRequest, res, next) => {
+			try {
+				const roomId = req.params['roomId']!;
+				const sdpOffer: unknown = req.body;
+				const { peerId: queryPeerId, displayName: queryDisplayName } =
+					req.query;
+				const peerId =
+					typeof queryPeerId === 'string'
+						? queryPeerId
+						: (req.accessToken?.peerId ?? crypto.randomUUID());
+				const displayName =
+					typeof queryDisplayName === 'string' ? queryDisplayName : 'WHIP';
+
+				if (typeof sdpOffer !== 'string' || !sdpOffer) {
+					throw new TypeError('missing SDP offer');
+				}
+
+				if (!this.isPeerAllowed(req, peerId)) {
+					throw new ForbiddenError('access token not valid for this Peer');
+				}
+
+				await req.room!.processApiRequest({
+					name: 'createBroadcasterPeer',
+					method: 'POST',
+					path: ['rooms', { roomId }, 'broadcasters'],
+					data: {
+						peerId,
+						displayName,
+						device: {
+							flag: 'whip',
+							name: req.headers['user-agent'] ?? 'WHIP',
+						},
+					},
+					internalData: {
+						remoteAddress: req.ip ?? req.ips[0]!,
+						role: req.accessToken?.role,
+					},
+				});
+
+				const peer = req.room!.getBroadcasterPeer(peerId)!;
+
+				let sdpAnswer: string;
+
+				try {
+					({ sdpAnswer } = await peer.processApiRequest({
+						name: 'whipPublish',
+						method: 'POST',
+						path: ['rooms', { roomId }, 'whip'],
+						data: { sdpOffer },
+					}));
+				} catch (error) {
+					await peer.processApiRequest({
+						name: 'whipUnpublish',
+						method: 'DELETE',
+						path: ['rooms', { roomId }, 'whip', { peerId }],
+					});
+
+					throw error;
+				}
+
+				res
+					.status(201)
+					.location(`/rooms/${roomId}/whip/${peerId}`)
+					.set('Content-Type', 'application/sdp')
+					.send(sdpAnswer);
+			} catch (error) {
+				next(error);
+			}
+		});
+
+		/**
+		 * WHIP PATCH API with a trickle ICE SDP fragment. Remote ICE candidates
+		 * are ignored (mediasoup is ICE Lite) but a new ICE username fragment
+		 * restarts ICE and the response contains the new local ICE parameters.
+		 */
+		whipRouter.patch(
+			'/:peerId',
+			async (req: ApiServerExpressRequest, res, next) => {
+				try {
+					const roomId = req.params['roomId']!;
+					const { peerId } = req.params;
+					const sdpFragment: unknown = req.body;
+
+					if (typeof sdpFragment !== 'string') {
+						throw new TypeError('missing trickle ICE SDP fragment');
+					}
+
+					const responseData = await req.peer!.processApiRequest({
+						name: 'whipUpdateIce',
+						method: 'PATCH',
+						path: ['rooms', { roomId }, 'whip', { peerId: peerId! }],
+						data: { sdpFragment },
+					});
+
+					if (responseData.sdpFragment) {
+						res
+							.status(200)
+							.set('Content-Type', 'application/trickle-ice-sdpfrag')
+							.send(responseData.sdpFragment);
+					} else {
+						res.sendStatus(204);
+					}
+				} catch (error) {
+					next(error);
+				}
+			}
+		);
+
+		/**
+		 * WHIP DELETE API to terminate the session.
+		 */
+		whipRouter.delete(
+			'/:peerId',
+			async (req: ApiServerExpressRequest, res, next) => {
+				try {
+					const roomId = req.params['roomId']!;
+					const { peerId } = req.params;
+
+					await req.peer!.processApiRequest({
+						name: 'whipUnpublish',
+						method: 'DELETE',
+						path: ['rooms', { roomId }, 'whip', { peerId: peerId! }],
+					});
+
+					res
+						.status(200)
+						.set('Content-Type', 'text/plain; charset=utf-8')
+						.send('WHIP session terminated');
+				} catch (error) {
+					next(error);
+				}
+			}
+		);
+
+		return whipRouter;
+	}
+
+	private createCascadeRouter(): expressTypes.Router {
+		const cascadeRouter = express.Router();
+
+		cascadeRouter.use(bodyParser.json());
+
+		cascadeRouter.use((req, res, next) => {
+			if (!this.isCascadeRequestAllowed(req)) {
+				next(new ForbiddenError('cascade request not allowed'));
+
+				return;
+			}
+
+			next();
+		});
+
+		/**
+		 * POST API to process a request from the Room with same `roomId` in a
+		 * remote node. A 'connect' request creates the Room if it doesn't exist.
+		 */
+		cascadeRouter.post('/rooms/:roomId', async (req, res, next) => {
+			try {
+				const { roomId } = req.params;
+				const { nodeId, name, data } = req.body as {
+					nodeId: string;
+					name: CascadeRequestName;
+					data: never;
+				};
+
+				const room = await new Promise<Room>((resolve, reject) => {
+					this.emit(
+						name === 'connect' ? 'get-or-create-room' : 'get-room',
+						{ roomId },
+						resolve,
+						reject
+					);
+				});
+
+				const responseData = await room.processCascadeRequest({
+					nodeId,
+					name,
+					data,
+				});
+
+				res.status(200).json(responseData ?? {});
+			} catch (error) {
+				next(error);
+			}
+		});
+
+		return cascadeRouter;
+	}
+}
+
+function isSameSecret(
+	secret: string | undefined,
+	expectedSecret: string
+): boolean {
+	const secretBuffer = Buffer.from(secret ?? '');
+	const expectedSecretBuffer = Buffer.from(expectedSecret);
+
+	return (
+		secretBuffer.length === expectedSecretBuffer.length &&
+		crypto.timingSafeEqual(secretBuffer, expectedSecretBuffer)
+	);
 }
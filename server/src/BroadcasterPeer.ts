@@ -1,3 +1,4 @@
+import type * as http from 'node:http';
 import type * as mediasoupTypes from 'mediasoup/types';
 
 import { Logger } from './Logger';
@@ -10,28 +11,52 @@ import {
 	RequestInternalData,
 	RequestResponseData,
 	TypedApiRequest,
+	NotificationNameForBroadcastPeer,
+	NotificationDataForBroadcastPeer,
 } from './signaling/apiMessages';
 import { assertUnreachable } from './utils';
+import {
+	parseWhipOffer,
+	createWhipAnswer,
+	parseWhipSdpFragment,
+	createWhipSdpFragment,
+} from './whipSdp';
 import {
 	InvalidStateError,
 	UnsupportedError,
 	TransportNotFound,
 	ProducerNotFound,
 	ConsumerNotFound,
+	DataProducerNotFound,
 } from './errors';
 import type {
 	PeerId,
 	PeerDevice,
 	SerializedPeer,
 	TransportDirection,
+	Source,
 	PeerProducersInfo,
+	PeerDataProducersInfo,
 	PlainTransportAppData,
+	WebRtcTransportAppData,
 	ProducerAppData,
 	ConsumerAppData,
+	DataProducerAppData,
+	DataConsumerAppData,
 } from './types';
 
 const staticLogger = new Logger('BroadcasterPeer');
 
+// Interval in which a comment is sent over event streams so proxies and
+// clients don't consider them idle.
+const EVENT_STREAM_HEARTBEAT_INTERVAL_MS = 15000;
+// A WHIP BroadcasterPeer is closed if its WebRtcTransport doesn't connect
+// within this time.
+const WHIP_CONNECT_TIMEOUT_MS = 30000;
+// A WHIP BroadcasterPeer is closed if the ICE of its WebRtcTransport stays
+// disconnected for this time.
+const WHIP_ICE_DISCONNECTED_TIMEOUT_MS = 15000;
+
 export type BroadcasterPeerCreateOptions = {
 	peerId: PeerId;
 	remoteAddress: string;
@@ -81,12 +106,25 @@ export type BroadcasterPeerEvents = {
 			direction: TransportDirection;
 			comedia?: boolean;
 			rtcpMux?: boolean;
+			enableSctp?: boolean;
+			enableSrtp?: boolean;
+			srtpCryptoSuite?: mediasoupTypes.SrtpCryptoSuite;
 		},
 		resolve: (
 			transport: mediasoupTypes.PlainTransport<PlainTransportAppData>
 		) => void,
 		reject: (error: Error) => void,
 	];
+	/**
+	 * Emitted to create and obtain a mediasoup WebRtcTransport in which a WHIP
+	 * client sends media.
+	 */
+	'create-webrtc-transport': [
+		resolve: (
+			transport: mediasoupTypes.WebRtcTransport<WebRtcTransportAppData>
+		) => void,
+		reject: (error: Error) => void,
+	];
 	/**
 	 * Emitted when the BroadcasterPeer creates a Producer.
 	 */
@@ -117,6 +155,30 @@ export type BroadcasterPeerEvents = {
 		},
 		callback: (producer?: mediasoupTypes.Producer<ProducerAppData>) => void,
 	];
+	/**
+	 * Emitted when the BroadcasterPeer creates a DataProducer.
+	 */
+	'new-data-producer': [
+		{ dataProducer: mediasoupTypes.DataProducer<DataProducerAppData> },
+	];
+	/**
+	 * Emitted to obtain info about the chat DataProducers of other
+	 * Peers/BroadcasterPeers.
+	 */
+	'get-peer-data-producers-infos': [
+		callback: (peerDataProducersInfos: PeerDataProducersInfo[]) => void,
+	];
+	/**
+	 * Emitted to obtain a chat DataProducer of another Peer/BroadcasterPeer.
+	 */
+	'get-data-producer': [
+		{
+			dataProducerId: string;
+		},
+		callback: (
+			dataProducer?: mediasoupTypes.DataProducer<DataProducerAppData>
+		) => void,
+	];
 };
 
 export class BroadcasterPeer extends EnhancedEventEmitter<BroadcasterPeerEvents> {
@@ -134,6 +196,19 @@ export class BroadcasterPeer extends EnhancedEventEmitter<BroadcasterPeerEvents>
 		new Map();
 	readonly #consumers: Map<string, mediasoupTypes.Consumer<ConsumerAppData>> =
 		new Map();
+	readonly #dataProducers: Map<
+		string,
+		mediasoupTypes.DataProducer<DataProducerAppData>
+	> = new Map();
+	readonly #dataConsumers: Map<
+		string,
+		mediasoupTypes.DataConsumer<DataConsumerAppData>
+	> = new Map();
+	// Only if created by a WHIP client.
+	#whipTransport?: mediasoupTypes.WebRtcTransport<WebRtcTransportAppData>;
+	#whipIceUsernameFragment?: string;
+	readonly #eventStreams: Set<http.ServerResponse> = new Set();
+	#eventStreamsHeartbeatInterval?: NodeJS.Timeout;
 	#closed: boolean = false;
 
 	static create({
@@ -197,6 +272,16 @@ export class BroadcasterPeer extends EnhancedEventEmitter<BroadcasterPeerEvents>
 			transport.close();
 		}
 
+		this.#whipTransport?.close();
+
+		clearInterval(this.#eventStreamsHeartbeatInterval);
+
+		for (const eventStream of this.#eventStreams) {
+			eventStream.end();
+		}
+
+		this.#eventStreams.clear();
+
 		this.emit('closed');
 	}
 
@@ -215,6 +300,77 @@ export class BroadcasterPeer extends EnhancedEventEmitter<BroadcasterPeerEvents>
 		return Array.from(this.#producers.values());
 	}
 
+	getConsumers(): mediasoupTypes.Consumer<ConsumerAppData>[] {
+		return Array.from(this.#consumers.values());
+	}
+
+	getChatDataProducers(): mediasoupTypes.DataProducer<DataProducerAppData>[] {
+		return Array.from(this.#dataProducers.values()).filter(
+			dataProducer => dataProducer.appData.channel === 'chat'
+		);
+	}
+
+	/**
+	 * Turns the given HTTP response into a Server-Sent Events stream over which
+	 * notifications are sent until the response or the BroadcasterPeer is
+	 * closed.
+	 */
+	addEventStream(res: http.ServerResponse): void {
+		this.#logger.debug('addEventStream()');
+
+		this.assertNotClosed();
+
+		res.writeHead(200, {
+			'Content-Type': 'text/event-stream',
+			'Cache-Control': 'no-cache',
+			Connection: 'keep-alive',
+			// Tell nginx not to buffer the stream.
+			'X-Accel-Buffering': 'no',
+		});
+
+		// Send something so the client gets the response headers right now.
+		res.write(': connected\n\n');
+
+		this.#eventStreams.add(res);
+
+		res.on('close', () => {
+			this.#eventStreams.delete(res);
+
+			if (this.#eventStreams.size === 0) {
+				clearInterval(this.#eventStreamsHeartbeatInterval);
+
+				this.#eventStreamsHeartbeatInterval = undefined;
+			}
+		});
+
+		this.#eventStreamsHeartbeatInterval ??= setInterval(() => {
+			for (const eventStream of this.#eventStreams) {
+				eventStream.write(': heartbeat\n\n');
+			}
+		}, EVENT_STREAM_HEARTBEAT_INTERVAL_MS);
+	}
+
+	notify<Name extends NotificationNameForBroadcastPeer>(
+		name: Name,
+		...args: NotificationDataForBroadcastPeer<Name> extends undefined
+			? [undefined?]
+			: [NotificationDataForBroadcastPeer<Name>]
+	): void {
+		if (this.#closed || this.#eventStreams.size === 0) {
+			return;
+		}
+
+		const data = args[0];
+
+		this.#logger.debug('··> notification [name:%o]', name);
+
+		const event = `event: ${name}\ndata: ${JSON.stringify(data ?? null)}\n\n`;
+
+		for (const eventStream of this.#eventStreams) {
+			eventStream.write(event);
+		}
+	}
+
 	async processApiRequest<Name extends RequestNameForBroadcastPeer>({
 		name,
 		method,
@@ -279,6 +435,18 @@ export class BroadcasterPeer extends EnhancedEventEmitter<BroadcasterPeerEvents>
 		);
 	}
 
+	private disconnect(): void {
+		if (this.#closed) {
+			return;
+		}
+
+		this.close();
+
+		if (this.#joined) {
+			this.emit('disconnected');
+		}
+	}
+
 	private assertNotClosed(): void {
 		if (this.#closed) {
 			throw new InvalidStateError('BroadcasterPeer closed');
@@ -327,12 +495,36 @@ export class BroadcasterPeer extends EnhancedEventEmitter<BroadcasterPeerEvents>
 		return consumer;
 	}
 
+	private handleDataProducer(
+		dataProducer: mediasoupTypes.DataProducer<DataProducerAppData>
+	): void {
+		dataProducer.observer.on('close', () => {
+			this.#dataProducers.delete(dataProducer.id);
+		});
+	}
+
+	private handleDataConsumer(
+		dataConsumer: mediasoupTypes.DataConsumer<DataConsumerAppData>
+	): void {
+		dataConsumer.observer.on('close', () => {
+			this.#dataConsumers.delete(dataConsumer.id);
+		});
+
+		dataConsumer.on('dataproducerclose', () => {
+			this.notify('dataConsumerClosed', { dataConsumerId: dataConsumer.id });
+		});
+	}
+
 	private handleProducer(
 		producer: mediasoupTypes.Producer<ProducerAppData>
 	): void {
 		producer.observer.on('close', () => {
 			this.#producers.delete(producer.id);
 		});
+
+		producer.on('score', score => {
+			this.notify('producerScore', { producerId: producer.id, score });
+		});
 	}
 
 	private handleConsumer(
@@ -341,6 +533,29 @@ export class BroadcasterPeer extends EnhancedEventEmitter<BroadcasterPeerEvents>
 		consumer.observer.on('close', () => {
 			this.#consumers.delete(consumer.id);
 		});
+
+		consumer.on('producerclose', () => {
+			this.notify('consumerClosed', { consumerId: consumer.id });
+		});
+
+		consumer.on('producerpause', () => {
+			this.notify('consumerPaused', { consumerId: consumer.id });
+		});
+
+		consumer.on('producerresume', () => {
+			this.notify('consumerResumed', { consumerId: consumer.id });
+		});
+
+		consumer.on('score', score => {
+			this.notify('consumerScore', { consumerId: consumer.id, score });
+		});
+
+		consumer.on('layerschange', layers => {
+			this.notify('consumerLayersChanged', {
+				consumerId: consumer.id,
+				layers,
+			});
+		});
 	}
 
 	private async handleApiRequest(
@@ -364,19 +579,41 @@ export class BroadcasterPeer extends EnhancedEventEmitter<BroadcasterPeerEvents>
 			}
 
 			case 'disconnect': {
-				this.close();
-
-				if (this.#joined) {
-					this.emit('disconnected');
-				}
+				this.disconnect();
 
 				accept();
 
 				break;
 			}
 
+			case 'getBroadcasterPeer': {
+				accept({
+					peerId: this.#peerId,
+					displayName: this.#displayName,
+					device: this.#device,
+					joined: this.#joined,
+					transportIds: [
+						...this.#transports.keys(),
+						...(this.#whipTransport ? [this.#whipTransport.id] : []),
+					],
+					producerIds: Array.from(this.#producers.keys()),
+					consumerIds: Array.from(this.#consumers.keys()),
+					dataProducerIds: Array.from(this.#dataProducers.keys()),
+					dataConsumerIds: Array.from(this.#dataConsumers.keys()),
+				});
+
+				break;
+			}
+
 			case 'createPlainTransport': {
-				const { comedia, rtcpMux, appData } = data;
+				const {
+					comedia,
+					rtcpMux,
+					enableSctp,
+					enableSrtp,
+					srtpCryptoSuite,
+					appData,
+				} = data;
 				const { direction } = appData;
 
 				const transport = await new Promise<
@@ -384,7 +621,14 @@ export class BroadcasterPeer extends EnhancedEventEmitter<BroadcasterPeerEvents>
 				>((resolve, reject) => {
 					this.emit(
 						'create-plain-transport',
-						{ direction, comedia, rtcpMux },
+						{
+							direction,
+							comedia,
+							rtcpMux,
+							enableSctp,
+							enableSrtp,
+							srtpCryptoSuite,
+						},
 						resolve,
 						reject
 					);
@@ -399,6 +643,8 @@ export class BroadcasterPeer extends EnhancedEventEmitter<BroadcasterPeerEvents>
 					ip: transport.tuple.localAddress,
 					port: transport.tuple.localPort,
 					rtcpPort: transport.rtcpTuple?.localPort,
+					sctpParameters: transport.sctpParameters,
+					srtpParameters: transport.srtpParameters,
 				});
 
 				break;
@@ -406,13 +652,14 @@ export class BroadcasterPeer extends EnhancedEventEmitter<BroadcasterPeerEvents>
 
 			case 'connectPlainTransport': {
 				const transportId = path[5].transportId;
-				const { ip, port, rtcpPort } = data;
+				const { ip, port, rtcpPort, srtpParameters } = data;
 				const transport = this.assertAndGetPlainTransport(transportId);
 
 				await transport.connect({
 					ip,
 					port,
 					rtcpPort,
+					srtpParameters,
 				});
 
 				accept();
@@ -420,6 +667,27 @@ export class BroadcasterPeer extends EnhancedEventEmitter<BroadcasterPeerEvents>
 				break;
 			}
 
+			case 'closePlainTransport': {
+				const transportId = path[5].transportId;
+				const transport = this.assertAndGetPlainTransport(transportId);
+
+				transport.close();
+
+				accept();
+
+				break;
+			}
+
+			case 'getTransportStats': {
+				const transportId = path[5].transportId;
+				const transport = this.assertAndGetPlainTransport(transportId);
+				const stats = await transport.getStats();
+
+				accept({ stats });
+
+				break;
+			}
+
 			case 'produce': {
 				this.assertJoined();
 
@@ -445,6 +713,57 @@ export class BroadcasterPeer extends EnhancedEventEmitter<BroadcasterPeerEvents>
 				break;
 			}
 
+			case 'pauseProducer': {
+				this.assertJoined();
+
+				const producerId = path[5].producerId;
+				const producer = this.assertAndGetProducer(producerId);
+
+				await producer.pause();
+
+				accept();
+
+				break;
+			}
+
+			case 'resumeProducer': {
+				this.assertJoined();
+
+				const producerId = path[5].producerId;
+				const producer = this.assertAndGetProducer(producerId);
+
+				await producer.resume();
+
+				accept();
+
+				break;
+			}
+
+			case 'closeProducer': {
+				this.assertJoined();
+
+				const producerId = path[5].producerId;
+				const producer = this.assertAndGetProducer(producerId);
+
+				producer.close();
+
+				accept();
+
+				break;
+			}
+
+			case 'getProducerStats': {
+				this.assertJoined();
+
+				const producerId = path[5].producerId;
+				const producer = this.assertAndGetProducer(producerId);
+				const stats = await producer.getStats();
+
+				accept({ stats });
+
+				break;
+			}
+
 			case 'getPeerProducersInfos': {
 				this.assertJoined();
 
@@ -499,7 +818,11 @@ export class BroadcasterPeer extends EnhancedEventEmitter<BroadcasterPeerEvents>
 
 				this.handleConsumer(consumer);
 
-				accept({ consumerId: consumer.id });
+				accept({
+					consumerId: consumer.id,
+					kind: consumer.kind,
+					rtpParameters: consumer.rtpParameters,
+				});
 
 				break;
 			}
@@ -517,12 +840,312 @@ export class BroadcasterPeer extends EnhancedEventEmitter<BroadcasterPeerEvents>
 				break;
 			}
 
+			case 'pauseConsumer': {
+				this.assertJoined();
+
+				const consumerId = path[5].consumerId;
+				const consumer = this.assertAndGetConsumer(consumerId);
+
+				await consumer.pause();
+
+				accept();
+
+				break;
+			}
+
+			case 'closeConsumer': {
+				this.assertJoined();
+
+				const consumerId = path[5].consumerId;
+				const consumer = this.assertAndGetConsumer(consumerId);
+
+				consumer.close();
+
+				accept();
+
+				break;
+			}
+
+			case 'getConsumerStats': {
+				this.assertJoined();
+
+				const consumerId = path[5].consumerId;
+				const consumer = this.assertAndGetConsumer(consumerId);
+				const stats = await consumer.getStats();
+
+				accept({ stats });
+
+				break;
+			}
+
+			case 'produceData': {
+				this.assertJoined();
+
+				const { transportId, sctpStreamParameters, label, protocol, appData } =
+					data;
+				const { channel } = appData;
+
+				// NOTE: The bot channel is only available for Peers.
+				if (channel !== 'chat') {
+					throw new UnsupportedError(
+						`DataProducer channel '${channel}' not supported`
+					);
+				}
+
+				const transport = this.assertAndGetPlainTransport(transportId);
+				const dataProducer = await transport.produceData<DataProducerAppData>({
+					sctpStreamParameters,
+					label,
+					protocol,
+					appData: {
+						peerId: this.id,
+						channel,
+					},
+				});
+
+				this.#dataProducers.set(dataProducer.id, dataProducer);
+
+				this.handleDataProducer(dataProducer);
+				this.emit('new-data-producer', { dataProducer });
+
+				accept({ dataProducerId: dataProducer.id });
+
+				break;
+			}
+
+			case 'getPeerDataProducersInfos': {
+				this.assertJoined();
+
+				this.emit('get-peer-data-producers-infos', peerDataProducersInfos => {
+					accept({ peerDataProducersInfos });
+				});
+
+				break;
+			}
+
+			case 'consumeData': {
+				this.assertJoined();
+
+				const { transportId, dataProducerId } = data;
+				const transport = this.assertAndGetPlainTransport(transportId);
+
+				let dataProducer:
+					| mediasoupTypes.DataProducer<DataProducerAppData>
+					| undefined;
+
+				this.emit('get-data-producer', { dataProducerId }, _dataProducer => {
+					dataProducer = _dataProducer;
+				});
+
+				if (!dataProducer) {
+					throw new DataProducerNotFound(
+						`DataProducer '${dataProducerId}' not found`
+					);
+				}
+
+				const dataConsumer = await transport.consumeData<DataConsumerAppData>({
+					dataProducerId,
+					appData: {
+						peerId: dataProducer.appData.peerId,
+						channel: dataProducer.appData.channel,
+					},
+				});
+
+				this.#dataConsumers.set(dataConsumer.id, dataConsumer);
+
+				this.handleDataConsumer(dataConsumer);
+
+				accept({
+					dataConsumerId: dataConsumer.id,
+					// NOTE: This is a SCTP enabled PlainTransport so the DataConsumer has
+					// SCTP stream parameters.
+					sctpStreamParameters: dataConsumer.sctpStreamParameters!,
+					label: dataConsumer.label,
+					protocol: dataConsumer.protocol,
+				});
+
+				break;
+			}
+
+			case 'whipPublish': {
+				if (this.#joined) {
+					throw new InvalidStateError('Peer already joined');
+				}
+
+				const { sdpOffer } = data;
+
+				let routerRtpCapabilities:
+					| mediasoupTypes.RouterRtpCapabilities
+					| undefined;
+
+				this.emit('get-router-rtp-capabilities', _routerRtpCapabilities => {
+					routerRtpCapabilities = _routerRtpCapabilities;
+				});
+
+				const offer = parseWhipOffer({
+					sdp: sdpOffer,
+					routerRtpCapabilities: routerRtpCapabilities!,
+				});
+
+				if (!offer.mediaSections.some(({ rtpParameters }) => rtpParameters)) {
+					throw new UnsupportedError(
+						'no media in the SDP offer can be received'
+					);
+				}
+
+				const transport = await new Promise<
+					mediasoupTypes.WebRtcTransport<WebRtcTransportAppData>
+				>((resolve, reject) => {
+					this.emit('create-webrtc-transport', resolve, reject);
+				});
+
+				this.#whipTransport = transport;
+				this.#whipIceUsernameFragment = offer.iceUsernameFragment;
+
+				this.handleWhipTransport(transport);
+
+				await transport.connect({ dtlsParameters: offer.dtlsParameters });
+
+				this.#joined = true;
+
+				this.emit('joined');
+
+				for (const { kind, rtpParameters } of offer.mediaSections) {
+					if (!rtpParameters) {
+						continue;
+					}
+
+					const producer = await transport.produce<ProducerAppData>({
+						kind: kind as mediasoupTypes.MediaKind,
+						rtpParameters,
+						appData: {
+							peerId: this.id,
+							source: kind as Source,
+						},
+					});
+
+					this.#producers.set(producer.id, producer);
+
+					this.handleProducer(producer);
+					this.emit('new-producer', { producer });
+				}
+
+				accept({
+					sdpAnswer: createWhipAnswer({
+						offer,
+						iceParameters: transport.iceParameters,
+						iceCandidates: transport.iceCandidates,
+						dtlsParameters: transport.dtlsParameters,
+					}),
+				});
+
+				break;
+			}
+
+			case 'whipUpdateIce': {
+				const transport = this.#whipTransport;
+
+				if (!transport) {
+					throw new TransportNotFound('WHIP WebRtcTransport not found');
+				}
+
+				const { sdpFragment } = data;
+				const { iceUsernameFragment } = parseWhipSdpFragment(sdpFragment);
+
+				// NOTE: mediasoup is ICE Lite so remote ICE candidates are useless.
+				// Only a new ICE username fragment (ICE restart) matters.
+				if (
+					!iceUsernameFragment ||
+					iceUsernameFragment === this.#whipIceUsernameFragment
+				) {
+					accept({});
+
+					break;
+				}
+
+				this.#whipIceUsernameFragment = iceUsernameFragment;
+
+				const iceParameters = await transport.restartIce();
+
+				accept({
+					sdpFragment: createWhipSdpFragment({
+						iceParameters,
+						iceCandidates: transport.iceCandidates,
+					}),
+				});
+
+				break;
+			}
+
+			case 'whipUnpublish': {
+				this.disconnect();
+
+				accept();
+
+				break;
+			}
+
 			default: {
 				assertUnreachable('request name', name);
 			}
 		}
 	}
 
+	/**
+	 * WHIP clients just go away on network issues, so the BroadcasterPeer is
+	 * disconnected once its WebRtcTransport is (or if it never connects).
+	 */
+	private handleWhipTransport(
+		transport: mediasoupTypes.WebRtcTransport<WebRtcTransportAppData>
+	): void {
+		const connectTimer = setTimeout(() => {
+			this.#logger.warn('WHIP WebRtcTransport not connected, disconnecting');
+
+			this.disconnect();
+		}, WHIP_CONNECT_TIMEOUT_MS);
+
+		let iceDisconnectedTimer: ReturnType<typeof setTimeout> | undefined;
+
+		transport.on('icestatechange', iceState => {
+			if (iceState === 'connected' || iceState === 'completed') {
+				clearTimeout(connectTimer);
+				clearTimeout(iceDisconnectedTimer);
+
+				iceDisconnectedTimer = undefined;
+			} else if (iceState === 'disconnected') {
+				// NOTE: ICE disconnection may be transient (or the encoder may restart
+				// ICE), so give it a chance to recover.
+				iceDisconnectedTimer ??= setTimeout(() => {
+					this.#logger.info(
+						'WHIP WebRtcTransport ICE not recovered, disconnecting'
+					);
+
+					this.disconnect();
+				}, WHIP_ICE_DISCONNECTED_TIMEOUT_MS);
+			} else if (iceState === 'closed') {
+				this.#logger.info('WHIP WebRtcTransport ICE closed, disconnecting');
+
+				this.disconnect();
+			}
+		});
+
+		transport.on('dtlsstatechange', dtlsState => {
+			if (dtlsState === 'failed' || dtlsState === 'closed') {
+				this.#logger.info(
+					'WHIP WebRtcTransport DTLS %s, disconnecting',
+					dtlsState
+				);
+
+				this.disconnect();
+			}
+		});
+
+		transport.observer.on('close', () => {
+			clearTimeout(connectTimer);
+			clearTimeout(iceDisconnectedTimer);
+		});
+	}
+
 	private handleTransport(
 		transport: mediasoupTypes.PlainTransport<PlainTransportAppData>
 	): void {
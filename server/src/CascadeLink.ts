@@ -0,0 +1,543 @@
+import type * as mediasoupTypes from 'mediasoup/types';
+import { AwaitQueue } from 'awaitqueue';
+
+import { Logger } from './Logger';
+import { EnhancedEventEmitter } from './enhancedEvents';
+import type {
+	CascadeRequestName,
+	CascadeRequestData,
+	CascadeRequestResponseData,
+	TypedCascadeRequest,
+} from './signaling/cascadeMessages';
+import { assertUnreachable } from './utils';
+import type {
+	RoomId,
+	PeerId,
+	CascadeNode,
+	SerializedPeer,
+	ProducerAppData,
+} from './types';
+
+const REQUEST_TIMEOUT_MS = 10000;
+
+const staticLogger = new Logger('CascadeLink');
+
+export type CascadeLinkCreateOptions = {
+	roomId: RoomId;
+	localNodeId: string;
+	remoteNode: CascadeNode;
+	secret: string;
+	router: mediasoupTypes.Router;
+	listenInfo: mediasoupTypes.TransportListenInfo;
+};
+
+type CascadeLinkConstructorOptions = {
+	logger: Logger;
+	roomId: RoomId;
+	localNodeId: string;
+	remoteNode: CascadeNode;
+	secret: string;
+	pipeTransport: mediasoupTypes.PipeTransport;
+};
+
+export type CascadeLinkEvents = {
+	/**
+	 * Emitted when the CascadeLink is closed no matter how.
+	 */
+	closed: [];
+	/**
+	 * Emitted once the PipeTransport is connected to the remote node.
+	 */
+	connected: [];
+	/**
+	 * Emitted when a Peer or BroadcasterPeer joins the Room in the remote node.
+	 */
+	'new-peer': [{ peer: SerializedPeer }];
+	/**
+	 * Emitted when a Peer in the remote node changes its display name.
+	 */
+	'peer-display-name-changed': [
+		{
+			peerId: PeerId;
+			displayName: string;
+			oldDisplayName: string;
+		},
+	];
+	/**
+	 * Emitted when a Peer or BroadcasterPeer leaves the Room in the remote node.
+	 */
+	'peer-closed': [{ peerId: PeerId }];
+	/**
+	 * Emitted when a Producer of the remote node has been piped into the local
+	 * producer Router.
+	 */
+	'new-producer': [{ producer: mediasoupTypes.Producer<ProducerAppData> }];
+};
+
+/**
+ * Links a Room with the Room with same `roomId` in a remote node (another
+ * server process). Media flows through a mediasoup PipeTransport in the
+ * producer Router of the Room and signaling is done using HTTP requests to
+ * the remote node.
+ *
+ * @remarks
+ * - Each node just sends its own Peers and Producers, so those received from
+ *   the remote node are never relayed to other nodes.
+ */
+export class CascadeLink extends EnhancedEventEmitter<CascadeLinkEvents> {
+	readonly #logger: Logger;
+	readonly #roomId: RoomId;
+	readonly #localNodeId: string;
+	readonly #remoteNode: CascadeNode;
+	readonly #secret: string;
+	readonly #pipeTransport: mediasoupTypes.PipeTransport;
+	// Requests are sent one by one to preserve their order.
+	readonly #requestQueue: AwaitQueue = new AwaitQueue();
+	// Ids of local Producers piped to the remote node.
+	readonly #sentProducerIds: Set<string> = new Set();
+	readonly #remoteProducers: Map<
+		string,
+		mediasoupTypes.Producer<ProducerAppData>
+	> = new Map();
+	readonly #remotePeers: Map<PeerId, SerializedPeer> = new Map();
+	#connected: boolean = false;
+	#closed: boolean = false;
+
+	static async create({
+		roomId,
+		localNodeId,
+		remoteNode,
+		secret,
+		router,
+		listenInfo,
+	}: CascadeLinkCreateOptions): Promise<CascadeLink> {
+		staticLogger.debug(
+			'create() [roomId:%o, remoteNodeId:%o]',
+			roomId,
+			remoteNode.nodeId
+		);
+
+		const logger = new Logger(
+			`[roomId:${roomId}, remoteNodeId:${remoteNode.nodeId}]`,
+			staticLogger
+		);
+
+		// NOTE: Media between nodes may travel across networks we don't control,
+		// so it's encrypted with SRTP.
+		const pipeTransport = await router.createPipeTransport({
+			listenInfo,
+			enableSrtp: true,
+		});
+
+		const cascadeLink = new CascadeLink({
+			logger,
+			roomId,
+			localNodeId,
+			remoteNode,
+			secret,
+			pipeTransport,
+		});
+
+		return cascadeLink;
+	}
+
+	private constructor({
+		logger,
+		roomId,
+		localNodeId,
+		remoteNode,
+		secret,
+		pipeTransport,
+	}: CascadeLinkConstructorOptions) {
+		super();
+
+		this.#logger = logger;
+
+		this.#logger.debug('constructor()');
+
+		this.#roomId = roomId;
+		this.#localNodeId = localNodeId;
+		this.#remoteNode = remoteNode;
+		this.#secret = secret;
+		this.#pipeTransport = pipeTransport;
+
+		this.handlePipeTransport();
+	}
+
+	get nodeId(): string {
+		return this.#remoteNode.nodeId;
+	}
+
+	get connected(): boolean {
+		return this.#connected;
+	}
+
+	/**
+	 * @remarks
+	 * - `notifyRemote` must be false if the remote node already knows that the
+	 *   link is closed (or if it's unreachable).
+	 */
+	close({ notifyRemote = true }: { notifyRemote?: boolean } = {}): void {
+		this.#logger.debug('close()');
+
+		if (this.#closed) {
+			return;
+		}
+
+		this.#closed = true;
+
+		this.#requestQueue.stop();
+
+		if (notifyRemote) {
+			this.sendRequest({ name: 'disconnect' }).catch(() => {});
+		}
+
+		// NOTE: This closes all remote Producers and PipeConsumers.
+		this.#pipeTransport.close();
+
+		this.emit('closed');
+	}
+
+	getRemotePeers(): SerializedPeer[] {
+		return Array.from(this.#remotePeers.values());
+	}
+
+	getRemoteProducers(): mediasoupTypes.Producer<ProducerAppData>[] {
+		return Array.from(this.#remoteProducers.values());
+	}
+
+	/**
+	 * Sends our PipeTransport tuple and SRTP parameters to the remote node and
+	 * connects our PipeTransport to the one in the remote node.
+	 */
+	async connectToRemote(): Promise<void> {
+		this.#logger.debug('connectToRemote()');
+
+		const remoteParameters = await this.request(
+			'connect',
+			this.getLocalConnectParameters()
+		);
+
+		await this.connect(remoteParameters);
+	}
+
+	notifyNewPeer(peer: SerializedPeer): void {
+		this.request('newPeer', { peer }).catch(() => {});
+	}
+
+	notifyPeerDisplayNameChanged({
+		peerId,
+		displayName,
+		oldDisplayName,
+	}: {
+		peerId: PeerId;
+		displayName: string;
+		oldDisplayName: string;
+	}): void {
+		this.request('peerDisplayNameChanged', {
+			peerId,
+			displayName,
+			oldDisplayName,
+		}).catch(() => {});
+	}
+
+	notifyPeerClosed(peerId: PeerId): void {
+		this.request('peerClosed', { peerId }).catch(() => {});
+	}
+
+	/**
+	 * Pipes the given local Producer to the remote node (unless already done).
+	 */
+	async sendProducer(
+		producer: mediasoupTypes.Producer<ProducerAppData>
+	): Promise<void> {
+		if (this.#closed || this.#sentProducerIds.has(producer.id)) {
+			return;
+		}
+
+		this.#logger.debug('sendProducer() [producerId:%o]', producer.id);
+
+		this.#sentProducerIds.add(producer.id);
+
+		let pipeConsumer: mediasoupTypes.Consumer;
+
+		try {
+			pipeConsumer = await this.#pipeTransport.consume({
+				producerId: producer.id,
+			});
+		} catch (error) {
+			this.#sentProducerIds.delete(producer.id);
+
+			this.#logger.warn(
+				`sendProducer() | pipeTransport.consume() failed [producerId:%o]: ${error}`,
+				producer.id
+			);
+
+			return;
+		}
+
+		this.handlePipeConsumer(pipeConsumer);
+
+		await this.request('newProducer', {
+			producerId: producer.id,
+			kind: pipeConsumer.kind,
+			rtpParameters: pipeConsumer.rtpParameters,
+			paused: pipeConsumer.producerPaused,
+			appData: producer.appData,
+		}).catch(() => {});
+	}
+
+	async handleRequest(request: TypedCascadeRequest): Promise<void> {
+		const { name, data, accept } = request;
+
+		switch (name) {
+			case 'connect': {
+				await this.connect(data);
+
+				accept(this.getLocalConnectParameters());
+
+				break;
+			}
+
+			case 'disconnect': {
+				accept();
+
+				this.close({ notifyRemote: false });
+
+				break;
+			}
+
+			case 'newPeer': {
+				const { peer } = data;
+
+				accept();
+
+				if (this.#remotePeers.has(peer.peerId)) {
+					break;
+				}
+
+				this.#remotePeers.set(peer.peerId, peer);
+
+				this.emit('new-peer', { peer });
+
+				break;
+			}
+
+			case 'peerDisplayNameChanged': {
+				const { peerId, displayName, oldDisplayName } = data;
+				const peer = this.#remotePeers.get(peerId);
+
+				accept();
+
+				if (!peer) {
+					break;
+				}
+
+				peer.displayName = displayName;
+
+				this.emit('peer-display-name-changed', {
+					peerId,
+					displayName,
+					oldDisplayName,
+				});
+
+				break;
+			}
+
+			case 'peerClosed': {
+				const { peerId } = data;
+
+				accept();
+
+				if (!this.#remotePeers.delete(peerId)) {
+					break;
+				}
+
+				this.emit('peer-closed', { peerId });
+
+				break;
+			}
+
+			case 'newProducer': {
+				const { producerId, kind, rtpParameters, paused, appData } = data;
+
+				const producer = await this.#pipeTransport.produce<ProducerAppData>({
+					id: producerId,
+					kind,
+					rtpParameters,
+					paused,
+					appData,
+				});
+
+				this.#remoteProducers.set(producer.id, producer);
+
+				producer.observer.on('close', () => {
+					this.#remoteProducers.delete(producer.id);
+				});
+
+				accept();
+
+				this.emit('new-producer', { producer });
+
+				break;
+			}
+
+			case 'producerClosed': {
+				const { producerId } = data;
+
+				this.#remoteProducers.get(producerId)?.close();
+
+				accept();
+
+				break;
+			}
+
+			case 'producerPaused': {
+				const { producerId } = data;
+
+				await this.#remoteProducers.get(producerId)?.pause();
+
+				accept();
+
+				break;
+			}
+
+			case 'producerResumed': {
+				const { producerId } = data;
+
+				await this.#remoteProducers.get(producerId)?.resume();
+
+				accept();
+
+				break;
+			}
+
+			default: {
+				assertUnreachable('request name', name);
+			}
+		}
+	}
+
+	private getLocalConnectParameters(): CascadeRequestData<'connect'> {
+		const { localAddress, localPort } = this.#pipeTransport.tuple;
+
+		return {
+			ip: localAddress,
+			port: localPort,
+			srtpParameters: this.#pipeTransport.srtpParameters!,
+		};
+	}
+
+	/**
+	 * Connects our PipeTransport with the given remote tuple and SRTP
+	 * parameters. Both nodes may initiate the link at the same time so this is
+	 * a no-op if already connected.
+	 */
+	private async connect({
+		ip,
+		port,
+		srtpParameters,
+	}: CascadeRequestData<'connect'>): Promise<void> {
+		if (this.#connected) {
+			return;
+		}
+
+		this.#logger.debug('connect() [ip:%o, port:%o]', ip, port);
+
+		this.#connected = true;
+
+		try {
+			await this.#pipeTransport.connect({ ip, port, srtpParameters });
+		} catch (error) {
+			this.#connected = false;
+
+			throw error;
+		}
+
+		this.emit('connected');
+	}
+
+	/**
+	 * Enqueues a request to the remote node. If it fails the remote node is
+	 * assumed to be gone and the CascadeLink is closed.
+	 */
+	private async request<Name extends CascadeRequestName>(
+		name: Name,
+		data?: CascadeRequestData<Name>
+	): Promise<CascadeRequestResponseData<Name>> {
+		try {
+			return await this.#requestQueue.push(
+				async () => this.sendRequest({ name, data }),
+				`request() [name:${name}]`
+			);
+		} catch (error) {
+			if (!this.#closed) {
+				this.#logger.warn(
+					`request() | request to remote node failed, closing the link [name:%o]: ${error}`,
+					name
+				);
+
+				this.close({ notifyRemote: false });
+			}
+
+			throw error;
+		}
+	}
+
+	private async sendRequest<Name extends CascadeRequestName>({
+		name,
+		data,
+	}: {
+		name: Name;
+		data?: CascadeRequestData<Name>;
+	}): Promise<CascadeRequestResponseData<Name>> {
+		const url = new URL(
+			`/cascade/rooms/${encodeURIComponent(this.#roomId)}`,
+			this.#remoteNode.url
+		);
+
+		const response = await fetch(url, {
+			method: 'POST',
+			headers: {
+				Authorization: `Bearer ${this.#secret}`,
+				'Content-Type': 'application/json',
+			},
+			body: JSON.stringify({ nodeId: this.#localNodeId, name, data }),
+			signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+		});
+
+		if (!response.ok) {
+			throw new Error(
+				`remote node replied with ${response.status} ${response.statusText}`
+			);
+		}
+
+		return (await response.json()) as CascadeRequestResponseData<Name>;
+	}
+
+	private handlePipeTransport(): void {
+		this.#pipeTransport.on('routerclose', () => {
+			this.close();
+		});
+	}
+
+	private handlePipeConsumer(pipeConsumer: mediasoupTypes.Consumer): void {
+		const producerId = pipeConsumer.producerId;
+
+		pipeConsumer.observer.on('close', () => {
+			this.#sentProducerIds.delete(producerId);
+		});
+
+		pipeConsumer.on('producerclose', () => {
+			this.request('producerClosed', { producerId }).catch(() => {});
+		});
+
+		pipeConsumer.on('producerpause', () => {
+			this.request('producerPaused', { producerId }).catch(() => {});
+		});
+
+		pipeConsumer.on('producerresume', () => {
+			this.request('producerResumed', { producerId }).catch(() => {});
+		});
+	}
+}
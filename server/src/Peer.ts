@@ -1,3 +1,4 @@
+import * as crypto from 'node:crypto';
 import * as mediasoup from 'mediasoup';
 import type * as mediasoupTypes from 'mediasoup/types';
 import type * as protooTypes from 'protoo-server';
@@ -8,6 +9,7 @@ import { EnhancedEventEmitter } from './enhancedEvents';
 import {
 	TypedProtooNotificationFromPeer,
 	TypedProtooRequestFromPeer,
+	RequestNameFromPeer,
 	NotificationNameFromServer,
 	NotificationDataFromServer,
 	RequestNameFromServer,
@@ -15,8 +17,14 @@ import {
 	RequestResponseDataFromServer,
 } from './signaling/protooMessages';
 import { assertUnreachable } from './utils';
+import {
+	peerJoinTimeoutsCounter,
+	consumeFailuresCounter,
+	protooRequestDurationHistogram,
+} from './metrics';
 import {
 	InvalidStateError,
+	ForbiddenError,
 	TransportNotFound,
 	ProducerNotFound,
 	ConsumerNotFound,
@@ -25,8 +33,10 @@ import {
 } from './errors';
 import type {
 	PeerId,
+	PeerRole,
 	PeerDevice,
 	SerializedPeer,
+	Source,
 	TransportDirection,
 	WebRtcTransportAppData,
 	ProducerAppData,
@@ -37,11 +47,43 @@ import type {
 } from './types';
 
 const JOIN_TIMEOUT_MS = 10000;
+const LOBBY_TIMEOUT_MS = 120000;
+const RESUMPTION_TIMEOUT_MS = 10000;
+
+// Known protoo request methods. Requests with any other method (sent by the
+// endpoint) are measured with 'unknown' method label to bound its values.
+const PROTOO_REQUEST_METHODS: ReadonlySet<string> = new Set(
+	Object.keys({
+		getRouterRtpCapabilities: true,
+		join: true,
+		createWebRtcTransport: true,
+		connectWebRtcTransport: true,
+		restartIce: true,
+		produce: true,
+		produceData: true,
+		getTransportStats: true,
+		getProducerStats: true,
+		getConsumerStats: true,
+		getDataProducerStats: true,
+		getDataConsumerStats: true,
+		applyNetworkThrottle: true,
+		stopNetworkThrottle: true,
+		moderatorMutePeer: true,
+		moderatorKickPeer: true,
+		lockRoom: true,
+		unlockRoom: true,
+		admitPeer: true,
+		denyPeer: true,
+		startRecording: true,
+		stopRecording: true,
+	} satisfies Record<RequestNameFromPeer, true>)
+);
 
 const staticLogger = new Logger('Peer');
 
 export type PeerCreateOptions = {
 	peerId: PeerId;
+	role: PeerRole;
 	protooPeer: protooTypes.Peer;
 	remoteAddress: string;
 };
@@ -49,6 +91,7 @@ export type PeerCreateOptions = {
 type PeerConstructorOptions = {
 	logger: Logger;
 	peerId: PeerId;
+	role: PeerRole;
 	protooPeer: protooTypes.Peer;
 	remoteAddress: string;
 };
@@ -59,7 +102,18 @@ export type PeerEvents = {
 	 */
 	closed: [];
 	/**
-	 * Emitted when the Peer joins the Room.
+	 * Emitted to know whether the Peer must wait in the lobby until a moderator
+	 * admits it.
+	 */
+	'get-must-wait-in-lobby': [callback: (mustWaitInLobby: boolean) => void];
+	/**
+	 * Emitted when the Peer requests to join the Room and must wait in the
+	 * lobby.
+	 */
+	waiting: [];
+	/**
+	 * Emitted when the Peer joins the Room (or when it's admitted if it was
+	 * waiting in the lobby).
 	 */
 	joined: [callback: (serializedPeers: SerializedPeer[]) => void];
 	/**
@@ -68,6 +122,8 @@ export type PeerEvents = {
 	 * @remarks
 	 * - 'disconnected' is only emitted if the Peer was joined.
 	 * - 'disconnected' is guaranteed to be emitted after 'closed'.
+	 * - If the protoo connection of a joined Peer is lost, 'disconnected' is not
+	 *   emitted until the resumption grace period expires.
 	 */
 	disconnected: [];
 	/**
@@ -137,14 +193,99 @@ export type PeerEvents = {
 		resolve: () => void,
 		reject: (error: Error) => void,
 	];
+	/**
+	 * Emitted when the Peer (a moderator) wants to pause or close Producers of
+	 * another Peer.
+	 */
+	'moderator-mute-peer': [
+		{
+			peerId: PeerId;
+			source?: Source;
+			close: boolean;
+		},
+		resolve: () => void,
+		reject: (error: Error) => void,
+	];
+	/**
+	 * Emitted when the Peer (a moderator) wants to kick another Peer.
+	 */
+	'moderator-kick-peer': [
+		{
+			peerId: PeerId;
+			reason?: string;
+		},
+		resolve: () => void,
+		reject: (error: Error) => void,
+	];
+	/**
+	 * Emitted when the Peer (a moderator) wants to lock or unlock the Room.
+	 */
+	'set-room-locked': [
+		{
+			locked: boolean;
+		},
+		resolve: () => void,
+		reject: (error: Error) => void,
+	];
+	/**
+	 * Emitted when the Peer (a moderator) wants to admit a Peer waiting in the
+	 * lobby.
+	 */
+	'moderator-admit-peer': [
+		{
+			peerId: PeerId;
+		},
+		resolve: () => void,
+		reject: (error: Error) => void,
+	];
+	/**
+	 * Emitted when the Peer (a moderator) wants to deny a Peer waiting in the
+	 * lobby.
+	 */
+	'moderator-deny-peer': [
+		{
+			peerId: PeerId;
+			reason?: string;
+		},
+		resolve: () => void,
+		reject: (error: Error) => void,
+	];
+	/**
+	 * Emitted when the Peer (a moderator) wants to start or stop recording the
+	 * Room.
+	 */
+	'set-room-recording': [
+		{
+			recording: boolean;
+		},
+		resolve: () => void,
+		reject: (error: Error) => void,
+	];
 };
 
 export class Peer extends EnhancedEventEmitter<PeerEvents> {
 	readonly #logger: Logger;
 	readonly #peerId: PeerId;
-	readonly #protooPeer: protooTypes.Peer;
+	readonly #role: PeerRole;
+	#protooPeer: protooTypes.Peer;
 	readonly #remoteAddress: string;
 	readonly #joinTimer: ReturnType<typeof setTimeout>;
+	#resumptionToken?: string;
+	#resumptionTimer?: ReturnType<typeof setTimeout>;
+	#suspended: boolean = false;
+	readonly #missedNotifications: {
+		name: NotificationNameFromServer;
+		data: unknown;
+	}[] = [];
+	readonly #pendingConsumes: {
+		producer: mediasoupTypes.Producer<ProducerAppData>;
+		consumerReplicas: number;
+	}[] = [];
+	readonly #pendingDataConsumes: mediasoupTypes.DataProducer<
+		DataProducerAppData | BotDataProducerAppData
+	>[] = [];
+	#lobbyTimer?: ReturnType<typeof setTimeout>;
+	#waitingInLobby: boolean = false;
 	#joined: boolean = false;
 	#displayName?: string;
 	#device?: PeerDevice;
@@ -170,14 +311,21 @@ export class Peer extends EnhancedEventEmitter<PeerEvents> {
 
 	static create({
 		peerId,
+		role,
 		protooPeer,
 		remoteAddress,
 	}: PeerCreateOptions): Peer {
-		staticLogger.debug('create() [peerId:%o]', peerId);
+		staticLogger.debug('create() [peerId:%o, role:%o]', peerId, role);
 
 		const logger = new Logger(`[peerId:${peerId}]`, staticLogger);
 
-		const peer = new Peer({ logger, peerId, protooPeer, remoteAddress });
+		const peer = new Peer({
+			logger,
+			peerId,
+			role,
+			protooPeer,
+			remoteAddress,
+		});
 
 		return peer;
 	}
@@ -185,6 +333,7 @@ export class Peer extends EnhancedEventEmitter<PeerEvents> {
 	private constructor({
 		logger,
 		peerId,
+		role,
 		protooPeer,
 		remoteAddress,
 	}: PeerConstructorOptions) {
@@ -195,11 +344,14 @@ export class Peer extends EnhancedEventEmitter<PeerEvents> {
 		this.#logger.debug('constructor()');
 
 		this.#peerId = peerId;
+		this.#role = role;
 		this.#protooPeer = protooPeer;
 		this.#remoteAddress = remoteAddress;
 		this.#joinTimer = setTimeout(() => {
 			logger.debug(`Peer didn't join in ${JOIN_TIMEOUT_MS}ms, closing it`);
 
+			peerJoinTimeoutsCounter.inc();
+
 			this.close();
 
 			if (this.#joined) {
@@ -217,10 +369,18 @@ export class Peer extends EnhancedEventEmitter<PeerEvents> {
 		return this.#peerId;
 	}
 
+	get role(): PeerRole {
+		return this.#role;
+	}
+
 	get displayName(): string | undefined {
 		return this.#displayName;
 	}
 
+	get device(): PeerDevice | undefined {
+		return this.#device;
+	}
+
 	close(): void {
 		this.#logger.debug('close()');
 
@@ -237,6 +397,8 @@ export class Peer extends EnhancedEventEmitter<PeerEvents> {
 		this.#protooPeer.close();
 
 		clearTimeout(this.#joinTimer);
+		clearTimeout(this.#lobbyTimer);
+		clearTimeout(this.#resumptionTimer);
 
 		this.emit('closed');
 	}
@@ -249,6 +411,7 @@ export class Peer extends EnhancedEventEmitter<PeerEvents> {
 			displayName: this.#displayName!,
 			device: this.#device!,
 			remoteAddress: this.#remoteAddress,
+			role: this.#role,
 		};
 	}
 
@@ -256,12 +419,219 @@ export class Peer extends EnhancedEventEmitter<PeerEvents> {
 		return Array.from(this.#producers.values());
 	}
 
+	getConsumers(): mediasoupTypes.Consumer<ConsumerAppData>[] {
+		return Array.from(this.#consumers.values());
+	}
+
 	getChatDataProducers(): mediasoupTypes.DataProducer<DataProducerAppData>[] {
 		return Array.from(this.#dataProducers.values()).filter(
 			dataProducer => dataProducer.appData.channel === 'chat'
 		);
 	}
 
+	/**
+	 * Pauses (or closes if `close` is true) the Producers of this Peer with the
+	 * given source (or all of them if not given).
+	 *
+	 * @returns The ids of the affected Producers.
+	 */
+	async muteProducers({
+		source,
+		close,
+	}: {
+		source?: Source;
+		close: boolean;
+	}): Promise<string[]> {
+		this.#logger.debug('muteProducers() [source:%o, close:%o]', source, close);
+
+		const producers = this.getProducers().filter(
+			producer => !source || producer.appData.source === source
+		);
+
+		for (const producer of producers) {
+			if (close) {
+				producer.close();
+			} else {
+				await producer.pause();
+			}
+		}
+
+		return producers.map(producer => producer.id);
+	}
+
+	/**
+	 * Notifies the endpoint that it has been kicked by a moderator and closes
+	 * the Peer once the notification has been sent.
+	 *
+	 * @remarks
+	 * - `moderatorPeerId` is unset if kicked by an admin.
+	 */
+	async kick({
+		moderatorPeerId,
+		reason,
+	}: {
+		moderatorPeerId?: PeerId;
+		reason?: string;
+	}): Promise<void> {
+		this.#logger.debug('kick() [moderatorPeerId:%o]', moderatorPeerId);
+
+		if (this.#closed) {
+			return;
+		}
+
+		try {
+			await this.#protooPeer.notify('peerKicked', {
+				peerId: this.#peerId,
+				moderatorPeerId,
+				reason,
+			});
+		} catch (error) {
+			this.#logger.warn(`kick() | failed to send notification: ${error}`);
+		}
+
+		if (this.#closed) {
+			return;
+		}
+
+		this.close();
+
+		if (this.#joined) {
+			this.emit('disconnected');
+		}
+	}
+
+	/**
+	 * Closes the Peer because a new protoo connection with the same `peerId`
+	 * replaces it.
+	 *
+	 * @remarks
+	 * - Unlike `close()`, it emits 'disconnected' if the Peer was joined (even if
+	 *   it's suspended waiting for the endpoint to resume it), so its session is
+	 *   announced as left before the new one joins.
+	 */
+	supersede(): void {
+		this.#logger.debug('supersede()');
+
+		if (this.#closed) {
+			return;
+		}
+
+		this.close();
+
+		if (this.#joined) {
+			this.emit('disconnected');
+		}
+	}
+
+	/**
+	 * Whether the endpoint can resume this Peer with the given resumption token
+	 * (obtained in the 'join' response).
+	 */
+	canResume(resumptionToken: string): boolean {
+		return (
+			this.#joined &&
+			!this.#closed &&
+			this.#resumptionToken !== undefined &&
+			this.#resumptionToken === resumptionToken
+		);
+	}
+
+	/**
+	 * Replaces the protoo Peer of this suspended Peer with a new one, keeping
+	 * its mediasoup transports, Producers and Consumers, and sends missed
+	 * notifications to the endpoint.
+	 */
+	resume({ protooPeer }: { protooPeer: protooTypes.Peer }): void {
+		this.#logger.debug('resume()');
+
+		this.assertNotClosed();
+
+		if (!this.#suspended) {
+			throw new InvalidStateError('Peer not suspended');
+		}
+
+		this.#suspended = false;
+		this.#protooPeer = protooPeer;
+
+		clearTimeout(this.#resumptionTimer);
+
+		this.handleProtooPeer();
+
+		this.notify('sessionResumed');
+
+		for (const { name, data } of this.#missedNotifications.splice(0)) {
+			this.#protooPeer.notify(name, data).catch(error => {
+				this.#logger.warn(
+					`resume() | failed to send missed notification [name:%o]: ${error}`,
+					name
+				);
+			});
+		}
+
+		for (const { producer, consumerReplicas } of this.#pendingConsumes.splice(
+			0
+		)) {
+			if (!producer.closed) {
+				void this.consume({ producer, consumerReplicas });
+			}
+		}
+
+		for (const dataProducer of this.#pendingDataConsumes.splice(0)) {
+			if (!dataProducer.closed) {
+				void this.consumeData({ dataProducer });
+			}
+		}
+	}
+
+	/**
+	 * Lets the Peer (waiting in the lobby) join the Room.
+	 */
+	admit(): void {
+		this.#logger.debug('admit()');
+
+		if (!this.#waitingInLobby) {
+			throw new InvalidStateError('Peer not waiting in the lobby');
+		}
+
+		this.#waitingInLobby = false;
+		this.#joined = true;
+
+		clearTimeout(this.#lobbyTimer);
+
+		this.emit('joined', serializedPeers => {
+			this.notify('lobbyAdmitted', { peers: serializedPeers });
+		});
+	}
+
+	/**
+	 * Notifies the endpoint (waiting in the lobby) that it won't be admitted and
+	 * closes the Peer once the notification has been sent.
+	 */
+	async deny({
+		moderatorPeerId,
+		reason,
+	}: {
+		moderatorPeerId?: PeerId;
+		reason?: string;
+	}): Promise<void> {
+		this.#logger.debug('deny() [moderatorPeerId:%o]', moderatorPeerId);
+
+		if (this.#closed) {
+			return;
+		}
+
+		try {
+			await this.#protooPeer.notify('lobbyDenied', {
+				moderatorPeerId,
+				reason,
+			});
+		} catch (error) {
+			this.#logger.warn(`deny() | failed to send notification: ${error}`);
+		}
+
+		this.close();
+	}
+
 	async consume({
 		producer,
 		consumerReplicas,
@@ -276,6 +646,14 @@ export class Peer extends EnhancedEventEmitter<PeerEvents> {
 			producer.appData.source
 		);
 
+		if (this.#suspended) {
+			this.#logger.debug('consume() | Peer suspended, deferring it');
+
+			this.#pendingConsumes.push({ producer, consumerReplicas });
+
+			return;
+		}
+
 		const transport = this.getConsumerWebRtcTransport();
 
 		if (!transport) {
@@ -333,6 +711,8 @@ export class Peer extends EnhancedEventEmitter<PeerEvents> {
 							`consume() | transport.consume() failed: ${error}`
 						);
 
+						consumeFailuresCounter.inc();
+
 						resolve();
 
 						return;
@@ -366,6 +746,8 @@ export class Peer extends EnhancedEventEmitter<PeerEvents> {
 					} catch (error) {
 						this.#logger.warn(`consume() | failed: ${error}`);
 
+						consumeFailuresCounter.inc();
+
 						resolve();
 					}
 				})
@@ -404,6 +786,14 @@ export class Peer extends EnhancedEventEmitter<PeerEvents> {
 			return;
 		}
 
+		if (this.#suspended) {
+			this.#logger.debug('consumeData() | Peer suspended, deferring it');
+
+			this.#pendingDataConsumes.push(dataProducer);
+
+			return;
+		}
+
 		const transport = this.getConsumerWebRtcTransport();
 
 		if (!transport) {
@@ -471,6 +861,12 @@ export class Peer extends EnhancedEventEmitter<PeerEvents> {
 
 		const data = args[0];
 
+		if (this.#suspended) {
+			this.#missedNotifications.push({ name, data });
+
+			return;
+		}
+
 		this.#logger.debug('··> notification [name:%o]', name);
 
 		this.#protooPeer.notify(name, data).catch(error => {
@@ -517,6 +913,22 @@ export class Peer extends EnhancedEventEmitter<PeerEvents> {
 		);
 	}
 
+	private suspend(): void {
+		this.#logger.debug(
+			`suspend() | protoo connection lost, waiting ${RESUMPTION_TIMEOUT_MS}ms for the endpoint to resume it`
+		);
+
+		this.#suspended = true;
+		this.#resumptionTimer = setTimeout(() => {
+			this.#logger.debug(
+				`Peer didn't resume in ${RESUMPTION_TIMEOUT_MS}ms, closing it`
+			);
+
+			this.close();
+			this.emit('disconnected');
+		}, RESUMPTION_TIMEOUT_MS);
+	}
+
 	private assertNotClosed(): void {
 		if (this.#closed) {
 			throw new InvalidStateError('Peer closed');
@@ -529,6 +941,12 @@ export class Peer extends EnhancedEventEmitter<PeerEvents> {
 		}
 	}
 
+	private assertModerator(): void {
+		if (this.#role !== 'moderator') {
+			throw new ForbiddenError('Peer is not a moderator');
+		}
+	}
+
 	private assertAndGetWebRtcTransport(
 		transportId: string
 	): mediasoupTypes.WebRtcTransport<WebRtcTransportAppData> {
@@ -594,20 +1012,26 @@ export class Peer extends EnhancedEventEmitter<PeerEvents> {
 	}
 
 	private handleProtooPeer(): void {
-		this.#protooPeer.on('close', () => {
-			if (this.#closed) {
+		const protooPeer = this.#protooPeer;
+
+		protooPeer.on('close', () => {
+			// NOTE: Ignore it if this protoo Peer has been replaced by a new one.
+			if (this.#closed || protooPeer !== this.#protooPeer) {
 				return;
 			}
 
-			this.close();
-
+			// Give the endpoint a chance to resume the session.
 			if (this.#joined) {
-				this.emit('disconnected');
+				this.suspend();
+
+				return;
 			}
+
+			this.close();
 		});
 
 		// eslint-disable-next-line @typescript-eslint/no-misused-promises
-		this.#protooPeer.on('notification', async notification => {
+		protooPeer.on('notification', async notification => {
 			this.#logger.debug('<·· notification [name:%o]', notification.method);
 
 			try {
@@ -623,9 +1047,15 @@ export class Peer extends EnhancedEventEmitter<PeerEvents> {
 		});
 
 		// eslint-disable-next-line @typescript-eslint/no-misused-promises
-		this.#protooPeer.on('request', async (request, accept, reject) => {
+		protooPeer.on('request', async (request, accept, reject) => {
 			this.#logger.debug('<== request [name:%o]', request.method);
 
+			const stopTimer = protooRequestDurationHistogram.startTimer({
+				method: PROTOO_REQUEST_METHODS.has(request.method)
+					? request.method
+					: 'unknown',
+			});
+
 			try {
 				await this.handleProtooRequest({
 					...request,
@@ -649,6 +1079,8 @@ export class Peer extends EnhancedEventEmitter<PeerEvents> {
 				);
 
 				reject(error as Error);
+			} finally {
+				stopTimer();
 			}
 		});
 	}
@@ -771,20 +1203,58 @@ export class Peer extends EnhancedEventEmitter<PeerEvents> {
 			case 'join': {
 				if (this.#joined) {
 					throw new InvalidStateError('Peer already joined');
+				} else if (this.#waitingInLobby) {
+					throw new InvalidStateError('Peer already waiting in the lobby');
 				}
 
 				const { displayName, device, rtpCapabilities, sctpCapabilities } = data;
 
-				this.#joined = true;
 				this.#displayName = displayName;
 				this.#device = device;
 				this.#rtpCapabilities = rtpCapabilities;
 				this.#sctpCapabilities = sctpCapabilities;
 
+				this.#resumptionToken = crypto.randomUUID();
+
 				clearTimeout(this.#joinTimer);
 
+				let mustWaitInLobby = false;
+
+				this.emit('get-must-wait-in-lobby', _mustWaitInLobby => {
+					mustWaitInLobby = _mustWaitInLobby;
+				});
+
+				if (mustWaitInLobby) {
+					this.#waitingInLobby = true;
+					this.#lobbyTimer = setTimeout(() => {
+						this.#logger.debug(
+							`Peer wasn't admitted in ${LOBBY_TIMEOUT_MS}ms, closing it`
+						);
+
+						void this.deny({ reason: 'lobby timeout' });
+					}, LOBBY_TIMEOUT_MS);
+
+					accept({
+						peers: [],
+						role: this.#role,
+						waitingInLobby: true,
+						resumptionToken: this.#resumptionToken,
+					});
+
+					this.emit('waiting');
+
+					break;
+				}
+
+				this.#joined = true;
+
 				this.emit('joined', serializedPeers => {
-					accept({ peers: serializedPeers });
+					accept({
+						peers: serializedPeers,
+						role: this.#role,
+						waitingInLobby: false,
+						resumptionToken: this.#resumptionToken!,
+					});
 				});
 
 				break;
@@ -966,6 +1436,91 @@ export class Peer extends EnhancedEventEmitter<PeerEvents> {
 				break;
 			}
 
+			case 'moderatorMutePeer': {
+				this.assertJoined();
+				this.assertModerator();
+
+				const { peerId, source, close } = data;
+
+				this.emit(
+					'moderator-mute-peer',
+					{ peerId, source, close: Boolean(close) },
+					accept,
+					reject
+				);
+
+				break;
+			}
+
+			case 'moderatorKickPeer': {
+				this.assertJoined();
+				this.assertModerator();
+
+				const { peerId, reason } = data;
+
+				this.emit('moderator-kick-peer', { peerId, reason }, accept, reject);
+
+				break;
+			}
+
+			case 'lockRoom': {
+				this.assertJoined();
+				this.assertModerator();
+
+				this.emit('set-room-locked', { locked: true }, accept, reject);
+
+				break;
+			}
+
+			case 'unlockRoom': {
+				this.assertJoined();
+				this.assertModerator();
+
+				this.emit('set-room-locked', { locked: false }, accept, reject);
+
+				break;
+			}
+
+			case 'admitPeer': {
+				this.assertJoined();
+				this.assertModerator();
+
+				const { peerId } = data;
+
+				this.emit('moderator-admit-peer', { peerId }, accept, reject);
+
+				break;
+			}
+
+			case 'denyPeer': {
+				this.assertJoined();
+				this.assertModerator();
+
+				const { peerId, reason } = data;
+
+				this.emit('moderator-deny-peer', { peerId, reason }, accept, reject);
+
+				break;
+			}
+
+			case 'startRecording': {
+				this.assertJoined();
+				this.assertModerator();
+
+				this.emit('set-room-recording', { recording: true }, accept, reject);
+
+				break;
+			}
+
+			case 'stopRecording': {
+				this.assertJoined();
+				this.assertModerator();
+
+				this.emit('set-room-recording', { recording: false }, accept, reject);
+
+				break;
+			}
+
 			default: {
 				// @ts-expect-error: Must be ready for this despite TS says it's ok.
 				reject(500, `unknown request method '${method}'`);
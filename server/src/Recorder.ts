@@ -0,0 +1,484 @@
+import * as path from 'node:path';
+import * as fs from 'node:fs';
+import * as dgram from 'node:dgram';
+import * as childProcess from 'node:child_process';
+import type * as mediasoupTypes from 'mediasoup/types';
+
+import { Logger } from './Logger';
+import { clone } from './utils';
+import type {
+	ServerConfig,
+	RoomId,
+	PeerId,
+	Source,
+	ProducerAppData,
+	PlainTransportAppData,
+} from './types';
+
+// Time given to FFmpeg to start listening for RTP before sending media to it.
+const FFMPEG_STARTUP_DELAY_MS = 1000;
+// Time given to FFmpeg to finalize the file once asked to stop.
+const FFMPEG_STOP_TIMEOUT_MS = 5000;
+
+const staticLogger = new Logger('Recorder');
+
+type RecordingConfig = NonNullable<ServerConfig['recording']>;
+
+type PlainTransportOptions = ServerConfig['mediasoup']['plainTransportOptions'];
+
+export type RecorderCreateOptions = {
+	roomId: RoomId;
+	recordingConfig: RecordingConfig;
+	plainTransportOptions: PlainTransportOptions;
+	router: mediasoupTypes.Router;
+};
+
+type RecorderConstructorOptions = {
+	logger: Logger;
+	roomId: RoomId;
+	recordingConfig: RecordingConfig;
+	plainTransportOptions: PlainTransportOptions;
+	router: mediasoupTypes.Router;
+	directory: string;
+};
+
+type Track = {
+	peerId: PeerId;
+	producerId: string;
+	kind: mediasoupTypes.MediaKind;
+	source: Source;
+	mimeType?: string;
+	file?: string;
+	startedAt?: number;
+	stoppedAt?: number;
+	transport?: mediasoupTypes.PlainTransport<PlainTransportAppData>;
+	subprocess?: childProcess.ChildProcess;
+	subprocessClosed?: Promise<void>;
+};
+
+/**
+ * Content of the `timeline.json` file written into the recording folder. Times
+ * are milliseconds since Unix epoch.
+ */
+type RecordingTimeline = {
+	roomId: RoomId;
+	startedAt: number;
+	stoppedAt: number;
+	tracks: {
+		peerId: PeerId;
+		producerId: string;
+		kind: mediasoupTypes.MediaKind;
+		source: Source;
+		mimeType: string;
+		file: string;
+		startedAt: number;
+		stoppedAt: number;
+	}[];
+};
+
+/**
+ * Records the Producers of a Room into a new folder. Each Producer is consumed
+ * by a PlainTransport in the given Router and written into its own file by a
+ * FFmpeg process (Opus into Ogg, VP8 and VP9 into WebM, others into
+ * Matroska). Once stopped, a `timeline.json` file tells when each track
+ * started and stopped.
+ */
+export class Recorder {
+	readonly #logger: Logger;
+	readonly #roomId: RoomId;
+	readonly #recordingConfig: RecordingConfig;
+	readonly #plainTransportOptions: PlainTransportOptions;
+	readonly #router: mediasoupTypes.Router;
+	readonly #directory: string;
+	// Map of Tracks indexed by Producer id.
+	readonly #tracks: Map<string, Track> = new Map();
+	readonly #startedAt: number;
+	#stoppedAt?: number;
+
+	static async create({
+		roomId,
+		recordingConfig,
+		plainTransportOptions,
+		router,
+	}: RecorderCreateOptions): Promise<Recorder> {
+		staticLogger.debug('create() [roomId:%o]', roomId);
+
+		const logger = new Logger(`[roomId:${roomId}]`, staticLogger);
+
+		const directory = path.join(
+			recordingConfig.directory,
+			toFileName(roomId),
+			new Date().toISOString().replace(/[:.]/g, '-')
+		);
+
+		await fs.promises.mkdir(directory, { recursive: true });
+
+		logger.info('recording into %o', directory);
+
+		return new Recorder({
+			logger,
+			roomId,
+			recordingConfig,
+			plainTransportOptions,
+			router,
+			directory,
+		});
+	}
+
+	private constructor({
+		logger,
+		roomId,
+		recordingConfig,
+		plainTransportOptions,
+		router,
+		directory,
+	}: RecorderConstructorOptions) {
+		this.#logger = logger;
+
+		this.#logger.debug('constructor()');
+
+		this.#roomId = roomId;
+		this.#recordingConfig = recordingConfig;
+		this.#plainTransportOptions = plainTransportOptions;
+		this.#router = router;
+		this.#directory = directory;
+		this.#startedAt = Date.now();
+	}
+
+	get directory(): string {
+		return this.#directory;
+	}
+
+	/**
+	 * Stops recording all tracks and writes the timeline file.
+	 */
+	async stop(): Promise<void> {
+		this.#logger.debug('stop()');
+
+		if (this.#stoppedAt !== undefined) {
+			return;
+		}
+
+		this.#stoppedAt = Date.now();
+
+		await Promise.all(
+			Array.from(this.#tracks.values()).map(async track =>
+				this.stopTrack(track)
+			)
+		);
+
+		try {
+			await this.writeTimeline();
+		} catch (error) {
+			this.#logger.error(`stop() | failed to write timeline: ${error}`);
+		}
+
+		this.#logger.info('recording stopped');
+	}
+
+	/**
+	 * Starts recording the given Producer. Its track is stopped once the
+	 * Producer is closed.
+	 *
+	 * @remarks
+	 * - The Producer must be available in the Router given to the Recorder.
+	 * - It never throws.
+	 */
+	async addProducer(
+		producer: mediasoupTypes.Producer<ProducerAppData>
+	): Promise<void> {
+		this.#logger.debug('addProducer() [producerId:%o]', producer.id);
+
+		if (this.#stoppedAt !== undefined || this.#tracks.has(producer.id)) {
+			return;
+		}
+
+		const { peerId, source } = producer.appData;
+		const track: Track = {
+			peerId,
+			producerId: producer.id,
+			kind: producer.kind,
+			source,
+		};
+
+		this.#tracks.set(producer.id, track);
+
+		try {
+			track.transport =
+				await this.#router.createPlainTransport<PlainTransportAppData>({
+					...clone(this.#plainTransportOptions),
+					comedia: false,
+					rtcpMux: true,
+					appData: { direction: 'consumer' },
+				});
+
+			track.transport.on('routerclose', () => {
+				void this.stopTrack(track);
+			});
+
+			const port = await getFreeUdpPort();
+
+			await track.transport.connect({ ip: '127.0.0.1', port });
+
+			const consumer = await track.transport.consume({
+				producerId: producer.id,
+				rtpCapabilities: this.#router.rtpCapabilities,
+				paused: true,
+			});
+
+			consumer.on('producerclose', () => {
+				void this.stopTrack(track);
+			});
+
+			if (track.stoppedAt !== undefined) {
+				return;
+			}
+
+			const codec = consumer.rtpParameters.codecs[0]!;
+
+			track.mimeType = codec.mimeType;
+			track.file = `${toFileName(peerId)}-${source}-${producer.id}.${getFileExtension(codec.mimeType)}`;
+
+			this.spawnFFmpeg({
+				track,
+				sdp: createSdp({ port, kind: producer.kind, codec }),
+			});
+
+			await new Promise(resolve =>
+				setTimeout(resolve, FFMPEG_STARTUP_DELAY_MS)
+			);
+
+			if (track.stoppedAt !== undefined) {
+				return;
+			}
+
+			await consumer.resume();
+
+			track.startedAt = Date.now();
+
+			if (consumer.kind === 'video') {
+				await consumer.requestKeyFrame();
+			}
+
+			this.#logger.info(
+				'recording track [peerId:%o, producerId:%o, file:%o]',
+				peerId,
+				producer.id,
+				track.file
+			);
+		} catch (error) {
+			this.#logger.error(
+				`addProducer() | failed [producerId:%o]: ${error}`,
+				producer.id
+			);
+
+			void this.stopTrack(track);
+		}
+	}
+
+	private spawnFFmpeg({ track, sdp }: { track: Track; sdp: string }): void {
+		const cmd = this.#recordingConfig.ffmpegPath ?? 'ffmpeg';
+		const args = [
+			'-loglevel',
+			'warning',
+			'-protocol_whitelist',
+			'pipe,udp,rtp',
+			'-fflags',
+			'+genpts',
+			'-f',
+			'sdp',
+			'-i',
+			'pipe:0',
+			'-map',
+			'0:0',
+			'-c',
+			'copy',
+			'-y',
+			path.join(this.#directory, track.file!),
+		];
+
+		this.#logger.debug(
+			`spawnFFmpeg() | spawning subprocess: ${cmd} ${args.join(' ')}`
+		);
+
+		const subprocess = childProcess.spawn(cmd, args, {
+			stdio: ['pipe', 'ignore', 'pipe'],
+		});
+
+		track.subprocess = subprocess;
+		track.subprocessClosed = new Promise(resolve => {
+			subprocess.on('error', error => {
+				this.#logger.error(
+					`FFmpeg subprocess failed [producerId:%o]: ${error}`,
+					track.producerId
+				);
+
+				resolve();
+			});
+
+			subprocess.on('close', (code, signal) => {
+				this.#logger.debug(
+					`FFmpeg subprocess closed [producerId:%o, code:${code}, signal:${signal}]`,
+					track.producerId
+				);
+
+				resolve();
+			});
+		});
+
+		// If FFmpeg exits by itself, stop the track.
+		void track.subprocessClosed.then(() => this.stopTrack(track));
+
+		subprocess.stderr.setEncoding('utf8');
+		subprocess.stderr.on('data', (data: string) => {
+			this.#logger.warn(
+				`FFmpeg [producerId:%o]: ${data.trim()}`,
+				track.producerId
+			);
+		});
+
+		subprocess.stdin.on('error', () => {});
+		subprocess.stdin.end(sdp);
+	}
+
+	private async stopTrack(track: Track): Promise<void> {
+		if (track.stoppedAt !== undefined) {
+			await track.subprocessClosed;
+
+			return;
+		}
+
+		track.stoppedAt = Date.now();
+
+		this.#logger.debug('stopTrack() [producerId:%o]', track.producerId);
+
+		// NOTE: SIGINT makes FFmpeg finalize the file.
+		track.subprocess?.kill('SIGINT');
+		track.transport?.close();
+
+		if (!track.subprocessClosed) {
+			return;
+		}
+
+		const killTimer = setTimeout(() => {
+			this.#logger.warn(
+				'stopTrack() | FFmpeg did not exit in time, killing it [producerId:%o]',
+				track.producerId
+			);
+
+			track.subprocess!.kill('SIGKILL');
+		}, FFMPEG_STOP_TIMEOUT_MS);
+
+		await track.subprocessClosed;
+
+		clearTimeout(killTimer);
+	}
+
+	private async writeTimeline(): Promise<void> {
+		const timeline: RecordingTimeline = {
+			roomId: this.#roomId,
+			startedAt: this.#startedAt,
+			stoppedAt: this.#stoppedAt!,
+			tracks: [],
+		};
+
+		for (const track of this.#tracks.values()) {
+			// Ignore tracks that never got media.
+			if (track.startedAt === undefined) {
+				continue;
+			}
+
+			timeline.tracks.push({
+				peerId: track.peerId,
+				producerId: track.producerId,
+				kind: track.kind,
+				source: track.source,
+				mimeType: track.mimeType!,
+				file: track.file!,
+				startedAt: track.startedAt,
+				stoppedAt: track.stoppedAt!,
+			});
+		}
+
+		await fs.promises.writeFile(
+			path.join(this.#directory, 'timeline.json'),
+			JSON.stringify(timeline, null, '\t')
+		);
+	}
+}
+
+/**
+ * Get a UDP port currently available in localhost for FFmpeg to listen on.
+ */
+async function getFreeUdpPort(): Promise<number> {
+	const socket = dgram.createSocket('udp4');
+
+	await new Promise<void>((resolve, reject) => {
+		socket.once('error', reject);
+		socket.bind(0, '127.0.0.1', resolve);
+	});
+
+	const { port } = socket.address();
+
+	await new Promise<void>(resolve => socket.close(resolve));
+
+	return port;
+}
+
+function createSdp({
+	port,
+	kind,
+	codec,
+}: {
+	port: number;
+	kind: mediasoupTypes.MediaKind;
+	codec: mediasoupTypes.RtpCodecParameters;
+}): string {
+	const { payloadType, mimeType, clockRate, channels, parameters } = codec;
+	const encodingName = mimeType.split('/')[1]!;
+	const lines = [
+		'v=0',
+		'o=- 0 0 IN IP4 127.0.0.1',
+		's=mediasoup-demo recording',
+		'c=IN IP4 127.0.0.1',
+		't=0 0',
+		`m=${kind} ${port} RTP/AVP ${payloadType}`,
+		`a=rtpmap:${payloadType} ${encodingName}/${clockRate}${channels ? `/${channels}` : ''}`,
+	];
+
+	const fmtp = Object.entries(parameters ?? {})
+		.map(([key, value]) => `${key}=${value}`)
+		.join(';');
+
+	if (fmtp) {
+		lines.push(`a=fmtp:${payloadType} ${fmtp}`);
+	}
+
+	lines.push('a=rtcp-mux', 'a=recvonly');
+
+	return `${lines.join('\r\n')}\r\n`;
+}
+
+function getFileExtension(mimeType: string): string {
+	switch (mimeType.toLowerCase()) {
+		case 'audio/opus': {
+			return 'ogg';
+		}
+
+		case 'video/vp8':
+		case 'video/vp9': {
+			return 'webm';
+		}
+
+		default: {
+			return 'mkv';
+		}
+	}
+}
+
+/**
+ * Makes the given value safe to be used in a file or folder name.
+ */
+function toFileName(value: string): string {
+	return value.replace(/[^\w-]/g, '_');
+}
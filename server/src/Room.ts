@@ -8,6 +8,8 @@ import { EnhancedEventEmitter } from './enhancedEvents';
 import { Bot } from './Bot';
 import { Peer } from './Peer';
 import { BroadcasterPeer } from './BroadcasterPeer';
+import { CascadeLink } from './CascadeLink';
+import { Recorder } from './Recorder';
 import {
 	RequestNameForRoom,
 	RequestApiMethod,
@@ -17,16 +19,33 @@ import {
 	RequestResponseData,
 	TypedApiRequest,
 } from './signaling/apiMessages';
+import type {
+	CascadeRequestName,
+	CascadeRequestData,
+	CascadeRequestResponseData,
+	TypedCascadeRequest,
+} from './signaling/cascadeMessages';
+import {
+	InvalidStateError,
+	UnsupportedError,
+	ForbiddenError,
+	PeerNotFound,
+} from './errors';
 import { clone, assertUnreachable } from './utils';
+import { peerJoinsCounter, peerLeavesCounter } from './metrics';
 import type {
 	ServerConfig,
 	RoomId,
 	PeerId,
+	PeerRole,
 	SerializedRoom,
+	SerializedPeer,
 	PeerProducersInfo,
+	PeerDataProducersInfo,
 	WebRtcTransportAppData,
 	PlainTransportAppData,
 	ProducerAppData,
+	DataProducerAppData,
 } from './types';
 
 const staticLogger = new Logger('Room');
@@ -35,6 +54,7 @@ export type RoomCreateOptions = {
 	roomId: RoomId;
 	consumerReplicas: number;
 	usePipeTransports: boolean;
+	lobby: boolean;
 	config: ServerConfig;
 	producerRouter: mediasoupTypes.Router;
 	consumerRouter: mediasoupTypes.Router;
@@ -47,6 +67,7 @@ type RoomConstructorOptions = {
 	roomId: RoomId;
 	consumerReplicas: number;
 	usePipeTransports: boolean;
+	lobby: boolean;
 	config: ServerConfig;
 	producerRouter: mediasoupTypes.Router;
 	consumerRouter: mediasoupTypes.Router;
@@ -58,11 +79,33 @@ type RoomConstructorOptions = {
 	bot: Bot;
 };
 
+type ConsumerRouterData = {
+	router: mediasoupTypes.Router;
+	webRtcServer: mediasoupTypes.WebRtcServer;
+	numConsumers: number;
+};
+
 export type RoomEvents = {
 	/**
 	 * Emitted when the Room is closed no matter how.
 	 */
 	closed: [];
+	/**
+	 * Emitted when a Peer joins the Room.
+	 */
+	'peer-joined': [{ peer: SerializedPeer }];
+	/**
+	 * Emitted when a BroadcasterPeer joins the Room.
+	 */
+	'broadcaster-peer-joined': [{ peer: SerializedPeer }];
+	/**
+	 * Emitted when a joined Peer or BroadcasterPeer leaves the Room.
+	 */
+	'peer-left': [{ peerId: PeerId }];
+	/**
+	 * Emitted when a local Peer or BroadcasterPeer creates a Producer.
+	 */
+	'new-producer': [{ producer: mediasoupTypes.Producer<ProducerAppData> }];
 	/**
 	 * Emitted to apply network throttle.
 	 */
@@ -84,6 +127,20 @@ export type RoomEvents = {
 		resolve: () => void,
 		reject: (error: Error) => void,
 	];
+	/**
+	 * Emitted to create a new consumer Router (in a mediasoup Worker chosen by
+	 * the Server) to grow the pool of consumer Routers.
+	 */
+	'create-consumer-router': [
+		resolve: ({
+			router,
+			webRtcServer,
+		}: {
+			router: mediasoupTypes.Router;
+			webRtcServer: mediasoupTypes.WebRtcServer;
+		}) => void,
+		reject: (error: Error) => void,
+	];
 };
 
 export class Room extends EnhancedEventEmitter<RoomEvents> {
@@ -91,11 +148,16 @@ export class Room extends EnhancedEventEmitter<RoomEvents> {
 	readonly #roomId: RoomId;
 	readonly #consumerReplicas: number;
 	readonly #usePipeTransports: boolean;
+	readonly #lobby: boolean;
 	readonly #config: ServerConfig;
 	readonly #producerRouter: mediasoupTypes.Router;
-	readonly #consumerRouter: mediasoupTypes.Router;
 	readonly #producerWebRtcServer: mediasoupTypes.WebRtcServer;
-	readonly #consumerWebRtcServer: mediasoupTypes.WebRtcServer;
+	readonly #consumerRouters: ConsumerRouterData[] = [];
+	readonly #consumerRoutersByPeer: Map<
+		Peer | BroadcasterPeer,
+		ConsumerRouterData
+	> = new Map();
+	#consumerRouterPoolGrowth?: Promise<ConsumerRouterData>;
 	readonly #audioLevelObserver: mediasoupTypes.AudioLevelObserver;
 	readonly #activeSpeakerObserver: mediasoupTypes.ActiveSpeakerObserver;
 	readonly #observedProducers: Map<
@@ -105,9 +167,18 @@ export class Room extends EnhancedEventEmitter<RoomEvents> {
 	readonly #protooRoom: protooTypes.Room;
 	readonly #bot: Bot;
 	readonly #joiningPeers: Map<string, Peer> = new Map();
+	readonly #waitingPeers: Map<string, Peer> = new Map();
 	readonly #peers: Map<string, Peer> = new Map();
 	readonly #joiningBroadcasterPeers: Map<string, BroadcasterPeer> = new Map();
 	readonly #broadcasterPeers: Map<string, BroadcasterPeer> = new Map();
+	readonly #cascadeLinks: Map<string, CascadeLink> = new Map();
+	readonly #cascadeLinkCreations: Map<string, Promise<CascadeLink>> = new Map();
+	readonly #kickedPeerIds: Set<PeerId> = new Set();
+	readonly #admittedPeerIds: Set<PeerId> = new Set();
+	#locked: boolean = false;
+	#recorder?: Recorder;
+	#recorderCreation?: Promise<Recorder>;
+	#shutdownDeadline?: Date;
 	readonly #createdAt: Date;
 	#closed: boolean = false;
 
@@ -115,6 +186,7 @@ export class Room extends EnhancedEventEmitter<RoomEvents> {
 		roomId,
 		consumerReplicas,
 		usePipeTransports,
+		lobby,
 		config,
 		producerRouter,
 		consumerRouter,
@@ -122,9 +194,10 @@ export class Room extends EnhancedEventEmitter<RoomEvents> {
 		consumerWebRtcServer,
 	}: RoomCreateOptions): Promise<Room> {
 		staticLogger.debug(
-			'create() [roomId:%o, usePipeTransports:%o]',
+			'create() [roomId:%o, usePipeTransports:%o, lobby:%o]',
 			roomId,
-			usePipeTransports
+			usePipeTransports,
+			lobby
 		);
 
 		const logger = new Logger(`[roomId:${roomId}]`, staticLogger);
@@ -151,6 +224,7 @@ export class Room extends EnhancedEventEmitter<RoomEvents> {
 			roomId,
 			consumerReplicas,
 			usePipeTransports,
+			lobby,
 			config,
 			producerRouter,
 			consumerRouter,
@@ -170,6 +244,7 @@ export class Room extends EnhancedEventEmitter<RoomEvents> {
 		roomId,
 		consumerReplicas,
 		usePipeTransports,
+		lobby,
 		config,
 		producerRouter,
 		consumerRouter,
@@ -189,11 +264,10 @@ export class Room extends EnhancedEventEmitter<RoomEvents> {
 		this.#roomId = roomId;
 		this.#consumerReplicas = consumerReplicas;
 		this.#usePipeTransports = usePipeTransports;
+		this.#lobby = lobby;
 		this.#config = config;
 		this.#producerRouter = producerRouter;
-		this.#consumerRouter = consumerRouter;
 		this.#producerWebRtcServer = producerWebRtcServer;
-		this.#consumerWebRtcServer = consumerWebRtcServer;
 		this.#audioLevelObserver = audioLevelObserver;
 		this.#activeSpeakerObserver = activeSpeakerObserver;
 		this.#protooRoom = protooRoom;
@@ -201,11 +275,14 @@ export class Room extends EnhancedEventEmitter<RoomEvents> {
 		this.#createdAt = new Date();
 
 		this.handleProducerRouter();
-		this.handleConsumerRouter();
 		this.handleProducerWebRtcServer();
-		this.handleConsumerWebRtcServer();
+		this.addConsumerRouter({
+			router: consumerRouter,
+			webRtcServer: consumerWebRtcServer,
+		});
 		this.handleAudioLevelObserver();
 		this.handleActiveSpeakerObserver();
+		this.connectCascadeNodes();
 	}
 
 	get id(): RoomId {
@@ -221,10 +298,22 @@ export class Room extends EnhancedEventEmitter<RoomEvents> {
 
 		this.#closed = true;
 
+		// NOTE: Do it first so FFmpeg processes are asked to finalize their files
+		// before closing Producers.
+		void this.#recorder?.stop();
+
+		for (const cascadeLink of this.#cascadeLinks.values()) {
+			cascadeLink.close();
+		}
+
 		for (const peer of this.#joiningPeers.values()) {
 			peer.close();
 		}
 
+		for (const peer of this.#waitingPeers.values()) {
+			peer.close();
+		}
+
 		for (const peer of this.#peers.values()) {
 			peer.close();
 		}
@@ -241,7 +330,9 @@ export class Room extends EnhancedEventEmitter<RoomEvents> {
 
 		this.#producerRouter.close();
 
-		this.#consumerRouter.close();
+		for (const { router } of this.#consumerRouters) {
+			router.close();
+		}
 
 		this.emit('closed');
 	}
@@ -252,15 +343,49 @@ export class Room extends EnhancedEventEmitter<RoomEvents> {
 			createdAt: this.#createdAt,
 			numPeers: this.#peers.size,
 			numJoiningPeers: this.#joiningPeers.size,
+			numWaitingPeers: this.#waitingPeers.size,
 			peers: this.getAllPeers().map(peer => peer.serialize()),
 			numBroadcasterPeers: this.#broadcasterPeers.size,
 			numJoiningBroadcasterPeers: this.#joiningBroadcasterPeers.size,
 			broadcasterPeers: this.getAllBroadcasterPeers().map(broadcasterPeer =>
 				broadcasterPeer.serialize()
 			),
+			locked: this.#locked,
+			lobby: this.#lobby,
+			recording: Boolean(this.#recorder),
+			consumerRouters: this.#consumerRouters.map(({ router, numConsumers }) => {
+				return { routerId: router.id, numConsumers };
+			}),
+			numRemotePeers: this.getRemotePeers().length,
+			cascadeLinks: Array.from(this.#cascadeLinks.values()).map(cascadeLink => {
+				return {
+					nodeId: cascadeLink.nodeId,
+					connected: cascadeLink.connected,
+				};
+			}),
 		};
 	}
 
+	/**
+	 * Lets all Peers (also those joining later) know that the server is going
+	 * to be shut down at `deadline` at most.
+	 */
+	notifyServerShuttingDown({ deadline }: { deadline: Date }): void {
+		this.#logger.debug('notifyServerShuttingDown() [deadline:%o]', deadline);
+
+		this.#shutdownDeadline = deadline;
+
+		for (const peer of this.getAllPeers()) {
+			peer.notify('serverShuttingDown', { deadline: deadline.getTime() });
+		}
+
+		for (const broadcasterPeer of this.getAllBroadcasterPeers()) {
+			broadcasterPeer.notify('serverShuttingDown', {
+				deadline: deadline.getTime(),
+			});
+		}
+	}
+
 	getBroadcasterPeer(peerId: PeerId): BroadcasterPeer | undefined {
 		return (
 			this.#broadcasterPeers.get(peerId) ??
@@ -268,26 +393,107 @@ export class Room extends EnhancedEventEmitter<RoomEvents> {
 		);
 	}
 
+	/**
+	 * Throws if a Peer with the given `peerId` and `role` (if given by its access
+	 * token) is not allowed to join the Room.
+	 *
+	 * @throws {ForbiddenError} If the Peer was kicked or if the Room is locked.
+	 */
+	assertCanJoin({ peerId, role }: { peerId: PeerId; role?: PeerRole }): void {
+		if (this.#kickedPeerIds.has(peerId)) {
+			throw new ForbiddenError('Peer has been kicked from the Room');
+		}
+
+		// NOTE: Allow moderators and reconnecting Peers (and BroadcasterPeers) into
+		// a locked Room.
+		if (
+			this.#locked &&
+			role !== 'moderator' &&
+			!this.#peers.has(peerId) &&
+			!this.#joiningPeers.has(peerId) &&
+			!this.#broadcasterPeers.has(peerId) &&
+			!this.#joiningBroadcasterPeers.has(peerId)
+		) {
+			throw new ForbiddenError('Room is locked');
+		}
+	}
+
+	/**
+	 * @remarks
+	 * - If `role` is not given (no access token), the Peer becomes moderator if
+	 *   there is no other moderator in the Room.
+	 * - If a valid `resumptionToken` is given, the existing Peer is resumed with
+	 *   the new protoo connection instead of creating a new Peer.
+	 */
 	processWsConnection({
 		peerId,
+		role,
+		resumptionToken,
 		protooTransport,
 		remoteAddress,
 	}: {
 		peerId: PeerId;
+		role?: PeerRole;
+		resumptionToken?: string;
 		protooTransport: protooTypes.WebSocketTransport;
 		remoteAddress: string;
 	}): void {
 		this.#logger.debug('processWsConnection() [peerId:%o]', peerId);
 
+		try {
+			this.assertCanJoin({ peerId, role });
+		} catch (error) {
+			protooTransport.close();
+
+			throw error;
+		}
+
+		if (resumptionToken) {
+			const existingPeer = this.#peers.get(peerId);
+
+			if (existingPeer?.canResume(resumptionToken)) {
+				this.#logger.debug(
+					'processWsConnection() | resuming existing Peer [peerId:%o]',
+					peerId
+				);
+
+				// NOTE: The previous protoo connection may not have been detected as
+				// closed yet. Closing it suspends the Peer.
+				if (this.#protooRoom.hasPeer(peerId)) {
+					this.#protooRoom.getPeer(peerId).close();
+				}
+
+				const protooPeer = this.#protooRoom.createPeer(peerId, protooTransport);
+
+				existingPeer.resume({ protooPeer });
+
+				return;
+			}
+
+			this.#logger.debug(
+				'processWsConnection() | invalid or expired resumption token, ignoring it [peerId:%o]',
+				peerId
+			);
+		}
+
 		this.mayCloseExistingPeer(peerId);
 
+		const effectiveRole: PeerRole =
+			role ?? (this.hasModerator() ? 'participant' : 'moderator');
+
 		this.#logger.debug(
-			'processWsConnection() | creating a new Peer [peerId:%o]',
-			peerId
+			'processWsConnection() | creating a new Peer [peerId:%o, role:%o]',
+			peerId,
+			effectiveRole
 		);
 
 		const protooPeer = this.#protooRoom.createPeer(peerId, protooTransport);
-		const peer = Peer.create({ peerId, protooPeer, remoteAddress });
+		const peer = Peer.create({
+			peerId,
+			role: effectiveRole,
+			protooPeer,
+			remoteAddress,
+		});
 
 		// NOTE: The Peer is not yet joined. It will once it sends 'join' request.
 		this.#joiningPeers.set(peer.id, peer);
@@ -351,6 +557,48 @@ export class Room extends EnhancedEventEmitter<RoomEvents> {
 		});
 	}
 
+	/**
+	 * Processes a request from the Room with same `roomId` in the remote node
+	 * with the given `nodeId` (cascading).
+	 */
+	async processCascadeRequest<Name extends CascadeRequestName>({
+		nodeId,
+		name,
+		data,
+	}: {
+		nodeId: string;
+		name: Name;
+		data: CascadeRequestData<Name>;
+	}): Promise<CascadeRequestResponseData<Name>> {
+		const cascadeLink =
+			name === 'connect'
+				? await this.getOrCreateCascadeLink(nodeId)
+				: (this.#cascadeLinks.get(nodeId) ??
+					(await this.#cascadeLinkCreations.get(nodeId)));
+
+		if (!cascadeLink) {
+			throw new InvalidStateError(`no cascade link with node '${nodeId}'`);
+		}
+
+		return new Promise((resolve, reject) => {
+			cascadeLink
+				.handleRequest({
+					name,
+					data,
+					accept: resolve,
+				} as TypedCascadeRequest)
+				.catch(error => {
+					this.#logger.warn(
+						`cascade request processing failed [nodeId:%o, name:%o]: ${error}`,
+						nodeId,
+						name
+					);
+
+					reject(error as Error);
+				});
+		});
+	}
+
 	private mayClose(): void {
 		// If this is the latest Peer in the Room, close the Room.
 		// NOTE: Run it in next loop iteration to avoid the case in which there is
@@ -358,11 +606,16 @@ export class Room extends EnhancedEventEmitter<RoomEvents> {
 		// connection.
 		//
 		// NOTE: We do not take into account BroadcasterPeers.
+		//
+		// NOTE: The Room is kept open while there are Peers in remote nodes so
+		// local Peers joining later can see them.
 		setImmediate(() => {
 			if (
 				!this.#closed &&
 				this.#peers.size === 0 &&
-				this.#joiningPeers.size === 0
+				this.#joiningPeers.size === 0 &&
+				this.#waitingPeers.size === 0 &&
+				this.getRemotePeers().length === 0
 			) {
 				this.#logger.info('last Peer in the Room left, closing the Room');
 
@@ -371,161 +624,788 @@ export class Room extends EnhancedEventEmitter<RoomEvents> {
 		});
 	}
 
-	private getAllPeers(): Peer[] {
-		return Array.from(this.#peers.values());
-	}
+	/**
+	 * Called when a mediasoup Router or WebRtcServer used by the Room is closed
+	 * (its mediasoup Worker died). Peers are asked to rejoin, which will create
+	 * a new Room in an alive Worker.
+	 */
+	private closeForRestart(): void {
+		if (this.#closed) {
+			return;
+		}
 
-	private getOtherPeers(excludedPeer: Peer): Peer[] {
-		return Array.from(this.#peers.values()).filter(
-			peer => peer !== excludedPeer
+		this.#logger.warn(
+			'mediasoup Router or WebRtcServer closed, closing the Room and asking Peers to rejoin'
 		);
+
+		for (const peer of [
+			...this.#joiningPeers.values(),
+			...this.#waitingPeers.values(),
+			...this.#peers.values(),
+		]) {
+			peer.notify('roomRestarting');
+		}
+
+		for (const broadcasterPeer of this.getAllBroadcasterPeers()) {
+			broadcasterPeer.notify('roomRestarting');
+		}
+
+		this.close();
 	}
 
-	private getAllBroadcasterPeers(): BroadcasterPeer[] {
-		return Array.from(this.#broadcasterPeers.values());
+	private getMainConsumerRouter(): mediasoupTypes.Router {
+		return this.#consumerRouters[0]!.router;
 	}
 
-	private getOtherBroadcasterPeers(
-		excludedBroadcasterPeer: BroadcasterPeer
-	): BroadcasterPeer[] {
-		return Array.from(this.#broadcasterPeers.values()).filter(
-			broadcasterPeer => broadcasterPeer !== excludedBroadcasterPeer
-		);
+	/**
+	 * Get the consumer Router assigned to the given Peer or BroadcasterPeer (or
+	 * the main one if none has been assigned yet).
+	 */
+	private getConsumerRouter(
+		peer: Peer | BroadcasterPeer
+	): mediasoupTypes.Router {
+		const consumerRouterData =
+			this.#consumerRoutersByPeer.get(peer) ?? this.#consumerRouters[0]!;
+
+		return consumerRouterData.router;
 	}
 
-	private mayCloseExistingPeer(peerId: PeerId): void {
-		const existingPeer = this.#peers.get(peerId);
+	/**
+	 * Assigns the least loaded consumer Router to the given Peer or
+	 * BroadcasterPeer (unless already assigned).
+	 */
+	private async assignConsumerRouter(
+		peer: Peer | BroadcasterPeer
+	): Promise<ConsumerRouterData> {
+		let consumerRouterData = this.#consumerRoutersByPeer.get(peer);
 
-		if (existingPeer) {
-			this.#logger.warn(
-				'mayCloseExistingPeer() | there is already a Peer with same peerId, closing it [peerId:%o]',
-				peerId
-			);
+		if (!consumerRouterData) {
+			consumerRouterData = await this.getLeastLoadedConsumerRouter();
 
-			existingPeer.close();
+			this.#consumerRoutersByPeer.set(peer, consumerRouterData);
 		}
 
-		const existingJoiningPeer = this.#joiningPeers.get(peerId);
+		return consumerRouterData;
+	}
 
-		if (existingJoiningPeer) {
+	/**
+	 * Get the consumer Router with less Consumers. If it has too many Consumers
+	 * and the pool of consumer Routers is enabled, a new consumer Router is
+	 * created.
+	 */
+	private async getLeastLoadedConsumerRouter(): Promise<ConsumerRouterData> {
+		const leastLoadedConsumerRouter = this.#consumerRouters.reduce((a, b) =>
+			b.numConsumers < a.numConsumers ? b : a
+		);
+		const { consumerRouterPool } = this.#config.mediasoup;
+
+		if (
+			!this.#usePipeTransports ||
+			!consumerRouterPool ||
+			leastLoadedConsumerRouter.numConsumers <
+				consumerRouterPool.maxConsumersPerRouter ||
+			this.#consumerRouters.length >= consumerRouterPool.maxConsumerRouters
+		) {
+			return leastLoadedConsumerRouter;
+		}
+
+		try {
+			// NOTE: Avoid creating many Routers if many Peers join at the same time.
+			this.#consumerRouterPoolGrowth ??= this.growConsumerRouterPool().finally(
+				() => {
+					this.#consumerRouterPoolGrowth = undefined;
+				}
+			);
+
+			return await this.#consumerRouterPoolGrowth;
+		} catch (error) {
 			this.#logger.warn(
-				'mayCloseExistingPeer() | there is already a joining Peer with same peerId, closing it [peerId:%o]',
-				peerId
+				`getLeastLoadedConsumerRouter() | failed to grow the pool of consumer Routers: ${error}`
 			);
 
-			existingJoiningPeer.close();
+			return leastLoadedConsumerRouter;
 		}
+	}
 
-		const existingBroadcasterPeer = this.#broadcasterPeers.get(peerId);
+	private async growConsumerRouterPool(): Promise<ConsumerRouterData> {
+		this.#logger.debug('growConsumerRouterPool()');
 
-		if (existingBroadcasterPeer) {
-			this.#logger.warn(
-				'mayCloseExistingPeer() | there is already a BroadcasterPeer with same peerId, closing it [peerId:%o]',
-				peerId
-			);
+		const { router, webRtcServer } = await new Promise<{
+			router: mediasoupTypes.Router;
+			webRtcServer: mediasoupTypes.WebRtcServer;
+		}>((resolve, reject) => {
+			this.emit('create-consumer-router', resolve, reject);
+		});
 
-			existingBroadcasterPeer.close();
+		if (this.#closed) {
+			router.close();
+
+			throw new InvalidStateError('Room closed');
 		}
 
-		const existingJoiningBroadcasterPeer =
-			this.#joiningBroadcasterPeers.get(peerId);
+		const consumerRouterData = this.addConsumerRouter({ router, webRtcServer });
+		const promises: Promise<void>[] = [];
 
-		if (existingJoiningBroadcasterPeer) {
-			this.#logger.warn(
-				'mayCloseExistingPeer() | there is already a joining BroadcasterPeer with same peerId, closing it [peerId:%o]',
-				peerId
-			);
+		// Pipe existing Producers and DataProducers into the new Router.
+		for (const producer of this.#observedProducers.values()) {
+			promises.push(this.pipeToRouter({ producerId: producer.id, router }));
+		}
 
-			existingJoiningBroadcasterPeer.close();
+		for (const anyPeer of [
+			...this.getAllPeers(),
+			...this.getAllBroadcasterPeers(),
+		]) {
+			for (const chatDataProducer of anyPeer.getChatDataProducers()) {
+				promises.push(
+					this.pipeToRouter({ dataProducerId: chatDataProducer.id, router })
+				);
+			}
 		}
+
+		promises.push(
+			this.pipeToRouter({
+				dataProducerId: this.#bot.getDataProducer().id,
+				router,
+			})
+		);
+
+		await Promise.all(promises);
+
+		this.#logger.info(
+			'growConsumerRouterPool() | new consumer Router added [routerId:%o, numConsumerRouters:%o]',
+			router.id,
+			this.#consumerRouters.length
+		);
+
+		return consumerRouterData;
 	}
 
-	private handlePeer(peer: Peer): void {
-		peer.on('closed', () => {
-			this.#joiningPeers.delete(peer.id);
-			this.#peers.delete(peer.id);
+	private addConsumerRouter({
+		router,
+		webRtcServer,
+	}: {
+		router: mediasoupTypes.Router;
+		webRtcServer: mediasoupTypes.WebRtcServer;
+	}): ConsumerRouterData {
+		const consumerRouterData: ConsumerRouterData = {
+			router,
+			webRtcServer,
+			numConsumers: 0,
+		};
 
-			this.mayClose();
-		});
+		this.#consumerRouters.push(consumerRouterData);
 
-		peer.on('joined', callback => {
-			this.#joiningPeers.delete(peer.id);
-			this.#peers.set(peer.id, peer);
+		this.handleConsumerRouter(consumerRouterData);
 
-			const otherPeers = this.getOtherPeers(peer);
-			const broadcasterPeers = this.getAllBroadcasterPeers();
+		return consumerRouterData;
+	}
 
-			callback([
-				...otherPeers.map(otherPeer => otherPeer.serialize()),
-				...broadcasterPeers.map(broadcasterPeer => broadcasterPeer.serialize()),
-			]);
+	/**
+	 * Pipes the given Producer or DataProducer of the producer Router into all
+	 * consumer Routers.
+	 */
+	private async pipeToConsumerRouters({
+		producerId,
+		dataProducerId,
+	}: {
+		producerId?: string;
+		dataProducerId?: string;
+	}): Promise<void> {
+		await Promise.all(
+			this.#consumerRouters.map(({ router }) =>
+				this.pipeToRouter({ producerId, dataProducerId, router })
+			)
+		);
+	}
 
-			for (const otherPeer of otherPeers) {
-				otherPeer.notify('newPeer', { peer: peer.serialize() });
+	private async pipeToRouter({
+		producerId,
+		dataProducerId,
+		router,
+	}: {
+		producerId?: string;
+		dataProducerId?: string;
+		router: mediasoupTypes.Router;
+	}): Promise<void> {
+		try {
+			await this.#producerRouter.pipeToRouter({
+				producerId,
+				dataProducerId,
+				router,
+			});
+		} catch (error) {
+			this.#logger.warn(
+				`pipeToRouter() | failed [producerId:%o, dataProducerId:%o, routerId:%o]: ${error}`,
+				producerId,
+				dataProducerId,
+				router.id
+			);
+		}
+	}
 
-				for (const producer of otherPeer.getProducers()) {
-					void peer.consume({
-						producer,
-						consumerReplicas: this.#consumerReplicas,
-					});
-				}
+	/**
+	 * Links the Room with the Room with same `roomId` in every remote node (if
+	 * cascading is enabled).
+	 */
+	private connectCascadeNodes(): void {
+		const { cascade } = this.#config;
 
-				for (const chatDataProducer of otherPeer.getChatDataProducers()) {
-					void peer.consumeData({ dataProducer: chatDataProducer });
-				}
-			}
+		if (!cascade) {
+			return;
+		}
 
-			for (const broadcasterPeer of broadcasterPeers) {
-				for (const producer of broadcasterPeer.getProducers()) {
-					void peer.consume({
-						producer,
-						consumerReplicas: this.#consumerReplicas,
-					});
-				}
-			}
+		for (const { nodeId } of cascade.nodes) {
+			this.getOrCreateCascadeLink(nodeId)
+				.then(async cascadeLink => cascadeLink.connectToRemote())
+				.catch(error => {
+					this.#logger.warn(
+						`connectCascadeNodes() | failed to link with remote node [nodeId:%o]: ${error}`,
+						nodeId
+					);
+				});
+		}
+	}
 
-			void peer.consumeData({ dataProducer: this.#bot.getDataProducer() });
-		});
+	private async getOrCreateCascadeLink(nodeId: string): Promise<CascadeLink> {
+		const cascadeLink = this.#cascadeLinks.get(nodeId);
 
-		peer.on('disconnected', () => {
-			const otherPeers = this.getOtherPeers(peer);
+		if (cascadeLink) {
+			return cascadeLink;
+		}
 
-			for (const otherPeer of otherPeers) {
-				otherPeer.notify('peerClosed', { peerId: peer.id });
-			}
-		});
+		let cascadeLinkCreation = this.#cascadeLinkCreations.get(nodeId);
 
-		peer.on('get-router-rtp-capabilities', callback => {
-			callback(this.#consumerRouter.rtpCapabilities);
-		});
+		if (!cascadeLinkCreation) {
+			// NOTE: Both nodes may initiate the link at the same time, so avoid
+			// creating two CascadeLinks for the same remote node.
+			cascadeLinkCreation = this.createCascadeLink(nodeId).finally(() => {
+				this.#cascadeLinkCreations.delete(nodeId);
+			});
 
-		peer.on(
-			'create-webrtc-transport',
-			// eslint-disable-next-line @typescript-eslint/no-misused-promises
-			async ({ direction, sctpCapabilities, forceTcp }, resolve, reject) => {
-				try {
-					let mediasoupRouter: mediasoupTypes.Router;
-					let mediasoupWebRtcServer: mediasoupTypes.WebRtcServer;
+			this.#cascadeLinkCreations.set(nodeId, cascadeLinkCreation);
+		}
 
-					switch (direction) {
-						case 'producer': {
-							mediasoupRouter = this.#producerRouter;
-							mediasoupWebRtcServer = this.#producerWebRtcServer;
+		return cascadeLinkCreation;
+	}
 
-							break;
-						}
+	private async createCascadeLink(nodeId: string): Promise<CascadeLink> {
+		const { cascade } = this.#config;
+		const remoteNode = cascade?.nodes.find(node => node.nodeId === nodeId);
 
-						case 'consumer': {
-							mediasoupRouter = this.#consumerRouter;
-							mediasoupWebRtcServer = this.#consumerWebRtcServer;
+		if (!cascade || !remoteNode) {
+			throw new ForbiddenError(`unknown cascade node '${nodeId}'`);
+		}
 
-							break;
-						}
+		const cascadeLink = await CascadeLink.create({
+			roomId: this.#roomId,
+			localNodeId: cascade.nodeId,
+			remoteNode,
+			secret: cascade.secret,
+			router: this.#producerRouter,
+			listenInfo: cascade.pipeTransportListenInfo,
+		});
 
-						default: {
-							assertUnreachable('invalid transport direction', direction);
-						}
-					}
+		if (this.#closed) {
+			cascadeLink.close();
+
+			throw new InvalidStateError('Room closed');
+		}
+
+		this.#cascadeLinks.set(nodeId, cascadeLink);
+
+		this.handleCascadeLink(cascadeLink);
+
+		return cascadeLink;
+	}
+
+	private getConnectedCascadeLinks(): CascadeLink[] {
+		return Array.from(this.#cascadeLinks.values()).filter(
+			cascadeLink => cascadeLink.connected
+		);
+	}
+
+	private getRemotePeers(): SerializedPeer[] {
+		return Array.from(this.#cascadeLinks.values()).flatMap(cascadeLink =>
+			cascadeLink.getRemotePeers()
+		);
+	}
+
+	private getAllPeers(): Peer[] {
+		return Array.from(this.#peers.values());
+	}
+
+	private getOtherPeers(excludedPeer: Peer): Peer[] {
+		return Array.from(this.#peers.values()).filter(
+			peer => peer !== excludedPeer
+		);
+	}
+
+	private getModeratorPeers(): Peer[] {
+		return Array.from(this.#peers.values()).filter(
+			peer => peer.role === 'moderator'
+		);
+	}
+
+	private hasModerator(): boolean {
+		return [...this.#peers.values(), ...this.#joiningPeers.values()].some(
+			peer => peer.role === 'moderator'
+		);
+	}
+
+	private assertAndGetPeer(peerId: PeerId): Peer {
+		const peer = this.#peers.get(peerId);
+
+		if (!peer) {
+			throw new PeerNotFound(`Peer '${peerId}' not found`);
+		}
+
+		return peer;
+	}
+
+	/**
+	 * Kicks the Peer with given `peerId` so it cannot join again.
+	 *
+	 * @remarks
+	 * - `moderatorPeerId` is unset if kicked by an admin.
+	 *
+	 * @throws {PeerNotFound} If there is no such a joined Peer.
+	 */
+	private kickPeer({
+		peerId,
+		moderatorPeerId,
+		reason,
+	}: {
+		peerId: PeerId;
+		moderatorPeerId?: PeerId;
+		reason?: string;
+	}): void {
+		const targetPeer = this.assertAndGetPeer(peerId);
+
+		this.#logger.info(
+			'Peer kicked [peerId:%o, moderatorPeerId:%o, reason:%o]',
+			peerId,
+			moderatorPeerId,
+			reason
+		);
+
+		this.#kickedPeerIds.add(peerId);
+
+		for (const otherPeer of this.getOtherPeers(targetPeer)) {
+			otherPeer.notify('peerKicked', {
+				peerId,
+				moderatorPeerId,
+				reason,
+			});
+		}
+
+		for (const broadcasterPeer of this.getAllBroadcasterPeers()) {
+			broadcasterPeer.notify('peerKicked', {
+				peerId,
+				moderatorPeerId,
+				reason,
+			});
+		}
+
+		// NOTE: The kicked Peer is notified by itself before being closed.
+		void targetPeer.kick({ moderatorPeerId, reason });
+	}
+
+	/**
+	 * Starts recording all Producers of local Peers and BroadcasterPeers,
+	 * including those created later.
+	 *
+	 * @remarks
+	 * - `moderatorPeerId` is unset if started by an admin.
+	 *
+	 * @throws {UnsupportedError} If recording is not enabled in the config.
+	 * @throws {InvalidStateError} If the Room is already being recorded.
+	 */
+	private async startRecording({
+		moderatorPeerId,
+	}: {
+		moderatorPeerId?: PeerId;
+	}): Promise<Recorder> {
+		const recordingConfig = this.#config.recording;
+
+		if (!recordingConfig) {
+			throw new UnsupportedError('recording is not enabled');
+		}
+
+		if (this.#recorder || this.#recorderCreation) {
+			throw new InvalidStateError('Room is already being recorded');
+		}
+
+		let recorder: Recorder;
+
+		try {
+			this.#recorderCreation = Recorder.create({
+				roomId: this.#roomId,
+				recordingConfig,
+				plainTransportOptions: this.#config.mediasoup.plainTransportOptions,
+				router: this.getMainConsumerRouter(),
+			});
+
+			recorder = await this.#recorderCreation;
+		} finally {
+			this.#recorderCreation = undefined;
+		}
+
+		if (this.#closed) {
+			await recorder.stop();
+
+			throw new InvalidStateError('Room closed');
+		}
+
+		this.#logger.info(
+			'recording started [moderatorPeerId:%o]',
+			moderatorPeerId
+		);
+
+		this.#recorder = recorder;
+
+		for (const anyPeer of [
+			...this.getAllPeers(),
+			...this.getAllBroadcasterPeers(),
+		]) {
+			for (const producer of anyPeer.getProducers()) {
+				void recorder.addProducer(producer);
+			}
+		}
+
+		for (const cascadeLink of this.getConnectedCascadeLinks()) {
+			for (const producer of cascadeLink.getRemoteProducers()) {
+				void recorder.addProducer(producer);
+			}
+		}
+
+		for (const peer of this.getAllPeers()) {
+			peer.notify('recordingStateChanged', {
+				recording: true,
+				moderatorPeerId,
+			});
+		}
+
+		for (const broadcasterPeer of this.getAllBroadcasterPeers()) {
+			broadcasterPeer.notify('recordingStateChanged', {
+				recording: true,
+				moderatorPeerId,
+			});
+		}
+
+		return recorder;
+	}
+
+	/**
+	 * @remarks
+	 * - `moderatorPeerId` is unset if stopped by an admin.
+	 *
+	 * @throws {InvalidStateError} If the Room is not being recorded.
+	 */
+	private async stopRecording({
+		moderatorPeerId,
+	}: {
+		moderatorPeerId?: PeerId;
+	}): Promise<void> {
+		const recorder = this.#recorder;
+
+		if (!recorder) {
+			throw new InvalidStateError('Room is not being recorded');
+		}
+
+		this.#logger.info(
+			'recording stopped [moderatorPeerId:%o]',
+			moderatorPeerId
+		);
+
+		this.#recorder = undefined;
+
+		for (const peer of this.getAllPeers()) {
+			peer.notify('recordingStateChanged', {
+				recording: false,
+				moderatorPeerId,
+			});
+		}
+
+		for (const broadcasterPeer of this.getAllBroadcasterPeers()) {
+			broadcasterPeer.notify('recordingStateChanged', {
+				recording: false,
+				moderatorPeerId,
+			});
+		}
+
+		await recorder.stop();
+	}
+
+	private assertAndGetWaitingPeer(peerId: PeerId): Peer {
+		const peer = this.#waitingPeers.get(peerId);
+
+		if (!peer) {
+			throw new PeerNotFound(`Peer '${peerId}' not waiting in the lobby`);
+		}
+
+		return peer;
+	}
+
+	private getAllBroadcasterPeers(): BroadcasterPeer[] {
+		return Array.from(this.#broadcasterPeers.values());
+	}
+
+	private getOtherBroadcasterPeers(
+		excludedBroadcasterPeer: BroadcasterPeer
+	): BroadcasterPeer[] {
+		return Array.from(this.#broadcasterPeers.values()).filter(
+			broadcasterPeer => broadcasterPeer !== excludedBroadcasterPeer
+		);
+	}
+
+	/**
+	 * Chat DataProducers of all Peers and BroadcasterPeers but the given one.
+	 */
+	private getOtherChatDataProducers(
+		excludedBroadcasterPeer: BroadcasterPeer
+	): mediasoupTypes.DataProducer<DataProducerAppData>[] {
+		return [
+			...this.getAllPeers(),
+			...this.getOtherBroadcasterPeers(excludedBroadcasterPeer),
+		].flatMap(anyPeer => anyPeer.getChatDataProducers());
+	}
+
+	private mayCloseExistingPeer(peerId: PeerId): void {
+		const existingPeer = this.#peers.get(peerId);
+
+		if (existingPeer) {
+			this.#logger.warn(
+				'mayCloseExistingPeer() | there is already a Peer with same peerId, closing it [peerId:%o]',
+				peerId
+			);
+
+			existingPeer.supersede();
+		}
+
+		const existingJoiningPeer = this.#joiningPeers.get(peerId);
+
+		if (existingJoiningPeer) {
+			this.#logger.warn(
+				'mayCloseExistingPeer() | there is already a joining Peer with same peerId, closing it [peerId:%o]',
+				peerId
+			);
+
+			existingJoiningPeer.close();
+		}
+
+		const existingWaitingPeer = this.#waitingPeers.get(peerId);
+
+		if (existingWaitingPeer) {
+			this.#logger.warn(
+				'mayCloseExistingPeer() | there is already a Peer with same peerId waiting in the lobby, closing it [peerId:%o]',
+				peerId
+			);
+
+			existingWaitingPeer.close();
+		}
+
+		const existingBroadcasterPeer = this.#broadcasterPeers.get(peerId);
+
+		if (existingBroadcasterPeer) {
+			this.#logger.warn(
+				'mayCloseExistingPeer() | there is already a BroadcasterPeer with same peerId, closing it [peerId:%o]',
+				peerId
+			);
+
+			existingBroadcasterPeer.close();
+		}
+
+		const existingJoiningBroadcasterPeer =
+			this.#joiningBroadcasterPeers.get(peerId);
+
+		if (existingJoiningBroadcasterPeer) {
+			this.#logger.warn(
+				'mayCloseExistingPeer() | there is already a joining BroadcasterPeer with same peerId, closing it [peerId:%o]',
+				peerId
+			);
+
+			existingJoiningBroadcasterPeer.close();
+		}
+	}
+
+	private handlePeer(peer: Peer): void {
+		peer.on('closed', () => {
+			this.#joiningPeers.delete(peer.id);
+			this.#peers.delete(peer.id);
+			this.#consumerRoutersByPeer.delete(peer);
+
+			if (this.#waitingPeers.delete(peer.id)) {
+				for (const moderatorPeer of this.getModeratorPeers()) {
+					moderatorPeer.notify('lobbyPeerLeft', { peerId: peer.id });
+				}
+			}
+
+			this.mayClose();
+		});
+
+		peer.on('get-must-wait-in-lobby', callback => {
+			// NOTE: Moderators and already admitted Peers (reconnecting) skip the
+			// lobby.
+			callback(
+				this.#lobby &&
+					peer.role !== 'moderator' &&
+					!this.#admittedPeerIds.has(peer.id)
+			);
+		});
+
+		peer.on('waiting', () => {
+			this.#joiningPeers.delete(peer.id);
+			this.#waitingPeers.set(peer.id, peer);
+
+			this.#logger.info('Peer waiting in the lobby [peerId:%o]', peer.id);
+
+			for (const moderatorPeer of this.getModeratorPeers()) {
+				moderatorPeer.notify('lobbyPeerWaiting', {
+					peerId: peer.id,
+					displayName: peer.displayName!,
+					device: peer.device!,
+				});
+			}
+		});
+
+		peer.on('joined', callback => {
+			this.#joiningPeers.delete(peer.id);
+			this.#waitingPeers.delete(peer.id);
+			this.#peers.set(peer.id, peer);
+
+			peerJoinsCounter.inc();
+
+			this.emit('peer-joined', { peer: peer.serialize() });
+
+			const otherPeers = this.getOtherPeers(peer);
+			const broadcasterPeers = this.getAllBroadcasterPeers();
+
+			callback([
+				...otherPeers.map(otherPeer => otherPeer.serialize()),
+				...broadcasterPeers.map(broadcasterPeer => broadcasterPeer.serialize()),
+				...this.getRemotePeers(),
+			]);
+
+			for (const cascadeLink of this.getConnectedCascadeLinks()) {
+				cascadeLink.notifyNewPeer(peer.serialize());
+
+				for (const producer of cascadeLink.getRemoteProducers()) {
+					void peer.consume({
+						producer,
+						consumerReplicas: this.#consumerReplicas,
+					});
+				}
+			}
+
+			for (const broadcasterPeer of broadcasterPeers) {
+				broadcasterPeer.notify('newPeer', { peer: peer.serialize() });
+			}
+
+			for (const otherPeer of otherPeers) {
+				otherPeer.notify('newPeer', { peer: peer.serialize() });
+
+				for (const producer of otherPeer.getProducers()) {
+					void peer.consume({
+						producer,
+						consumerReplicas: this.#consumerReplicas,
+					});
+				}
+
+				for (const chatDataProducer of otherPeer.getChatDataProducers()) {
+					void peer.consumeData({ dataProducer: chatDataProducer });
+				}
+			}
+
+			for (const broadcasterPeer of broadcasterPeers) {
+				for (const producer of broadcasterPeer.getProducers()) {
+					void peer.consume({
+						producer,
+						consumerReplicas: this.#consumerReplicas,
+					});
+				}
+
+				for (const chatDataProducer of broadcasterPeer.getChatDataProducers()) {
+					void peer.consumeData({ dataProducer: chatDataProducer });
+				}
+			}
+
+			void peer.consumeData({ dataProducer: this.#bot.getDataProducer() });
+
+			if (this.#recorder) {
+				peer.notify('recordingStateChanged', { recording: true });
+			}
+
+			if (this.#shutdownDeadline) {
+				peer.notify('serverShuttingDown', {
+					deadline: this.#shutdownDeadline.getTime(),
+				});
+			}
+
+			// Let a new moderator know about Peers already waiting in the lobby.
+			if (peer.role === 'moderator') {
+				for (const waitingPeer of this.#waitingPeers.values()) {
+					peer.notify('lobbyPeerWaiting', {
+						peerId: waitingPeer.id,
+						displayName: waitingPeer.displayName!,
+						device: waitingPeer.device!,
+					});
+				}
+			}
+		});
+
+		peer.on('disconnected', () => {
+			peerLeavesCounter.inc();
+
+			this.emit('peer-left', { peerId: peer.id });
+
+			const otherPeers = this.getOtherPeers(peer);
+
+			for (const otherPeer of otherPeers) {
+				otherPeer.notify('peerClosed', { peerId: peer.id });
+			}
+
+			for (const broadcasterPeer of this.getAllBroadcasterPeers()) {
+				broadcasterPeer.notify('peerClosed', { peerId: peer.id });
+			}
+
+			for (const cascadeLink of this.getConnectedCascadeLinks()) {
+				cascadeLink.notifyPeerClosed(peer.id);
+			}
+		});
+
+		peer.on('get-router-rtp-capabilities', callback => {
+			callback(this.getMainConsumerRouter().rtpCapabilities);
+		});
+
+		peer.on(
+			'create-webrtc-transport',
+			// eslint-disable-next-line @typescript-eslint/no-misused-promises
+			async ({ direction, sctpCapabilities, forceTcp }, resolve, reject) => {
+				try {
+					let mediasoupRouter: mediasoupTypes.Router;
+					let mediasoupWebRtcServer: mediasoupTypes.WebRtcServer;
+
+					switch (direction) {
+						case 'producer': {
+							mediasoupRouter = this.#producerRouter;
+							mediasoupWebRtcServer = this.#producerWebRtcServer;
+
+							break;
+						}
+
+						case 'consumer': {
+							({
+								router: mediasoupRouter,
+								webRtcServer: mediasoupWebRtcServer,
+							} = await this.assignConsumerRouter(peer));
+
+							break;
+						}
+
+						default: {
+							assertUnreachable('invalid transport direction', direction);
+						}
+					}
 
 					const transport =
 						await mediasoupRouter.createWebRtcTransport<WebRtcTransportAppData>(
@@ -561,13 +1441,18 @@ export class Room extends EnhancedEventEmitter<RoomEvents> {
 
 		// eslint-disable-next-line @typescript-eslint/no-misused-promises
 		peer.on('new-producer', async ({ producer }) => {
+			this.emit('new-producer', { producer });
+
+			for (const cascadeLink of this.getConnectedCascadeLinks()) {
+				void cascadeLink.sendProducer(producer);
+			}
+
 			if (this.#usePipeTransports) {
-				await this.#producerRouter.pipeToRouter({
-					producerId: producer.id,
-					router: this.#consumerRouter,
-				});
+				await this.pipeToConsumerRouters({ producerId: producer.id });
 			}
 
+			void this.#recorder?.addProducer(producer);
+
 			const otherPeers = this.getOtherPeers(peer);
 
 			for (const otherPeer of otherPeers) {
@@ -577,6 +1462,15 @@ export class Room extends EnhancedEventEmitter<RoomEvents> {
 				});
 			}
 
+			for (const broadcasterPeer of this.getAllBroadcasterPeers()) {
+				broadcasterPeer.notify('newProducer', {
+					peerId: peer.id,
+					producerId: producer.id,
+					kind: producer.kind,
+					source: producer.appData.source,
+				});
+			}
+
 			if (producer.kind === 'audio') {
 				this.#audioLevelObserver
 					.addProducer({ producerId: producer.id })
@@ -595,9 +1489,8 @@ export class Room extends EnhancedEventEmitter<RoomEvents> {
 			switch (channel) {
 				case 'chat': {
 					if (this.#usePipeTransports) {
-						await this.#producerRouter.pipeToRouter({
+						await this.pipeToConsumerRouters({
 							dataProducerId: dataProducer.id,
-							router: this.#consumerRouter,
 						});
 					}
 
@@ -620,45 +1513,196 @@ export class Room extends EnhancedEventEmitter<RoomEvents> {
 			}
 		});
 
-		peer.on('get-can-consume', ({ producerId, rtpCapabilities }, callback) => {
-			if (rtpCapabilities) {
-				callback(
-					this.#consumerRouter.canConsume({
-						producerId,
-						rtpCapabilities,
-					})
+		peer.on('get-can-consume', ({ producerId, rtpCapabilities }, callback) => {
+			if (rtpCapabilities) {
+				callback(
+					this.getConsumerRouter(peer).canConsume({
+						producerId,
+						rtpCapabilities,
+					})
+				);
+			} else {
+				callback(false);
+			}
+		});
+
+		peer.on('display-name-changed', ({ displayName, oldDisplayName }) => {
+			const otherPeers = this.getOtherPeers(peer);
+
+			for (const otherPeer of otherPeers) {
+				otherPeer.notify('peerDisplayNameChanged', {
+					peerId: peer.id,
+					displayName,
+					oldDisplayName,
+				});
+			}
+
+			for (const broadcasterPeer of this.getAllBroadcasterPeers()) {
+				broadcasterPeer.notify('peerDisplayNameChanged', {
+					peerId: peer.id,
+					displayName,
+					oldDisplayName,
+				});
+			}
+
+			for (const cascadeLink of this.getConnectedCascadeLinks()) {
+				cascadeLink.notifyPeerDisplayNameChanged({
+					peerId: peer.id,
+					displayName,
+					oldDisplayName,
+				});
+			}
+		});
+
+		peer.on(
+			'apply-network-throttle',
+			({ secret, options }, resolve, reject) => {
+				this.emit(
+					'apply-network-throttle',
+					{ secret, options },
+					resolve,
+					reject
+				);
+			}
+		);
+
+		peer.on('stop-network-throttle', ({ secret }, resolve, reject) => {
+			this.emit('stop-network-throttle', { secret }, resolve, reject);
+		});
+
+		peer.on(
+			'moderator-mute-peer',
+			// eslint-disable-next-line @typescript-eslint/no-misused-promises
+			async ({ peerId, source, close }, resolve, reject) => {
+				try {
+					const targetPeer = this.assertAndGetPeer(peerId);
+					const producerIds = await targetPeer.muteProducers({
+						source,
+						close,
+					});
+
+					this.#logger.info(
+						'Peer muted by moderator [peerId:%o, moderatorPeerId:%o, source:%o, close:%o]',
+						peerId,
+						peer.id,
+						source,
+						close
+					);
+
+					for (const anyPeer of this.getAllPeers()) {
+						anyPeer.notify('peerMuted', {
+							peerId,
+							moderatorPeerId: peer.id,
+							source,
+							producerIds,
+							closed: close,
+						});
+					}
+
+					for (const broadcasterPeer of this.getAllBroadcasterPeers()) {
+						broadcasterPeer.notify('peerMuted', {
+							peerId,
+							moderatorPeerId: peer.id,
+							source,
+							producerIds,
+							closed: close,
+						});
+					}
+
+					resolve();
+				} catch (error) {
+					reject(error as Error);
+				}
+			}
+		);
+
+		peer.on('moderator-kick-peer', ({ peerId, reason }, resolve, reject) => {
+			try {
+				this.kickPeer({ peerId, moderatorPeerId: peer.id, reason });
+
+				resolve();
+			} catch (error) {
+				reject(error as Error);
+			}
+		});
+
+		peer.on('set-room-locked', ({ locked }, resolve) => {
+			this.#logger.info(
+				'Room %s by moderator [moderatorPeerId:%o]',
+				locked ? 'locked' : 'unlocked',
+				peer.id
+			);
+
+			this.#locked = locked;
+
+			for (const anyPeer of this.getAllPeers()) {
+				anyPeer.notify('roomLockChanged', {
+					locked,
+					moderatorPeerId: peer.id,
+				});
+			}
+
+			for (const broadcasterPeer of this.getAllBroadcasterPeers()) {
+				broadcasterPeer.notify('roomLockChanged', {
+					locked,
+					moderatorPeerId: peer.id,
+				});
+			}
+
+			resolve();
+		});
+
+		peer.on('set-room-recording', ({ recording }, resolve, reject) => {
+			const promise = recording
+				? this.startRecording({ moderatorPeerId: peer.id })
+				: this.stopRecording({ moderatorPeerId: peer.id });
+
+			promise.then(() => resolve()).catch(reject);
+		});
+
+		peer.on('moderator-admit-peer', ({ peerId }, resolve, reject) => {
+			try {
+				const targetPeer = this.assertAndGetWaitingPeer(peerId);
+
+				this.#logger.info(
+					'Peer admitted by moderator [peerId:%o, moderatorPeerId:%o]',
+					peerId,
+					peer.id
 				);
-			} else {
-				callback(false);
-			}
-		});
 
-		peer.on('display-name-changed', ({ displayName, oldDisplayName }) => {
-			const otherPeers = this.getOtherPeers(peer);
+				this.#admittedPeerIds.add(peerId);
 
-			for (const otherPeer of otherPeers) {
-				otherPeer.notify('peerDisplayNameChanged', {
-					peerId: peer.id,
-					displayName,
-					oldDisplayName,
-				});
+				for (const moderatorPeer of this.getModeratorPeers()) {
+					moderatorPeer.notify('lobbyPeerLeft', { peerId });
+				}
+
+				targetPeer.admit();
+
+				resolve();
+			} catch (error) {
+				reject(error as Error);
 			}
 		});
 
-		peer.on(
-			'apply-network-throttle',
-			({ secret, options }, resolve, reject) => {
-				this.emit(
-					'apply-network-throttle',
-					{ secret, options },
-					resolve,
-					reject
+		peer.on('moderator-deny-peer', ({ peerId, reason }, resolve, reject) => {
+			try {
+				const targetPeer = this.assertAndGetWaitingPeer(peerId);
+
+				this.#logger.info(
+					'Peer denied by moderator [peerId:%o, moderatorPeerId:%o, reason:%o]',
+					peerId,
+					peer.id,
+					reason
 				);
-			}
-		);
 
-		peer.on('stop-network-throttle', ({ secret }, resolve, reject) => {
-			this.emit('stop-network-throttle', { secret }, resolve, reject);
+				// NOTE: Moderators are notified with 'lobbyPeerLeft' once the denied
+				// Peer is closed.
+				void targetPeer.deny({ moderatorPeerId: peer.id, reason });
+
+				resolve();
+			} catch (error) {
+				reject(error as Error);
+			}
 		});
 	}
 
@@ -666,35 +1710,77 @@ export class Room extends EnhancedEventEmitter<RoomEvents> {
 		broadcasterPeer.on('closed', () => {
 			this.#joiningBroadcasterPeers.delete(broadcasterPeer.id);
 			this.#broadcasterPeers.delete(broadcasterPeer.id);
+			this.#consumerRoutersByPeer.delete(broadcasterPeer);
 		});
 
 		broadcasterPeer.on('joined', () => {
 			this.#joiningBroadcasterPeers.delete(broadcasterPeer.id);
 			this.#broadcasterPeers.set(broadcasterPeer.id, broadcasterPeer);
 
+			this.emit('broadcaster-peer-joined', {
+				peer: broadcasterPeer.serialize(),
+			});
+
 			const peers = this.getAllPeers();
 
 			for (const peer of peers) {
 				peer.notify('newPeer', { peer: broadcasterPeer.serialize() });
 			}
+
+			for (const otherBroadcasterPeer of this.getOtherBroadcasterPeers(
+				broadcasterPeer
+			)) {
+				otherBroadcasterPeer.notify('newPeer', {
+					peer: broadcasterPeer.serialize(),
+				});
+			}
+
+			for (const cascadeLink of this.getConnectedCascadeLinks()) {
+				cascadeLink.notifyNewPeer(broadcasterPeer.serialize());
+			}
 		});
 
 		broadcasterPeer.on('disconnected', () => {
+			this.emit('peer-left', { peerId: broadcasterPeer.id });
+
 			const peers = this.getAllPeers();
 
 			for (const peer of peers) {
 				peer.notify('peerClosed', { peerId: broadcasterPeer.id });
 			}
+
+			for (const otherBroadcasterPeer of this.getOtherBroadcasterPeers(
+				broadcasterPeer
+			)) {
+				otherBroadcasterPeer.notify('peerClosed', {
+					peerId: broadcasterPeer.id,
+				});
+			}
+
+			for (const cascadeLink of this.getConnectedCascadeLinks()) {
+				cascadeLink.notifyPeerClosed(broadcasterPeer.id);
+			}
 		});
 
 		broadcasterPeer.on('get-router-rtp-capabilities', callback => {
-			callback(this.#consumerRouter.rtpCapabilities);
+			callback(this.getMainConsumerRouter().rtpCapabilities);
 		});
 
 		broadcasterPeer.on(
 			'create-plain-transport',
 			// eslint-disable-next-line @typescript-eslint/no-misused-promises
-			async ({ direction, comedia, rtcpMux }, resolve, reject) => {
+			async (
+				{
+					direction,
+					comedia,
+					rtcpMux,
+					enableSctp,
+					enableSrtp,
+					srtpCryptoSuite,
+				},
+				resolve,
+				reject
+			) => {
 				try {
 					let mediasoupRouter: mediasoupTypes.Router;
 
@@ -706,7 +1792,8 @@ export class Room extends EnhancedEventEmitter<RoomEvents> {
 						}
 
 						case 'consumer': {
-							mediasoupRouter = this.#consumerRouter;
+							({ router: mediasoupRouter } =
+								await this.assignConsumerRouter(broadcasterPeer));
 
 							break;
 						}
@@ -721,6 +1808,9 @@ export class Room extends EnhancedEventEmitter<RoomEvents> {
 							...clone(this.#config.mediasoup.plainTransportOptions),
 							comedia,
 							rtcpMux,
+							enableSctp,
+							enableSrtp,
+							srtpCryptoSuite,
 							appData: { direction },
 						});
 
@@ -731,15 +1821,55 @@ export class Room extends EnhancedEventEmitter<RoomEvents> {
 			}
 		);
 
+		broadcasterPeer.on(
+			'create-webrtc-transport',
+			// eslint-disable-next-line @typescript-eslint/no-misused-promises
+			async (resolve, reject) => {
+				try {
+					const transport =
+						await this.#producerRouter.createWebRtcTransport<WebRtcTransportAppData>(
+							{
+								...clone(this.#config.mediasoup.webRtcTransportOptions),
+								enableUdp: true,
+								enableTcp: true,
+								webRtcServer: this.#producerWebRtcServer,
+								iceConsentTimeout: 20,
+								appData: { direction: 'producer' },
+							}
+						);
+
+					const { maxIncomingBitrate } =
+						this.#config.mediasoup.additionalWebRtcTransportOptions ?? {};
+
+					if (maxIncomingBitrate) {
+						transport.setMaxIncomingBitrate(maxIncomingBitrate).catch(error => {
+							this.#logger.warn(
+								`transport.setMaxIncomingBitrate() failed: ${error}`
+							);
+						});
+					}
+
+					resolve(transport);
+				} catch (error) {
+					reject(error as Error);
+				}
+			}
+		);
+
 		// eslint-disable-next-line @typescript-eslint/no-misused-promises
 		broadcasterPeer.on('new-producer', async ({ producer }) => {
+			this.emit('new-producer', { producer });
+
+			for (const cascadeLink of this.getConnectedCascadeLinks()) {
+				void cascadeLink.sendProducer(producer);
+			}
+
 			if (this.#usePipeTransports) {
-				await this.#producerRouter.pipeToRouter({
-					producerId: producer.id,
-					router: this.#consumerRouter,
-				});
+				await this.pipeToConsumerRouters({ producerId: producer.id });
 			}
 
+			void this.#recorder?.addProducer(producer);
+
 			const peers = this.getAllPeers();
 
 			for (const peer of peers) {
@@ -749,6 +1879,17 @@ export class Room extends EnhancedEventEmitter<RoomEvents> {
 				});
 			}
 
+			for (const otherBroadcasterPeer of this.getOtherBroadcasterPeers(
+				broadcasterPeer
+			)) {
+				otherBroadcasterPeer.notify('newProducer', {
+					peerId: broadcasterPeer.id,
+					producerId: producer.id,
+					kind: producer.kind,
+					source: producer.appData.source,
+				});
+			}
+
 			if (producer.kind === 'audio') {
 				this.#audioLevelObserver
 					.addProducer({ producerId: producer.id })
@@ -765,7 +1906,7 @@ export class Room extends EnhancedEventEmitter<RoomEvents> {
 			({ producerId, rtpCapabilities }, callback) => {
 				if (rtpCapabilities) {
 					callback(
-						this.#consumerRouter.canConsume({
+						this.getConsumerRouter(broadcasterPeer).canConsume({
 							producerId,
 							rtpCapabilities,
 						})
@@ -830,11 +1971,184 @@ export class Room extends EnhancedEventEmitter<RoomEvents> {
 
 			callback(producer);
 		});
+
+		// eslint-disable-next-line @typescript-eslint/no-misused-promises
+		broadcasterPeer.on('new-data-producer', async ({ dataProducer }) => {
+			// NOTE: BroadcasterPeers can only create chat DataProducers.
+			if (this.#usePipeTransports) {
+				await this.pipeToConsumerRouters({
+					dataProducerId: dataProducer.id,
+				});
+			}
+
+			const peers = this.getAllPeers();
+
+			for (const peer of peers) {
+				void peer.consumeData({ dataProducer });
+			}
+		});
+
+		broadcasterPeer.on('get-peer-data-producers-infos', callback => {
+			const peerDataProducersMap: Map<
+				PeerId,
+				mediasoupTypes.DataProducer<DataProducerAppData>[]
+			> = new Map();
+
+			for (const dataProducer of this.getOtherChatDataProducers(
+				broadcasterPeer
+			)) {
+				const { peerId } = dataProducer.appData;
+				const dataProducers = peerDataProducersMap.get(peerId);
+
+				if (dataProducers) {
+					dataProducers.push(dataProducer);
+				} else {
+					peerDataProducersMap.set(peerId, [dataProducer]);
+				}
+			}
+
+			const peerDataProducersInfos: PeerDataProducersInfo[] = [];
+
+			for (const [peerId, dataProducers] of peerDataProducersMap) {
+				peerDataProducersInfos.push({
+					peerId,
+					dataProducers: dataProducers.map(dataProducer => {
+						return {
+							dataProducerId: dataProducer.id,
+							label: dataProducer.label,
+							protocol: dataProducer.protocol,
+							channel: dataProducer.appData.channel,
+						};
+					}),
+				});
+			}
+
+			callback(peerDataProducersInfos);
+		});
+
+		broadcasterPeer.on('get-data-producer', ({ dataProducerId }, callback) => {
+			const dataProducer = this.getOtherChatDataProducers(broadcasterPeer).find(
+				({ id }) => id === dataProducerId
+			);
+
+			callback(dataProducer);
+		});
+	}
+
+	private handleCascadeLink(cascadeLink: CascadeLink): void {
+		cascadeLink.on('closed', () => {
+			this.#cascadeLinks.delete(cascadeLink.nodeId);
+
+			if (this.#closed) {
+				return;
+			}
+
+			for (const remotePeer of cascadeLink.getRemotePeers()) {
+				for (const peer of this.getAllPeers()) {
+					peer.notify('peerClosed', { peerId: remotePeer.peerId });
+				}
+
+				for (const broadcasterPeer of this.getAllBroadcasterPeers()) {
+					broadcasterPeer.notify('peerClosed', { peerId: remotePeer.peerId });
+				}
+			}
+
+			this.mayClose();
+		});
+
+		cascadeLink.on('connected', () => {
+			this.#logger.info(
+				'linked with remote node [nodeId:%o]',
+				cascadeLink.nodeId
+			);
+
+			// Send our current Peers and Producers. Later changes are sent as they
+			// happen.
+			for (const anyPeer of [
+				...this.getAllPeers(),
+				...this.getAllBroadcasterPeers(),
+			]) {
+				cascadeLink.notifyNewPeer(anyPeer.serialize());
+
+				for (const producer of anyPeer.getProducers()) {
+					void cascadeLink.sendProducer(producer);
+				}
+			}
+		});
+
+		cascadeLink.on('new-peer', ({ peer: remotePeer }) => {
+			for (const peer of this.getAllPeers()) {
+				peer.notify('newPeer', { peer: remotePeer });
+			}
+
+			for (const broadcasterPeer of this.getAllBroadcasterPeers()) {
+				broadcasterPeer.notify('newPeer', { peer: remotePeer });
+			}
+		});
+
+		cascadeLink.on(
+			'peer-display-name-changed',
+			({ peerId, displayName, oldDisplayName }) => {
+				for (const peer of this.getAllPeers()) {
+					peer.notify('peerDisplayNameChanged', {
+						peerId,
+						displayName,
+						oldDisplayName,
+					});
+				}
+
+				for (const broadcasterPeer of this.getAllBroadcasterPeers()) {
+					broadcasterPeer.notify('peerDisplayNameChanged', {
+						peerId,
+						displayName,
+						oldDisplayName,
+					});
+				}
+			}
+		);
+
+		cascadeLink.on('peer-closed', ({ peerId }) => {
+			for (const peer of this.getAllPeers()) {
+				peer.notify('peerClosed', { peerId });
+			}
+
+			for (const broadcasterPeer of this.getAllBroadcasterPeers()) {
+				broadcasterPeer.notify('peerClosed', { peerId });
+			}
+
+			this.mayClose();
+		});
+
+		// eslint-disable-next-line @typescript-eslint/no-misused-promises
+		cascadeLink.on('new-producer', async ({ producer }) => {
+			if (this.#usePipeTransports) {
+				await this.pipeToConsumerRouters({ producerId: producer.id });
+			}
+
+			void this.#recorder?.addProducer(producer);
+
+			for (const peer of this.getAllPeers()) {
+				void peer.consume({
+					producer,
+					consumerReplicas: this.#consumerReplicas,
+				});
+			}
+
+			if (producer.kind === 'audio') {
+				this.#audioLevelObserver
+					.addProducer({ producerId: producer.id })
+					.catch(() => {});
+
+				this.#activeSpeakerObserver
+					.addProducer({ producerId: producer.id })
+					.catch(() => {});
+			}
+		});
 	}
 
 	private handleProducerRouter(): void {
 		this.#producerRouter.observer.on('close', () => {
-			this.close();
+			this.closeForRestart();
 		});
 
 		this.#producerRouter.observer.on('newtransport', transport => {
@@ -846,26 +2160,47 @@ export class Room extends EnhancedEventEmitter<RoomEvents> {
 
 				producer.observer.on('close', () => {
 					this.#observedProducers.delete(producer.id);
+
+					const { peerId } = producer.appData as ProducerAppData;
+
+					for (const broadcasterPeer of this.getAllBroadcasterPeers()) {
+						if (broadcasterPeer.id !== peerId) {
+							broadcasterPeer.notify('producerClosed', {
+								peerId,
+								producerId: producer.id,
+							});
+						}
+					}
 				});
 			});
 		});
 	}
 
-	private handleConsumerRouter(): void {
-		this.#consumerRouter.observer.on('close', () => {
-			this.close();
-		});
-	}
-
 	private handleProducerWebRtcServer(): void {
 		this.#producerWebRtcServer.observer.on('close', () => {
-			this.close();
+			this.closeForRestart();
 		});
 	}
 
-	private handleConsumerWebRtcServer(): void {
-		this.#producerWebRtcServer.observer.on('close', () => {
-			this.close();
+	private handleConsumerRouter(consumerRouterData: ConsumerRouterData): void {
+		const { router, webRtcServer } = consumerRouterData;
+
+		router.observer.on('close', () => {
+			this.closeForRestart();
+		});
+
+		router.observer.on('newtransport', transport => {
+			transport.observer.on('newconsumer', consumer => {
+				++consumerRouterData.numConsumers;
+
+				consumer.observer.on('close', () => {
+					--consumerRouterData.numConsumers;
+				});
+			});
+		});
+
+		webRtcServer.observer.on('close', () => {
+			this.closeForRestart();
 		});
 	}
 
@@ -884,6 +2219,10 @@ export class Room extends EnhancedEventEmitter<RoomEvents> {
 			for (const peer of allPeers) {
 				peer.notify('speakingPeers', { peerVolumes });
 			}
+
+			for (const broadcasterPeer of this.getAllBroadcasterPeers()) {
+				broadcasterPeer.notify('speakingPeers', { peerVolumes });
+			}
 		});
 
 		this.#audioLevelObserver.on('silence', () => {
@@ -893,6 +2232,11 @@ export class Room extends EnhancedEventEmitter<RoomEvents> {
 				peer.notify('speakingPeers', { peerVolumes: [] });
 				peer.notify('activeSpeaker', { peerId: undefined });
 			}
+
+			for (const broadcasterPeer of this.getAllBroadcasterPeers()) {
+				broadcasterPeer.notify('speakingPeers', { peerVolumes: [] });
+				broadcasterPeer.notify('activeSpeaker', { peerId: undefined });
+			}
 		});
 	}
 
@@ -904,10 +2248,13 @@ export class Room extends EnhancedEventEmitter<RoomEvents> {
 			for (const peer of allPeers) {
 				peer.notify('activeSpeaker', { peerId });
 			}
+
+			for (const broadcasterPeer of this.getAllBroadcasterPeers()) {
+				broadcasterPeer.notify('activeSpeaker', { peerId });
+			}
 		});
 	}
 
-	// eslint-disable-next-line @typescript-eslint/require-await
 	private async handleApiRequest(
 		request: TypedApiRequest<RequestNameForRoom>
 	): Promise<void> {
@@ -916,7 +2263,7 @@ export class Room extends EnhancedEventEmitter<RoomEvents> {
 		switch (name) {
 			case 'getRouterRtpCapabilities': {
 				accept({
-					routerRtpCapabilities: this.#consumerRouter.rtpCapabilities,
+					routerRtpCapabilities: this.getMainConsumerRouter().rtpCapabilities,
 				});
 
 				break;
@@ -924,8 +2271,9 @@ export class Room extends EnhancedEventEmitter<RoomEvents> {
 
 			case 'createBroadcasterPeer': {
 				const { peerId, displayName, device } = data;
-				const { remoteAddress } = internalData;
+				const { remoteAddress, role } = internalData;
 
+				this.assertCanJoin({ peerId, role });
 				this.mayCloseExistingPeer(peerId);
 
 				this.#logger.debug(
@@ -951,6 +2299,83 @@ export class Room extends EnhancedEventEmitter<RoomEvents> {
 				break;
 			}
 
+			case 'adminGetRoom': {
+				const localPeers = [
+					...this.getAllPeers(),
+					...this.getAllBroadcasterPeers(),
+				];
+
+				accept({
+					...this.serialize(),
+					numProducers: localPeers.reduce(
+						(count, anyPeer) => count + anyPeer.getProducers().length,
+						0
+					),
+					numConsumers: localPeers.reduce(
+						(count, anyPeer) => count + anyPeer.getConsumers().length,
+						0
+					),
+				});
+
+				break;
+			}
+
+			case 'adminCloseRoom': {
+				this.#logger.info('closing the Room by admin request');
+
+				accept();
+
+				this.close();
+
+				break;
+			}
+
+			case 'adminKickPeer': {
+				const { peerId, reason } = data;
+
+				this.kickPeer({ peerId, reason });
+
+				accept();
+
+				break;
+			}
+
+			case 'adminNotifyRoom': {
+				const { text } = data;
+
+				if (typeof text !== 'string' || !text) {
+					throw new TypeError('missing text');
+				}
+
+				for (const peer of this.getAllPeers()) {
+					peer.notify('adminMessage', { text });
+				}
+
+				for (const broadcasterPeer of this.getAllBroadcasterPeers()) {
+					broadcasterPeer.notify('adminMessage', { text });
+				}
+
+				accept();
+
+				break;
+			}
+
+			case 'adminStartRecording': {
+				const recorder = await this.startRecording({});
+
+				accept({ directory: recorder.directory });
+
+				break;
+			}
+
+			case 'adminStopRecording': {
+				await this.stopRecording({});
+
+				accept();
+
+				break;
+			}
+
 			default: {
 				assertUnreachable('request name', name);
 			}
@@ -8,21 +8,38 @@ import type * as mediasoupTypes from 'mediasoup/types';
 import { AwaitQueue } from 'awaitqueue';
 import * as throttle from '@sitespeed.io/throttle';
 import type * as throttleTypes from '@sitespeed.io/throttle';
+import pidusage from 'pidusage';
 
 import { Logger } from './Logger';
 import { EnhancedEventEmitter } from './enhancedEvents';
 import { WsServer } from './WsServer';
 import { ApiServer } from './ApiServer';
 import { Room } from './Room';
-import { InvalidStateError, ForbiddenError, RoomNotFound } from './errors';
-import { clone } from './utils';
+import { WebhookDispatcher } from './WebhookDispatcher';
+import {
+	InvalidStateError,
+	ForbiddenError,
+	RoomNotFound,
+	ServerDrainingError,
+	UnsupportedError,
+} from './errors';
+import { signAccessToken } from './accessTokens';
+import { clone, assertUnreachable } from './utils';
+import * as metrics from './metrics';
 import type {
 	ServerConfig,
 	RoomId,
+	PeerId,
+	PeerRole,
 	SerializedServer,
 	WorkerAppData,
+	WorkerPlacementStrategy,
 } from './types';
 
+const WORKER_USAGE_INTERVAL_MS = 5000;
+const DEFAULT_DRAIN_TIMEOUT = 600;
+const DEFAULT_ACCESS_TOKEN_TTL = 3600;
+
 const logger = new Logger('Server');
 
 export type ServerCreateOptions = {
@@ -36,6 +53,7 @@ type ServerConstructorOptions = {
 	httpServer: https.Server | http.Server;
 	wsServer: WsServer;
 	apiServer: ApiServer;
+	webhookDispatcher?: WebhookDispatcher;
 	networkThrottleSecret?: string;
 };
 
@@ -44,12 +62,28 @@ type WorkersAndWebRtcServers = Map<
 	{
 		worker: mediasoupTypes.Worker<WorkerAppData>;
 		webRtcServer: mediasoupTypes.WebRtcServer;
+		load: WorkerLoad;
 	}
 >;
 
+type WorkerLoad = {
+	numRouters: number;
+	// Routers being created (not yet counted in `numRouters`).
+	numPendingRouters: number;
+	numTransports: number;
+	numProducers: number;
+	numConsumers: number;
+	cpuUsage: number;
+	memory: number;
+};
+
 type RoomData = {
 	queue: AwaitQueue;
 	room?: Room;
+	// Index of the mediasoup Worker of the producer Router of the Room.
+	workerIdx?: number;
+	// Indexes of the mediasoup Workers of all the Routers of the Room.
+	routerWorkerIdxs: Set<number>;
 };
 
 export type ServerObserverEvents = {
@@ -72,6 +106,10 @@ export type ServerEvents = {
 	 * Emitted when a new Room is created.
 	 */
 	'new-room': [Room];
+	/**
+	 * Emitted when the Server starts draining.
+	 */
+	draining: [{ deadline: Date }];
 };
 
 export class Server extends EnhancedEventEmitter<ServerEvents> {
@@ -83,13 +121,17 @@ export class Server extends EnhancedEventEmitter<ServerEvents> {
 	readonly #httpConnections: Set<net.Socket> = new Set();
 	readonly #wsServer: WsServer;
 	readonly #apiServer: ApiServer;
+	readonly #webhookDispatcher?: WebhookDispatcher;
 	readonly #workersAndWebRtcServers: WorkersAndWebRtcServers = new Map();
 	#nextWorkerIdx: number = 0;
+	readonly #workerUsageTimer: ReturnType<typeof setInterval>;
 	readonly #roomQueues: Map<RoomId, RoomData> = new Map();
 	readonly #networkThrottleSecret?: string;
 	#networkThrottleEnabled: boolean = false;
 	#networkThrottleEnabledByRoomId?: RoomId;
 	readonly #networkThrottleAwaitQueue: AwaitQueue = new AwaitQueue();
+	#drainDeadline?: Date;
+	#drainTimer?: ReturnType<typeof setTimeout>;
 	readonly #createdAt: Date;
 	#closed: boolean = false;
 
@@ -100,17 +142,31 @@ export class Server extends EnhancedEventEmitter<ServerEvents> {
 		logger.debug('create()');
 
 		const httpOriginHeader = Server.computeHttpOriginHeader(config);
+		const webhookDispatcher = config.webhooks
+			? WebhookDispatcher.create({ config: config.webhooks })
+			: undefined;
 		const workersAndWebRtcServers =
 			await Server.createWorkersAndWebRtcServers(config);
 		const httpServer = await Server.createHttpServer(config);
-		const wsServer = WsServer.create({ httpServer, httpOriginHeader });
-		const apiServer = ApiServer.create({ httpOriginHeader });
+		const wsServer = WsServer.create({
+			httpServer,
+			httpOriginHeader,
+			authConfig: config.auth,
+		});
+		const apiServer = ApiServer.create({
+			httpOriginHeader,
+			authConfig: config.auth,
+			adminConfig: config.admin,
+			metricsConfig: config.metrics,
+			cascadeConfig: config.cascade,
+		});
 		const server = new Server({
 			config,
 			workersAndWebRtcServers,
 			httpServer,
 			wsServer,
 			apiServer,
+			webhookDispatcher,
 			networkThrottleSecret,
 		});
 
@@ -140,41 +196,29 @@ export class Server extends EnhancedEventEmitter<ServerEvents> {
 
 		try {
 			const workersAndWebRtcServers: WorkersAndWebRtcServers = new Map();
-			const { numWorkers, workerSettings, webRtcServerOptions } =
-				config.mediasoup;
+			const { numWorkers } = config.mediasoup;
 
 			logger.info(
 				`createWorkersAndWebRtcServers() | launching ${numWorkers} mediasoup ${numWorkers === 1 ? 'Worker' : 'Workers'}...`
 			);
 
 			for (let idx = 0; idx < numWorkers; ++idx) {
-				const worker = await mediasoup.createWorker<WorkerAppData>({
-					dtlsCertificateFile: workerSettings.dtlsCertificateFile,
-					dtlsPrivateKeyFile: workerSettings.dtlsPrivateKeyFile,
-					logLevel: workerSettings.logLevel,
-					logTags: workerSettings.logTags,
-					disableLiburing: workerSettings.disableLiburing,
-					appData: {
-						idx,
+				const { worker, webRtcServer } =
+					await Server.createWorkerAndWebRtcServer({ config, idx });
+
+				workersAndWebRtcServers.set(idx, {
+					worker,
+					webRtcServer,
+					load: {
+						numRouters: 0,
+						numPendingRouters: 0,
+						numTransports: 0,
+						numProducers: 0,
+						numConsumers: 0,
+						cpuUsage: 0,
+						memory: 0,
 					},
 				});
-
-				// Create a WebRtcServer in this Worker.
-				// Each mediasoup Worker will run its own WebRtcServer, so those cannot
-				// share the same listening port. Hence we increase the port for each
-				// Worker.
-				const clonnedWebRtcServerOptions = clone(webRtcServerOptions);
-				const portIncrement = workersAndWebRtcServers.size - 1;
-
-				for (const listenInfo of clonnedWebRtcServerOptions.listenInfos) {
-					listenInfo.port! += portIncrement;
-				}
-
-				const webRtcServer = await worker.createWebRtcServer(
-					clonnedWebRtcServerOptions
-				);
-
-				workersAndWebRtcServers.set(idx, { worker, webRtcServer });
 			}
 
 			return workersAndWebRtcServers;
@@ -185,6 +229,47 @@ export class Server extends EnhancedEventEmitter<ServerEvents> {
 		}
 	}
 
+	private static async createWorkerAndWebRtcServer({
+		config,
+		idx,
+	}: {
+		config: ServerConfig;
+		idx: number;
+	}): Promise<{
+		worker: mediasoupTypes.Worker<WorkerAppData>;
+		webRtcServer: mediasoupTypes.WebRtcServer;
+	}> {
+		const { workerSettings, webRtcServerOptions } = config.mediasoup;
+
+		const worker = await mediasoup.createWorker<WorkerAppData>({
+			dtlsCertificateFile: workerSettings.dtlsCertificateFile,
+			dtlsPrivateKeyFile: workerSettings.dtlsPrivateKeyFile,
+			logLevel: workerSettings.logLevel,
+			logTags: workerSettings.logTags,
+			disableLiburing: workerSettings.disableLiburing,
+			appData: {
+				idx,
+			},
+		});
+
+		// Create a WebRtcServer in this Worker.
+		// Each mediasoup Worker will run its own WebRtcServer, so those cannot
+		// share the same listening port. Hence we increase the port for each
+		// Worker.
+		const clonnedWebRtcServerOptions = clone(webRtcServerOptions);
+		const portIncrement = idx - 1;
+
+		for (const listenInfo of clonnedWebRtcServerOptions.listenInfos) {
+			listenInfo.port! += portIncrement;
+		}
+
+		const webRtcServer = await worker.createWebRtcServer(
+			clonnedWebRtcServerOptions
+		);
+
+		return { worker, webRtcServer };
+	}
+
 	private static async createHttpServer(
 		config: ServerConfig
 	): Promise<https.Server | http.Server> {
@@ -231,6 +316,7 @@ export class Server extends EnhancedEventEmitter<ServerEvents> {
 		httpServer,
 		wsServer,
 		apiServer,
+		webhookDispatcher,
 		networkThrottleSecret,
 	}: ServerConstructorOptions) {
 		super();
@@ -242,6 +328,7 @@ export class Server extends EnhancedEventEmitter<ServerEvents> {
 		this.#httpServer = httpServer;
 		this.#wsServer = wsServer;
 		this.#apiServer = apiServer;
+		this.#webhookDispatcher = webhookDispatcher;
 		this.#networkThrottleSecret = networkThrottleSecret;
 		this.#createdAt = new Date();
 
@@ -258,6 +345,10 @@ export class Server extends EnhancedEventEmitter<ServerEvents> {
 			this.handleWorker(worker);
 		}
 
+		this.#workerUsageTimer = setInterval(() => {
+			void this.updateWorkersUsage();
+		}, WORKER_USAGE_INTERVAL_MS);
+
 		this.handleHttpServer();
 		this.handleWsServer();
 		this.handleApiServer();
@@ -285,6 +376,11 @@ export class Server extends EnhancedEventEmitter<ServerEvents> {
 			worker.close();
 		}
 
+		clearInterval(this.#workerUsageTimer);
+		clearTimeout(this.#drainTimer);
+
+		this.#webhookDispatcher?.close();
+
 		// Stop listening for HTTP/WS connections.
 		this.#httpServer.close();
 		this.#httpServer.closeAllConnections();
@@ -306,8 +402,20 @@ export class Server extends EnhancedEventEmitter<ServerEvents> {
 	serialize(): SerializedServer {
 		return {
 			createdAt: this.#createdAt,
+			draining: this.isDraining(),
+			drainDeadline: this.#drainDeadline,
 			numWorkers: this.#workersAndWebRtcServers.size,
 			networkThrottleEnabled: this.#networkThrottleEnabled,
+			workerPlacementStrategy: this.getWorkerPlacementStrategy(),
+			workers: Array.from(this.#workersAndWebRtcServers.values()).map(
+				({ worker, load }) => {
+					return {
+						idx: worker.appData.idx,
+						pid: worker.pid,
+						...load,
+					};
+				}
+			),
 			numRooms: this.#roomQueues.size,
 			rooms: Array.from(this.#roomQueues.values())
 				.filter(({ room }) => room !== undefined)
@@ -321,6 +429,97 @@ export class Server extends EnhancedEventEmitter<ServerEvents> {
 		return this.#networkThrottleEnabled;
 	}
 
+	/**
+	 * Get Prometheus metrics in text format.
+	 */
+	async getMetrics(): Promise<{ contentType: string; metrics: string }> {
+		this.updateWorkerMetrics();
+
+		return {
+			contentType: metrics.registry.contentType,
+			metrics: await metrics.registry.metrics(),
+		};
+	}
+
+	isDraining(): boolean {
+		return this.#drainDeadline !== undefined;
+	}
+
+	/**
+	 * Creates an access token signed with `config.auth.secret` that expires in
+	 * `ttl` seconds.
+	 */
+	createAccessToken({
+		roomId,
+		peerId,
+		role,
+		ttl = DEFAULT_ACCESS_TOKEN_TTL,
+	}: {
+		roomId: RoomId;
+		peerId: PeerId;
+		role: PeerRole;
+		ttl?: number;
+	}): string {
+		if (!this.#config.auth?.secret) {
+			throw new UnsupportedError(
+				'access tokens can only be created if config.auth.secret is set'
+			);
+		}
+
+		return signAccessToken({
+			authConfig: this.#config.auth,
+			payload: {
+				roomId,
+				peerId,
+				role,
+				exp: Math.floor(Date.now() / 1000) + ttl,
+			},
+		});
+	}
+
+	/**
+	 * Starts draining the Server: no new Rooms are accepted, Peers are notified
+	 * and the Server is closed once the last Room closes or once `timeout`
+	 * seconds elapse, whatever happens first.
+	 *
+	 * @returns The deadline.
+	 */
+	drain({ timeout }: { timeout?: number } = {}): Date {
+		if (this.#drainDeadline) {
+			logger.debug('drain() | already draining');
+
+			return this.#drainDeadline;
+		}
+
+		const effectiveTimeout =
+			timeout ?? this.#config.drainTimeout ?? DEFAULT_DRAIN_TIMEOUT;
+		const deadline = new Date(Date.now() + effectiveTimeout * 1000);
+
+		logger.info(
+			'drain() | draining the Server [numRooms:%o, deadline:%o]',
+			this.#roomQueues.size,
+			deadline
+		);
+
+		this.#drainDeadline = deadline;
+
+		this.#drainTimer = setTimeout(() => {
+			logger.warn('drain deadline reached, closing the Server');
+
+			this.close();
+		}, effectiveTimeout * 1000);
+
+		for (const { room } of this.#roomQueues.values()) {
+			room?.notifyServerShuttingDown({ deadline });
+		}
+
+		this.emit('draining', { deadline });
+
+		this.mayCloseDrainedServer();
+
+		return deadline;
+	}
+
 	/**
 	 * Get a Room instance (or create one if it does not exist).
 	 */
@@ -328,11 +527,19 @@ export class Server extends EnhancedEventEmitter<ServerEvents> {
 		roomId,
 		consumerReplicas = 0,
 		usePipeTransports = false,
+		lobby = false,
 	}: {
 		roomId: RoomId;
 		consumerReplicas?: number;
 		usePipeTransports?: boolean;
+		lobby?: boolean;
 	}): Promise<Room> {
+		if (this.#drainDeadline && !this.#roomQueues.has(roomId)) {
+			throw new ServerDrainingError(
+				'Server is draining and does not accept new Rooms, try another node'
+			);
+		}
+
 		if (usePipeTransports && this.#config.mediasoup.numWorkers < 2) {
 			throw new InvalidStateError(
 				'at least 2 mediasoup Workers are needed to create a Room with usePipeTransports option'
@@ -345,6 +552,7 @@ export class Server extends EnhancedEventEmitter<ServerEvents> {
 			roomData = {
 				queue: new AwaitQueue(),
 				room: undefined,
+				routerWorkerIdxs: new Set(),
 			};
 
 			this.#roomQueues.set(roomId, roomData);
@@ -364,38 +572,43 @@ export class Server extends EnhancedEventEmitter<ServerEvents> {
 			}
 
 			logger.info(
-				'getOrCreateRoom() | creating a new Room [roomId:%o, usePipeTransports:%o]',
+				'getOrCreateRoom() | creating a new Room [roomId:%o, usePipeTransports:%o, lobby:%o]',
 				roomId,
-				usePipeTransports
+				usePipeTransports,
+				lobby
 			);
 
-			const { worker: producerWorker, webRtcServer: producerWebRtcServer } =
-				this.getNextWorkerAndWebRtcServer();
-
-			const { worker: consumerWorker, webRtcServer: consumerWebRtcServer } =
-				usePipeTransports
-					? this.getNextWorkerAndWebRtcServer()
-					: {
-							worker: producerWorker,
-							webRtcServer: producerWebRtcServer,
-						};
-
-			const { mediaCodecs } = this.#config.mediasoup.routerOptions;
-
-			const producerRouter = await producerWorker.createRouter({
-				mediaCodecs,
-			});
-
-			const consumerRouter = usePipeTransports
-				? await consumerWorker.createRouter({
-						mediaCodecs,
+			const {
+				worker: producerWorker,
+				router: producerRouter,
+				webRtcServer: producerWebRtcServer,
+			} = await this.createRouterInNextWorker();
+
+			// NOTE: The consumer Router must be in a different Worker than the
+			// producer Router, otherwise piping is pointless.
+			const {
+				worker: consumerWorker,
+				router: consumerRouter,
+				webRtcServer: consumerWebRtcServer,
+			} = usePipeTransports
+				? await this.createRouterInNextWorker({
+						excludedWorkerIdxs: new Set([producerWorker.appData.idx]),
+					}).catch(error => {
+						producerRouter.close();
+
+						throw error;
 					})
-				: producerRouter;
+				: {
+						worker: producerWorker,
+						router: producerRouter,
+						webRtcServer: producerWebRtcServer,
+					};
 
 			const room = await Room.create({
 				roomId,
 				consumerReplicas,
 				usePipeTransports,
+				lobby,
 				config: this.#config,
 				producerRouter,
 				consumerRouter,
@@ -404,28 +617,230 @@ export class Server extends EnhancedEventEmitter<ServerEvents> {
 			});
 
 			roomData.room = room;
+			roomData.workerIdx = producerWorker.appData.idx;
+			roomData.routerWorkerIdxs.add(producerWorker.appData.idx);
+			roomData.routerWorkerIdxs.add(consumerWorker.appData.idx);
 
 			this.handleRoom(room);
 
+			this.#webhookDispatcher?.dispatch({
+				roomId: room.id,
+				event: 'room.created',
+			});
+
 			this.emit('new-room', room);
 
 			return room;
 		}, 'getOrCreateRoom()');
 	}
 
-	private getNextWorkerAndWebRtcServer(): {
+	/**
+	 * Creates a Router in the next mediasoup Worker to be used as additional
+	 * consumer Router by a Room. Workers already used by the Room are skipped
+	 * so the new Router adds capacity.
+	 */
+	private async createConsumerRouter(room: Room): Promise<{
+		router: mediasoupTypes.Router;
+		webRtcServer: mediasoupTypes.WebRtcServer;
+	}> {
+		const roomData = this.#roomQueues.get(room.id);
+
+		if (!roomData) {
+			throw new InvalidStateError(`Room with id '${room.id}' has been closed`);
+		}
+
+		const { worker, router, webRtcServer } =
+			await this.createRouterInNextWorker({
+				excludedWorkerIdxs: roomData.routerWorkerIdxs,
+			});
+
+		roomData.routerWorkerIdxs.add(worker.appData.idx);
+
+		return { router, webRtcServer };
+	}
+
+	/**
+	 * Creates a Router in the next mediasoup Worker (see
+	 * `getNextWorkerAndWebRtcServer()`).
+	 *
+	 * @remarks
+	 * - The Router is accounted as pending in the load of the Worker while being
+	 *   created, so concurrent calls don't pick the same Worker.
+	 */
+	private async createRouterInNextWorker({
+		excludedWorkerIdxs,
+	}: {
+		excludedWorkerIdxs?: ReadonlySet<number>;
+	} = {}): Promise<{
 		worker: mediasoupTypes.Worker<WorkerAppData>;
+		router: mediasoupTypes.Router;
 		webRtcServer: mediasoupTypes.WebRtcServer;
+	}> {
+		const { worker, webRtcServer, load } = this.getNextWorkerAndWebRtcServer({
+			excludedWorkerIdxs,
+		});
+		const { mediaCodecs } = this.#config.mediasoup.routerOptions;
+
+		++load.numPendingRouters;
+
+		try {
+			const router = await worker.createRouter({ mediaCodecs });
+
+			return { worker, router, webRtcServer };
+		} finally {
+			--load.numPendingRouters;
+		}
+	}
+
+	private getWorkerPlacementStrategy(): WorkerPlacementStrategy {
+		return this.#config.mediasoup.workerPlacementStrategy ?? 'round-robin';
+	}
+
+	/**
+	 * Get the mediasoup Worker (and its WebRtcServer) in which a new Router
+	 * should be created according to the configured placement strategy,
+	 * skipping the given Workers.
+	 */
+	private getNextWorkerAndWebRtcServer({
+		excludedWorkerIdxs,
+	}: {
+		excludedWorkerIdxs?: ReadonlySet<number>;
+	} = {}): {
+		worker: mediasoupTypes.Worker<WorkerAppData>;
+		webRtcServer: mediasoupTypes.WebRtcServer;
+		load: WorkerLoad;
 	} {
-		const { worker, webRtcServer } = this.#workersAndWebRtcServers.get(
-			this.#nextWorkerIdx
-		)!;
+		const strategy = this.getWorkerPlacementStrategy();
+		const numWorkers = this.#workersAndWebRtcServers.size;
+		let selectedIdx: number | undefined = undefined;
+		let selectedHasPendingRouters = true;
+		let selectedLoadValue = Infinity;
+
+		// NOTE: Start with the next Worker in round-robin order so ties are
+		// resolved in round-robin fashion.
+		for (let i = 0; i < numWorkers; ++i) {
+			const idx = (this.#nextWorkerIdx + i) % numWorkers;
+			const { worker, load } = this.#workersAndWebRtcServers.get(idx)!;
+
+			// Skip Workers that died and are being respawned, and excluded ones.
+			if (worker.closed || excludedWorkerIdxs?.has(idx)) {
+				continue;
+			}
 
-		if (++this.#nextWorkerIdx === this.#workersAndWebRtcServers.size) {
-			this.#nextWorkerIdx = 0;
+			// NOTE: Load values don't reflect Routers being created, so prefer
+			// Workers without them to spread concurrent Room creations.
+			const hasPendingRouters = load.numPendingRouters > 0;
+			const loadValue = this.getWorkerLoadValue(idx, strategy);
+
+			if (
+				(selectedHasPendingRouters && !hasPendingRouters) ||
+				(selectedHasPendingRouters === hasPendingRouters &&
+					loadValue < selectedLoadValue)
+			) {
+				selectedIdx = idx;
+				selectedHasPendingRouters = hasPendingRouters;
+				selectedLoadValue = loadValue;
+			}
 		}
 
-		return { worker, webRtcServer };
+		if (selectedIdx === undefined) {
+			throw new InvalidStateError('no mediasoup Worker available');
+		}
+
+		this.#nextWorkerIdx = (selectedIdx + 1) % numWorkers;
+
+		const { worker, webRtcServer, load } =
+			this.#workersAndWebRtcServers.get(selectedIdx)!;
+
+		logger.debug(
+			'getNextWorkerAndWebRtcServer() | selected Worker [strategy:%o, idx:%o, load:%o]',
+			strategy,
+			selectedIdx,
+			load
+		);
+
+		return { worker, webRtcServer, load };
+	}
+
+	private getWorkerLoadValue(
+		idx: number,
+		strategy: WorkerPlacementStrategy
+	): number {
+		const { load } = this.#workersAndWebRtcServers.get(idx)!;
+
+		switch (strategy) {
+			case 'round-robin': {
+				return 0;
+			}
+
+			case 'least-rooms': {
+				return load.numRouters;
+			}
+
+			case 'least-consumers': {
+				return load.numConsumers;
+			}
+
+			case 'lowest-cpu': {
+				return load.cpuUsage;
+			}
+
+			default: {
+				assertUnreachable('worker placement strategy', strategy);
+			}
+		}
+	}
+
+	private updateWorkerMetrics(): void {
+		metrics.workerRoomsGauge.reset();
+		metrics.workerPeersGauge.reset();
+		metrics.workerBroadcasterPeersGauge.reset();
+
+		for (const { worker, load } of this.#workersAndWebRtcServers.values()) {
+			const labels = { worker: worker.appData.idx };
+
+			metrics.workerRoomsGauge.set(labels, 0);
+			metrics.workerPeersGauge.set(labels, 0);
+			metrics.workerBroadcasterPeersGauge.set(labels, 0);
+			metrics.workerTransportsGauge.set(labels, load.numTransports);
+			metrics.workerProducersGauge.set(labels, load.numProducers);
+			metrics.workerConsumersGauge.set(labels, load.numConsumers);
+			metrics.workerCpuUsageGauge.set(labels, load.cpuUsage);
+			metrics.workerMemoryGauge.set(labels, load.memory);
+		}
+
+		for (const { room, workerIdx } of this.#roomQueues.values()) {
+			if (!room || workerIdx === undefined) {
+				continue;
+			}
+
+			const labels = { worker: workerIdx };
+			const { numPeers, numBroadcasterPeers } = room.serialize();
+
+			metrics.workerRoomsGauge.inc(labels);
+			metrics.workerPeersGauge.inc(labels, numPeers);
+			metrics.workerBroadcasterPeersGauge.inc(labels, numBroadcasterPeers);
+		}
+	}
+
+	private async updateWorkersUsage(): Promise<void> {
+		for (const { worker, load } of this.#workersAndWebRtcServers.values()) {
+			if (worker.closed) {
+				continue;
+			}
+
+			try {
+				const { cpu, memory } = await pidusage(worker.pid);
+
+				load.cpuUsage = cpu;
+				load.memory = memory;
+			} catch (error) {
+				logger.warn(
+					`updateWorkersUsage() | pidusage() failed [pid:%o]: ${error}`,
+					worker.pid
+				);
+			}
+		}
 	}
 
 	private async applyNetworkThrottle({
@@ -550,22 +965,69 @@ export class Server extends EnhancedEventEmitter<ServerEvents> {
 	}
 
 	private handleWorker(worker: mediasoupTypes.Worker<WorkerAppData>): void {
+		const { load } = this.#workersAndWebRtcServers.get(worker.appData.idx)!;
+
+		worker.observer.on('newrouter', router => {
+			++load.numRouters;
+
+			router.observer.on('close', () => {
+				--load.numRouters;
+			});
+
+			router.observer.on('newtransport', transport => {
+				++load.numTransports;
+
+				transport.observer.on('close', () => {
+					--load.numTransports;
+				});
+
+				transport.observer.on('newproducer', producer => {
+					++load.numProducers;
+
+					producer.observer.on('close', () => {
+						--load.numProducers;
+					});
+				});
+
+				transport.observer.on('newconsumer', consumer => {
+					++load.numConsumers;
+
+					consumer.observer.on('close', () => {
+						--load.numConsumers;
+					});
+				});
+			});
+		});
+
+		// NOTE: When a Worker dies, its Routers are closed so Rooms using them
+		// close themselves (and notify their Peers with 'roomRestarting').
 		worker.on('died', () => {
-			logger.error('mediasoup Worker died [pid:%o]', worker.pid);
+			logger.error(
+				'mediasoup Worker died, respawning it [pid:%o, idx:%o]',
+				worker.pid,
+				worker.appData.idx
+			);
 
-			this.close();
-			this.emit('died');
+			this.respawnWorker(worker.appData.idx).catch(error => {
+				logger.error(
+					`failed to respawn mediasoup Worker [idx:%o]: ${error}`,
+					worker.appData.idx
+				);
+
+				this.close();
+				this.emit('died');
+			});
 		});
 
 		worker.observer.on('close', () => {
-			this.#workersAndWebRtcServers.delete(worker.appData.idx);
-
-			// Ignore if Server is closed or if the Worker died since then its 'died'
-			// event fired already.
+			// Ignore if Server is closed or if the Worker died since then it's being
+			// respawned.
 			if (this.#closed || worker.died) {
 				return;
 			}
 
+			this.#workersAndWebRtcServers.delete(worker.appData.idx);
+
 			logger.error('mediasoup Worker unexpectedly closed [pid:%o]', worker.pid);
 
 			this.close();
@@ -573,6 +1035,53 @@ export class Server extends EnhancedEventEmitter<ServerEvents> {
 		});
 	}
 
+	private async respawnWorker(idx: number): Promise<void> {
+		logger.debug('respawnWorker() [idx:%o]', idx);
+
+		const { worker, webRtcServer } = await Server.createWorkerAndWebRtcServer({
+			config: this.#config,
+			idx,
+		});
+
+		if (this.#closed) {
+			worker.close();
+
+			return;
+		}
+
+		this.#workersAndWebRtcServers.set(idx, {
+			worker,
+			webRtcServer,
+			load: {
+				numRouters: 0,
+				numPendingRouters: 0,
+				numTransports: 0,
+				numProducers: 0,
+				numConsumers: 0,
+				cpuUsage: 0,
+				memory: 0,
+			},
+		});
+
+		this.handleWorker(worker);
+
+		logger.info(
+			'respawnWorker() | mediasoup Worker respawned [idx:%o, pid:%o]',
+			idx,
+			worker.pid
+		);
+	}
+
+	private mayCloseDrainedServer(): void {
+		if (this.#closed || !this.#drainDeadline || this.#roomQueues.size > 0) {
+			return;
+		}
+
+		logger.info('no Rooms left while draining, closing the Server');
+
+		this.close();
+	}
+
 	private handleHttpServer(): void {
 		// Let's keep a list with the HTTP connections (including WebSocket
 		// upgrades) to later be able to close them all.
@@ -590,8 +1099,17 @@ export class Server extends EnhancedEventEmitter<ServerEvents> {
 	private handleWsServer(): void {
 		this.#wsServer.on(
 			'get-or-create-room',
-			({ roomId, consumerReplicas, usePipeTransports }, resolve, reject) => {
-				this.getOrCreateRoom({ roomId, consumerReplicas, usePipeTransports })
+			(
+				{ roomId, consumerReplicas, usePipeTransports, lobby },
+				resolve,
+				reject
+			) => {
+				this.getOrCreateRoom({
+					roomId,
+					consumerReplicas,
+					usePipeTransports,
+					lobby,
+				})
 					.then(resolve)
 					.catch(reject);
 			}
@@ -608,6 +1126,29 @@ export class Server extends EnhancedEventEmitter<ServerEvents> {
 				errback(new RoomNotFound(`Room '${roomId}' doesn't exist`));
 			}
 		});
+
+		this.#apiServer.on(
+			'get-or-create-room',
+			({ roomId }, callback, errback) => {
+				this.getOrCreateRoom({ roomId }).then(callback).catch(errback);
+			}
+		);
+
+		this.#apiServer.on('get-rooms', callback => {
+			callback(
+				Array.from(this.#roomQueues.values())
+					.filter(({ room }) => room !== undefined)
+					.map(({ room }) => room!)
+			);
+		});
+
+		this.#apiServer.on('drain', ({ timeout }, callback) => {
+			callback(this.drain({ timeout }));
+		});
+
+		this.#apiServer.on('get-metrics', (resolve, reject) => {
+			this.getMetrics().then(resolve).catch(reject);
+		});
 	}
 
 	private handleRoom(room: Room): void {
@@ -629,6 +1170,60 @@ export class Server extends EnhancedEventEmitter<ServerEvents> {
 			}
 
 			this.#networkThrottleEnabledByRoomId = undefined;
+
+			this.#webhookDispatcher?.dispatch({
+				roomId: room.id,
+				event: 'room.closed',
+			});
+
+			this.mayCloseDrainedServer();
+		});
+
+		room.on('peer-joined', ({ peer }) => {
+			this.#webhookDispatcher?.dispatch({
+				roomId: room.id,
+				event: 'peer.joined',
+				data: { peer },
+			});
+		});
+
+		room.on('broadcaster-peer-joined', ({ peer }) => {
+			this.#webhookDispatcher?.dispatch({
+				roomId: room.id,
+				event: 'broadcaster.joined',
+				data: { peer },
+			});
+		});
+
+		room.on('peer-left', ({ peerId }) => {
+			this.#webhookDispatcher?.dispatch({
+				roomId: room.id,
+				event: 'peer.left',
+				data: { peerId },
+			});
+		});
+
+		room.on('new-producer', ({ producer }) => {
+			const { peerId, source } = producer.appData;
+
+			this.#webhookDispatcher?.dispatch({
+				roomId: room.id,
+				event: 'producer.created',
+				data: {
+					peerId,
+					producerId: producer.id,
+					kind: producer.kind,
+					source,
+				},
+			});
+
+			producer.observer.once('close', () => {
+				this.#webhookDispatcher?.dispatch({
+					roomId: room.id,
+					event: 'producer.closed',
+					data: { peerId, producerId: producer.id },
+				});
+			});
 		});
 
 		room.on(
@@ -647,5 +1242,9 @@ export class Server extends EnhancedEventEmitter<ServerEvents> {
 		room.on('stop-network-throttle', ({ secret }, resolve, reject) => {
 			this.stopNetworkThrottle({ secret }).then(resolve).catch(reject);
 		});
+
+		room.on('create-consumer-router', (resolve, reject) => {
+			this.createConsumerRouter(room).then(resolve).catch(reject);
+		});
 	}
 }
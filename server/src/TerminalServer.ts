@@ -389,6 +389,12 @@ export class TerminalServer extends EnhancedEventEmitter<TerminalServerEvents> {
 							'- sdc, statsDataConsumer [id]: get stats for mediasoup DataConsumer with given id (or the latest created one)'
 						);
 						this.logInfoWithoutPrefix('- t, terminal: open Node REPL Terminal');
+						this.logInfoWithoutPrefix(
+							'- drain [timeout]: stop accepting new Rooms and exit once existing Rooms close or timeout (in seconds) elapses'
+						);
+						this.logInfoWithoutPrefix(
+							'- token <roomId> <peerId> [role] [ttl]: create an access token for the given Peer with role "participant" (default) or "moderator" that expires in ttl seconds (default 3600)'
+						);
 						this.logInfoWithoutPrefix('- quit: gracefully exit the process');
 						this.logInfoWithoutPrefix(
 							'- forceQuit: force exit the process (for development purposes)'
@@ -817,6 +823,75 @@ export class TerminalServer extends EnhancedEventEmitter<TerminalServerEvents> {
 						return;
 					}
 
+					case 'drain': {
+						if (!TerminalServer.#server) {
+							this.logErrorWithoutPrefix('no Server running');
+
+							break;
+						}
+
+						const timeout = params[0] ? Number(params[0]) : undefined;
+
+						if (timeout !== undefined && !(timeout > 0)) {
+							this.logErrorWithoutPrefix('invalid timeout');
+
+							break;
+						}
+
+						const deadline = TerminalServer.#server.drain({ timeout });
+
+						this.logInfoWithoutPrefix(
+							`Server draining, deadline: ${deadline.toISOString()}`
+						);
+
+						break;
+					}
+
+					case 'token': {
+						if (!TerminalServer.#server) {
+							this.logErrorWithoutPrefix('no Server running');
+
+							break;
+						}
+
+						const [roomId, peerId, role = 'participant', ttl] = params;
+
+						if (!roomId || !peerId) {
+							this.logErrorWithoutPrefix('missing roomId or peerId');
+
+							break;
+						}
+
+						if (role !== 'moderator' && role !== 'participant') {
+							this.logErrorWithoutPrefix('invalid role');
+
+							break;
+						}
+
+						const ttlSeconds = ttl ? Number(ttl) : undefined;
+
+						if (ttlSeconds !== undefined && !(ttlSeconds > 0)) {
+							this.logErrorWithoutPrefix('invalid ttl');
+
+							break;
+						}
+
+						try {
+							const token = TerminalServer.#server.createAccessToken({
+								roomId,
+								peerId,
+								role,
+								ttl: ttlSeconds,
+							});
+
+							this.logInfoWithoutPrefix(token);
+						} catch (error) {
+							this.logErrorWithoutPrefix(String(error));
+						}
+
+						break;
+					}
+
 					case 'quit': {
 						this.#onQuit();
 						this.logInfoWithoutPrefix('');
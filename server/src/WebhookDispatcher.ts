@@ -0,0 +1,238 @@
+import * as crypto from 'node:crypto';
+
+import { Logger } from './Logger';
+import type {
+	ServerConfig,
+	RoomId,
+	WebhookEndpoint,
+	WebhookEvent,
+	WebhookEventPayload,
+} from './types';
+
+const DEFAULT_MAX_QUEUE_SIZE = 1000;
+const DEFAULT_MAX_ATTEMPTS = 5;
+const REQUEST_TIMEOUT_MS = 10000;
+const RETRY_MIN_DELAY_MS = 1000;
+const RETRY_MAX_DELAY_MS = 60000;
+
+const logger = new Logger('WebhookDispatcher');
+
+type WebhooksConfig = NonNullable<ServerConfig['webhooks']>;
+
+export type WebhookDispatcherCreateOptions = {
+	config: WebhooksConfig;
+};
+
+type WebhookDispatcherConstructorOptions = {
+	config: WebhooksConfig;
+};
+
+type EndpointData = {
+	endpoint: WebhookEndpoint;
+	queue: WebhookEvent[];
+	delivering: boolean;
+	retryTimer?: ReturnType<typeof setTimeout>;
+	retryResolve?: () => void;
+};
+
+/**
+ * Delivers Room lifecycle events to the configured webhook endpoints.
+ *
+ * @remarks
+ * - Each endpoint has its own queue so a slow or failing endpoint doesn't
+ *   delay deliveries to others. Events are delivered in order.
+ * - Failed deliveries are retried with exponential backoff up to
+ *   `maxAttempts` times. Then the event is discarded.
+ * - Requests include `X-Webhook-Id`, `X-Webhook-Timestamp` (seconds since
+ *   Unix epoch) and `X-Webhook-Signature` headers. The signature is
+ *   'sha256=' followed by the hex HMAC-SHA256 of '<timestamp>.<body>' using
+ *   the secret of the endpoint.
+ */
+export class WebhookDispatcher {
+	readonly #maxQueueSize: number;
+	readonly #maxAttempts: number;
+	readonly #endpoints: EndpointData[];
+	#closed: boolean = false;
+
+	static create({ config }: WebhookDispatcherCreateOptions): WebhookDispatcher {
+		logger.debug('create()');
+
+		for (const endpoint of config.endpoints) {
+			if (!URL.canParse(endpoint.url)) {
+				throw new TypeError(`invalid webhook URL ${endpoint.url}`);
+			}
+
+			if (!endpoint.secret) {
+				throw new TypeError(`missing secret for webhook ${endpoint.url}`);
+			}
+		}
+
+		return new WebhookDispatcher({ config });
+	}
+
+	private constructor({ config }: WebhookDispatcherConstructorOptions) {
+		logger.debug('constructor()');
+
+		this.#maxQueueSize = config.maxQueueSize ?? DEFAULT_MAX_QUEUE_SIZE;
+		this.#maxAttempts = config.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+		this.#endpoints = config.endpoints.map(endpoint => ({
+			endpoint,
+			queue: [],
+			delivering: false,
+		}));
+	}
+
+	/**
+	 * Discards pending events. Requests already sent are not aborted.
+	 */
+	close(): void {
+		logger.debug('close()');
+
+		if (this.#closed) {
+			return;
+		}
+
+		this.#closed = true;
+
+		for (const endpointData of this.#endpoints) {
+			endpointData.queue.length = 0;
+
+			clearTimeout(endpointData.retryTimer);
+			endpointData.retryResolve?.();
+		}
+	}
+
+	dispatch({
+		roomId,
+		...payload
+	}: { roomId: RoomId } & WebhookEventPayload): void {
+		if (this.#closed) {
+			return;
+		}
+
+		const event = {
+			id: crypto.randomUUID(),
+			timestamp: Date.now(),
+			roomId,
+			...payload,
+		} as WebhookEvent;
+
+		for (const endpointData of this.#endpoints) {
+			const { endpoint, queue } = endpointData;
+
+			if (endpoint.events && !endpoint.events.includes(event.event)) {
+				continue;
+			}
+
+			if (queue.length >= this.#maxQueueSize) {
+				const discardedEvent = queue.shift()!;
+
+				logger.warn(
+					'dispatch() | queue full, discarding oldest event [url:%o, event:%o, id:%o]',
+					endpoint.url,
+					discardedEvent.event,
+					discardedEvent.id
+				);
+			}
+
+			queue.push(event);
+
+			void this.deliverQueue(endpointData);
+		}
+	}
+
+	private async deliverQueue(endpointData: EndpointData): Promise<void> {
+		if (endpointData.delivering) {
+			return;
+		}
+
+		endpointData.delivering = true;
+
+		const { endpoint, queue } = endpointData;
+
+		while (queue.length > 0 && !this.#closed) {
+			const event = queue[0]!;
+
+			for (let attempt = 1; ; ++attempt) {
+				try {
+					await this.deliver(endpoint, event);
+
+					break;
+				} catch (error) {
+					if (attempt >= this.#maxAttempts) {
+						logger.error(
+							`deliverQueue() | delivery failed, discarding event [url:%o, event:%o, id:%o]: ${error}`,
+							endpoint.url,
+							event.event,
+							event.id
+						);
+
+						break;
+					}
+
+					const delay = Math.min(
+						RETRY_MIN_DELAY_MS * 2 ** (attempt - 1),
+						RETRY_MAX_DELAY_MS
+					);
+
+					logger.warn(
+						`deliverQueue() | delivery failed, retrying in ${delay} ms [url:%o, event:%o, id:%o]: ${error}`,
+						endpoint.url,
+						event.event,
+						event.id
+					);
+
+					await new Promise<void>(resolve => {
+						endpointData.retryResolve = resolve;
+						endpointData.retryTimer = setTimeout(resolve, delay);
+					});
+
+					endpointData.retryTimer = undefined;
+					endpointData.retryResolve = undefined;
+
+					if (this.#closed) {
+						break;
+					}
+				}
+			}
+
+			// NOTE: The event may have been discarded meanwhile if the queue got
+			// full.
+			if (queue[0] === event) {
+				queue.shift();
+			}
+		}
+
+		endpointData.delivering = false;
+	}
+
+	private async deliver(
+		endpoint: WebhookEndpoint,
+		event: WebhookEvent
+	): Promise<void> {
+		const body = JSON.stringify(event);
+		const timestamp = Math.floor(Date.now() / 1000);
+		const signature = crypto
+			.createHmac('sha256', endpoint.secret)
+			.update(`${timestamp}.${body}`)
+			.digest('hex');
+
+		const response = await fetch(endpoint.url, {
+			method: 'POST',
+			headers: {
+				'Content-Type': 'application/json',
+				'X-Webhook-Id': event.id,
+				'X-Webhook-Timestamp': String(timestamp),
+				'X-Webhook-Signature': `sha256=${signature}`,
+			},
+			body,
+			signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+		});
+
+		if (!response.ok) {
+			throw new Error(
+				`endpoint replied with ${response.status} ${response.statusText}`
+			);
+		}
+	}
+}
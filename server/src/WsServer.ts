@@ -7,19 +7,23 @@ import type * as protooTypes from 'protoo-server';
 import { Logger } from './Logger';
 import { EnhancedEventEmitter } from './enhancedEvents';
 import { Room } from './Room';
+import { ServerError } from './errors';
+import { verifyAccessToken } from './accessTokens';
 import * as utils from './utils';
-import type { RoomId } from './types';
+import type { ServerConfig, RoomId } from './types';
 
 const logger = new Logger('WsServer');
 
 export type WsServerCreateOptions = {
 	httpServer: https.Server | http.Server;
 	httpOriginHeader: string;
+	authConfig?: ServerConfig['auth'];
 };
 
 type WsServerConstructorOptions = {
 	protooServer: protooTypes.WebSocketServer;
 	httpOriginHeader: string;
+	authConfig?: ServerConfig['auth'];
 };
 
 export type WsServerEvents = {
@@ -27,7 +31,12 @@ export type WsServerEvents = {
 	 * Emitted to create or get an existing Room.
 	 */
 	'get-or-create-room': [
-		{ roomId: RoomId; consumerReplicas: number; usePipeTransports: boolean },
+		{
+			roomId: RoomId;
+			consumerReplicas: number;
+			usePipeTransports: boolean;
+			lobby: boolean;
+		},
 		resolve: (room: Room) => void,
 		reject: (error: Error) => void,
 	];
@@ -36,10 +45,12 @@ export type WsServerEvents = {
 export class WsServer extends EnhancedEventEmitter<WsServerEvents> {
 	readonly #protooServer: protooTypes.WebSocketServer;
 	readonly #httpOriginHeader: string;
+	readonly #authConfig?: ServerConfig['auth'];
 
 	static create({
 		httpServer,
 		httpOriginHeader,
+		authConfig,
 	}: WsServerCreateOptions): WsServer {
 		logger.debug('create()');
 
@@ -50,7 +61,11 @@ export class WsServer extends EnhancedEventEmitter<WsServerEvents> {
 			fragmentationThreshold: 960000,
 		});
 
-		const wsServer = new WsServer({ protooServer, httpOriginHeader });
+		const wsServer = new WsServer({
+			protooServer,
+			httpOriginHeader,
+			authConfig,
+		});
 
 		return wsServer;
 	}
@@ -58,6 +73,7 @@ export class WsServer extends EnhancedEventEmitter<WsServerEvents> {
 	private constructor({
 		protooServer,
 		httpOriginHeader,
+		authConfig,
 	}: WsServerConstructorOptions) {
 		super();
 
@@ -65,6 +81,7 @@ export class WsServer extends EnhancedEventEmitter<WsServerEvents> {
 
 		this.#protooServer = protooServer;
 		this.#httpOriginHeader = httpOriginHeader;
+		this.#authConfig = authConfig;
 
 		this.handleProtooServer();
 	}
@@ -97,6 +114,7 @@ export class WsServer extends EnhancedEventEmitter<WsServerEvents> {
 			const peerId = params.get('peerId');
 			const consumerReplicas = Number(params.get('consumerReplicas') ?? 0);
 			const usePipeTransports = params.get('usePipeTransports') === 'true';
+			const resumptionToken = params.get('resumptionToken') ?? undefined;
 
 			if (!roomId || !peerId) {
 				reject(400, 'Missing roomId and/or peerId');
@@ -113,29 +131,58 @@ export class WsServer extends EnhancedEventEmitter<WsServerEvents> {
 			);
 
 			try {
+				// Validate access token (if required).
+				const accessToken = this.#authConfig
+					? verifyAccessToken({
+							authConfig: this.#authConfig,
+							token: params.get('token'),
+							roomId,
+							peerId,
+						})
+					: undefined;
+				const role = accessToken?.role;
+				// NOTE: If access tokens are required, just moderators can enable the
+				// lobby of the Room they create. Otherwise the Peer creating the Room
+				// becomes its moderator anyway.
+				const lobby =
+					params.get('lobby') === 'true' &&
+					(!this.#authConfig || role === 'moderator');
+
 				// eslint-disable-next-line no-shadow
 				const room = await new Promise<Room>((resolve, reject) => {
 					this.emit(
 						'get-or-create-room',
-						{ roomId, consumerReplicas, usePipeTransports },
+						{ roomId, consumerReplicas, usePipeTransports, lobby },
 						resolve,
 						reject
 					);
 				});
 
+				// Check it before accepting the WebSocket connection so we can reject
+				// it with a proper status code.
+				room.assertCanJoin({ peerId, role });
+
 				const protooTransport = accept();
 
 				room.processWsConnection({
 					peerId,
+					role,
+					resumptionToken,
 					protooTransport,
 					// NOTE: It should always exist (unless socket is disconnected, but
 					// we don't care about that).
 					remoteAddress: info.socket.remoteAddress!,
 				});
 			} catch (error) {
-				logger.error('Room creation or Room joining failed:', error);
+				if (error instanceof ServerError) {
+					logger.warn(`Room creation or Room joining failed: ${error}`);
+
+					reject(error.status, error.message);
+				} else {
+					logger.error('Room creation or Room joining failed:', error);
 
-				reject(error as Error);
+					reject(error as Error);
+				}
 
 				return;
 			}
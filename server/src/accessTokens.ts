@@ -0,0 +1,198 @@
+import * as crypto from 'node:crypto';
+
+import { ForbiddenError } from './errors';
+import type {
+	ServerConfig,
+	AccessTokenAlgorithm,
+	AccessTokenPayload,
+	RoomId,
+	PeerId,
+} from './types';
+
+type AuthConfig = NonNullable<ServerConfig['auth']>;
+
+/**
+ * Signs an access token (JWT in compact serialization) with the secret in the
+ * given auth config. Just HS256 is supported for signing since asymmetric
+ * tokens are expected to be issued by an external service.
+ */
+export function signAccessToken({
+	authConfig,
+	payload,
+}: {
+	authConfig: AuthConfig;
+	payload: AccessTokenPayload;
+}): string {
+	if (!authConfig.secret) {
+		throw new TypeError('cannot sign access token without a secret');
+	}
+
+	const header = { alg: 'HS256', typ: 'JWT' };
+	const signingInput = `${encodeJson(header)}.${encodeJson(payload)}`;
+	const signature = crypto
+		.createHmac('sha256', authConfig.secret)
+		.update(signingInput)
+		.digest('base64url');
+
+	return `${signingInput}.${signature}`;
+}
+
+/**
+ * Verifies the given access token and returns its payload.
+ *
+ * @throws {ForbiddenError} If the token is missing, malformed, wrongly signed,
+ *   expired, or if it doesn't match the given `roomId` or `peerId`.
+ */
+export function verifyAccessToken({
+	authConfig,
+	token,
+	roomId,
+	peerId,
+}: {
+	authConfig: AuthConfig;
+	token?: string | null;
+	roomId: RoomId;
+	peerId?: PeerId;
+}): AccessTokenPayload {
+	if (!token) {
+		throw new ForbiddenError('missing access token');
+	}
+
+	const parts = token.split('.');
+
+	if (parts.length !== 3) {
+		throw new ForbiddenError('malformed access token');
+	}
+
+	const [encodedHeader, encodedPayload, encodedSignature] = parts as [
+		string,
+		string,
+		string,
+	];
+
+	let header: { alg?: string };
+	let payload: Partial<AccessTokenPayload>;
+
+	try {
+		header = decodeJson(encodedHeader);
+		payload = decodeJson(encodedPayload);
+
+		if (!isPlainObject(header) || !isPlainObject(payload)) {
+			throw new TypeError('header and payload must be objects');
+		}
+	} catch (error) {
+		throw new ForbiddenError('malformed access token');
+	}
+
+	const signingInput = `${encodedHeader}.${encodedPayload}`;
+	const signature = Buffer.from(encodedSignature, 'base64url');
+
+	if (
+		!isValidSignature({
+			authConfig,
+			algorithm: header.alg as AccessTokenAlgorithm,
+			signingInput,
+			signature,
+		})
+	) {
+		throw new ForbiddenError('invalid access token signature');
+	}
+
+	if (typeof payload.exp !== 'number' || payload.exp * 1000 <= Date.now()) {
+		throw new ForbiddenError('access token expired');
+	}
+
+	if (payload.roomId !== roomId) {
+		throw new ForbiddenError('access token not valid for this Room');
+	}
+
+	if (peerId !== undefined && payload.peerId !== peerId) {
+		throw new ForbiddenError('access token not valid for this Peer');
+	}
+
+	if (payload.role !== 'moderator' && payload.role !== 'participant') {
+		throw new ForbiddenError('invalid role in access token');
+	}
+
+	return payload as AccessTokenPayload;
+}
+
+/**
+ * Extracts the token from an HTTP Authorization header with Bearer scheme.
+ */
+export function getBearerToken(
+	authorizationHeader?: string
+): string | undefined {
+	const match = /^Bearer\s+(.+)$/i.exec(authorizationHeader ?? '');
+
+	return match?.[1];
+}
+
+function isValidSignature({
+	authConfig,
+	algorithm,
+	signingInput,
+	signature,
+}: {
+	authConfig: AuthConfig;
+	algorithm: AccessTokenAlgorithm;
+	signingInput: string;
+	signature: Buffer;
+}): boolean {
+	switch (algorithm) {
+		case 'HS256': {
+			if (!authConfig.secret) {
+				return false;
+			}
+
+			const expectedSignature = crypto
+				.createHmac('sha256', authConfig.secret)
+				.update(signingInput)
+				.digest();
+
+			return (
+				expectedSignature.length === signature.length &&
+				crypto.timingSafeEqual(expectedSignature, signature)
+			);
+		}
+
+		case 'RS256':
+		case 'ES256': {
+			if (!authConfig.publicKey) {
+				return false;
+			}
+
+			try {
+				return crypto.verify(
+					'sha256',
+					Buffer.from(signingInput),
+					{
+						key: authConfig.publicKey,
+						// JWS uses raw R||S concatenation for ECDSA signatures.
+						dsaEncoding: algorithm === 'ES256' ? 'ieee-p1363' : 'der',
+					},
+					signature
+				);
+			} catch (error) {
+				return false;
+			}
+		}
+
+		default: {
+			// NOTE: This rejects 'none' algorithm among others.
+			return false;
+		}
+	}
+}
+
+function isPlainObject(value: unknown): value is object {
+	return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function encodeJson(value: object): string {
+	return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+function decodeJson<T>(encoded: string): T {
+	return JSON.parse(Buffer.from(encoded, 'base64url').toString('utf8')) as T;
+}
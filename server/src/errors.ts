@@ -78,6 +78,26 @@ export class ForbiddenError extends ServerError {
 	}
 }
 
+export class ServerDrainingError extends ServerError {
+	constructor(message: string) {
+		super(message);
+
+		this.name = 'ServerDrainingError';
+
+		if (Error.hasOwnProperty('captureStackTrace')) {
+			// Just in V8.
+			Error.captureStackTrace(this, ServerDrainingError);
+		} else {
+			this.stack = new Error(message).stack;
+		}
+	}
+
+	override get status(): number {
+		// HTTP 503 Service Unavailable.
+		return 503;
+	}
+}
+
 export class RoomNotFound extends ServerError {
 	constructor(message: string) {
 		super(message);
@@ -154,14 +154,32 @@ function handleProcess(): void {
 		void exitGracefully();
 	});
 
+	// NOTE: SIGTERM drains the Server (so existing Rooms can finish) and a
+	// second SIGTERM exits immediately.
 	process.on('SIGTERM', () => {
-		void exitGracefully();
+		if (server && !server.isDraining()) {
+			logger.info('SIGTERM received, draining the Server...');
+
+			server.drain();
+		} else {
+			void exitGracefully();
+		}
 	});
 }
 
 function handleServer(): void {
 	server?.on('closed', () => {
+		const drained = server!.isDraining();
+
 		server = undefined;
+
+		// Exit once the Server is closed after draining (no matter it was
+		// triggered by a signal, the terminal or the HTTP API).
+		if (drained) {
+			logger.info('Server drained, exiting');
+
+			void exitGracefully();
+		}
 	});
 
 	server?.on('died', () => {
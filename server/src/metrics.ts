@@ -0,0 +1,101 @@
+import * as promClient from 'prom-client';
+
+/**
+ * Prometheus metrics exposed by the HTTP API in `/metrics`.
+ *
+ * @remarks
+ * - Counters and histograms are updated where things happen.
+ * - Per mediasoup Worker gauges are updated by the Server right before each
+ *   scrape.
+ */
+export const registry = new promClient.Registry();
+
+const PREFIX = 'mediasoup_demo_';
+
+export const workerRoomsGauge = new promClient.Gauge({
+	name: `${PREFIX}worker_rooms`,
+	help: 'Number of Rooms whose producer Router lives in the mediasoup Worker',
+	labelNames: ['worker'] as const,
+	registers: [registry],
+});
+
+export const workerPeersGauge = new promClient.Gauge({
+	name: `${PREFIX}worker_peers`,
+	help: 'Number of joined Peers in Rooms of the mediasoup Worker',
+	labelNames: ['worker'] as const,
+	registers: [registry],
+});
+
+export const workerBroadcasterPeersGauge = new promClient.Gauge({
+	name: `${PREFIX}worker_broadcaster_peers`,
+	help: 'Number of joined BroadcasterPeers in Rooms of the mediasoup Worker',
+	labelNames: ['worker'] as const,
+	registers: [registry],
+});
+
+export const workerTransportsGauge = new promClient.Gauge({
+	name: `${PREFIX}worker_transports`,
+	help: 'Number of mediasoup Transports in the mediasoup Worker',
+	labelNames: ['worker'] as const,
+	registers: [registry],
+});
+
+export const workerProducersGauge = new promClient.Gauge({
+	name: `${PREFIX}worker_producers`,
+	help: 'Number of mediasoup Producers in the mediasoup Worker',
+	labelNames: ['worker'] as const,
+	registers: [registry],
+});
+
+export const workerConsumersGauge = new promClient.Gauge({
+	name: `${PREFIX}worker_consumers`,
+	help: 'Number of mediasoup Consumers in the mediasoup Worker',
+	labelNames: ['worker'] as const,
+	registers: [registry],
+});
+
+export const workerCpuUsageGauge = new promClient.Gauge({
+	name: `${PREFIX}worker_cpu_usage_percent`,
+	help: 'CPU usage percentage of the mediasoup Worker process',
+	labelNames: ['worker'] as const,
+	registers: [registry],
+});
+
+export const workerMemoryGauge = new promClient.Gauge({
+	name: `${PREFIX}worker_memory_bytes`,
+	help: 'Memory (RSS) of the mediasoup Worker process',
+	labelNames: ['worker'] as const,
+	registers: [registry],
+});
+
+export const peerJoinsCounter = new promClient.Counter({
+	name: `${PREFIX}peer_joins_total`,
+	help: 'Number of Peers that joined a Room',
+	registers: [registry],
+});
+
+export const peerLeavesCounter = new promClient.Counter({
+	name: `${PREFIX}peer_leaves_total`,
+	help: 'Number of joined Peers that left a Room',
+	registers: [registry],
+});
+
+export const peerJoinTimeoutsCounter = new promClient.Counter({
+	name: `${PREFIX}peer_join_timeouts_total`,
+	help: 'Number of Peers closed because they did not join in time',
+	registers: [registry],
+});
+
+export const consumeFailuresCounter = new promClient.Counter({
+	name: `${PREFIX}consume_failures_total`,
+	help: 'Number of failed Peer consume() calls',
+	registers: [registry],
+});
+
+export const protooRequestDurationHistogram = new promClient.Histogram({
+	name: `${PREFIX}protoo_request_duration_seconds`,
+	help: 'Time to process protoo requests from Peers by method',
+	labelNames: ['method'] as const,
+	buckets: [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10],
+	registers: [registry],
+});
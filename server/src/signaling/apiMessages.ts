@@ -3,17 +3,26 @@ import type * as mediasoupTypes from 'mediasoup/types';
 import type {
 	RoomId,
 	PeerId,
+	PeerRole,
 	PeerDevice,
 	ApiMethod,
 	ApiPath,
 	PeerProducersInfo,
+	PeerDataProducersInfo,
 	PlainTransportRemoteData,
 	PlainTransportAppData,
 	PeerProducerAppData,
+	PeerDataProducerAppData,
+	AdminSerializedRoom,
+	Source,
 } from '../types';
+import type {
+	NotificationNameFromServer,
+	NotificationDataFromServer,
+} from './protooMessages';
 
 /**
- * Requests sent from broadcaster to server using the HTTP API.
+ * Requests sent from broadcaster (or admin) to server using the HTTP API.
  */
 type Request =
 	| {
@@ -35,6 +44,10 @@ type Request =
 			};
 			internalData: {
 				remoteAddress: string;
+				/**
+				 * Role in the access token (if any).
+				 */
+				role?: PeerRole;
 			};
 	  }
 	| {
@@ -53,6 +66,22 @@ type Request =
 			method: 'DELETE';
 			path: ['rooms', { roomId: RoomId }, 'broadcasters', { peerId: PeerId }];
 	  }
+	| {
+			name: 'getBroadcasterPeer';
+			method: 'GET';
+			path: ['rooms', { roomId: RoomId }, 'broadcasters', { peerId: PeerId }];
+			responseData: {
+				peerId: PeerId;
+				displayName: string;
+				device: PeerDevice;
+				joined: boolean;
+				transportIds: string[];
+				producerIds: string[];
+				consumerIds: string[];
+				dataProducerIds: string[];
+				dataConsumerIds: string[];
+			};
+	  }
 	| {
 			name: 'createPlainTransport';
 			method: 'POST';
@@ -66,6 +95,19 @@ type Request =
 			data: {
 				comedia?: boolean;
 				rtcpMux?: boolean;
+				/**
+				 * Enable SCTP (DataChannels) in the PlainTransport.
+				 */
+				enableSctp?: boolean;
+				/**
+				 * Encrypt RTP and RTCP with SRTP. The client must then give its own
+				 * SRTP parameters in connectPlainTransport.
+				 */
+				enableSrtp?: boolean;
+				/**
+				 * SRTP crypto suite. Default 'AES_CM_128_HMAC_SHA1_80'.
+				 */
+				srtpCryptoSuite?: mediasoupTypes.SrtpCryptoSuite;
 				appData: PlainTransportAppData;
 			};
 			responseData: PlainTransportRemoteData;
@@ -83,11 +125,47 @@ type Request =
 				'connect',
 			];
 			data: {
-				ip: string;
-				port: number;
+				/**
+				 * Remote IP and ports. Not needed if the PlainTransport was created
+				 * with `comedia` option.
+				 */
+				ip?: string;
+				port?: number;
 				rtcpPort?: number;
+				/**
+				 * Crypto suite and key with which the client encrypts the RTP and
+				 * RTCP it sends. Required if the PlainTransport was created with SRTP
+				 * enabled.
+				 */
+				srtpParameters?: mediasoupTypes.SrtpParameters;
 			};
 	  }
+	| {
+			name: 'closePlainTransport';
+			method: 'DELETE';
+			path: [
+				'rooms',
+				{ roomId: RoomId },
+				'broadcasters',
+				{ peerId: PeerId },
+				'transports',
+				{ transportId: string },
+			];
+	  }
+	| {
+			name: 'getTransportStats';
+			method: 'GET';
+			path: [
+				'rooms',
+				{ roomId: RoomId },
+				'broadcasters',
+				{ peerId: PeerId },
+				'transports',
+				{ transportId: string },
+				'stats',
+			];
+			responseData: { stats: mediasoupTypes.PlainTransportStat[] };
+	  }
 	| {
 			name: 'produce';
 			method: 'POST';
@@ -106,6 +184,58 @@ type Request =
 			};
 			responseData: { producerId: string };
 	  }
+	| {
+			name: 'pauseProducer';
+			method: 'POST';
+			path: [
+				'rooms',
+				{ roomId: RoomId },
+				'broadcasters',
+				{ peerId: PeerId },
+				'producers',
+				{ producerId: string },
+				'pause',
+			];
+	  }
+	| {
+			name: 'resumeProducer';
+			method: 'POST';
+			path: [
+				'rooms',
+				{ roomId: RoomId },
+				'broadcasters',
+				{ peerId: PeerId },
+				'producers',
+				{ producerId: string },
+				'resume',
+			];
+	  }
+	| {
+			name: 'closeProducer';
+			method: 'DELETE';
+			path: [
+				'rooms',
+				{ roomId: RoomId },
+				'broadcasters',
+				{ peerId: PeerId },
+				'producers',
+				{ producerId: string },
+			];
+	  }
+	| {
+			name: 'getProducerStats';
+			method: 'GET';
+			path: [
+				'rooms',
+				{ roomId: RoomId },
+				'broadcasters',
+				{ peerId: PeerId },
+				'producers',
+				{ producerId: string },
+				'stats',
+			];
+			responseData: { stats: mediasoupTypes.ProducerStat[] };
+	  }
 	| {
 			name: 'getPeerProducersInfos';
 			method: 'GET';
@@ -136,7 +266,65 @@ type Request =
 				paused?: boolean;
 				rtpCapabilities: mediasoupTypes.RtpCapabilities;
 			};
-			responseData: { consumerId: string };
+			responseData: {
+				consumerId: string;
+				kind: mediasoupTypes.MediaKind;
+				rtpParameters: mediasoupTypes.RtpParameters;
+			};
+	  }
+	| {
+			name: 'produceData';
+			method: 'POST';
+			path: [
+				'rooms',
+				{ roomId: RoomId },
+				'broadcasters',
+				{ peerId: PeerId },
+				'dataProducers',
+			];
+			data: {
+				transportId: string;
+				sctpStreamParameters: mediasoupTypes.SctpStreamParameters;
+				label?: string;
+				protocol?: string;
+				appData: PeerDataProducerAppData;
+			};
+			responseData: { dataProducerId: string };
+	  }
+	| {
+			name: 'getPeerDataProducersInfos';
+			method: 'GET';
+			path: [
+				'rooms',
+				{ roomId: RoomId },
+				'broadcasters',
+				{ peerId: PeerId },
+				'peerDataProducersInfos',
+			];
+			responseData: {
+				peerDataProducersInfos: PeerDataProducersInfo[];
+			};
+	  }
+	| {
+			name: 'consumeData';
+			method: 'POST';
+			path: [
+				'rooms',
+				{ roomId: RoomId },
+				'broadcasters',
+				{ peerId: PeerId },
+				'dataConsumers',
+			];
+			data: {
+				transportId: string;
+				dataProducerId: string;
+			};
+			responseData: {
+				dataConsumerId: string;
+				sctpStreamParameters: mediasoupTypes.SctpStreamParameters;
+				label: string;
+				protocol: string;
+			};
 	  }
 	| {
 			name: 'resumeConsumer';
@@ -150,6 +338,124 @@ type Request =
 				{ consumerId: string },
 				'resume',
 			];
+	  }
+	| {
+			name: 'pauseConsumer';
+			method: 'POST';
+			path: [
+				'rooms',
+				{ roomId: RoomId },
+				'broadcasters',
+				{ peerId: PeerId },
+				'consumers',
+				{ consumerId: string },
+				'pause',
+			];
+	  }
+	| {
+			name: 'closeConsumer';
+			method: 'DELETE';
+			path: [
+				'rooms',
+				{ roomId: RoomId },
+				'broadcasters',
+				{ peerId: PeerId },
+				'consumers',
+				{ consumerId: string },
+			];
+	  }
+	| {
+			name: 'getConsumerStats';
+			method: 'GET';
+			path: [
+				'rooms',
+				{ roomId: RoomId },
+				'broadcasters',
+				{ peerId: PeerId },
+				'consumers',
+				{ consumerId: string },
+				'stats',
+			];
+			responseData: { stats: mediasoupTypes.ConsumerStat[] };
+	  }
+	| {
+			/**
+			 * WHIP offer sent to a just created BroadcasterPeer. It creates a
+			 * WebRtcTransport and a Producer for each media section in the SDP
+			 * offer and joins the Room.
+			 */
+			name: 'whipPublish';
+			method: 'POST';
+			path: ['rooms', { roomId: RoomId }, 'whip'];
+			data: {
+				sdpOffer: string;
+			};
+			responseData: {
+				sdpAnswer: string;
+			};
+	  }
+	| {
+			/**
+			 * WHIP trickle ICE or ICE restart.
+			 */
+			name: 'whipUpdateIce';
+			method: 'PATCH';
+			path: ['rooms', { roomId: RoomId }, 'whip', { peerId: PeerId }];
+			data: {
+				sdpFragment: string;
+			};
+			responseData: {
+				/**
+				 * Only if ICE was restarted.
+				 */
+				sdpFragment?: string;
+			};
+	  }
+	| {
+			name: 'whipUnpublish';
+			method: 'DELETE';
+			path: ['rooms', { roomId: RoomId }, 'whip', { peerId: PeerId }];
+	  }
+	| {
+			name: 'adminGetRoom';
+			method: 'GET';
+			path: ['admin', 'rooms', { roomId: RoomId }];
+			responseData: AdminSerializedRoom;
+	  }
+	| {
+			name: 'adminCloseRoom';
+			method: 'DELETE';
+			path: ['admin', 'rooms', { roomId: RoomId }];
+	  }
+	| {
+			name: 'adminKickPeer';
+			method: 'DELETE';
+			path: ['admin', 'rooms', { roomId: RoomId }, 'peers', { peerId: PeerId }];
+			data: {
+				peerId: PeerId;
+				reason?: string;
+			};
+	  }
+	| {
+			name: 'adminNotifyRoom';
+			method: 'POST';
+			path: ['admin', 'rooms', { roomId: RoomId }, 'notify'];
+			data: {
+				text: string;
+			};
+	  }
+	| {
+			name: 'adminStartRecording';
+			method: 'POST';
+			path: ['admin', 'rooms', { roomId: RoomId }, 'recording'];
+			responseData: {
+				directory: string;
+			};
+	  }
+	| {
+			name: 'adminStopRecording';
+			method: 'DELETE';
+			path: ['admin', 'rooms', { roomId: RoomId }, 'recording'];
 	  };
 
 type RequestNameApiMethodMap<U extends { name: string; method: ApiMethod }> = {
@@ -176,17 +482,39 @@ type RequestName = Request['name'];
 
 export type RequestNameForRoom =
 	| 'getRouterRtpCapabilities'
-	| 'createBroadcasterPeer';
+	| 'createBroadcasterPeer'
+	| 'adminGetRoom'
+	| 'adminCloseRoom'
+	| 'adminKickPeer'
+	| 'adminNotifyRoom'
+	| 'adminStartRecording'
+	| 'adminStopRecording';
 
 export type RequestNameForBroadcastPeer =
 	| 'join'
 	| 'disconnect'
+	| 'getBroadcasterPeer'
 	| 'createPlainTransport'
 	| 'connectPlainTransport'
+	| 'closePlainTransport'
+	| 'getTransportStats'
 	| 'produce'
+	| 'pauseProducer'
+	| 'resumeProducer'
+	| 'closeProducer'
+	| 'getProducerStats'
 	| 'getPeerProducersInfos'
 	| 'consume'
-	| 'resumeConsumer';
+	| 'resumeConsumer'
+	| 'pauseConsumer'
+	| 'closeConsumer'
+	| 'getConsumerStats'
+	| 'produceData'
+	| 'getPeerDataProducersInfos'
+	| 'consumeData'
+	| 'whipPublish'
+	| 'whipUpdateIce'
+	| 'whipUnpublish';
 
 export type RequestApiMethod<Name extends RequestName> =
 	RequestNameApiMethodMap<Request>[Name];
@@ -215,3 +543,47 @@ export type TypedApiRequest<Name extends RequestName> = {
 			: (responseData: RequestResponseData<N>) => void;
 	};
 }[Name];
+
+/**
+ * Notifications sent from server to broadcaster over the Server-Sent Events
+ * stream of its BroadcasterPeer. Those are the same notifications sent to
+ * Peers using Protoo protocol plus the following ones.
+ */
+type NotificationForBroadcastPeer =
+	| {
+			/**
+			 * Peers are told about new Producers with a 'newConsumer' request
+			 * instead.
+			 */
+			name: 'newProducer';
+			data: {
+				peerId: PeerId;
+				producerId: string;
+				kind: mediasoupTypes.MediaKind;
+				source: Source;
+			};
+	  }
+	| {
+			name: 'producerClosed';
+			data: {
+				peerId: PeerId;
+				producerId: string;
+			};
+	  };
+
+type NotificationNameDataMap<U extends { name: string }> = {
+	[K in U as K['name']]: K extends { data: infer D } ? D : undefined;
+};
+
+export type NotificationNameForBroadcastPeer =
+	| NotificationNameFromServer
+	| NotificationForBroadcastPeer['name'];
+
+export type NotificationDataForBroadcastPeer<
+	Name extends NotificationNameForBroadcastPeer,
+> = Name extends NotificationNameFromServer
+	? NotificationDataFromServer<Name>
+	: NotificationNameDataMap<NotificationForBroadcastPeer>[Exclude<
+			Name,
+			NotificationNameFromServer
+		>];
@@ -0,0 +1,104 @@
+import type * as mediasoupTypes from 'mediasoup/types';
+
+import type { PeerId, SerializedPeer, ProducerAppData } from '../types';
+
+type RequestNameDataMap<U extends { name: string }> = {
+	[K in U as K['name']]: K extends { data: infer D } ? D : undefined;
+};
+
+type RequestNameResponseDataMap<U extends { name: string }> = {
+	[K in U as K['name']]: K extends { responseData: infer R } ? R : undefined;
+};
+
+/**
+ * Requests sent between server nodes (cascading) using the HTTP API. They are
+ * sent in both directions and always refer to the Room with same `roomId` in
+ * both nodes.
+ */
+type CascadeRequest =
+	| {
+			/**
+			 * Exchanges the tuple and SRTP parameters of the PipeTransports of both
+			 * nodes.
+			 */
+			name: 'connect';
+			data: {
+				ip: string;
+				port: number;
+				srtpParameters: mediasoupTypes.SrtpParameters;
+			};
+			responseData: {
+				ip: string;
+				port: number;
+				srtpParameters: mediasoupTypes.SrtpParameters;
+			};
+	  }
+	| {
+			name: 'disconnect';
+	  }
+	| {
+			name: 'newPeer';
+			data: {
+				peer: SerializedPeer;
+			};
+	  }
+	| {
+			name: 'peerDisplayNameChanged';
+			data: {
+				peerId: PeerId;
+				displayName: string;
+				oldDisplayName: string;
+			};
+	  }
+	| {
+			name: 'peerClosed';
+			data: {
+				peerId: PeerId;
+			};
+	  }
+	| {
+			name: 'newProducer';
+			data: {
+				producerId: string;
+				kind: mediasoupTypes.MediaKind;
+				rtpParameters: mediasoupTypes.RtpParameters;
+				paused: boolean;
+				appData: ProducerAppData;
+			};
+	  }
+	| {
+			name: 'producerClosed';
+			data: {
+				producerId: string;
+			};
+	  }
+	| {
+			name: 'producerPaused';
+			data: {
+				producerId: string;
+			};
+	  }
+	| {
+			name: 'producerResumed';
+			data: {
+				producerId: string;
+			};
+	  };
+
+export type CascadeRequestName = keyof RequestNameDataMap<CascadeRequest>;
+
+export type CascadeRequestData<Name extends CascadeRequestName> =
+	RequestNameDataMap<CascadeRequest>[Name];
+
+export type CascadeRequestResponseData<Name extends CascadeRequestName> =
+	RequestNameResponseDataMap<CascadeRequest>[Name];
+
+export type TypedCascadeRequest = {
+	[Name in CascadeRequestName]: {
+		name: Name;
+		data: CascadeRequestData<Name>;
+		accept: CascadeRequestResponseData<Name> extends undefined
+			? () => void
+			: (responseData: CascadeRequestResponseData<Name>) => void;
+	};
+}[CascadeRequestName];
@@ -4,8 +4,10 @@ import type * as throttleTypes from '@sitespeed.io/throttle';
 
 import type {
 	PeerId,
+	PeerRole,
 	PeerDevice,
 	SerializedPeer,
+	Source,
 	WebRtcTransportAppData,
 	PeerProducerAppData,
 	ConsumerAppData,
@@ -120,8 +122,20 @@ type RequestFromPeer =
 				rtpCapabilities?: mediasoupTypes.RtpCapabilities;
 				sctpCapabilities?: mediasoupTypes.SctpCapabilities;
 			};
+			/**
+			 * If `waitingInLobby` is true, `peers` is empty and the Peer must wait
+			 * for the 'lobbyAdmitted' notification.
+			 */
 			responseData: {
 				peers: SerializedPeer[];
+				role: PeerRole;
+				waitingInLobby: boolean;
+				/**
+				 * To be given in the `resumptionToken` query parameter of a new
+				 * protoo WebSocket connection to resume the session if the current
+				 * one is lost.
+				 */
+				resumptionToken: string;
 			};
 	  }
 	| {
@@ -209,6 +223,75 @@ type RequestFromPeer =
 			data: {
 				secret: string;
 			};
+	  }
+	| {
+			/**
+			 * Pauses (or closes if `close` is true) the Producers of the given Peer
+			 * with the given source (or all of them if not given). Only allowed to
+			 * moderators.
+			 */
+			name: 'moderatorMutePeer';
+			data: {
+				peerId: PeerId;
+				source?: Source;
+				close?: boolean;
+			};
+	  }
+	| {
+			/**
+			 * Closes the given Peer and prevents it from joining again. Only allowed
+			 * to moderators.
+			 */
+			name: 'moderatorKickPeer';
+			data: {
+				peerId: PeerId;
+				reason?: string;
+			};
+	  }
+	| {
+			/**
+			 * Prevents new Peers from joining the Room. Only allowed to moderators.
+			 */
+			name: 'lockRoom';
+	  }
+	| {
+			/**
+			 * Allows new Peers to join the Room again. Only allowed to moderators.
+			 */
+			name: 'unlockRoom';
+	  }
+	| {
+			/**
+			 * Lets a Peer waiting in the lobby join the Room. Only allowed to
+			 * moderators.
+			 */
+			name: 'admitPeer';
+			data: {
+				peerId: PeerId;
+			};
+	  }
+	| {
+			/**
+			 * Rejects a Peer waiting in the lobby and closes it. Only allowed to
+			 * moderators.
+			 */
+			name: 'denyPeer';
+			data: {
+				peerId: PeerId;
+				reason?: string;
+			};
+	  }
+	| {
+			/**
+			 * Starts recording the Room. Only allowed to moderators.
+			 */
+			name: 'startRecording';
+	  }
+	| {
+			/**
+			 * Stops recording the Room. Only allowed to moderators.
+			 */
+			name: 'stopRecording';
 	  };
 
 export type RequestNameFromPeer = keyof RequestNameDataMap<RequestFromPeer>;
@@ -323,6 +406,122 @@ type NotificationFromServer =
 			data: {
 				dataConsumerId: string;
 			};
+	  }
+	| {
+			name: 'peerMuted';
+			data: {
+				peerId: PeerId;
+				moderatorPeerId: PeerId;
+				source?: Source;
+				producerIds: string[];
+				closed: boolean;
+			};
+	  }
+	| {
+			/**
+			 * Also sent to the kicked Peer right before closing its connection.
+			 */
+			name: 'peerKicked';
+			data: {
+				peerId: PeerId;
+				// Unset if kicked by an admin.
+				moderatorPeerId?: PeerId;
+				reason?: string;
+			};
+	  }
+	| {
+			name: 'roomLockChanged';
+			data: {
+				locked: boolean;
+				moderatorPeerId: PeerId;
+			};
+	  }
+	| {
+			/**
+			 * Also sent to Peers joining while the Room is being recorded.
+			 */
+			name: 'recordingStateChanged';
+			data: {
+				recording: boolean;
+				// Unset if changed by an admin or by the server.
+				moderatorPeerId?: PeerId;
+			};
+	  }
+	| {
+			/**
+			 * Sent right before closing the Room due to a mediasoup failure. The
+			 * endpoint should reconnect and join again.
+			 */
+			name: 'roomRestarting';
+	  }
+	| {
+			/**
+			 * Message sent by an admin to all Peers in the Room.
+			 */
+			name: 'adminMessage';
+			data: {
+				text: string;
+			};
+	  }
+	| {
+			/**
+			 * Sent to all Peers when the server starts draining (it's going to be
+			 * shut down). The Room is closed once all Peers leave or, at most, at
+			 * `deadline` (milliseconds since Unix epoch).
+			 */
+			name: 'serverShuttingDown';
+			data: {
+				deadline: number;
+			};
+	  }
+	| {
+			/**
+			 * Sent to the Peer when it resumes its session in a new protoo
+			 * connection, followed by notifications missed meanwhile.
+			 */
+			name: 'sessionResumed';
+	  }
+	| {
+			/**
+			 * Sent to moderators when a Peer is waiting in the lobby.
+			 */
+			name: 'lobbyPeerWaiting';
+			data: {
+				peerId: PeerId;
+				displayName: string;
+				device: PeerDevice;
+			};
+	  }
+	| {
+			/**
+			 * Sent to moderators when a Peer is no longer waiting in the lobby
+			 * (because it was admitted, denied, timed out or left).
+			 */
+			name: 'lobbyPeerLeft';
+			data: {
+				peerId: PeerId;
+			};
+	  }
+	| {
+			/**
+			 * Sent to the waiting Peer once admitted, with same content as the
+			 * 'join' response.
+			 */
+			name: 'lobbyAdmitted';
+			data: {
+				peers: SerializedPeer[];
+			};
+	  }
+	| {
+			/**
+			 * Sent to the waiting Peer right before closing its connection. If
+			 * `moderatorPeerId` is unset the Peer waited for too long.
+			 */
+			name: 'lobbyDenied';
+			data: {
+				moderatorPeerId?: PeerId;
+				reason?: string;
+			};
 	  };
 
 export type NotificationNameFromServer =
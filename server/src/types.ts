@@ -2,6 +2,63 @@ import type * as mediasoupTypes from 'mediasoup/types';
 
 export type ServerConfig = {
 	domain: string;
+	/**
+	 * Access token settings. If set, WebSocket connections and HTTP API requests
+	 * must present a valid access token signed with `secret` (HS256) or with
+	 * the private key matching `publicKey` (RS256 or ES256).
+	 */
+	auth?: {
+		secret?: string;
+		publicKey?: string | NonSharedBuffer;
+	};
+	/**
+	 * Admin HTTP API settings. If set, requests to `/admin` routes must present
+	 * `secret` in an `Authorization: Bearer` header.
+	 */
+	admin?: {
+		secret: string;
+	};
+	/**
+	 * Prometheus metrics settings. If set, metrics are exposed in `/metrics`
+	 * route of the HTTP API. If `secret` is given, requests must present it in
+	 * an `Authorization: Bearer` header.
+	 */
+	metrics?: {
+		secret?: string;
+	};
+	/**
+	 * Max time (in seconds) given to existing Rooms to finish once the Server
+	 * starts draining. Once elapsed, the Server is closed anyway. Default 600.
+	 */
+	drainTimeout?: number;
+	/**
+	 * Outbound webhooks. If set, Room lifecycle events are POSTed as JSON to
+	 * each endpoint, signed with its `secret` (see `WebhookDispatcher`).
+	 */
+	webhooks?: {
+		endpoints: WebhookEndpoint[];
+		/**
+		 * Max number of pending events per endpoint. Once reached, the oldest
+		 * pending event is discarded. Default 1000.
+		 */
+		maxQueueSize?: number;
+		/**
+		 * Max delivery attempts per event. Default 5.
+		 */
+		maxAttempts?: number;
+	};
+	/**
+	 * Room recording settings. If set, moderators and admins can record Rooms.
+	 * Each recording is written into a new folder within `directory` by FFmpeg
+	 * processes spawned by the server.
+	 */
+	recording?: {
+		directory: string;
+		/**
+		 * Path to the FFmpeg binary. Default 'ffmpeg'.
+		 */
+		ffmpegPath?: string;
+	};
 	http: {
 		listenIp: string;
 		listenPort: number;
@@ -12,6 +69,11 @@ export type ServerConfig = {
 	};
 	mediasoup: {
 		numWorkers: number;
+		/**
+		 * How to choose the mediasoup Worker for new Routers. Default
+		 * 'round-robin'.
+		 */
+		workerPlacementStrategy?: WorkerPlacementStrategy;
 		workerSettings: {
 			dtlsCertificateFile?: string;
 			dtlsPrivateKeyFile?: string;
@@ -41,13 +103,62 @@ export type ServerConfig = {
 			listenInfo: mediasoupTypes.TransportListenInfo;
 			maxSctpMessageSize?: number;
 		};
+		/**
+		 * If set, Rooms using pipe transports create additional consumer Routers
+		 * (in other Workers) once all their consumer Routers have at least
+		 * `maxConsumersPerRouter` Consumers, up to `maxConsumerRouters`. Each
+		 * Router of a Room is in a different Worker, so the pool cannot grow
+		 * beyond the number of Workers minus one (the producer Router's one).
+		 */
+		consumerRouterPool?: {
+			maxConsumersPerRouter: number;
+			maxConsumerRouters: number;
+		};
+	};
+	/**
+	 * Multi-host cascading. If set, every Room is linked with the Room with same
+	 * `roomId` in each remote node (another server process, maybe in another
+	 * host) so Peers in all nodes see each other. Media flows between nodes
+	 * through mediasoup PipeTransports listening on `pipeTransportListenInfo`
+	 * and inter-node requests are authenticated with `secret`.
+	 */
+	cascade?: {
+		nodeId: string;
+		secret: string;
+		nodes: CascadeNode[];
+		pipeTransportListenInfo: mediasoupTypes.TransportListenInfo;
 	};
 };
 
+export type CascadeNode = {
+	nodeId: string;
+	/**
+	 * Base URL of the HTTP API of the node (e.g. 'https://node2.foo.com:4443').
+	 */
+	url: string;
+};
+
+export type WebhookEndpoint = {
+	url: string;
+	secret: string;
+	/**
+	 * Events to deliver to this endpoint. All of them if unset.
+	 */
+	events?: WebhookEventName[];
+};
+
+export type WorkerPlacementStrategy =
+	| 'round-robin'
+	| 'least-rooms'
+	| 'least-consumers'
+	| 'lowest-cpu';
+
 export type RoomId = string;
 
 export type PeerId = string;
 
+export type PeerRole = 'moderator' | 'participant';
+
 export type PeerDevice = {
 	flag:
 		| 'chrome'
@@ -58,6 +169,7 @@ export type PeerDevice = {
 		| 'aiortc'
 		| 'ffmpeg'
 		| 'gstreamer'
+		| 'whip'
 		| 'unknown';
 	name: string;
 	version?: string;
@@ -65,21 +177,67 @@ export type PeerDevice = {
 
 export type SerializedServer = {
 	createdAt: Date;
+	draining: boolean;
+	drainDeadline?: Date;
 	numWorkers: number;
 	networkThrottleEnabled: boolean;
+	workerPlacementStrategy: WorkerPlacementStrategy;
+	workers: SerializedWorker[];
 	numRooms: number;
 	rooms: SerializedRoom[];
 };
 
+export type SerializedWorker = {
+	idx: number;
+	pid: number;
+	/**
+	 * Number of Routers in the Worker (a Room may have its producer and consumer
+	 * Routers in different Workers).
+	 */
+	numRouters: number;
+	numTransports: number;
+	numProducers: number;
+	numConsumers: number;
+	/**
+	 * CPU usage percentage as sampled by the Server periodically.
+	 */
+	cpuUsage: number;
+	/**
+	 * Memory (RSS) in bytes as sampled by the Server periodically.
+	 */
+	memory: number;
+};
+
 export type SerializedRoom = {
 	roomId: RoomId;
 	createdAt: Date;
 	numPeers: number;
 	numJoiningPeers: number;
+	numWaitingPeers: number;
 	peers: SerializedPeer[];
 	numBroadcasterPeers: number;
 	numJoiningBroadcasterPeers: number;
 	broadcasterPeers: SerializedPeer[];
+	locked: boolean;
+	lobby: boolean;
+	recording: boolean;
+	consumerRouters: {
+		routerId: string;
+		numConsumers: number;
+	}[];
+	numRemotePeers: number;
+	cascadeLinks: {
+		nodeId: string;
+		connected: boolean;
+	}[];
+};
+
+/**
+ * SerializedRoom with additional stats for the admin API.
+ */
+export type AdminSerializedRoom = SerializedRoom & {
+	numProducers: number;
+	numConsumers: number;
 };
 
 export type SerializedPeer = {
@@ -87,9 +245,76 @@ export type SerializedPeer = {
 	displayName: string;
 	device: PeerDevice;
 	remoteAddress: string;
+	// Unset in BroadcasterPeer.
+	role?: PeerRole;
+};
+
+export type WebhookEventPayload =
+	| {
+			event: 'room.created';
+	  }
+	| {
+			event: 'room.closed';
+	  }
+	| {
+			event: 'peer.joined';
+			data: { peer: SerializedPeer };
+	  }
+	| {
+			event: 'peer.left';
+			data: { peerId: PeerId };
+	  }
+	| {
+			event: 'producer.created';
+			data: {
+				peerId: PeerId;
+				producerId: string;
+				kind: mediasoupTypes.MediaKind;
+				source: Source;
+			};
+	  }
+	| {
+			event: 'producer.closed';
+			data: {
+				peerId: PeerId;
+				producerId: string;
+			};
+	  }
+	| {
+			event: 'broadcaster.joined';
+			data: { peer: SerializedPeer };
+	  };
+
+export type WebhookEventName = WebhookEventPayload['event'];
+
+/**
+ * Body of webhook requests.
+ */
+export type WebhookEvent = {
+	/**
+	 * Unique id of the event (same in every delivery attempt).
+	 */
+	id: string;
+	/**
+	 * Time (in milliseconds since Unix epoch) when the event happened.
+	 */
+	timestamp: number;
+	roomId: RoomId;
+} & WebhookEventPayload;
+
+export type AccessTokenAlgorithm = 'HS256' | 'RS256' | 'ES256';
+
+export type AccessTokenPayload = {
+	roomId: RoomId;
+	peerId: PeerId;
+	role: PeerRole;
+	/**
+	 * Expiration time in seconds since Unix epoch.
+	 */
+	exp: number;
 };
 
-export type ApiMethod = 'GET' | 'POST' | 'DELETE';
+export type ApiMethod = 'GET' | 'POST' | 'PATCH' | 'DELETE';
 
 export type ApiPath = (
 	| string
@@ -105,6 +330,15 @@ export type PlainTransportRemoteData = {
 	ip: string;
 	port: number;
 	rtcpPort?: number;
+	/**
+	 * Only if the PlainTransport was created with SCTP enabled.
+	 */
+	sctpParameters?: mediasoupTypes.SctpParameters;
+	/**
+	 * Only if the PlainTransport was created with SRTP enabled. Crypto suite
+	 * and key with which the PlainTransport encrypts the RTP and RTCP it sends.
+	 */
+	srtpParameters?: mediasoupTypes.SrtpParameters;
 };
 
 export type Source = 'audio' | 'video' | 'screensharing';
@@ -121,6 +355,16 @@ export type PeerProducersInfo = {
 	}[];
 };
 
+export type PeerDataProducersInfo = {
+	peerId: PeerId;
+	dataProducers: {
+		dataProducerId: string;
+		label: string;
+		protocol: string;
+		channel: Channel;
+	}[];
+};
+
 export type WorkerAppData = {
 	idx: number;
 };
@@ -0,0 +1,625 @@
+import * as crypto from 'node:crypto';
+import type * as mediasoupTypes from 'mediasoup/types';
+
+import { UnsupportedError } from './errors';
+
+type SdpAttribute = {
+	name: string;
+	value?: string;
+};
+
+type SdpMediaSection = {
+	kind: string;
+	port: number;
+	protocol: string;
+	formats: string[];
+	attributes: SdpAttribute[];
+};
+
+type SessionDescription = {
+	attributes: SdpAttribute[];
+	mediaSections: SdpMediaSection[];
+};
+
+/**
+ * What to do with each media section of a WHIP SDP offer.
+ */
+export type WhipMediaSection = {
+	mid: string;
+	kind: string;
+	/**
+	 * RtpParameters of the Producer to create. Unset if the media section is
+	 * rejected (nothing in it can be received).
+	 */
+	rtpParameters?: mediasoupTypes.RtpParameters;
+	/**
+	 * Formats in the offer, needed to reject the media section in the answer.
+	 */
+	offeredFormats: string[];
+};
+
+export type WhipOffer = {
+	iceUsernameFragment?: string;
+	/**
+	 * Remote DTLS parameters, to be given to `transport.connect()`.
+	 */
+	dtlsParameters: mediasoupTypes.DtlsParameters;
+	mediaSections: WhipMediaSection[];
+};
+
+/**
+ * Parses a WHIP SDP offer and, for each media section, computes the
+ * RtpParameters of the Producer to create by selecting the first offered
+ * codec supported by the Router (plus its RTX codec, RTCP feedback and header
+ * extensions supported by the Router).
+ *
+ * @throws {TypeError} If the SDP is not a valid WHIP offer.
+ */
+export function parseWhipOffer({
+	sdp,
+	routerRtpCapabilities,
+}: {
+	sdp: string;
+	routerRtpCapabilities: mediasoupTypes.RouterRtpCapabilities;
+}): WhipOffer {
+	const sessionDescription = parseSdp(sdp);
+
+	if (sessionDescription.mediaSections.length === 0) {
+		throw new TypeError('no media sections in SDP offer');
+	}
+
+	// NOTE: All media sections are assumed to be bundled in the same
+	// transport, so the first ICE and DTLS attributes are used.
+	const getAttributeValue = (name: string): string | undefined =>
+		[
+			...sessionDescription.attributes,
+			...sessionDescription.mediaSections.flatMap(
+				mediaSection => mediaSection.attributes
+			),
+		].find(attribute => attribute.name === name)?.value;
+
+	const fingerprint = getAttributeValue('fingerprint');
+
+	if (!fingerprint) {
+		throw new TypeError('no DTLS fingerprint in SDP offer');
+	}
+
+	const [algorithm, value] = fingerprint.split(' ');
+
+	return {
+		iceUsernameFragment: getAttributeValue('ice-ufrag'),
+		dtlsParameters: {
+			// NOTE: If the remote endpoint is passive it must be the DTLS server.
+			role: getAttributeValue('setup') === 'passive' ? 'server' : 'client',
+			fingerprints: [
+				{
+					algorithm:
+						algorithm!.toLowerCase() as mediasoupTypes.FingerprintAlgorithm,
+					value: value ?? '',
+				},
+			],
+		},
+		mediaSections: sessionDescription.mediaSections.map((mediaSection, idx) =>
+			getWhipMediaSection({
+				mediaSection,
+				defaultMid: String(idx),
+				routerRtpCapabilities,
+			})
+		),
+	};
+}
+
+/**
+ * Creates the SDP answer to a WHIP offer. The answer is ICE-Lite and sets up
+ * every accepted media section as `recvonly` in the given transport.
+ */
+export function createWhipAnswer({
+	offer,
+	iceParameters,
+	iceCandidates,
+	dtlsParameters,
+}: {
+	offer: WhipOffer;
+	iceParameters: mediasoupTypes.IceParameters;
+	iceCandidates: mediasoupTypes.IceCandidate[];
+	dtlsParameters: mediasoupTypes.DtlsParameters;
+}): string {
+	const acceptedMids = offer.mediaSections
+		.filter(({ rtpParameters }) => rtpParameters)
+		.map(({ mid }) => mid);
+	const fingerprint = dtlsParameters.fingerprints.find(
+		({ algorithm }) => algorithm === 'sha-256'
+	);
+	const lines: string[] = [
+		'v=0',
+		`o=mediasoup-demo ${crypto.randomInt(2 ** 47)} 1 IN IP4 0.0.0.0`,
+		's=-',
+		't=0 0',
+		'a=ice-lite',
+		`a=group:BUNDLE ${acceptedMids.join(' ')}`,
+	];
+
+	for (const {
+		mid,
+		kind,
+		rtpParameters,
+		offeredFormats,
+	} of offer.mediaSections) {
+		if (!rtpParameters) {
+			lines.push(
+				`m=${kind} 0 UDP/TLS/RTP/SAVPF ${offeredFormats.join(' ')}`,
+				'c=IN IP4 0.0.0.0',
+				`a=mid:${mid}`,
+				'a=inactive'
+			);
+
+			continue;
+		}
+
+		lines.push(
+			`m=${kind} 9 UDP/TLS/RTP/SAVPF ${rtpParameters.codecs.map(({ payloadType }) => payloadType).join(' ')}`,
+			'c=IN IP4 0.0.0.0',
+			`a=mid:${mid}`,
+			'a=recvonly',
+			`a=ice-ufrag:${iceParameters.usernameFragment}`,
+			`a=ice-pwd:${iceParameters.password}`,
+			// NOTE: If the remote endpoint is the DTLS client we are passive.
+			`a=setup:${offer.dtlsParameters.role === 'client' ? 'passive' : 'active'}`
+		);
+
+		if (fingerprint) {
+			lines.push(`a=fingerprint:${fingerprint.algorithm} ${fingerprint.value}`);
+		}
+
+		lines.push('a=rtcp-mux');
+
+		if (rtpParameters.rtcp?.reducedSize) {
+			lines.push('a=rtcp-rsize');
+		}
+
+		for (const { uri, id } of rtpParameters.headerExtensions ?? []) {
+			lines.push(`a=extmap:${id} ${uri}`);
+		}
+
+		for (const codec of rtpParameters.codecs) {
+			const [, codecName] = codec.mimeType.split('/');
+
+			lines.push(
+				`a=rtpmap:${codec.payloadType} ${codecName}/${codec.clockRate}${codec.channels ? `/${codec.channels}` : ''}`
+			);
+
+			const parameters = Object.entries(codec.parameters ?? {});
+
+			if (parameters.length > 0) {
+				lines.push(
+					`a=fmtp:${codec.payloadType} ${parameters.map(([key, value]) => `${key}=${value}`).join(';')}`
+				);
+			}
+
+			for (const { type, parameter } of codec.rtcpFeedback ?? []) {
+				lines.push(
+					`a=rtcp-fb:${codec.payloadType} ${type}${parameter ? ` ${parameter}` : ''}`
+				);
+			}
+		}
+
+		const rids = rtpParameters.encodings
+			?.map(({ rid }) => rid)
+			.filter((rid): rid is string => Boolean(rid));
+
+		if (rids && rids.length > 0) {
+			for (const rid of rids) {
+				lines.push(`a=rid:${rid} recv`);
+			}
+
+			lines.push(`a=simulcast:recv ${rids.join(';')}`);
+		}
+
+		for (const iceCandidate of iceCandidates) {
+			lines.push(getCandidateLine(iceCandidate));
+		}
+
+		lines.push('a=end-of-candidates');
+	}
+
+	return `${lines.join('\r\n')}\r\n`;
+}
+
+/**
+ * Parses the ICE username fragment and password in a trickle ICE SDP fragment
+ * (RFC 8840) sent by a WHIP client.
+ */
+export function parseWhipSdpFragment(sdpFragment: string): {
+	iceUsernameFragment?: string;
+	icePassword?: string;
+} {
+	const { attributes, mediaSections } = parseSdp(sdpFragment);
+	const allAttributes = [
+		...attributes,
+		...mediaSections.flatMap(mediaSection => mediaSection.attributes),
+	];
+
+	return {
+		iceUsernameFragment: allAttributes.find(({ name }) => name === 'ice-ufrag')
+			?.value,
+		icePassword: allAttributes.find(({ name }) => name === 'ice-pwd')?.value,
+	};
+}
+
+/**
+ * Creates the trickle ICE SDP fragment with new ICE parameters and candidates
+ * to answer a WHIP ICE restart.
+ */
+export function createWhipSdpFragment({
+	iceParameters,
+	iceCandidates,
+}: {
+	iceParameters: mediasoupTypes.IceParameters;
+	iceCandidates: mediasoupTypes.IceCandidate[];
+}): string {
+	const lines: string[] = [
+		'a=ice-lite',
+		`a=ice-ufrag:${iceParameters.usernameFragment}`,
+		`a=ice-pwd:${iceParameters.password}`,
+	];
+
+	for (const iceCandidate of iceCandidates) {
+		lines.push(getCandidateLine(iceCandidate));
+	}
+
+	lines.push('a=end-of-candidates');
+
+	return `${lines.join('\r\n')}\r\n`;
+}
+
+function getCandidateLine(iceCandidate: mediasoupTypes.IceCandidate): string {
+	const { foundation, protocol, priority, address, port, type, tcpType } =
+		iceCandidate;
+
+	return `a=candidate:${foundation} 1 ${protocol} ${priority} ${address} ${port} typ ${type}${tcpType ? ` tcptype ${tcpType}` : ''}`;
+}
+
+function parseSdp(sdp: string): SessionDescription {
+	const sessionDescription: SessionDescription = {
+		attributes: [],
+		mediaSections: [],
+	};
+
+	for (const line of sdp.split(/\r?\n/)) {
+		const type = line[0];
+		const value = line.slice(2);
+
+		if (line[1] !== '=') {
+			continue;
+		}
+
+		switch (type) {
+			case 'm': {
+				const [kind, port, protocol, ...formats] = value.split(' ');
+
+				sessionDescription.mediaSections.push({
+					kind: kind!,
+					port: Number(port),
+					protocol: protocol ?? '',
+					formats,
+					attributes: [],
+				});
+
+				break;
+			}
+
+			case 'a': {
+				const separatorIdx = value.indexOf(':');
+				const attribute: SdpAttribute =
+					separatorIdx === -1
+						? { name: value }
+						: {
+								name: value.slice(0, separatorIdx),
+								value: value.slice(separatorIdx + 1),
+							};
+				const currentMediaSection = sessionDescription.mediaSections.at(-1);
+
+				(currentMediaSection ?? sessionDescription).attributes.push(attribute);
+
+				break;
+			}
+
+			default: {
+				// Other lines are not needed.
+			}
+		}
+	}
+
+	return sessionDescription;
+}
+
+function getWhipMediaSection({
+	mediaSection,
+	defaultMid,
+	routerRtpCapabilities,
+}: {
+	mediaSection: SdpMediaSection;
+	defaultMid: string;
+	routerRtpCapabilities: mediasoupTypes.RouterRtpCapabilities;
+}): WhipMediaSection {
+	const { kind, port, formats, attributes } = mediaSection;
+	const getAttributeValues = (name: string): string[] =>
+		attributes
+			.filter(attribute => attribute.name === name)
+			.map(attribute => attribute.value ?? '');
+	const mid = getAttributeValues('mid')[0] ?? defaultMid;
+	const whipMediaSection: WhipMediaSection = {
+		mid,
+		kind,
+		offeredFormats: formats,
+	};
+
+	if (
+		(kind !== 'audio' && kind !== 'video') ||
+		port === 0 ||
+		getAttributeValues('recvonly').length > 0 ||
+		getAttributeValues('inactive').length > 0
+	) {
+		return whipMediaSection;
+	}
+
+	const offeredCodecs = formats.map(format =>
+		getOfferedCodec({ kind, payloadType: Number(format), getAttributeValues })
+	);
+
+	let codec: mediasoupTypes.RtpCodecParameters | undefined;
+	let capabilityCodec: mediasoupTypes.RouterRtpCodecCapability | undefined;
+
+	for (const offeredCodec of offeredCodecs) {
+		// NOTE: RTX is added below for the selected codec.
+		if (
+			!offeredCodec ||
+			offeredCodec.mimeType.toLowerCase() === `${kind}/rtx`
+		) {
+			continue;
+		}
+
+		capabilityCodec = routerRtpCapabilities.codecs?.find(
+			routerCodec =>
+				routerCodec.kind === kind && matchCodecs(routerCodec, offeredCodec)
+		);
+
+		if (capabilityCodec) {
+			codec = offeredCodec;
+
+			break;
+		}
+	}
+
+	if (!codec || !capabilityCodec) {
+		return whipMediaSection;
+	}
+
+	codec.rtcpFeedback = codec.rtcpFeedback?.filter(({ type, parameter }) =>
+		capabilityCodec.rtcpFeedback?.some(
+			fb => fb.type === type && (fb.parameter ?? '') === (parameter ?? '')
+		)
+	);
+
+	const codecs = [codec];
+	const rtxCodec = offeredCodecs.find(
+		offeredCodec =>
+			offeredCodec?.mimeType.toLowerCase() === `${kind}/rtx` &&
+			Number(offeredCodec.parameters?.['apt']) === codec.payloadType
+	);
+
+	if (
+		rtxCodec &&
+		routerRtpCapabilities.codecs?.some(
+			routerCodec => routerCodec.mimeType.toLowerCase() === `${kind}/rtx`
+		)
+	) {
+		rtxCodec.rtcpFeedback = [];
+
+		codecs.push(rtxCodec);
+	}
+
+	const headerExtensions: mediasoupTypes.RtpHeaderExtensionParameters[] = [];
+
+	for (const extmap of getAttributeValues('extmap')) {
+		const [idAndDirection, uri] = extmap.split(' ');
+		const id = Number(idAndDirection!.split('/')[0]);
+
+		if (
+			routerRtpCapabilities.headerExtensions?.some(
+				headerExtension =>
+					headerExtension.kind === kind && headerExtension.uri === uri
+			)
+		) {
+			headerExtensions.push({
+				uri: uri as mediasoupTypes.RtpHeaderExtensionUri,
+				id,
+			});
+		}
+	}
+
+	whipMediaSection.rtpParameters = {
+		mid,
+		codecs,
+		headerExtensions,
+		encodings: getEncodings({ getAttributeValues, hasRtx: codecs.length > 1 }),
+		rtcp: {
+			cname: getAttributeValues('ssrc')
+				.map(ssrc => /^\d+ cname:(.+)$/.exec(ssrc)?.[1])
+				.find(Boolean),
+			reducedSize: getAttributeValues('rtcp-rsize').length > 0,
+		},
+	};
+
+	return whipMediaSection;
+}
+
+function getOfferedCodec({
+	kind,
+	payloadType,
+	getAttributeValues,
+}: {
+	kind: 'audio' | 'video';
+	payloadType: number;
+	getAttributeValues: (name: string) => string[];
+}): mediasoupTypes.RtpCodecParameters | undefined {
+	const rtpmap = getAttributeValues('rtpmap').find(value =>
+		value.startsWith(`${payloadType} `)
+	);
+
+	if (!rtpmap) {
+		return undefined;
+	}
+
+	const [name, clockRate, channels] = rtpmap.split(' ')[1]!.split('/');
+	const fmtp = getAttributeValues('fmtp').find(value =>
+		value.startsWith(`${payloadType} `)
+	);
+	const parameters: Record<string, string | number> = {};
+
+	for (const parameter of fmtp?.slice(fmtp.indexOf(' ') + 1).split(';') ?? []) {
+		const [key, value] = parameter.trim().split('=');
+
+		if (!key || value === undefined) {
+			continue;
+		}
+
+		// NOTE: Numeric values must be numbers for mediasoup, but H264
+		// 'profile-level-id' is hexadecimal.
+		parameters[key] =
+			key !== 'profile-level-id' && /^\d+$/.test(value) ? Number(value) : value;
+	}
+
+	const rtcpFeedback = getAttributeValues('rtcp-fb')
+		.filter(
+			value => value.startsWith(`${payloadType} `) || value.startsWith('* ')
+		)
+		.map(value => {
+			const [, type, parameter] = value.split(' ');
+
+			return { type: type!, parameter };
+		});
+
+	return {
+		mimeType: `${kind}/${name}`,
+		payloadType,
+		clockRate: Number(clockRate),
+		channels: kind === 'audio' ? Number(channels ?? 1) : undefined,
+		parameters,
+		rtcpFeedback,
+	};
+}
+
+/**
+ * Whether the Router can receive the offered codec. For H264 the packetization
+ * mode and the profile must match.
+ */
+function matchCodecs(
+	routerCodec: mediasoupTypes.RouterRtpCodecCapability,
+	offeredCodec: mediasoupTypes.RtpCodecParameters
+): boolean {
+	if (
+		routerCodec.mimeType.toLowerCase() !==
+			offeredCodec.mimeType.toLowerCase() ||
+		routerCodec.clockRate !== offeredCodec.clockRate ||
+		(routerCodec.kind === 'audio' &&
+			(routerCodec.channels ?? 1) !== offeredCodec.channels)
+	) {
+		return false;
+	}
+
+	if (routerCodec.mimeType.toLowerCase() === 'video/h264') {
+		const routerParameters = routerCodec.parameters ?? {};
+		const offeredParameters = offeredCodec.parameters ?? {};
+
+		return (
+			Number(routerParameters['packetization-mode'] ?? 0) ===
+				Number(offeredParameters['packetization-mode'] ?? 0) &&
+			getH264Profile(routerParameters['profile-level-id']) ===
+				getH264Profile(offeredParameters['profile-level-id'])
+		);
+	}
+
+	return true;
+}
+
+/**
+ * Gets the H264 profile in the given 'profile-level-id' (RFC 6184).
+ */
+function getH264Profile(profileLevelId: unknown = '42e01f'): string {
+	const profileIdc = parseInt(String(profileLevelId).slice(0, 2), 16);
+	const profileIop = parseInt(String(profileLevelId).slice(2, 4), 16);
+
+	switch (profileIdc) {
+		case 0x42: {
+			return profileIop & 0x40 ? 'constrained-baseline' : 'baseline';
+		}
+
+		case 0x4d: {
+			return profileIop & 0x80 ? 'constrained-baseline' : 'main';
+		}
+
+		case 0x58: {
+			return (profileIop & 0xc0) === 0xc0
+				? 'constrained-baseline'
+				: profileIop & 0x80
+					? 'baseline'
+					: 'extended';
+		}
+
+		case 0x64: {
+			return (profileIop & 0x0c) === 0x0c ? 'constrained-high' : 'high';
+		}
+
+		default: {
+			return String(profileIdc);
+		}
+	}
+}
+
+/**
+ * Gets the encodings in a media section, either simulcast ones (by RID) or a
+ * single one by SSRC (and RTX SSRC).
+ */
+function getEncodings({
+	getAttributeValues,
+	hasRtx,
+}: {
+	getAttributeValues: (name: string) => string[];
+	hasRtx: boolean;
+}): mediasoupTypes.RtpEncodingParameters[] {
+	const simulcast = getAttributeValues('simulcast')[0];
+
+	if (simulcast) {
+		const [direction, rids] = simulcast.split(' ');
+
+		if (direction !== 'send' || !rids) {
+			throw new UnsupportedError('unsupported simulcast in SDP offer');
+		}
+
+		// NOTE: Alternative RIDs (separated by comma) are not supported so just
+		// the first one is taken.
+		return rids
+			.split(';')
+			.map(alternatives => ({ rid: alternatives.split(',')[0]!.trim() }));
+	}
+
+	const fidSsrcGroup = getAttributeValues('ssrc-group')
+		.find(value => value.startsWith('FID '))
+		?.split(' ')
+		.slice(1)
+		.map(Number);
+
+	if (fidSsrcGroup) {
+		return [
+			{
+				ssrc: fidSsrcGroup[0],
+				rtx: hasRtx && fidSsrcGroup[1] ? { ssrc: fidSsrcGroup[1] } : undefined,
+			},
+		];
+	}
+
+	const ssrc = getAttributeValues('ssrc')[0]?.split(' ')[0];
+
+	return [{ ssrc: ssrc ? Number(ssrc) : undefined }];
+}